@@ -0,0 +1,308 @@
+import { mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import type { RequestEvent, ResponseEvent } from "../types.js";
+import type { ReplayedResponse } from "./client.js";
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  dir: string;
+  strict?: boolean | undefined;
+}
+
+export interface CassetteEntry {
+  request: RequestEvent;
+  response: ResponseEvent;
+}
+
+const CASSETTE_SCHEMA_VERSION = 1;
+const CASSETTE_FILE_PATTERN = /^(\d+)-.*\.json$/;
+const REDACTED = "<redacted>";
+const SENSITIVE_KEYS = new Set([
+  "token",
+  "accesstoken",
+  "authtoken",
+  "refreshtoken",
+  "authorization",
+  "mobile",
+  "phone",
+  "phoneraw",
+  "sendobj"
+]);
+// Fields that change on every run and must not take part in replay matching.
+const VOLATILE_KEYS = new Set(["confirmorderkey"]);
+// Recent exchanges kept for late retry responses; retries follow their first attempt closely.
+const RETRY_WINDOW_EXCHANGES = 64;
+
+export class CassetteRecorder {
+  private seq: number;
+  // Keyed by requestId, so concurrent requests to the same URL keep their own responses.
+  private readonly pending = new Map<number, RequestEvent>();
+  private readonly lastWritten = new Map<number, { file: string; request: RequestEvent }>();
+  private writes: Promise<void> = Promise.resolve();
+  private failures = 0;
+
+  private constructor(
+    readonly dir: string,
+    startSeq: number
+  ) {
+    this.seq = startSeq;
+  }
+
+  static async open(dir: string): Promise<CassetteRecorder> {
+    await mkdir(dir, { recursive: true });
+    const existing = await listCassetteFiles(dir);
+    const maxSeq = existing.reduce((max, name) => Math.max(max, cassetteFileSeq(name)), 0);
+    return new CassetteRecorder(dir, maxSeq);
+  }
+
+  get failedWrites(): number {
+    return this.failures;
+  }
+
+  onRequest(event: RequestEvent): void {
+    this.pending.set(event.requestId, event);
+  }
+
+  onResponse(event: ResponseEvent): void {
+    const request = this.pending.get(event.requestId);
+    if (request) {
+      this.pending.delete(event.requestId);
+      this.seq += 1;
+      const file = join(this.dir, cassetteFileName(this.seq, event.method, event.url));
+      this.lastWritten.set(event.requestId, { file, request });
+      for (const oldest of this.lastWritten.keys()) {
+        if (this.lastWritten.size <= RETRY_WINDOW_EXCHANGES) {
+          break;
+        }
+        this.lastWritten.delete(oldest);
+      }
+      this.enqueueWrite(file, { request, response: event });
+      return;
+    }
+    // A second response to the same request is a client retry; keep the final attempt.
+    const previous = this.lastWritten.get(event.requestId);
+    if (previous) {
+      this.enqueueWrite(previous.file, { request: previous.request, response: event });
+    }
+  }
+
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  private enqueueWrite(file: string, entry: CassetteEntry): void {
+    const payload = {
+      schemaVersion: CASSETTE_SCHEMA_VERSION,
+      request: redactCassetteValue(entry.request),
+      response: redactCassetteValue(entry.response)
+    };
+    this.writes = this.writes.then(async () => {
+      try {
+        const tempFile = `${file}.tmp-${process.pid}-${Date.now()}`;
+        await writeFile(tempFile, JSON.stringify(payload, null, 2), {
+          encoding: "utf8",
+          mode: 0o600
+        });
+        await rename(tempFile, file);
+      } catch {
+        this.failures += 1;
+      }
+    });
+  }
+}
+
+export class CassettePlayer {
+  private readonly queues = new Map<string, CassetteEntry[]>();
+  private readonly lastServed = new Map<string, CassetteEntry>();
+  private readonly misses: string[] = [];
+
+  constructor(
+    entries: CassetteEntry[],
+    readonly strict: boolean
+  ) {
+    for (const entry of entries) {
+      const key = cassetteMatchKey(entry.request.method, entry.request.url, entry.request.payload);
+      const queue = this.queues.get(key) ?? [];
+      queue.push(entry);
+      this.queues.set(key, queue);
+    }
+  }
+
+  static async load(dir: string, strict: boolean): Promise<CassettePlayer> {
+    return new CassettePlayer(await loadCassetteEntries(dir), strict);
+  }
+
+  get size(): number {
+    let total = 0;
+    for (const queue of this.queues.values()) {
+      total += queue.length;
+    }
+    return total;
+  }
+
+  get unmatched(): string[] {
+    return [...this.misses];
+  }
+
+  resolve(event: RequestEvent): ReplayedResponse | undefined {
+    const key = cassetteMatchKey(event.method, event.url, event.payload);
+    // Serve recorded exchanges in order; repeat the last one once exhausted (polling).
+    const entry = this.queues.get(key)?.shift() ?? this.lastServed.get(key);
+    if (entry) {
+      this.lastServed.set(key, entry);
+      return {
+        status: entry.response.status,
+        body: structuredClone(entry.response.body)
+      };
+    }
+
+    const label = `${event.method} ${urlPath(event.url)}`;
+    this.misses.push(label);
+    if (!this.strict) {
+      return undefined;
+    }
+    return {
+      status: 0,
+      body: {
+        errcode: "REPLAY_UNMATCHED",
+        errmsg: `No recorded response for ${label} (strict replay).`
+      }
+    };
+  }
+}
+
+export async function loadCassetteEntries(dir: string): Promise<CassetteEntry[]> {
+  const files = await listCassetteFiles(dir);
+  files.sort((a, b) => cassetteFileSeq(a) - cassetteFileSeq(b));
+  const entries: CassetteEntry[] = [];
+  for (const name of files) {
+    try {
+      const parsed = JSON.parse(await readFile(join(dir, name), "utf8")) as unknown;
+      const entry = normalizeCassetteEntry(parsed);
+      if (entry) {
+        entries.push(entry);
+      }
+    } catch {
+      // Skip unreadable files so one bad entry does not void a cassette.
+    }
+  }
+  return entries;
+}
+
+export function cassetteMatchKey(method: string, url: string, body: unknown): string {
+  const normalized = body === undefined ? "" : JSON.stringify(normalizeForMatch(body));
+  return `${method.toUpperCase()} ${urlPath(url)} ${normalized}`;
+}
+
+export function redactCassetteValue<T>(value: T): T {
+  return redactValue(value) as T;
+}
+
+function normalizeForMatch(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeForMatch(item));
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  const out: Record<string, unknown> = {};
+  for (const key of Object.keys(value as Record<string, unknown>).sort()) {
+    const normalizedKey = key.toLowerCase();
+    if (VOLATILE_KEYS.has(normalizedKey)) {
+      continue;
+    }
+    const child = (value as Record<string, unknown>)[key];
+    if (child === undefined) {
+      continue;
+    }
+    out[key] = SENSITIVE_KEYS.has(normalizedKey) ? REDACTED : normalizeForMatch(child);
+  }
+  return out;
+}
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item));
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  const out: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    out[key] =
+      SENSITIVE_KEYS.has(key.toLowerCase()) && child !== null && child !== ""
+        ? REDACTED
+        : redactValue(child);
+  }
+  return out;
+}
+
+function normalizeCassetteEntry(value: unknown): CassetteEntry | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const obj = value as Record<string, unknown>;
+  const request = obj.request as Record<string, unknown> | undefined;
+  const response = obj.response as Record<string, unknown> | undefined;
+  if (!request || typeof request !== "object" || !response || typeof response !== "object") {
+    return undefined;
+  }
+  const method = typeof request.method === "string" ? request.method : undefined;
+  const url = typeof request.url === "string" ? request.url : undefined;
+  if (!method || !url) {
+    return undefined;
+  }
+  // Files recorded before request ids existed read as 0; replay does not use the id.
+  const requestId = typeof request.requestId === "number" ? request.requestId : 0;
+  return {
+    request: {
+      requestId,
+      ts: typeof request.ts === "string" ? request.ts : "",
+      method,
+      url,
+      payload: request.payload
+    },
+    response: {
+      requestId,
+      ts: typeof response.ts === "string" ? response.ts : "",
+      method,
+      url,
+      status: typeof response.status === "number" ? response.status : 200,
+      elapsedMs: typeof response.elapsedMs === "number" ? response.elapsedMs : 0,
+      body: response.body
+    }
+  };
+}
+
+async function listCassetteFiles(dir: string): Promise<string[]> {
+  try {
+    const names = await readdir(dir);
+    return names.filter((name) => CASSETTE_FILE_PATTERN.test(name));
+  } catch {
+    return [];
+  }
+}
+
+function cassetteFileSeq(name: string): number {
+  const match = CASSETTE_FILE_PATTERN.exec(name);
+  return match?.[1] ? Number(match[1]) : 0;
+}
+
+function cassetteFileName(seq: number, method: string, url: string): string {
+  const slug = urlPath(url)
+    .replace(/^\/+/, "")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .slice(0, 80);
+  return `${String(seq).padStart(4, "0")}-${method.toUpperCase()}-${slug || "root"}.json`;
+}
+
+function urlPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url.split("?")[0] ?? url;
+  }
+}
@@ -30,12 +30,40 @@ const RETRYABLE_POST_PATH_PREFIXES = [
   "/api/navigation/goods/detail",
   "/api/navigation/goods/shoppingCart/get",
   "/api/navigation/payment/payResultList",
-  "/api/navigation/order/price"
+  "/api/navigation/order/price",
+  "/api/navigation/coupon/list"
 ];
+const AUTH_FAILURE_ERRCODES = new Set(["401"]);
+// Only phrases that mean the session itself is gone; other errors that merely mention logging in
+// (e.g. "登录后领取", claim after login) are ordinary failures.
+const AUTH_FAILURE_MESSAGE_PATTERN =
+  /unauthori[sz]ed|(token|session)\b.*\b(expired|invalid)|not logged in|login (required|expired)|please (log ?in again|re-?log ?in)|登录(已)?(过期|失效|超时)|请重新登录|未登录|(token|令牌)(已)?(过期|失效)/i;
+// Endpoints that take credentials rather than a session; their failures are not expiry.
+const LOGIN_PATH_PREFIXES = [
+  "/api/user-client/customer/sendVerifyCode",
+  "/api/user-client/customer/loginOrRegister",
+  "/api/user-client/common/login"
+];
+
+export interface ReplayedResponse {
+  status: number;
+  body: unknown;
+}
 
 export interface ApiHooks {
   onRequest?: (event: RequestEvent) => void;
   onResponse?: (event: ResponseEvent) => void;
+  // Returning a response short-circuits the network call (cassette replay).
+  resolveReplay?: (event: RequestEvent) => ReplayedResponse | undefined;
+  // Called when a request sent with a token is rejected as unauthenticated. Resolving to a
+  // new token retries the request once with it.
+  onAuthFailure?: (event: AuthFailureEvent) => Promise<string | undefined>;
+}
+
+export interface AuthFailureEvent {
+  method: string;
+  path: string;
+  envelope: ApiEnvelope;
 }
 
 export interface RequestOptions {
@@ -43,6 +71,8 @@ export interface RequestOptions {
 }
 
 export class ChageeClient {
+  private lastRequestId = 0;
+
   constructor(
     private readonly getToken: () => string | undefined,
     private readonly getRegion: () => RegionProfile,
@@ -95,6 +125,7 @@ export class ChageeClient {
     pageSize?: number;
     isTakeaway?: boolean;
     channelCode?: string;
+    deliveryType?: number | undefined;
   }): Promise<ApiEnvelope> {
     const region = this.getRegion();
     return this.post("/api/navigation/store/list", {
@@ -104,7 +135,8 @@ export class ChageeClient {
       pageSize: params.pageSize ?? 20,
       channelCode: params.channelCode ?? region.channelCode,
       userId: params.userId ?? "",
-      isTakeaway: params.isTakeaway ?? region.isTakeaway
+      isTakeaway: params.isTakeaway ?? region.isTakeaway,
+      ...(params.deliveryType !== undefined ? { deliveryType: params.deliveryType } : {})
     });
   }
 
@@ -123,12 +155,14 @@ export class ChageeClient {
     storeNo: string;
     saleType?: number;
     saleChannel?: number;
+    deliveryType?: number | undefined;
   }): Promise<ApiEnvelope> {
     const region = this.getRegion();
     return this.post("/api/navigation/goods/storeGoodsMenu", {
       storeNo: params.storeNo,
       saleType: String(params.saleType ?? region.saleType),
-      saleChannel: String(params.saleChannel ?? region.saleChannel)
+      saleChannel: String(params.saleChannel ?? region.saleChannel),
+      ...(params.deliveryType !== undefined ? { deliveryType: String(params.deliveryType) } : {})
     });
   }
 
@@ -182,6 +216,20 @@ export class ChageeClient {
     });
   }
 
+  async listCoupons(params: {
+    userId: string;
+    storeNo?: string | undefined;
+    saleChannel?: number;
+  }): Promise<ApiEnvelope> {
+    const region = this.getRegion();
+    return this.post("/api/navigation/coupon/list", {
+      userId: params.userId,
+      storeNo: params.storeNo ?? "",
+      saleChannel: params.saleChannel ?? region.saleChannel,
+      businessType: region.businessType
+    });
+  }
+
   async orderPrice(payload: Record<string, unknown>): Promise<ApiEnvelope> {
     return this.post("/api/navigation/order/price", payload);
   }
@@ -229,12 +277,38 @@ export class ChageeClient {
     method: "GET" | "POST",
     path: string,
     body?: unknown,
+    options?: RequestOptions,
+    retriedAuth = false
+  ): Promise<ApiEnvelope> {
+    const token = this.getToken();
+    const envelope = await this.send(method, path, token, body, options);
+    const onAuthFailure = this.hooks?.onAuthFailure;
+    if (
+      retriedAuth ||
+      !token ||
+      !onAuthFailure ||
+      LOGIN_PATH_PREFIXES.some((prefix) => path.startsWith(prefix)) ||
+      !isAuthFailure(envelope)
+    ) {
+      return envelope;
+    }
+    const refreshed = await onAuthFailure({ method, path, envelope });
+    if (!refreshed || refreshed === token) {
+      return envelope;
+    }
+    return this.request(method, path, body, options, true);
+  }
+
+  private async send(
+    method: "GET" | "POST",
+    path: string,
+    token: string | undefined,
+    body?: unknown,
     options?: RequestOptions
   ): Promise<ApiEnvelope> {
     const region = this.getRegion();
     const baseUrl = options?.baseUrl ?? region.apiBase;
     const url = path.startsWith("http") ? path : `${baseUrl}${path}`;
-    const token = this.getToken();
 
     const headers = buildHeaders(region, token);
 
@@ -242,12 +316,30 @@ export class ChageeClient {
       headers["content-type"] = "application/json";
     }
 
-    this.hooks?.onRequest?.({
+    this.lastRequestId += 1;
+    const requestId = this.lastRequestId;
+    const requestEvent: RequestEvent = {
+      requestId,
       ts: new Date().toISOString(),
       method,
       url,
       payload: body
-    });
+    };
+    this.hooks?.onRequest?.(requestEvent);
+
+    const replayed = this.hooks?.resolveReplay?.(requestEvent);
+    if (replayed) {
+      this.hooks?.onResponse?.({
+          requestId,
+        ts: new Date().toISOString(),
+        method,
+        url,
+        status: replayed.status,
+        elapsedMs: 0,
+        body: replayed.body
+      });
+      return normalizeEnvelope(replayed.body, replayed.status);
+    }
 
     const requestInit: RequestInit = { method, headers };
     if (method === "POST" && body !== undefined) {
@@ -266,6 +358,7 @@ export class ChageeClient {
         const parsed = await parseResponseBody(response);
 
         this.hooks?.onResponse?.({
+          requestId,
           ts: new Date().toISOString(),
           method,
           url,
@@ -291,6 +384,7 @@ export class ChageeClient {
         lastFailure = failure;
 
         this.hooks?.onResponse?.({
+          requestId,
           ts: new Date().toISOString(),
           method,
           url,
@@ -423,6 +517,17 @@ export function isApiOk(envelope: ApiEnvelope): boolean {
   return String(envelope.errcode ?? "") === "0";
 }
 
+// The session token was rejected: expired, revoked or never valid.
+export function isAuthFailure(envelope: ApiEnvelope): boolean {
+  if (isApiOk(envelope)) {
+    return false;
+  }
+  if (AUTH_FAILURE_ERRCODES.has(String(envelope.errcode ?? ""))) {
+    return true;
+  }
+  return typeof envelope.errmsg === "string" && AUTH_FAILURE_MESSAGE_PATTERN.test(envelope.errmsg);
+}
+
 export function envelopeData<T = unknown>(envelope: ApiEnvelope): T | undefined {
   return envelope.data as T | undefined;
 }
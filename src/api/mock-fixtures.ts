@@ -0,0 +1,220 @@
+export interface MockStoreFixture {
+  storeNo: string;
+  storeName: string;
+  latitude: number;
+  longitude: number;
+  waitingCups: number;
+  waitingTime: number;
+  deliveryTime: string;
+  runningStatusDesc: string;
+  priceDelta: number;
+  soldOutSpuIds: string[];
+}
+
+export interface MockSkuFixture {
+  skuId: string;
+  name: string;
+  price: number;
+  spec?: { specId: string; specOptionId: string; specOptionName: string } | undefined;
+}
+
+export interface MockAttributeGroupFixture {
+  name: string;
+  options: Array<{ attributeOptionId: string; name: string; defaulted?: boolean }>;
+}
+
+export interface MockGoodsFixture {
+  spuId: string;
+  name: string;
+  categoryId: string;
+  skus: MockSkuFixture[];
+  attributes: MockAttributeGroupFixture[];
+}
+
+export interface MockVoucherFixture {
+  couponId: string;
+  couponCode: string;
+  couponName: string;
+  discountAmount: number;
+  minAmount: number;
+  endTime: string;
+}
+
+export interface MockCategoryFixture {
+  categoryId: string;
+  categoryName: string;
+}
+
+export const MOCK_USER_ID = "mock-user-0001";
+export const MOCK_PHONE = "+6590000000";
+export const MOCK_APP_ID = "mock-app";
+export const MOCK_DELIVERY_TYPE = 2;
+export const MOCK_DELIVERY_FEE = 3;
+
+export const MOCK_STORES: MockStoreFixture[] = [
+  {
+    storeNo: "SGM001",
+    storeName: "CHAGEE Mock Orchard",
+    latitude: 1.3048,
+    longitude: 103.8318,
+    waitingCups: 4,
+    waitingTime: 6,
+    deliveryTime: "25-35 min",
+    runningStatusDesc: "Open",
+    priceDelta: 0,
+    soldOutSpuIds: []
+  },
+  {
+    storeNo: "SGM002",
+    storeName: "CHAGEE Mock Raffles Place",
+    latitude: 1.284,
+    longitude: 103.8515,
+    waitingCups: 18,
+    waitingTime: 22,
+    deliveryTime: "35-45 min",
+    runningStatusDesc: "Open",
+    priceDelta: 0.2,
+    soldOutSpuIds: ["900102"]
+  },
+  {
+    storeNo: "SGM003",
+    storeName: "CHAGEE Mock Jurong East",
+    latitude: 1.3331,
+    longitude: 103.7422,
+    waitingCups: 0,
+    waitingTime: 0,
+    deliveryTime: "",
+    runningStatusDesc: "Closed",
+    priceDelta: 0,
+    soldOutSpuIds: ["900102"]
+  }
+];
+
+export const MOCK_CATEGORIES: MockCategoryFixture[] = [
+  { categoryId: "cat-milk-tea", categoryName: "Milk Tea" },
+  { categoryId: "cat-fresh-brew", categoryName: "Fresh Brew" }
+];
+
+const SIZE_SPEC_ID = "spec-size";
+
+const ICE_GROUP: MockAttributeGroupFixture = {
+  name: "Ice",
+  options: [
+    { attributeOptionId: "attr-ice-normal", name: "Normal Ice", defaulted: true },
+    { attributeOptionId: "attr-ice-less", name: "Less Ice" },
+    { attributeOptionId: "attr-ice-none", name: "No Ice" }
+  ]
+};
+
+const SUGAR_GROUP: MockAttributeGroupFixture = {
+  name: "Sweetness",
+  options: [
+    { attributeOptionId: "attr-sugar-standard", name: "Standard Sugar", defaulted: true },
+    { attributeOptionId: "attr-sugar-less", name: "Less Sugar" },
+    { attributeOptionId: "attr-sugar-none", name: "No Sugar" }
+  ]
+};
+
+export const MOCK_GOODS: MockGoodsFixture[] = [
+  {
+    spuId: "900001",
+    name: "Jasmine Green Milk Tea",
+    categoryId: "cat-milk-tea",
+    skus: [
+      {
+        skuId: "910001",
+        name: "Jasmine Green Milk Tea",
+        price: 5.9,
+        spec: { specId: SIZE_SPEC_ID, specOptionId: "size-regular", specOptionName: "Regular" }
+      },
+      {
+        skuId: "910002",
+        name: "Jasmine Green Milk Tea",
+        price: 6.7,
+        spec: { specId: SIZE_SPEC_ID, specOptionId: "size-large", specOptionName: "Large" }
+      }
+    ],
+    attributes: [ICE_GROUP, SUGAR_GROUP]
+  },
+  {
+    spuId: "900002",
+    name: "Oolong Milk Tea",
+    categoryId: "cat-milk-tea",
+    skus: [
+      {
+        skuId: "910011",
+        name: "Oolong Milk Tea",
+        price: 6.2,
+        spec: { specId: SIZE_SPEC_ID, specOptionId: "size-regular", specOptionName: "Regular" }
+      },
+      {
+        skuId: "910012",
+        name: "Oolong Milk Tea",
+        price: 7.0,
+        spec: { specId: SIZE_SPEC_ID, specOptionId: "size-large", specOptionName: "Large" }
+      }
+    ],
+    attributes: [ICE_GROUP, SUGAR_GROUP]
+  },
+  {
+    spuId: "900101",
+    name: "Jasmine Tea",
+    categoryId: "cat-fresh-brew",
+    skus: [{ skuId: "910101", name: "Jasmine Tea", price: 3.9 }],
+    attributes: [ICE_GROUP]
+  },
+  {
+    spuId: "900102",
+    name: "Seasonal Osmanthus Oolong",
+    categoryId: "cat-fresh-brew",
+    skus: [{ skuId: "910102", name: "Seasonal Osmanthus Oolong", price: 6.9 }],
+    attributes: [ICE_GROUP, SUGAR_GROUP]
+  }
+];
+
+export const MOCK_VOUCHERS: MockVoucherFixture[] = [
+  {
+    couponId: "CPN0001",
+    couponCode: "TEA1OFF",
+    couponName: "$1 off any order",
+    discountAmount: 1,
+    minAmount: 0,
+    endTime: "2099-12-31 23:59:59"
+  },
+  {
+    couponId: "CPN0002",
+    couponCode: "BIG3OFF",
+    couponName: "$3 off orders over $20",
+    discountAmount: 3,
+    minAmount: 20,
+    endTime: "2099-12-31 23:59:59"
+  }
+];
+
+export function findMockStore(storeNo: string): MockStoreFixture | undefined {
+  return MOCK_STORES.find((store) => store.storeNo === storeNo);
+}
+
+export function findMockGoods(spuId: string): MockGoodsFixture | undefined {
+  return MOCK_GOODS.find((goods) => goods.spuId === spuId);
+}
+
+export function findMockSku(
+  skuId: string
+): { goods: MockGoodsFixture; sku: MockSkuFixture } | undefined {
+  for (const goods of MOCK_GOODS) {
+    const sku = goods.skus.find((entry) => entry.skuId === skuId);
+    if (sku) {
+      return { goods, sku };
+    }
+  }
+  return undefined;
+}
+
+export function mockSkuPrice(store: MockStoreFixture, sku: MockSkuFixture): number {
+  return Math.round((sku.price + store.priceDelta) * 100) / 100;
+}
+
+export function findMockVoucher(ref: string): MockVoucherFixture | undefined {
+  return MOCK_VOUCHERS.find((voucher) => voucher.couponId === ref || voucher.couponCode === ref);
+}
@@ -0,0 +1,608 @@
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { authExpiry, jwtExpiresAt } from "../lib/auth-token.js";
+import {
+  MOCK_CATEGORIES,
+  MOCK_DELIVERY_FEE,
+  MOCK_DELIVERY_TYPE,
+  MOCK_GOODS,
+  MOCK_PHONE,
+  MOCK_STORES,
+  MOCK_USER_ID,
+  MOCK_VOUCHERS,
+  findMockGoods,
+  findMockSku,
+  findMockStore,
+  findMockVoucher,
+  mockSkuPrice
+} from "./mock-fixtures.js";
+import type { MockGoodsFixture, MockStoreFixture, MockVoucherFixture } from "./mock-fixtures.js";
+
+export const MOCK_OTP_CODE = "123456";
+export const MOCK_DEFAULT_PORT = 4010;
+
+const MOCK_CANCEL_WINDOW_SEC = 300;
+
+export interface MockServerOptions {
+  host?: string | undefined;
+  port?: number | undefined;
+  autoPay?: boolean | undefined;
+}
+
+export interface MockServerHandle {
+  url: string;
+  close: () => Promise<void>;
+}
+
+type MockOrderStatus = "created" | "paying" | "paid" | "canceled";
+
+interface MockOrder {
+  orderNo: string;
+  storeNo: string;
+  userId: string;
+  payAmount: string;
+  status: MockOrderStatus;
+  payNo?: string | undefined;
+  createdAt: string;
+}
+
+interface MockRequest {
+  method: string;
+  path: string;
+  authorized: boolean;
+  body: Record<string, unknown>;
+}
+
+interface MockReply {
+  status?: number | undefined;
+  contentType?: string | undefined;
+  body: unknown;
+}
+
+interface QuotedLine {
+  spuId: string;
+  skuId: string;
+  name: string;
+  num: number;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServerHandle> {
+  const host = options.host ?? "127.0.0.1";
+  const autoPay = options.autoPay !== false;
+  const orders = new Map<string, MockOrder>();
+  let orderSeq = 0;
+  let baseUrl = "";
+
+  const route = (req: MockRequest): MockReply => {
+    const { method, path, body } = req;
+
+    if (method === "GET" && path.startsWith("/mock/pay/")) {
+      const payNo = decodeURIComponent(path.slice("/mock/pay/".length));
+      const order = [...orders.values()].find((entry) => entry.payNo === payNo);
+      if (!order || order.status === "canceled") {
+        return { status: 404, contentType: "text/html", body: "<h1>Unknown mock payment</h1>" };
+      }
+      order.status = "paid";
+      return {
+        contentType: "text/html",
+        body: `<h1>Mock payment complete</h1><p>Order ${order.orderNo} paid ${order.payAmount}.</p>`
+      };
+    }
+
+    switch (path) {
+      case "/api/user-client/customer/sendVerifyCode":
+        return ok({ sent: true, hint: `mock OTP code is ${MOCK_OTP_CODE}` });
+      case "/api/user-client/customer/loginOrRegister": {
+        if (asText(body.code) !== MOCK_OTP_CODE) {
+          return fail("U0001", "Invalid verification code");
+        }
+        const mobile = asText(body.mobile) ?? MOCK_PHONE;
+        return ok({ token: mockToken(mobile), userId: MOCK_USER_ID });
+      }
+      case "/api/user-client/common/login/sg":
+        return ok({ token: mockToken(asText(body.token) ?? "guest"), userId: MOCK_USER_ID });
+      case "/api/user-client/customer/info":
+      case "/api/user-client/customer/details":
+        if (!req.authorized) {
+          return unauthorized();
+        }
+        return ok({ userId: MOCK_USER_ID, nickName: "Mock Tea Drinker", mobile: MOCK_PHONE });
+      case "/api/navigation/store/list":
+        return ok(listStores(body));
+      case "/api/navigation/store/getStoreWaitInfo": {
+        const store = findMockStore(asText(body.storeNo) ?? "");
+        if (!store) {
+          return fail("S0404", "Store not found");
+        }
+        return ok({
+          storeNo: store.storeNo,
+          waitingCups: store.waitingCups,
+          waitingTime: store.waitingTime,
+          deliveryTime: store.deliveryTime
+        });
+      }
+      case "/api/navigation/goods/storeGoodsMenu": {
+        const store = findMockStore(asText(body.storeNo) ?? "");
+        if (!store) {
+          return fail("S0404", "Store not found");
+        }
+        return ok({ menuList: buildMenu(store) });
+      }
+      case "/api/navigation/goods/detail": {
+        const store = findMockStore(asText(body.storeNo) ?? "");
+        const goods = findMockGoods(asText(body.spuId) ?? "");
+        if (!store || !goods) {
+          return fail("G0404", "Goods not found");
+        }
+        return ok(buildGoodsDetail(store, goods));
+      }
+      case "/api/navigation/goods/shoppingCart/get":
+        if (!req.authorized) {
+          return unauthorized();
+        }
+        return ok({ storeNo: asText(body.storeNo), skuList: [] });
+      case "/api/navigation/goods/shoppingCart/change":
+        if (!req.authorized) {
+          return unauthorized();
+        }
+        return ok({ skuList: Array.isArray(body.skuList) ? body.skuList : [] });
+      case "/api/navigation/coupon/list":
+        if (!req.authorized) {
+          return unauthorized();
+        }
+        return ok({ couponList: MOCK_VOUCHERS.map((voucher) => ({ ...voucher })) });
+      case "/api/navigation/order/price": {
+        if (!req.authorized) {
+          return unauthorized();
+        }
+        const store = findMockStore(asText(body.storeNo) ?? "");
+        if (!store) {
+          return fail("S0404", "Store not found");
+        }
+        const quoted = quoteLines(store, body.skuList);
+        if (typeof quoted === "string") {
+          return fail("G0001", quoted);
+        }
+        const vouchers = resolveVouchers(body.promotionList, sumLines(quoted));
+        if (typeof vouchers === "string") {
+          return fail("P0001", vouchers);
+        }
+        const deliveryFee = resolveDeliveryFee(store, body, body.userAddress);
+        if (typeof deliveryFee === "string") {
+          return fail("D0001", deliveryFee);
+        }
+        return ok({ priceQuoteRespVO: buildPriceQuote(quoted, vouchers, deliveryFee) });
+      }
+      case "/api/navigation/order/create": {
+        if (!req.authorized) {
+          return unauthorized();
+        }
+        const store = findMockStore(asText(body.storeNo) ?? "");
+        if (!store) {
+          return fail("S0404", "Store not found");
+        }
+        if (/closed/i.test(store.runningStatusDesc)) {
+          return fail("S0001", "Store is closed");
+        }
+        const quoted = quoteLines(store, body.orderItems);
+        if (typeof quoted === "string") {
+          return fail("G0001", quoted);
+        }
+        const vouchers = resolveVouchers(body.discountInfos, sumLines(quoted));
+        if (typeof vouchers === "string") {
+          return fail("P0001", vouchers);
+        }
+        const deliveryFee = resolveDeliveryFee(store, body, body.receiveAddress);
+        if (typeof deliveryFee === "string") {
+          return fail("D0001", deliveryFee);
+        }
+        const payAmount = formatAmount(payableAfterVouchers(quoted, vouchers) + deliveryFee);
+        const requested = Number(asText(body.payAmount) ?? Number.NaN);
+        if (!Number.isFinite(requested) || Math.abs(requested - Number(payAmount)) > 0.001) {
+          return fail("O0002", `Price changed to ${payAmount}, please quote again`);
+        }
+        orderSeq += 1;
+        const orderNo = `MOCK${String(orderSeq).padStart(6, "0")}`;
+        orders.set(orderNo, {
+          orderNo,
+          storeNo: store.storeNo,
+          userId: asText(body.userId) ?? MOCK_USER_ID,
+          payAmount,
+          status: "created",
+          createdAt: new Date().toISOString()
+        });
+        return ok({ orderNo, payAmount, cancelRemainingSec: MOCK_CANCEL_WINDOW_SEC });
+      }
+      case "/api/navigation/order/cancel": {
+        if (!req.authorized) {
+          return unauthorized();
+        }
+        const order = orders.get(asText(body.orderNo) ?? "");
+        if (!order) {
+          return fail("O0404", "Order not found");
+        }
+        if (order.status === "paid") {
+          return fail("O0003", "Paid orders cannot be canceled");
+        }
+        order.status = "canceled";
+        return ok({ orderNo: order.orderNo, canceled: true });
+      }
+      case "/api/navigation/order/continuePay": {
+        if (!req.authorized) {
+          return unauthorized();
+        }
+        const order = orders.get(asText(body.orderNo) ?? "");
+        if (!order) {
+          return fail("O0404", "Order not found");
+        }
+        if (order.status === "canceled") {
+          return fail("O0004", "Order already canceled");
+        }
+        order.payNo = order.payNo ?? `PAY${order.orderNo}`;
+        if (order.status === "created") {
+          order.status = autoPay ? "paid" : "paying";
+        }
+        return ok({
+          payNo: order.payNo,
+          payUrl: `${baseUrl}/mock/pay/${encodeURIComponent(order.payNo)}`,
+          cancelRemainingSec: MOCK_CANCEL_WINDOW_SEC
+        });
+      }
+      case "/api/navigation/payment/payResultList": {
+        if (!req.authorized) {
+          return unauthorized();
+        }
+        const order = orders.get(asText(body.orderNo) ?? "");
+        if (!order) {
+          return fail("O0404", "Order not found");
+        }
+        return ok([
+          {
+            orderNo: order.orderNo,
+            payNo: order.payNo ?? "",
+            payAmount: order.payAmount,
+            ...describePayStatus(order.status)
+          }
+        ]);
+      }
+      default:
+        return { status: 404, body: fail("404", `Mock route not found: ${method} ${path}`).body };
+    }
+  };
+
+  const server = createServer((req, res) => {
+    void handleHttp(req, res, route);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  baseUrl = `http://${host}:${address.port}`;
+
+  return {
+    url: baseUrl,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      })
+  };
+}
+
+async function handleHttp(
+  req: IncomingMessage,
+  res: ServerResponse,
+  route: (req: MockRequest) => MockReply
+): Promise<void> {
+  let reply: MockReply;
+  try {
+    const url = new URL(req.url ?? "/", "http://mock.local");
+    const authorization = String(req.headers.authorization ?? "").trim();
+    reply = route({
+      method: (req.method ?? "GET").toUpperCase(),
+      path: url.pathname,
+      authorized:
+        authorization.length > 0 && authorization !== "null" && !isExpiredJwt(authorization),
+      body: await readJsonBody(req)
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    reply = { status: 500, body: { errcode: "500", errmsg: message } };
+  }
+
+  const contentType = reply.contentType ?? "application/json";
+  const payload =
+    contentType === "application/json" ? JSON.stringify(reply.body) : String(reply.body);
+  res.writeHead(reply.status ?? 200, { "content-type": `${contentType}; charset=utf-8` });
+  res.end(payload);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : (chunk as Buffer));
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (text.length === 0) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+function listStores(body: Record<string, unknown>): Record<string, unknown> {
+  const latitude = asNumber(body.latitude) ?? 1.3521;
+  const longitude = asNumber(body.longitude) ?? 103.8198;
+  const pageNum = Math.max(1, Math.floor(asNumber(body.pageNum) ?? 1));
+  const pageSize = Math.max(1, Math.floor(asNumber(body.pageSize) ?? 20));
+
+  const ranked = MOCK_STORES.map((store) => ({
+    store,
+    distance: Math.round(haversineMeters(latitude, longitude, store.latitude, store.longitude))
+  })).sort((a, b) => a.distance - b.distance);
+
+  const delivery = asNumber(body.deliveryType) === MOCK_DELIVERY_TYPE;
+  const eligible = delivery ? ranked.filter(({ store }) => store.deliveryTime.length > 0) : ranked;
+  const page = eligible.slice((pageNum - 1) * pageSize, pageNum * pageSize);
+  return {
+    total: eligible.length,
+    pageNum,
+    pageSize,
+    pageList: page.map(({ store, distance }) => ({
+      storeNo: store.storeNo,
+      storeName: store.storeName,
+      latitude: store.latitude,
+      longitude: store.longitude,
+      distance,
+      waitingCups: store.waitingCups,
+      waitingTime: store.waitingTime,
+      deliveryTime: store.deliveryTime,
+      runningStatusDesc: store.runningStatusDesc
+    }))
+  };
+}
+
+function buildMenu(store: MockStoreFixture): Record<string, unknown>[] {
+  return MOCK_CATEGORIES.map((category) => ({
+    categoryId: category.categoryId,
+    categoryName: category.categoryName,
+    goodsList: MOCK_GOODS.filter((goods) => goods.categoryId === category.categoryId).map(
+      (goods) => {
+        const primary = goods.skus[0];
+        return {
+          spuId: goods.spuId,
+          spuName: goods.name,
+          skuId: primary?.skuId,
+          salePrice: primary ? mockSkuPrice(store, primary) : undefined,
+          soldOut: store.soldOutSpuIds.includes(goods.spuId)
+        };
+      }
+    )
+  }));
+}
+
+function buildGoodsDetail(
+  store: MockStoreFixture,
+  goods: MockGoodsFixture
+): Record<string, unknown> {
+  return {
+    spuId: goods.spuId,
+    name: goods.name,
+    spuType: "single",
+    soldOut: store.soldOutSpuIds.includes(goods.spuId),
+    skuList: goods.skus.map((sku) => ({
+      skuId: sku.skuId,
+      name: sku.name,
+      salePrice: mockSkuPrice(store, sku),
+      specList: sku.spec ? [{ ...sku.spec }] : [],
+      attributeList: []
+    })),
+    spuAttributeList: goods.attributes.map((group) => ({
+      name: group.name,
+      items: group.options.map((option) => ({
+        attributeOptionId: option.attributeOptionId,
+        name: option.name,
+        defaulted: option.defaulted === true
+      }))
+    }))
+  };
+}
+
+function quoteLines(store: MockStoreFixture, rawList: unknown): QuotedLine[] | string {
+  if (!Array.isArray(rawList) || rawList.length === 0) {
+    return "No items to quote";
+  }
+  const lines: QuotedLine[] = [];
+  for (const raw of rawList) {
+    if (!raw || typeof raw !== "object") {
+      continue;
+    }
+    const entry = raw as Record<string, unknown>;
+    const skuId = asText(entry.skuId) ?? "";
+    const found = findMockSku(skuId);
+    if (!found) {
+      return `Unknown skuId ${skuId}`;
+    }
+    if (store.soldOutSpuIds.includes(found.goods.spuId)) {
+      return `${found.goods.name} is sold out at ${store.storeName}`;
+    }
+    const num = Math.max(1, Math.floor(asNumber(entry.num) ?? 1));
+    const unitPrice = mockSkuPrice(store, found.sku);
+    lines.push({
+      spuId: found.goods.spuId,
+      skuId,
+      name: found.sku.name,
+      num,
+      unitPrice,
+      totalPrice: Math.round(unitPrice * num * 100) / 100
+    });
+  }
+  return lines;
+}
+
+function resolveVouchers(rawList: unknown, subtotal: number): MockVoucherFixture[] | string {
+  const out: MockVoucherFixture[] = [];
+  for (const raw of Array.isArray(rawList) ? rawList : []) {
+    if (!raw || typeof raw !== "object") {
+      continue;
+    }
+    const entry = raw as Record<string, unknown>;
+    const ref = asText(entry.couponId) ?? asText(entry.couponCode) ?? "";
+    const voucher = findMockVoucher(ref);
+    if (!voucher) {
+      return `Voucher ${ref || "(missing)"} is not in this wallet`;
+    }
+    if (subtotal < voucher.minAmount) {
+      return `Voucher ${voucher.couponCode} needs a minimum spend of ${formatAmount(voucher.minAmount)}`;
+    }
+    if (!out.includes(voucher)) {
+      out.push(voucher);
+    }
+  }
+  return out;
+}
+
+function payableAfterVouchers(lines: QuotedLine[], vouchers: MockVoucherFixture[]): number {
+  const subtotal = sumLines(lines);
+  const discount = vouchers.reduce((sum, voucher) => sum + voucher.discountAmount, 0);
+  return Math.max(0, Math.round((subtotal - discount) * 100) / 100);
+}
+
+// Delivery orders need a drop-off address and a store that delivers; they carry a flat fee.
+function resolveDeliveryFee(
+  store: MockStoreFixture,
+  body: Record<string, unknown>,
+  address: unknown
+): number | string {
+  if (asNumber(body.deliveryType) !== MOCK_DELIVERY_TYPE) {
+    return 0;
+  }
+  const dropOff =
+    address && typeof address === "object" ? (address as Record<string, unknown>) : undefined;
+  if (!asText(dropOff?.address)) {
+    return "Delivery address required";
+  }
+  if (store.deliveryTime.length === 0) {
+    return `${store.storeName} does not deliver`;
+  }
+  return MOCK_DELIVERY_FEE;
+}
+
+function buildPriceQuote(
+  lines: QuotedLine[],
+  vouchers: MockVoucherFixture[] = [],
+  deliveryFee = 0
+): Record<string, unknown> {
+  const total = sumLines(lines);
+  const payable = payableAfterVouchers(lines, vouchers);
+  return {
+    payAmount: formatAmount(payable + deliveryFee),
+    totalAmount: formatAmount(total),
+    discountAmount: formatAmount(Math.round((total - payable) * 100) / 100),
+    packingFee: "0.00",
+    ...(deliveryFee > 0 ? { deliveryFee: formatAmount(deliveryFee) } : {}),
+    promotionList: vouchers.map((voucher) => ({
+      couponId: voucher.couponId,
+      promotionName: voucher.couponName,
+      discountAmount: formatAmount(voucher.discountAmount)
+    })),
+    goodsList: lines.map((line) => ({
+      spuId: line.spuId,
+      skuId: line.skuId,
+      name: line.name,
+      num: line.num,
+      unitPrice: formatAmount(line.unitPrice),
+      totalPrice: formatAmount(line.totalPrice)
+    }))
+  };
+}
+
+// Keys stay as plain `status`/`statusDesc`: the CLI's cancel-window scan treats
+// any pay*/close* key containing "at" as a deadline candidate.
+function describePayStatus(status: MockOrderStatus): { status: number; statusDesc: string } {
+  switch (status) {
+    case "paid":
+      return { status: 2, statusDesc: "PAID" };
+    case "canceled":
+      return { status: 5, statusDesc: "CLOSED" };
+    case "paying":
+      return { status: 1, statusDesc: "PAYING" };
+    default:
+      return { status: 0, statusDesc: "PENDING" };
+  }
+}
+
+function sumLines(lines: QuotedLine[]): number {
+  return Math.round(lines.reduce((sum, line) => sum + line.totalPrice, 0) * 100) / 100;
+}
+
+function formatAmount(value: number): string {
+  return value.toFixed(2);
+}
+
+function isExpiredJwt(token: string): boolean {
+  return authExpiry(jwtExpiresAt(token))?.status === "expired";
+}
+
+function mockToken(seed: string): string {
+  return `mock-token-${seed.replace(/[^0-9A-Za-z]/g, "") || "user"}`;
+}
+
+function ok(data: unknown): MockReply {
+  return { body: { errcode: "0", errmsg: "success", data, traceId: "mock-trace" } };
+}
+
+function fail(errcode: string, errmsg: string): MockReply {
+  return { body: { errcode, errmsg, data: null, traceId: "mock-trace" } };
+}
+
+function unauthorized(): MockReply {
+  return fail("401", "Unauthorized: login required");
+}
+
+function haversineMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number): number => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6_371_000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === "string" && value.length > 0) {
+    return value;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  return undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim().length > 0) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
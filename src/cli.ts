@@ -1,8 +1,19 @@
 #!/usr/bin/env node
 
 import { readFileSync } from "node:fs";
-
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createInterface } from "node:readline/promises";
+import { Writable } from "node:stream";
+
+import { MOCK_APP_ID } from "./api/mock-fixtures.js";
+import { MOCK_DEFAULT_PORT, startMockServer } from "./api/mock-server.js";
+import type { MockServerHandle } from "./api/mock-server.js";
 import { App, runCliRepl } from "./index.js";
+import { ORDER_SPEC_EXIT_CODES, loadOrderSpec } from "./lib/order-spec.js";
+import { unlockVault } from "./lib/token-store.js";
+import type { AppOptions } from "./index.js";
 import type { LocationPolicy } from "./types.js";
 
 interface CliOptions {
@@ -13,8 +24,15 @@ interface CliOptions {
   yolo: boolean;
   autoLocate: boolean;
   locationPolicy: LocationPolicy;
+  mock: boolean;
+  mockServe: boolean;
+  mockPort?: number;
+  record?: string;
+  replay?: string;
+  replayStrict: boolean;
   mode?: string;
   region?: string;
+  spec?: string;
   commands: string[];
   errors: string[];
 }
@@ -27,6 +45,7 @@ Usage
   chagee [options]
   chagee [options] -c "<command>"
   chagee [options] "<command>"
+  chagee [options] order --spec <file.json>
 
 Options
   -h, --help                 Show help
@@ -38,6 +57,13 @@ Options
   --json                     Enable JSON output before running commands
   --mode <dry-run|live>      Set mode before running commands
   --region <CODE>            Set region before running commands
+  --mock                     Use the built-in offline mock backend (fixtures)
+  --mock-serve               Run the mock backend standalone until interrupted
+  --mock-port <PORT>         Port for --mock/--mock-serve (default: random/${MOCK_DEFAULT_PORT})
+  --record <DIR>             Record API exchanges into a cassette directory
+  --replay <DIR>             Answer API requests from a recorded cassette
+  --replay-strict            With --replay, fail unmatched requests instead of going online
+  --spec <FILE>              With \`order\`, run a declarative JSON order spec end-to-end
   -c, --command "<cmd>"      Run command once (repeatable)
 
 Examples
@@ -46,7 +72,10 @@ Examples
   chagee --yolo --tui
   chagee --region SG --mode dry-run
   chagee -c "status"
+  chagee --mock --yolo -c "login token mock" -c "stores"
+  chagee --replay ./bug-123 --replay-strict -c "stores" -c "menu"
   chagee --json -c "region list" -c "status"
+  chagee order --spec ./usual.json
   chagee "/status"`;
 
 function parseArgs(argv: string[]): CliOptions {
@@ -58,6 +87,9 @@ function parseArgs(argv: string[]): CliOptions {
     yolo: false,
     autoLocate: true,
     locationPolicy: "smart",
+    mock: false,
+    mockServe: false,
+    replayStrict: false,
     commands: [],
     errors: []
   };
@@ -132,6 +164,71 @@ function parseArgs(argv: string[]): CliOptions {
       continue;
     }
 
+    if (arg === "--mock") {
+      options.mock = true;
+      continue;
+    }
+    if (arg === "--mock-serve") {
+      options.mockServe = true;
+      continue;
+    }
+    if (arg.startsWith("--mock-port=")) {
+      const parsed = parsePort(arg.slice("--mock-port=".length));
+      if (parsed === undefined) {
+        options.errors.push(`Invalid --mock-port value: ${arg.slice("--mock-port=".length)}`);
+      } else {
+        options.mockPort = parsed;
+      }
+      continue;
+    }
+    if (arg === "--mock-port") {
+      const val = argv[i + 1];
+      const parsed = parsePort(val);
+      if (!val) {
+        options.errors.push("--mock-port requires a value");
+      } else if (parsed === undefined) {
+        options.errors.push(`Invalid --mock-port value: ${val}`);
+        i += 1;
+      } else {
+        options.mockPort = parsed;
+        i += 1;
+      }
+      continue;
+    }
+
+    if (arg === "--replay-strict") {
+      options.replayStrict = true;
+      continue;
+    }
+    if (arg.startsWith("--record=")) {
+      options.record = arg.slice("--record=".length);
+      continue;
+    }
+    if (arg === "--record") {
+      const val = argv[i + 1];
+      if (!val) {
+        options.errors.push("--record requires a directory");
+      } else {
+        options.record = val;
+        i += 1;
+      }
+      continue;
+    }
+    if (arg.startsWith("--replay=")) {
+      options.replay = arg.slice("--replay=".length);
+      continue;
+    }
+    if (arg === "--replay") {
+      const val = argv[i + 1];
+      if (!val) {
+        options.errors.push("--replay requires a directory");
+      } else {
+        options.replay = val;
+        i += 1;
+      }
+      continue;
+    }
+
     if (arg.startsWith("--mode=")) {
       options.mode = arg.slice("--mode=".length);
       continue;
@@ -162,6 +259,21 @@ function parseArgs(argv: string[]): CliOptions {
       continue;
     }
 
+    if (arg.startsWith("--spec=")) {
+      options.spec = arg.slice("--spec=".length);
+      continue;
+    }
+    if (arg === "--spec") {
+      const val = argv[i + 1];
+      if (!val) {
+        options.errors.push("--spec requires a value");
+      } else {
+        options.spec = val;
+        i += 1;
+      }
+      continue;
+    }
+
     if (arg === "-c" || arg === "--command") {
       const val = argv[i + 1];
       if (!val) {
@@ -181,9 +293,29 @@ function parseArgs(argv: string[]): CliOptions {
     positional.push(arg);
   }
 
+  if (options.spec !== undefined) {
+    // `chagee order --spec x.json`: the positional only names the mode.
+    if (positional[0] === "order") {
+      positional.shift();
+    }
+    if (positional.length > 0) {
+      options.errors.push(`Unexpected arguments with --spec: ${positional.join(" ")}`);
+    }
+    if (options.tui) {
+      options.errors.push("--spec cannot be combined with --tui");
+    }
+  } else if (positional[0] === "order" && positional.length === 1) {
+    options.errors.push("order requires --spec <file>");
+  }
   if (positional.length > 0) {
     options.commands.push(positional.join(" "));
   }
+  if (options.record && options.replay) {
+    options.errors.push("--record and --replay cannot be used together");
+  }
+  if (options.replayStrict && !options.replay) {
+    options.errors.push("--replay-strict requires --replay <dir>");
+  }
 
   return options;
 }
@@ -211,14 +343,75 @@ function parseLocationPolicy(raw: string | undefined): LocationPolicy | undefine
   return undefined;
 }
 
+function parsePort(raw: string | undefined): number | undefined {
+  if (!raw || !/^\d+$/.test(raw.trim())) {
+    return undefined;
+  }
+  const port = Number(raw.trim());
+  return port >= 0 && port <= 65535 ? port : undefined;
+}
+
+async function serveMock(options: CliOptions): Promise<void> {
+  const server = await startMockServer({ port: options.mockPort ?? MOCK_DEFAULT_PORT });
+  console.log(`Mock CHAGEE backend listening on ${server.url}`);
+  console.log(`Point a region profile at it with "apiBase": "${server.url}" and "appId": "${MOCK_APP_ID}".`);
+  console.log("Press Ctrl+C to stop.");
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+  await server.close();
+}
+
 async function runWithOptions(options: CliOptions): Promise<void> {
+  if (options.mockServe) {
+    await serveMock(options);
+    return;
+  }
+
+  let mockServer: MockServerHandle | undefined;
+  let mockHome: string | undefined;
+  if (options.mock) {
+    // Mock sessions, tokens, caches and history go to a throwaway home, never ~/.chagee-cli.
+    mockHome = await mkdtemp(join(tmpdir(), "chagee-mock-"));
+    process.env.CHAGEE_CLI_HOME = mockHome;
+    process.env.CHAGEE_TOKEN_BACKENDS = "plaintext";
+    mockServer = await startMockServer({ port: options.mockPort });
+    console.error(`Using mock backend at ${mockServer.url} (data in ${mockHome})`);
+  }
+  const appOptions: AppOptions = {
+    yolo: options.yolo,
+    locationPolicy: options.locationPolicy,
+    regionOverrides: mockServer ? { apiBase: mockServer.url, appId: MOCK_APP_ID } : undefined,
+    cassette: options.record
+      ? { mode: "record", dir: options.record }
+      : options.replay
+        ? { mode: "replay", dir: options.replay, strict: options.replayStrict }
+        : undefined
+  };
+
+  try {
+    await runSession(options, appOptions);
+  } finally {
+    await mockServer?.close();
+    if (mockHome) {
+      await rm(mockHome, { recursive: true, force: true });
+    }
+  }
+}
+
+async function runSession(options: CliOptions, appOptions: AppOptions): Promise<void> {
   const hasBootstrapCommands = Boolean(options.region || options.mode || options.json);
   const hasOneShotCommands = options.commands.length > 0;
   const interactiveTty = Boolean(process.stdin.isTTY && process.stdout.isTTY);
 
+  if (interactiveTty) {
+    await unlockVaultFromTerminal();
+  }
+
   if (options.tui) {
     if (hasBootstrapCommands) {
-      const bootstrap = new App({ yolo: options.yolo, locationPolicy: options.locationPolicy });
+      const bootstrap = new App({ ...appOptions, cassette: undefined });
       await bootstrap.init();
       if (options.region) {
         await bootstrap.execute(`region set ${options.region}`);
@@ -232,15 +425,16 @@ async function runWithOptions(options: CliOptions): Promise<void> {
       await bootstrap.shutdown();
     }
     const mod = await import("./tui/index.js");
-    await mod.runTui({
-      yolo: options.yolo,
-      autoLocate: options.autoLocate,
-      locationPolicy: options.locationPolicy
-    });
+    await mod.runTui({ ...appOptions, autoLocate: options.autoLocate });
     return;
   }
 
-  const app = new App({ yolo: options.yolo, locationPolicy: options.locationPolicy });
+  if (options.spec !== undefined) {
+    await runOrderSpecSession(options, appOptions, options.spec);
+    return;
+  }
+
+  const app = new App(appOptions);
   await app.init();
 
   if (options.region) {
@@ -261,6 +455,7 @@ async function runWithOptions(options: CliOptions): Promise<void> {
       }
     }
     await app.shutdown();
+    reportStrictReplayMisses(app);
     return;
   }
 
@@ -268,17 +463,95 @@ async function runWithOptions(options: CliOptions): Promise<void> {
 
   if (interactiveTty) {
     const mod = await import("./tui/index.js");
-    await mod.runTui({
-      yolo: options.yolo,
-      autoLocate: options.autoLocate,
-      locationPolicy: options.locationPolicy
-    });
+    await mod.runTui({ ...appOptions, autoLocate: options.autoLocate });
     return;
   }
 
   if (!hasBootstrapCommands) {
-    await runCliRepl({ yolo: options.yolo, locationPolicy: options.locationPolicy });
+    await runCliRepl(appOptions);
+  }
+}
+
+async function runOrderSpecSession(
+  options: CliOptions,
+  appOptions: AppOptions,
+  file: string
+): Promise<void> {
+  const loaded = await loadOrderSpec(file);
+  if (!loaded.spec) {
+    console.error(`Invalid order spec ${file}:`);
+    for (const error of loaded.errors) {
+      console.error(`  ${error}`);
+    }
+    process.exitCode = ORDER_SPEC_EXIT_CODES.invalidSpec;
+    return;
+  }
+
+  const app = new App(appOptions);
+  await app.init();
+  if (options.region) {
+    await app.execute(`region set ${options.region}`);
+  }
+  if (options.json) {
+    await app.execute("json on");
+  }
+  for (const command of options.commands) {
+    await app.execute(command);
+  }
+
+  let code: number = ORDER_SPEC_EXIT_CODES.failure;
+  try {
+    code = await app.runOrderSpec(loaded.spec);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Order spec failed: ${message}`);
+  }
+  await app.shutdown();
+  process.exitCode = code;
+  reportStrictReplayMisses(app);
+}
+
+// Prompts for the vault passphrase before the TUI or line shell owns the terminal.
+async function unlockVaultFromTerminal(): Promise<void> {
+  let asked = false;
+  const unlocked = await unlockVault((prompt) => {
+    asked = true;
+    return readHiddenLine(prompt);
+  });
+  if (asked && !unlocked) {
+    console.error("Vault left locked; set CHAGEE_VAULT_PASSPHRASE or restart to use saved logins.");
+  }
+}
+
+function readHiddenLine(prompt: string): Promise<string> {
+  let muted = false;
+  const output = new Writable({
+    write(chunk: Buffer | string, encoding: BufferEncoding, callback: () => void) {
+      if (!muted) {
+        process.stdout.write(chunk, encoding);
+      }
+      callback();
+    }
+  });
+  const rl = createInterface({ input: process.stdin, output, terminal: true });
+  process.stdout.write(prompt);
+  muted = true;
+  return rl.question("").finally(() => {
+    rl.close();
+    process.stdout.write("\n");
+  });
+}
+
+function reportStrictReplayMisses(app: App): void {
+  const cassette = app.cassetteSnapshot();
+  if (!cassette?.strict || cassette.unmatched.length === 0) {
+    return;
+  }
+  console.error(`Strict replay: ${cassette.unmatched.length} unmatched request(s):`);
+  for (const label of cassette.unmatched) {
+    console.error(`  ${label}`);
   }
+  process.exitCode = 1;
 }
 
 async function main(): Promise<void> {
@@ -21,6 +21,8 @@ export interface RegionProfile {
   source: string;
   deliveryType: number;
   businessType: number;
+  homeDeliveryType: number;
+  homeDeliveryBusinessType: number;
   userType: number;
   appId: string;
   aid: string;
@@ -68,6 +70,8 @@ const DEFAULT_PROFILE: RegionProfile = {
   source: "10",
   deliveryType: 1,
   businessType: 1,
+  homeDeliveryType: 2,
+  homeDeliveryBusinessType: 2,
   userType: 3,
   appId: resolveDefaultAppId(),
   aid: "100001",
@@ -118,6 +122,8 @@ export function buildRegionProfile(
     source: input.source ?? fallback.source,
     deliveryType: input.deliveryType ?? fallback.deliveryType,
     businessType: input.businessType ?? fallback.businessType,
+    homeDeliveryType: input.homeDeliveryType ?? fallback.homeDeliveryType,
+    homeDeliveryBusinessType: input.homeDeliveryBusinessType ?? fallback.homeDeliveryBusinessType,
     userType: input.userType ?? fallback.userType,
     appId: input.appId ?? fallback.appId,
     aid: input.aid ?? fallback.aid,
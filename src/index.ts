@@ -22,13 +22,22 @@ import {
   extractUserId,
   isApiOk
 } from "./api/client.js";
-import { maskPhone, printTable, toNum } from "./lib/format.js";
+import { CassettePlayer, CassetteRecorder } from "./api/cassette.js";
+import type { CassetteOptions } from "./api/cassette.js";
+import { formatAmount, maskPhone, printTable, toNum } from "./lib/format.js";
 import { parseBool, parseKeyValueTokens, parseNum, tokenize } from "./lib/parser.js";
 import {
   evaluateSmartStartupLocationDecision,
   normalizeLocationPolicy
 } from "./lib/location-policy.js";
-import { formatStoreDisplayName } from "./lib/store-display.js";
+import { formatStoreDisplayName, isStoreClosed } from "./lib/store-display.js";
+import {
+  ORDER_SPEC_EXIT_CODES,
+  findSpecMenuItem,
+  matchSpecVariant,
+  pickSpecStore
+} from "./lib/order-spec.js";
+import type { OrderSpec, OrderSpecExitCode } from "./lib/order-spec.js";
 import type {
   StartupLocationDecision,
   StartupLocationRecommendation
@@ -41,8 +50,165 @@ import {
   orderHistoryFilePath
 } from "./lib/order-history-store.js";
 import type { OrderHistoryEntry, OrderHistoryLine } from "./lib/order-history-store.js";
-import { loadSession, saveSession, sessionFilePath } from "./lib/session-store.js";
-import { clearAuthToken } from "./lib/token-store.js";
+import {
+  favoritesFilePath,
+  findFavorite,
+  isValidFavoriteName,
+  loadFavorites,
+  removeFavorite,
+  resolveFavoriteOption,
+  upsertFavorite
+} from "./lib/favorites-store.js";
+import type { FavoritePreset } from "./lib/favorites-store.js";
+import {
+  aliasesFilePath,
+  expandAliases,
+  findAlias,
+  isValidAliasName,
+  loadAliases,
+  removeAlias,
+  upsertAlias
+} from "./lib/alias-store.js";
+import type { MenuAlias } from "./lib/alias-store.js";
+import {
+  accountsFilePath,
+  findAccount,
+  isValidAccountAlias,
+  loadAccounts,
+  removeAccount,
+  upsertAccount
+} from "./lib/account-store.js";
+import type { AccountProfile } from "./lib/account-store.js";
+import { authExpiry, formatExpiryRemaining, jwtExpiresAt } from "./lib/auth-token.js";
+import type { AuthExpiry } from "./lib/auth-token.js";
+import {
+  appendGroupOrderLine,
+  closeGroupOrder,
+  createGroupOrder,
+  loadGroupOrder,
+  removeGroupOrderLine,
+  resolveGroupOrderFile
+} from "./lib/group-order-store.js";
+import type { GroupOrder } from "./lib/group-order-store.js";
+import { computeBillSplit, formatPayNowSummary, hasOwnerTags } from "./lib/split.js";
+import { parseQuoteBreakdown, quoteUnexplainedAmount } from "./lib/quote-breakdown.js";
+import type { BillSplit } from "./lib/split.js";
+import {
+  buildVoucherPromotionList,
+  describeAppliedVoucher,
+  findVoucher,
+  parseVoucherList,
+  toAppliedVoucher
+} from "./lib/vouchers.js";
+import type { Voucher } from "./lib/vouchers.js";
+import {
+  addressBookFilePath,
+  findAddress,
+  formatDeliveryAddress,
+  isValidAddressLabel,
+  loadAddresses,
+  removeAddress,
+  upsertAddress
+} from "./lib/address-book.js";
+import {
+  buildDeliveryAddressPayload,
+  parseFulfillmentMode,
+  resolveFulfillmentParams
+} from "./lib/fulfillment.js";
+import type { FulfillmentParams } from "./lib/fulfillment.js";
+import {
+  SCHEDULE_MAX_AHEAD_MS,
+  checkWaitThreshold,
+  formatScheduleClock,
+  formatTimeUntil,
+  isScheduledJobActive,
+  parseScheduleAt
+} from "./lib/schedule.js";
+import type { ScheduledPlaceJob } from "./lib/schedule.js";
+import {
+  describeWatchAlertRule,
+  evaluateWatchAlertRule,
+  parseWatchAlertRule
+} from "./lib/watch-alerts.js";
+import type { WatchAlertEvaluation, WatchAlertRule } from "./lib/watch-alerts.js";
+import {
+  appendWaitSamples,
+  buildBusynessProfile,
+  formatBucketSlot,
+  formatWeekday,
+  loadWaitSamples,
+  mondayFirst,
+  suggestBestTimes,
+  toWaitSamples,
+  WAIT_SAMPLE_MIN_INTERVAL_MS,
+  waitHistoryFilePath
+} from "./lib/wait-history.js";
+import type { WaitSample } from "./lib/wait-history.js";
+import {
+  buildStoreForecasts,
+  describeForecastBasis,
+  parseForecastSort,
+  sortStoreForecasts
+} from "./lib/wait-forecast.js";
+import {
+  DEFAULT_TRAVEL_MODE,
+  parseTravelMode,
+  pickFastestStore,
+  pickupEtaMinutes,
+  resolveTravelSpeedKmh,
+  sortStoresByEta
+} from "./lib/travel.js";
+import {
+  findMenuItem,
+  findMenuMatches,
+  formatPriceRange,
+  looksLikeSpuId,
+  pickCheapestEntry,
+  resolveMenuCompareStatus
+} from "./lib/menu-compare.js";
+import type { GoodsDetailResult, MenuCompareEntry } from "./lib/menu-compare.js";
+import { searchMenu } from "./lib/menu-search.js";
+import { matchPhraseVariant, parseAddPhrase, resolvePhraseItem } from "./lib/natural-add.js";
+import {
+  commitMenuVariantChoice,
+  createMenuVariantPickerState,
+  getMenuVariantStageChoices,
+  syncMenuVariantPicker
+} from "./lib/variant-picker.js";
+import type { MenuSearchHit } from "./lib/menu-search.js";
+import {
+  DEFAULT_MENU_TTL_MS,
+  clearMenuCache,
+  isMenuStale,
+  listCachedMenus,
+  loadCachedMenu,
+  menuCacheDir,
+  menuContentHash,
+  saveCachedMenu
+} from "./lib/menu-cache.js";
+import {
+  buildMenuSnapshot,
+  loadStoreMenuHistory,
+  menuSnapshotFilePath,
+  recordMenuSnapshot
+} from "./lib/menu-snapshots.js";
+import type { MenuChange, MenuDiff } from "./lib/menu-snapshots.js";
+import { SessionStore, sessionFilePath } from "./lib/session-store.js";
+import type { SessionSaveOptions } from "./lib/session-store.js";
+import {
+  clearAuthToken,
+  DEFAULT_TOKEN_BACKEND_ORDER,
+  forgetTokenCommandOutput,
+  isTokenBackendName,
+  loadAuthToken,
+  isExternalAuthToken,
+  loadExternalAuthToken,
+  loadTokenStoreConfig,
+  migratePlaintextTokens,
+  saveTokenStoreConfig,
+  tokenBackendStatus,
+  tokenStoreConfigPath
+} from "./lib/token-store.js";
 import {
   createInitialState,
   derivePhase,
@@ -53,14 +219,17 @@ import type {
   ApiEnvelope,
   AppState,
   CartLine,
+  DeliveryAddress,
   ItemSkuOption,
   LocationPolicy,
   LocationSource,
   MenuCategory,
   MenuItem,
   OrderState,
+  QuoteBreakdown,
   RequestEvent,
   ResponseEvent,
+  StoreAutoSelect,
   StoreState
 } from "./types.js";
 
@@ -78,31 +247,57 @@ const HELP = `CHAGEE CLI (simple mode)
   login token <token> [phone=+6591234567]
   otp <code> [phone=<phone>] [phoneCode=<dial-code>]  (legacy OTP verify)
   logout
+  account [list] | account add <alias> | account use <alias> | account rm <alias>
+  token-store backend | token-store migrate
+  token-store set order=<backend,...|default> | token-store set token-cmd="<command>"|off
 
   locate [timeout=60] [open=1]  (recommended for highest location accuracy)
-  stores [sort=distance|wait|cups|name] [lat=1.35] [lng=103.81]
-  watch on|off [interval=10] [sort=distance|wait|cups|name] [quiet=1]
+  stores [sort=distance|wait|cups|name|eta] [lat=1.35] [lng=103.81]
+  stores stats [storeNo] [days=28]
+  stores forecast at=<HH:MM|+30m> [sort=ready|wait|travel|distance] [speed=4.5] [limit=10]
+  watch on|off [interval=10] [sort=distance|wait|cups|name|eta] [quiet=1]
+  watch alert store=<storeNo> [wait<=5] [cups<=3] [open] [once]
+  watch alert [list] | watch alert rm <id|all> | watch alert hook <cmd|off> | watch alert test
   use <storeNo>
   wait
+  travel [walk|cycle|drive] [speed=<km/h>|speed=auto] [auto=distance|eta]
 
   menu [search=<text>]
   menu categories
   menu list <categoryId>
   menu search "<text>"
+  menu compare <spuId|name> [stores=<a,b,c>|nearest=5]
+  menu diff [storeNo] | menu notify on|off
+  menu refresh | menu cache [stats] | menu cache clear [storeNo] | menu cache ttl=<min>
+  alias [list] | alias <name> = "<menu text>" | alias rm <name>
   item <spuId>
 
   add <skuId> [qty=1] [spuId=...] [name=...] [price=...] [specList=<json>] [attributeList=<json>]
+  add "<item words> [size/sugar/ice words] [x2]"
+  pick <spuId|name> [qty=1]  (numbered size/ice/sugar prompts, then add)
   qty <item> <n>
   rm <item>
   clear
   cart
 
+  fulfillment [pickup|delivery]
+  address [list] | address add <label> <street...> [unit=] [postal=] [name=] [phone=] [lat=] [lng=]
+  address use <label|#> | address rm <label>
+
   quote
   live on|off
   place [open=1] [channelCode=H5] [payType=1]
   order [show|cancel]
   orders [list|show <ref>|clear]
   reorder <ref> [append=0] [qty=1]
+  fav [list] | fav save <name> <item> | fav add <name...> [qty=1] | fav rm <name>
+  group start <name> [file=<path>] | group [show] | group close [append=0]
+  group add <owner> <skuId>|fav=<name> [qty=1] [spuId=...] [name=...] [variant=...] [price=...]
+  group rm <line>
+  split [lines=0] [payto=<name|phone>]
+  schedule place at=HH:MM|+15m [store=<storeNo>] [maxWait=<min>] [open=0]
+  schedule [list] | schedule cancel <id|all> | schedule wait [timeout=<sec>]
+  voucher [list] | voucher apply <code|id|#> | voucher clear [code|id]
   pay [open=1] [channelCode=H5] [payType=1]  (guided)
   pay [status|await|open|start]
   payment status auto-polls every 5s while pending.
@@ -123,26 +318,45 @@ const SAFE_HELP = `CHAGEE CLI (simple mode)
   login token <token> [phone=+6591234567]
   otp <code> [phone=<phone>] [phoneCode=<dial-code>]  (legacy OTP verify)
   logout
+  account [list] | account add <alias> | account use <alias> | account rm <alias>
+  token-store backend | token-store migrate
+  token-store set order=<backend,...|default> | token-store set token-cmd="<command>"|off
 
   locate [timeout=60] [open=1]  (recommended for highest location accuracy)
-  stores [sort=distance|wait|cups|name] [lat=1.35] [lng=103.81]
-  watch on|off [interval=10] [sort=distance|wait|cups|name] [quiet=1]
+  stores [sort=distance|wait|cups|name|eta] [lat=1.35] [lng=103.81]
+  stores stats [storeNo] [days=28]
+  stores forecast at=<HH:MM|+30m> [sort=ready|wait|travel|distance] [speed=4.5] [limit=10]
+  watch on|off [interval=10] [sort=distance|wait|cups|name|eta] [quiet=1]
+  watch alert store=<storeNo> [wait<=5] [cups<=3] [open] [once]
+  watch alert [list] | watch alert rm <id|all> | watch alert hook <cmd|off> | watch alert test
+  travel [walk|cycle|drive] [speed=<km/h>|speed=auto] [auto=distance|eta]
+
+  fulfillment
+  address [list] | address add <label> <street...> | address rm <label>
 
   quote  (requires login + cart context)
   order [show]
   orders [list|show <ref>]
+  fav [list] | fav save <name> <item> | fav rm <name>
+  alias [list] | alias <name> = "<menu text>" | alias rm <name>
+  group start <name> [file=<path>] | group [show] | group add <owner> ... | group rm <line>
+  split [lines=0] [payto=<name|phone>]
+  schedule [list] | schedule cancel <id|all>
+  voucher [list]
   pay [open=1] [channelCode=H5] [payType=1]  (guided; requires cart/order context)
   pay [status|await]
   payment status auto-polls every 5s while pending.
 
   debug help`;
 
-type StoreSort = "distance" | "wait" | "cups" | "name";
+type StoreSort = "distance" | "wait" | "cups" | "name" | "eta";
 type CommandSource = "shell" | "panel" | "system";
 
-interface AppOptions {
+export interface AppOptions {
   yolo?: boolean;
   locationPolicy?: LocationPolicy;
+  regionOverrides?: Partial<RegionProfile> | undefined;
+  cassette?: CassetteOptions | undefined;
 }
 
 interface ExecuteOptions {
@@ -193,6 +407,14 @@ const LOCATION_SOURCES: readonly LocationSource[] = ["default", "ip", "browser",
 const LOCATION_HEARTBEAT_MS = 60 * 1000;
 const LOCATION_CHANGE_EPSILON = 0.000001;
 const PAYMENT_STATUS_POLL_MS = 5 * 1000;
+const ALERT_HOOK_ENV_VAR = "CHAGEE_ALERT_CMD";
+const MENU_COMPARE_MAX_STORES = 10;
+const MENU_NOTIFY_REFRESH_MS = 15 * 60 * 1000;
+const MENU_CACHE_MAX_TTL_MIN = 24 * 60;
+const REAUTH_TIMEOUT_SEC = 60;
+const SCHEDULE_IDLE_WAIT_MS = 60 * 1000;
+const TOKEN_STORE_USAGE =
+  'Usage: token-store backend | token-store migrate | token-store set order=<backend,...|default> | token-store set token-cmd="<command>"|off';
 const PAYMENT_STATUS_ERROR_LOG_THROTTLE_MS = 30 * 1000;
 const PAYMENT_AWAIT_DEFAULT_TIMEOUT_SEC = 180;
 const PAYMENT_AWAIT_DEFAULT_INTERVAL_SEC = 3;
@@ -214,7 +436,23 @@ export class App {
   private lastReq?: RequestEvent;
   private lastRes?: ResponseEvent;
   private storesWatchTimer: NodeJS.Timeout | undefined;
+  private scheduledJobs: ScheduledPlaceJob[] = [];
+  private readonly scheduleTimers = new Map<string, NodeJS.Timeout>();
+  private scheduleSeq = 0;
+  // Commands currently executing; scheduled jobs wait for this to reach 0.
+  private runningCommands = 0;
   private storesWatchBusy = false;
+  private watchAlerts: WatchAlertRule[] = [];
+  private readonly watchAlertMet = new Map<string, boolean>();
+  private watchAlertSeq = 0;
+  private readonly waitSampleAt = new Map<string, number>();
+  private waitHistoryWarned = false;
+  private readonly menuFetchedAt = new Map<string, number>();
+  private readonly menuRevalidations = new Map<string, Promise<void>>();
+  private menuCacheWarned = false;
+  private menuSnapshotWarned = false;
+  private tokenSaveWarnedFor: string | undefined;
+  private readonly sessionStore = new SessionStore();
   private storesWatchSilent = false;
   private storesWatchSort: StoreSort = "distance";
   private paymentStatusPollTimer: NodeJS.Timeout | undefined;
@@ -227,7 +465,22 @@ export class App {
     shouldRunBrowserLocate: false
   };
   private readonly yoloMode: boolean;
+  private readonly regionOverrides: Partial<RegionProfile> | undefined;
+  private readonly cassetteOptions: CassetteOptions | undefined;
+  private cassetteRecorder: CassetteRecorder | undefined;
+  private cassettePlayer: CassettePlayer | undefined;
   private orderHistory: OrderHistoryEntry[] = [];
+  private favorites: FavoritePreset[] = [];
+  private aliases: MenuAlias[] = [];
+  private reauthInFlight = false;
+  // A token whose refresh already failed; later rejections of it do not start another login.
+  private reauthFailedToken: string | undefined;
+  // Reads one answer from the line shell for guided commands such as `pick`; unset outside run().
+  private promptLine: ((question: string) => Promise<string | undefined>) | undefined;
+  private vouchers: Voucher[] = [];
+  // Login and store the voucher list was fetched for; a list from another one is stale.
+  private vouchersScope: string | undefined;
+  private addresses: DeliveryAddress[] = [];
 
   private readonly client = new ChageeClient(
     () => this.state.auth?.token ?? this.state.session.guestToken,
@@ -237,29 +490,47 @@ export class App {
         this.lastReq = event;
         this.events.push(event);
         this.trimEvents();
+        this.cassetteRecorder?.onRequest(event);
       },
       onResponse: (event) => {
         this.lastRes = event;
         this.events.push(event);
         this.trimEvents();
-      }
+        this.cassetteRecorder?.onResponse(event);
+      },
+      resolveReplay: (event) => this.cassettePlayer?.resolve(event),
+      onAuthFailure: (event) =>
+        this.reauthenticate(`${String(event.envelope.errcode ?? "")} ${event.envelope.errmsg ?? ""}`.trim())
     }
   );
 
   constructor(options: AppOptions = {}) {
     this.yoloMode = options.yolo === true;
+    this.regionOverrides = options.regionOverrides;
+    this.cassetteOptions = options.cassette;
     this.locationPolicy = normalizeLocationPolicy(options.locationPolicy, "smart");
   }
 
   async init(): Promise<void> {
+    await this.openCassette();
     const customRegions = await loadCustomRegionProfiles();
     this.regionRegistry = buildRegionRegistry(customRegions);
     this.orderHistory = await loadOrderHistory();
+    this.favorites = await loadFavorites();
+    this.aliases = await loadAliases();
+    this.addresses = await loadAddresses();
 
-    const loaded = await loadSession();
+    const loaded = await this.sessionStore.load();
     for (const warning of loaded.warnings) {
       console.warn(`Session warning: ${warning}`);
     }
+    const lock = await this.sessionStore.acquireLock();
+    if (lock.holder) {
+      const since = lock.holder.startedAt ? ` since ${lock.holder.startedAt}` : "";
+      console.warn(
+        `Session warning: session.json is in use by another chagee process (pid ${lock.holder.pid}${since}); cart and order changes are merged on save`
+      );
+    }
     const saved = loaded.state;
     if (saved) {
       this.state = {
@@ -296,11 +567,12 @@ export class App {
     }
 
     await this.applyStartupLocationPolicy();
+    await this.signInWithExternalToken();
     this.syncMenuCacheForSelectedStore();
     if (this.state.selectedStore?.storeNo) {
       try {
-        // Refresh menu at startup to avoid using stale sold-out data from previous sessions.
-        await this.ensureMenuForSelectedStore(true, true);
+        // Serve the cached menu at startup; it is refetched in the background once past its TTL.
+        await this.ensureMenuForSelectedStore(true);
       } catch {
         // Keep startup resilient if menu prefetch fails.
       }
@@ -319,8 +591,20 @@ export class App {
 
     try {
       if (!interactive) {
-        for await (const line of rl) {
-          const trimmed = line.trim();
+        // Piped input: guided prompts take their answers from the following lines.
+        const lines = rl[Symbol.asyncIterator]();
+        this.promptLine = async (question) => {
+          output.write(question);
+          const next = await lines.next();
+          output.write("\n");
+          return next.done ? undefined : next.value;
+        };
+        while (true) {
+          const next = await lines.next();
+          if (next.done) {
+            break;
+          }
+          const trimmed = next.value.trim();
           if (trimmed.length === 0) {
             continue;
           }
@@ -332,6 +616,14 @@ export class App {
         return;
       }
 
+      this.promptLine = async (question) => {
+        try {
+          return await rl.question(question);
+        } catch {
+          return undefined;
+        }
+      };
+
       while (true) {
         let line = "";
         try {
@@ -352,6 +644,7 @@ export class App {
         }
       }
     } finally {
+      this.promptLine = undefined;
       this.stopStoreWatch();
       this.stopPaymentStatusPolling();
       rl.close();
@@ -359,6 +652,21 @@ export class App {
     }
   }
 
+  private async openCassette(): Promise<void> {
+    const options = this.cassetteOptions;
+    if (!options) {
+      return;
+    }
+    if (options.mode === "record") {
+      this.cassetteRecorder = await CassetteRecorder.open(options.dir);
+      return;
+    }
+    this.cassettePlayer = await CassettePlayer.load(options.dir, options.strict === true);
+    if (this.cassettePlayer.size === 0) {
+      console.warn(`Cassette warning: no recorded exchanges found in ${options.dir}`);
+    }
+  }
+
   private banner(colorsEnabled: boolean): void {
     console.log(colorText("chagee shell (`help` for commands, `exit` to quit)", ANSI_BRIGHT_CYAN, colorsEnabled));
     console.log(colorText("warning: alpha + highly experimental; use at your own risk.", ANSI_BRIGHT_YELLOW, colorsEnabled));
@@ -437,6 +745,9 @@ export class App {
         case "add":
           await this.cmdCart(["add", ...rest]);
           return false;
+        case "pick":
+          await this.cmdPick(rest);
+          return false;
         case "qty": {
           const itemRef = rest[0];
           const qtyToken = rest[1];
@@ -463,6 +774,16 @@ export class App {
         case "json":
           await this.cmdJson(rest);
           return false;
+        case "fulfillment":
+          await this.cmdFulfillment(rest);
+          return false;
+        case "travel":
+          await this.cmdTravel(rest);
+          return false;
+        case "address":
+        case "addresses":
+          await this.cmdAddress(rest);
+          return false;
         case "guest":
           await this.cmdGuest(rest);
           return false;
@@ -472,11 +793,24 @@ export class App {
         case "logout":
           await this.cmdLogout();
           return false;
+        case "account":
+        case "accounts":
+          await this.cmdAccount(rest);
+          return false;
+        case "token-store":
+          await this.cmdTokenStore(rest);
+          return false;
         case "locate":
           await this.cmdLocate(rest);
           return false;
         case "stores":
-          if (rest.length === 0 || (rest[0] !== "list" && rest[0] !== "watch")) {
+          if (
+            rest.length === 0 ||
+            (rest[0] !== "list" &&
+              rest[0] !== "watch" &&
+              rest[0] !== "stats" &&
+              rest[0] !== "forecast")
+          ) {
             await this.cmdStores(["list", ...rest]);
           } else {
             await this.cmdStores(rest);
@@ -533,6 +867,27 @@ export class App {
         case "reorder":
           await this.cmdReorder(rest);
           return false;
+        case "fav":
+        case "favs":
+          await this.cmdFav(rest);
+          return false;
+        case "alias":
+        case "aliases":
+          await this.cmdAlias(rest);
+          return false;
+        case "group":
+          await this.cmdGroup(rest);
+          return false;
+        case "split":
+          await this.cmdSplit(rest);
+          return false;
+        case "schedule":
+          await this.cmdSchedule(rest);
+          return false;
+        case "voucher":
+        case "vouchers":
+          await this.cmdVoucher(rest);
+          return false;
         case "pay":
           await this.cmdPay(rest);
           return false;
@@ -557,6 +912,7 @@ export class App {
     const phase = derivePhase(this.state);
     const region = this.activeRegion();
     const locationHint = locationAccuracyHint(this.state.session.locationSource);
+    const expiry = authExpiry(this.state.auth?.expiresAt);
     const summary = {
       phase,
       mode: this.state.session.mode,
@@ -569,10 +925,13 @@ export class App {
         currencyCode: region.currencyCode,
         timeZone: region.timeZone
       },
+      account: this.state.session.account ?? null,
       auth: this.state.auth
         ? {
             userId: this.state.auth.userId,
-            phone: this.state.auth.phoneMasked ?? this.state.auth.phoneRaw
+            phone: this.state.auth.phoneMasked ?? this.state.auth.phoneRaw,
+            expiresAt: this.state.auth.expiresAt,
+            ...(expiry ? { expiry: describeAuthExpiry(expiry) } : {})
           }
         : null,
       guest: this.state.session.guestToken
@@ -587,9 +946,23 @@ export class App {
             storeName: this.state.selectedStore.storeName,
             distanceKm: formatDistanceKm(this.state.selectedStore.distanceMeters),
             waitingCups: this.state.selectedStore.waitingCups,
-            waitingTime: this.state.selectedStore.waitingTime
+            waitingTime: this.state.selectedStore.waitingTime,
+            deliveryTime: this.state.selectedStore.deliveryTime
           }
         : null,
+      fulfillment: {
+        mode: this.state.session.fulfillment ?? "pickup",
+        address: this.state.session.deliveryAddress
+          ? `${this.state.session.deliveryAddress.label}: ${formatDeliveryAddress(
+              this.state.session.deliveryAddress
+            )}`
+          : undefined
+      },
+      travel: {
+        mode: this.state.session.travelMode ?? DEFAULT_TRAVEL_MODE,
+        speedKmh: this.travelSpeedKmh(),
+        autoSelect: this.storeAutoSelect()
+      },
       location: {
         latitude: this.state.session.latitude,
         longitude: this.state.session.longitude,
@@ -608,15 +981,18 @@ export class App {
     };
 
     this.printData(summary);
+    if (expiry && expiry.status !== "valid") {
+      console.log(`Warning: login ${describeAuthExpiry(expiry)}; run \`login\` to refresh it.`);
+    }
   }
 
   private activeRegion(): RegionProfile {
     const code = normalizeRegionCode(this.state.session.region || DEFAULT_REGION_CODE);
-    return (
+    const profile =
       this.regionRegistry.get(code) ??
       this.regionRegistry.get(DEFAULT_REGION_CODE) ??
-      getDefaultRegionProfile()
-    );
+      getDefaultRegionProfile();
+    return this.regionOverrides ? { ...profile, ...this.regionOverrides } : profile;
   }
 
   private hasMenuCacheForStore(storeNo: string): boolean {
@@ -631,6 +1007,15 @@ export class App {
     }
   }
 
+  // Menus held in memory belong to one region and fulfillment mode (see menuCacheVariant); after
+  // either changes they are dropped and reloaded from that variant's disk cache or the API.
+  private resetMenuMemoryCache(): void {
+    this.state.menuCache = [];
+    this.state.menuCacheByStore = {};
+    this.menuFetchedAt.clear();
+    this.itemSkuOptionsCacheByStore = {};
+  }
+
   private syncMenuCacheForSelectedStore(): void {
     const storeNo = this.state.selectedStore?.storeNo;
     if (!storeNo) {
@@ -654,20 +1039,82 @@ export class App {
     this.state.menuCacheByStore[storeNo] = this.state.menuCache;
   }
 
-  private async ensureMenuForSelectedStore(
-    silent: boolean,
-    forceRefresh = false
-  ): Promise<void> {
+  // Stale-while-revalidate: a cached menu (memory, then disk) is served at once and refetched
+  // in the background when older than the TTL; only a store with no cached menu waits.
+  private async ensureMenuForSelectedStore(silent: boolean): Promise<void> {
     const storeNo = this.state.selectedStore?.storeNo;
     if (!storeNo) {
       this.state.menuCache = [];
       return;
     }
-    if (!forceRefresh && this.hasMenuCacheForStore(storeNo)) {
-      this.syncMenuCacheForSelectedStore();
+    if (!this.hasMenuCacheForStore(storeNo)) {
+      await this.loadMenuFromDisk(storeNo);
+    }
+    if (!this.hasMenuCacheForStore(storeNo)) {
+      await this.fetchMenu(silent);
       return;
     }
-    await this.fetchMenu(silent);
+    this.syncMenuCacheForSelectedStore();
+    if (isMenuStale(this.menuFetchedAt.get(storeNo) ?? 0, this.menuTtlMs())) {
+      this.revalidateMenu(storeNo);
+    }
+  }
+
+  private revalidateMenu(storeNo: string): void {
+    if (this.menuRevalidations.has(storeNo)) {
+      return;
+    }
+    const task = this.fetchMenuForStore(storeNo, true)
+      .then(() => undefined)
+      .catch(() => {
+        // Keep serving the cached menu; the next stale read retries.
+      })
+      .finally(() => {
+        this.menuRevalidations.delete(storeNo);
+      });
+    this.menuRevalidations.set(storeNo, task);
+  }
+
+  private menuTtlMs(): number {
+    const minutes = this.state.session.menuTtlMin;
+    return minutes !== undefined ? minutes * 60_000 : DEFAULT_MENU_TTL_MS;
+  }
+
+  private menuCacheVariant(): string {
+    return `${this.activeRegion().code}:${this.fulfillmentParams().mode}`;
+  }
+
+  private async loadMenuFromDisk(storeNo: string): Promise<void> {
+    const cached = await loadCachedMenu(storeNo, this.menuCacheVariant());
+    if (!cached || cached.categories.length === 0) {
+      return;
+    }
+    this.setMenuCacheForStore(storeNo, cached.categories);
+    this.menuFetchedAt.set(storeNo, Date.parse(cached.fetchedAt));
+  }
+
+  private async saveMenuToDisk(storeNo: string, categories: MenuCategory[]): Promise<void> {
+    if (categories.length === 0) {
+      return;
+    }
+    try {
+      await saveCachedMenu({
+        storeNo,
+        variant: this.menuCacheVariant(),
+        fetchedAt: new Date(this.menuFetchedAt.get(storeNo) ?? Date.now()).toISOString(),
+        hash: menuContentHash(categories),
+        categories
+      });
+    } catch (error) {
+      if (!this.menuCacheWarned) {
+        this.menuCacheWarned = true;
+        console.warn(
+          `Menu cache warning: cannot write ${menuCacheDir()}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
   }
 
   async getItemSkuOptions(spuId: string): Promise<ItemSkuOption[]> {
@@ -787,9 +1234,7 @@ export class App {
     this.state.pendingLoginPhone = undefined;
     this.state.selectedStore = undefined;
     this.state.storesCache = [];
-    this.state.menuCache = [];
-    this.state.menuCacheByStore = {};
-    this.itemSkuOptionsCacheByStore = {};
+    this.resetMenuMemoryCache();
     this.state.cart = [];
     this.state.cartVersion = 0;
     this.state.quote = undefined;
@@ -820,6 +1265,104 @@ export class App {
     console.log(`jsonOutput=${this.state.session.jsonOutput}`);
   }
 
+  private async cmdTravel(rest: string[]): Promise<void> {
+    const parsed = parseKeyValueTokens(rest);
+    const modeArg = parsed.args[0];
+    const describe = (): void => {
+      const mode = this.state.session.travelMode ?? DEFAULT_TRAVEL_MODE;
+      console.log(
+        `Travel: ${mode} at ${this.travelSpeedKmh()}km/h, auto-select by ${this.storeAutoSelect()}`
+      );
+    };
+    if (rest.length === 0) {
+      describe();
+      return;
+    }
+
+    const mode = modeArg !== undefined ? parseTravelMode(modeArg) : undefined;
+    if (modeArg !== undefined && !mode) {
+      console.log("Usage: travel [walk|cycle|drive] [speed=<km/h>|speed=auto] [auto=distance|eta]");
+      return;
+    }
+    const rawSpeed = parsed.opts.speed;
+    const speed =
+      rawSpeed !== undefined && rawSpeed !== "auto" ? parseNum(rawSpeed, Number.NaN) : undefined;
+    if (speed !== undefined && !(Number.isFinite(speed) && speed > 0)) {
+      console.log("speed= must be a positive km/h value (or auto)");
+      return;
+    }
+    const auto = parsed.opts.auto;
+    if (auto !== undefined && auto !== "distance" && auto !== "eta") {
+      console.log("auto= must be distance or eta");
+      return;
+    }
+
+    if (mode) {
+      this.state.session.travelMode = mode;
+      // A new mode resets a custom speed unless one is given alongside it.
+      this.state.session.travelSpeedKmh = undefined;
+    }
+    if (rawSpeed !== undefined) {
+      this.state.session.travelSpeedKmh = speed;
+    }
+    if (auto !== undefined) {
+      this.state.session.autoSelect = auto;
+    }
+    await this.persist();
+    describe();
+  }
+
+  private travelSpeedKmh(): number {
+    return resolveTravelSpeedKmh(this.state.session.travelMode, this.state.session.travelSpeedKmh);
+  }
+
+  private storeAutoSelect(sortBy?: StoreSort): StoreAutoSelect {
+    return sortBy === "eta" ? "eta" : (this.state.session.autoSelect ?? "distance");
+  }
+
+  private async cmdFulfillment(rest: string[]): Promise<void> {
+    const raw = rest[0];
+    if (raw === undefined) {
+      const address = this.state.session.deliveryAddress;
+      console.log(`Fulfillment: ${this.state.session.fulfillment ?? "pickup"}`);
+      if (this.state.session.fulfillment === "delivery") {
+        console.log(
+          address
+            ? `Deliver to ${address.label}: ${formatDeliveryAddress(address)}`
+            : "No delivery address selected. Run `address use <label>`."
+        );
+      }
+      return;
+    }
+    const mode = parseFulfillmentMode(raw);
+    if (!mode) {
+      console.log("Usage: fulfillment [pickup|delivery]");
+      return;
+    }
+    if ((this.state.session.fulfillment ?? "pickup") === mode) {
+      console.log(`Fulfillment already ${mode}`);
+      return;
+    }
+    this.state.session.fulfillment = mode;
+    this.resetMenuMemoryCache();
+    nextCartVersion(this.state);
+    await this.persist();
+    console.log(`Fulfillment set to ${mode}`);
+    if (mode === "delivery") {
+      if (!this.state.session.deliveryAddress) {
+        console.log(
+          this.addresses.length > 0
+            ? "Pick an address: `address use <label>` (see `address list`)."
+            : "Add an address first: `address add <label> <street...> [unit=] [postal=] [lat=] [lng=]`."
+        );
+      }
+      console.log("Run `stores` to list stores that deliver to you.");
+    }
+    if (this.state.selectedStore) {
+      await this.fetchMenu(true);
+    }
+  }
+
   private async cmdGuest(rest: string[]): Promise<void> {
     const sub = rest[0];
 
@@ -1011,7 +1554,8 @@ export class App {
           token,
           userId: verifiedUserId,
           phoneRaw: phone,
-          phoneMasked: maskPhone(phone)
+          phoneMasked: maskPhone(phone),
+          expiresAt: jwtExpiresAt(token)
         };
         this.state.pendingLoginPhone = undefined;
         await this.persist();
@@ -1037,7 +1581,7 @@ export class App {
 
   private async cmdLoginGuided(
     opts: Record<string, string>,
-    behavior: { openByDefault?: boolean } = {}
+    behavior: { openByDefault?: boolean; reuseSession?: boolean } = {}
   ): Promise<void> {
     const url = "https://h5.chagee.com.sg/main";
     const phone = opts.phone;
@@ -1046,7 +1590,7 @@ export class App {
     const explicitCdp = opts.cdp;
     const shouldOpen = parseBool(opts.open, behavior.openByDefault ?? true);
 
-    if (this.state.auth?.token) {
+    if (this.state.auth?.token && behavior.reuseSession !== false) {
       const existing = this.state.auth;
       const profileCheck = await this.ensureLoginProfile(existing.token, existing.userId);
       if (profileCheck.ok) {
@@ -1054,7 +1598,8 @@ export class App {
           token: existing.token,
           userId: profileCheck.userId,
           phoneRaw: phone ?? existing.phoneRaw,
-          phoneMasked: phone ? maskPhone(phone) : existing.phoneMasked
+          phoneMasked: phone ? maskPhone(phone) : existing.phoneMasked,
+          expiresAt: jwtExpiresAt(existing.token)
         };
         await this.persist();
         console.log(`Already logged in as userId=${profileCheck.userId}`);
@@ -1108,6 +1653,25 @@ export class App {
     }
   }
 
+  // CI and shared machines supply the token through CHAGEE_TOKEN or token-cmd instead of a
+  // saved login.
+  private async signInWithExternalToken(): Promise<void> {
+    if (this.state.auth?.token) {
+      return;
+    }
+    const external = await loadExternalAuthToken();
+    if (!external) {
+      return;
+    }
+    const label = external.backend === "env" ? "CHAGEE_TOKEN" : "token-cmd";
+    try {
+      await this.loginWithToken(external.token, undefined, label);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`Login via ${label} failed: ${reason}`);
+    }
+  }
+
   private async loginWithToken(
     token: string,
     phone: string | undefined,
@@ -1123,7 +1687,8 @@ export class App {
       token,
       userId: profileCheck.userId,
       phoneRaw: phone,
-      phoneMasked: phone ? maskPhone(phone) : undefined
+      phoneMasked: phone ? maskPhone(phone) : undefined,
+      expiresAt: jwtExpiresAt(token)
     };
     this.state.pendingLoginPhone = undefined;
     await this.persist();
@@ -1380,9 +1945,11 @@ export class App {
     this.state.pendingLoginPhone = undefined;
     this.state.session.storePinned = false;
     this.state.quote = undefined;
+    this.state.appliedVouchers = undefined;
     this.state.order = undefined;
     this.state.payment = undefined;
     this.itemSkuOptionsCacheByStore = {};
+    this.vouchers = [];
     if (previousUserId) {
       await clearAuthToken(previousUserId);
     }
@@ -1390,880 +1957,3315 @@ export class App {
     console.log("Logged out");
   }
 
-  private async cmdLocate(rest: string[]): Promise<void> {
-    const parsed = parseKeyValueTokens(rest);
-    const sub = parsed.args[0];
-    if (sub === "help") {
-      console.log("Usage: locate [timeout=60] [open=1]");
-      console.log("Opens a browser page to request geolocation permission.");
-      return;
+  // Order steps re-auth up front when the token's own expiry says it is dead, instead of
+  // waiting for the API to reject it.
+  private async checkAuthExpiry(): Promise<void> {
+    const expiry = authExpiry(this.state.auth?.expiresAt);
+    if (expiry?.status === "expired") {
+      await this.reauthenticate(`token ${describeAuthExpiry(expiry)}`);
+    } else if (expiry?.status === "expiring") {
+      console.log(`Login ${describeAuthExpiry(expiry)}; run \`login\` soon to refresh it.`);
     }
+  }
 
-    const timeoutSec = Math.max(15, Math.min(180, Math.floor(parseNum(parsed.opts.timeout, 60))));
-    const shouldOpenBrowser = parseBool(parsed.opts.open, true);
-    const location = await this.captureBrowserLocation(timeoutSec, shouldOpenBrowser);
-
-    this.state.session.latitude = location.latitude;
-    this.state.session.longitude = location.longitude;
-    this.state.session.locationSource = "browser";
-    this.state.session.locationUpdatedAt = new Date().toISOString();
-    this.state.session.locationAccuracyMeters = location.accuracyMeters;
-    this.state.session.storePinned = false;
-    await this.persist();
+  // Runs the guided login capture when the session token is rejected or expired. Resolves to
+  // the new token, or undefined when the login could not be refreshed. Tokens from CHAGEE_TOKEN
+  // or token-cmd are looked up again (the command reruns); scripts, pipes and external tokens
+  // that did not change get a message instead of a browser window.
+  private async reauthenticate(reason: string): Promise<string | undefined> {
+    const previous = this.state.auth?.token;
+    if (!previous || this.reauthInFlight || this.reauthFailedToken === previous) {
+      return undefined;
+    }
+    const userId = this.state.auth?.userId ?? "";
+    if (await isExternalAuthToken(userId, previous)) {
+      const refreshed = await this.refreshExternalToken(userId, previous);
+      if (refreshed) {
+        return refreshed;
+      }
+      this.reauthFailedToken = previous;
+      console.log(
+        `Login expired (${reason}). The token comes from CHAGEE_TOKEN or token-cmd; update it, then retry.`
+      );
+      return undefined;
+    }
+    if (!process.stdin.isTTY || !process.stdout.isTTY) {
+      this.reauthFailedToken = previous;
+      console.log(`Login expired (${reason}). Run \`login\` or \`login token <token>\`, then retry.`);
+      return undefined;
+    }
+    this.reauthInFlight = true;
+    try {
+      console.log(`Login expired (${reason}). Starting guided login to refresh it...`);
+      await this.cmdLoginGuided({ timeout: String(REAUTH_TIMEOUT_SEC) }, { reuseSession: false });
+    } finally {
+      this.reauthInFlight = false;
+    }
+    const token = this.state.auth?.token;
+    if (token && token !== previous) {
+      return token;
+    }
+    this.reauthFailedToken = previous;
+    console.log("Could not refresh the login. Run `login` or `login token <token>`, then retry.");
+    return undefined;
+  }
 
-    const accuracy =
-      location.accuracyMeters !== undefined && Number.isFinite(location.accuracyMeters)
-        ? ` (accuracy +/-${Math.round(location.accuracyMeters)}m)`
-        : "";
-    console.log(
-      `Location set: ${location.latitude.toFixed(6)},${location.longitude.toFixed(6)}${accuracy}`
-    );
-    await this.refreshStores("distance", false);
-    await this.persist();
+  // CHAGEE_TOKEN is fixed for the process, so only a token-cmd that now prints another token
+  // can refresh the login here.
+  private async refreshExternalToken(userId: string, previous: string): Promise<string | undefined> {
+    forgetTokenCommandOutput();
+    const fresh =
+      (userId ? await loadAuthToken(userId) : undefined) ?? (await loadExternalAuthToken())?.token;
+    if (!fresh || fresh === previous) {
+      return undefined;
+    }
+    this.reauthInFlight = true;
+    try {
+      const ok = await this.loginWithToken(fresh, this.state.auth?.phoneRaw, "token-cmd");
+      return ok ? this.state.auth?.token : undefined;
+    } finally {
+      this.reauthInFlight = false;
+    }
   }
 
-  private async cmdStores(rest: string[]): Promise<void> {
+  private async cmdAccount(rest: string[]): Promise<void> {
     const sub = rest[0];
+    const active = this.state.session.account;
 
-    if (sub === "watch") {
-      const mode = rest[1];
-      const parsed = parseKeyValueTokens(rest.slice(2));
-      const intervalSec = Math.max(3, parseNum(parsed.opts.interval, 10));
-      const silent = parseBool(parsed.opts.quiet ?? parsed.opts.silent, false);
-      const sortBy = parseStoreSort(parsed.opts.sort, "distance");
-      if (mode === "on") {
-        await this.startStoreWatch(intervalSec, silent, sortBy);
-      } else if (mode === "off") {
-        this.stopStoreWatch();
-        console.log("watch off");
-      } else {
-        console.log("Usage: watch on|off [interval=10] [sort=distance|wait|cups|name] [quiet=1]");
+    if (sub === undefined || sub === "list") {
+      const accounts = (await loadAccounts()).map((account) =>
+        active && account.alias.toLowerCase() === active.toLowerCase()
+          ? this.snapshotAccount(account.alias, account)
+          : account
+      );
+      if (accounts.length === 0) {
+        console.log("No accounts. `account add <alias>` saves the current login as an account.");
+        console.log(`Accounts file: ${accountsFilePath()}`);
+        return;
+      }
+      if (this.state.session.jsonOutput) {
+        this.printData(
+          accounts.map(({ phoneRaw: _phoneRaw, guestToken, ...account }) => ({
+            ...account,
+            guest: guestToken !== undefined,
+            active: account.alias === active
+          }))
+        );
+        return;
       }
+      printTable(
+        ["", "alias", "userId", "phone", "region", "store", "guest"],
+        accounts.map((account) => [
+          account.alias === active ? "*" : "",
+          account.alias,
+          account.userId ?? "(signed out)",
+          account.phoneMasked ?? "-",
+          account.region,
+          account.defaultStore
+            ? truncateForTable(`${account.defaultStore.storeNo} ${account.defaultStore.storeName}`, 28)
+            : "-",
+          account.guestToken ? "yes" : "-"
+        ])
+      );
       return;
     }
 
-    if (sub === "list" || sub === undefined) {
-      const parsed = parseKeyValueTokens(sub === "list" ? rest.slice(1) : rest);
-      const sortBy = parseStoreSort(parsed.opts.sort, "distance");
-      const hasExplicitLocation = parsed.opts.lat !== undefined || parsed.opts.lng !== undefined;
-      const latitude = parseNum(parsed.opts.lat, this.state.session.latitude);
-      const longitude = parseNum(parsed.opts.lng, this.state.session.longitude);
-      this.state.session.latitude = latitude;
-      this.state.session.longitude = longitude;
-      if (hasExplicitLocation) {
-        this.state.session.locationSource = "manual";
-        this.state.session.locationUpdatedAt = new Date().toISOString();
-        this.state.session.locationAccuracyMeters = undefined;
-        this.state.session.storePinned = false;
+    if (sub === "add") {
+      const alias = rest[1];
+      if (!alias || !isValidAccountAlias(alias)) {
+        console.log("Usage: account add <alias>  (letters, digits, '-' or '_', up to 24 characters)");
+        return;
       }
-      await this.refreshStores(sortBy, false);
-      await this.persist();
+      const accounts = await loadAccounts();
+      if (findAccount(accounts, alias)) {
+        console.log(`Account ${alias} already exists; switch with: account use ${alias}`);
+        return;
+      }
+      if (!active) {
+        // The first account adopts whatever login the session already has.
+        await upsertAccount(this.snapshotAccount(alias));
+        this.state.session.account = alias;
+        await this.persist();
+        console.log(
+          `Saved current session as account ${alias}${
+            this.state.auth ? ` (userId=${this.state.auth.userId})` : " (signed out)"
+          }`
+        );
+        return;
+      }
+      if (!this.canSwitchAccount()) {
+        return;
+      }
+      await upsertAccount(this.snapshotAccount(active, findAccount(accounts, active)));
+      const profile: AccountProfile = {
+        alias,
+        region: this.state.session.region,
+        updatedAt: new Date().toISOString()
+      };
+      await upsertAccount(profile);
+      await this.restoreAccount(profile);
+      console.log(`Added account ${alias} and switched to it. Run \`login\` to sign it in.`);
       return;
     }
 
-    console.log(
-      "Usage: stores [sort=distance|wait|cups|name] [lat=1.35] [lng=103.81] | watch on|off"
-    );
-  }
-
-  private async cmdStore(rest: string[]): Promise<void> {
-    const sub = rest[0];
-    if (sub === "use") {
-      const storeNo = rest[1];
-      if (!storeNo) {
-        console.log("Usage: use <storeNo>");
+    if (sub === "use" || sub === "switch") {
+      const alias = rest[1];
+      if (!alias) {
+        console.log("Usage: account use <alias>");
         return;
       }
-
-      const previousStoreNo = this.state.selectedStore?.storeNo;
-      const cached = this.state.storesCache.find((s) => s.storeNo === storeNo);
-      if (!cached) {
-        this.state.selectedStore = {
-          storeNo,
-          storeName: "(unknown store)"
-        };
-      } else {
-        this.state.selectedStore = { ...cached };
+      const accounts = await loadAccounts();
+      const target = findAccount(accounts, alias);
+      if (!target) {
+        console.log(`Account not found: ${alias}. See: account list`);
+        return;
       }
-
-      const changedStore = previousStoreNo !== this.state.selectedStore.storeNo;
-      if (changedStore) {
-        resetForStoreSwitch(this.state);
+      if (active && target.alias.toLowerCase() === active.toLowerCase()) {
+        console.log(`Already using account ${target.alias}`);
+        return;
+      }
+      if (!this.canSwitchAccount()) {
+        return;
+      }
+      if (target.region !== this.state.session.region && !this.regionRegistry.has(target.region)) {
+        console.log(`Account ${target.alias} uses unknown region ${target.region}; see: region list`);
+        return;
+      }
+      if (active) {
+        await upsertAccount(this.snapshotAccount(active, findAccount(accounts, active)));
+      }
+      await this.restoreAccount(target);
+      console.log(
+        `Switched to account ${target.alias}${
+          this.state.auth ? ` (userId=${this.state.auth.userId})` : " (signed out)"
+        }`
+      );
+      if (this.state.selectedStore) {
+        console.log(
+          `Store: ${this.state.selectedStore.storeNo} ${formatStoreDisplayName(this.state.selectedStore)}`
+        );
       }
-      this.state.session.storePinned = true;
-      this.syncMenuCacheForSelectedStore();
-      await this.ensureMenuForSelectedStore(true, true);
-
-      await this.persist();
-      console.log(`Selected store ${this.state.selectedStore.storeNo}`);
       return;
     }
 
-    if (sub === "wait") {
-      if (!this.state.selectedStore) {
-        console.log("Select a store first: use <storeNo>");
+    if (sub === "rm") {
+      const alias = rest[1];
+      if (!alias) {
+        console.log("Usage: account rm <alias>");
         return;
       }
-
-      const res = await this.client.getStoreWaitInfo({
-        storeNo: this.state.selectedStore.storeNo,
-        isTakeaway: this.activeRegion().isTakeaway
-      });
-      this.printEnvelope(res);
-
-      if (isApiOk(res)) {
-        const wait = parseWaitInfo(envelopeData(res));
-        this.state.selectedStore = {
-          ...this.state.selectedStore,
-          ...wait
-        };
+      const result = await removeAccount(alias);
+      const removed = result.removed;
+      if (!removed) {
+        console.log(`Account not found: ${alias}`);
+        return;
+      }
+      const isActive = active !== undefined && removed.alias.toLowerCase() === active.toLowerCase();
+      const tokenInUse =
+        removed.userId === this.state.auth?.userId ||
+        result.accounts.some((account) => account.userId === removed.userId);
+      if (removed.userId && !tokenInUse) {
+        await clearAuthToken(removed.userId);
+      }
+      if (isActive) {
+        this.state.session.account = undefined;
         await this.persist();
-        console.log(
-          `Store ${this.state.selectedStore.storeNo}: waitingCups=${
-            this.state.selectedStore.waitingCups ?? "-"
-          }, waitingTime=${this.state.selectedStore.waitingTime ?? "-"}min`
-        );
+      }
+      console.log(`Removed account ${removed.alias}`);
+      if (isActive) {
+        console.log("It was the active account; the current login stays until `logout`.");
       }
       return;
     }
 
-    console.log("Usage: use <storeNo> | wait");
+    console.log("Usage: account [list] | account add <alias> | account use <alias> | account rm <alias>");
   }
 
-  private async cmdMenu(rest: string[]): Promise<void> {
-    let sub = rest[0];
-    if (!this.state.selectedStore) {
-      console.log("Select a store first: use <storeNo>");
-      return;
-    }
-    this.syncMenuCacheForSelectedStore();
+  private async cmdTokenStore(rest: string[]): Promise<void> {
+    const sub = rest[0] ?? "backend";
 
-    if (sub === undefined) {
-      const parsed = parseKeyValueTokens(rest);
-      const search = parsed.opts.search;
-      if (search) {
-        sub = "search";
-        rest = [sub, search];
-      } else {
-        sub = "categories";
+    if (sub === "backend") {
+      const status = await tokenBackendStatus();
+      if (this.state.session.jsonOutput) {
+        this.printData(status);
+        return;
       }
-    } else if (sub.startsWith("search=")) {
-      const value = sub.slice("search=".length);
-      sub = "search";
-      rest = [sub, value, ...rest.slice(1)];
+      console.log(`Token backend: ${status.name}`);
+      console.log(`Location: ${status.location}`);
+      if (status.note) {
+        console.log(`Note: ${status.note}`);
+      }
+      printTable(
+        ["priority", "backend", "mode", "available"],
+        status.backends.map((backend, index) => [
+          String(index + 1),
+          backend.name,
+          `${backend.readOnly ? "read-only" : "read-write"}${backend.secure ? "" : ", plaintext"}`,
+          backend.available ? "yes" : `no (${backend.reason ?? "unavailable"})`
+        ])
+      );
+      return;
     }
 
-    if (sub === "categories") {
-      await this.fetchMenu();
-      this.warnIfAnonymousMenuEmpty();
-      const rows = this.state.menuCache.map((c) => [c.id, c.name, String(c.items.length)]);
-      printTable(["categoryId", "name", "items"], rows);
+    if (sub === "set") {
+      await this.setTokenStoreOption(rest.slice(1));
       return;
     }
 
-    if (sub === "list") {
-      const categoryId = rest[1];
-      if (!categoryId) {
-        console.log("Usage: menu list <categoryId>");
+    if (sub === "migrate") {
+      const result = await migratePlaintextTokens();
+      if (result.backend === "plaintext") {
+        const status = await tokenBackendStatus();
+        console.log(`No secure token backend is available: ${status.note ?? status.name}`);
         return;
       }
-      if (this.state.menuCache.length === 0) {
-        await this.fetchMenu();
-        this.warnIfAnonymousMenuEmpty();
-      }
-      const category = this.state.menuCache.find((c) => c.id === categoryId);
-      if (!category) {
-        console.log(`Category not found: ${categoryId}`);
+      if (result.moved.length === 0 && result.remaining.length === 0) {
+        console.log("No plaintext tokens to migrate.");
         return;
       }
-      const rows = category.items.map((item) => [
-        item.spuId,
-        item.skuId ?? "-",
-        item.name,
-        item.price !== undefined ? String(item.price) : "-"
-      ]);
-      printTable(["spuId", "skuId", "name", "price"], rows);
+      console.log(`Moved ${result.moved.length} token(s) from tokens.json to ${result.backend}.`);
+      if (result.remaining.length > 0) {
+        console.log(
+          `${result.remaining.length} token(s) could not be stored in ${result.backend} and stay in tokens.json.`
+        );
+      }
       return;
     }
 
-    if (sub === "search") {
-      const keyword = rest.slice(1).join(" ").toLowerCase();
-      if (!keyword) {
-        console.log('Usage: menu search "<text>"');
-        return;
-      }
-      if (this.state.menuCache.length === 0) {
-        await this.fetchMenu();
-        this.warnIfAnonymousMenuEmpty();
-      }
-      const hits: Array<{ category: string; item: MenuItem }> = [];
-      for (const cat of this.state.menuCache) {
-        for (const item of cat.items) {
-          if (item.name.toLowerCase().includes(keyword)) {
-            hits.push({ category: cat.name, item });
-          }
+    console.log(TOKEN_STORE_USAGE);
+  }
+
+  // token-store set order=env,vault,plaintext | order=default | token-cmd="pass show chagee" | token-cmd=off
+  private async setTokenStoreOption(rest: string[]): Promise<void> {
+    const first = rest[0] ?? "";
+    const eq = first.indexOf("=");
+    const key = eq > 0 ? first.slice(0, eq) : first;
+    const valueParts = eq > 0 ? [first.slice(eq + 1), ...rest.slice(1)] : rest.slice(1);
+    if (valueParts[0] === "=") {
+      valueParts.shift();
+    }
+    const value = valueParts.join(" ").trim();
+    if (!value || (key !== "order" && key !== "token-cmd")) {
+      console.log(TOKEN_STORE_USAGE);
+      return;
+    }
+
+    const config = await loadTokenStoreConfig();
+    if (key === "order") {
+      if (value === "default") {
+        config.order = undefined;
+      } else {
+        const names = value
+          .split(",")
+          .map((name) => name.trim())
+          .filter((name) => name.length > 0);
+        const unknown = names.filter((name) => !isTokenBackendName(name));
+        if (names.length === 0 || unknown.length > 0) {
+          console.log(`Unknown token backend: ${unknown.join(", ") || value}`);
+          console.log(`Backends: ${DEFAULT_TOKEN_BACKEND_ORDER.join(", ")}`);
+          return;
         }
+        config.order = [...new Set(names.filter(isTokenBackendName))];
       }
-      const rows = hits.map((h) => [
-        h.item.spuId,
-        h.item.skuId ?? "-",
-        h.item.name,
-        h.category
-      ]);
-      printTable(["spuId", "skuId", "name", "category"], rows);
-      return;
+    } else {
+      config.tokenCmd = value === "off" ? undefined : value;
     }
+    await saveTokenStoreConfig(config);
 
-    console.log("Usage: menu categories | menu list <categoryId> | menu search <text>");
+    if (key === "order") {
+      console.log(`Token backend order: ${(config.order ?? DEFAULT_TOKEN_BACKEND_ORDER).join(",")}`);
+      if (process.env.CHAGEE_TOKEN_BACKENDS?.trim()) {
+        console.log("CHAGEE_TOKEN_BACKENDS is set and overrides this order.");
+      }
+    } else {
+      console.log(config.tokenCmd ? `Token command: ${config.tokenCmd}` : "Token command removed.");
+    }
+    console.log(`Saved to ${tokenStoreConfigPath()}`);
   }
 
-  private async ensureSelectedStoreForOrder(trigger: string): Promise<void> {
-    if (this.state.storesCache.length === 0) {
-      await this.refreshStores("distance", true);
+  private snapshotAccount(alias: string, previous?: AccountProfile | undefined): AccountProfile {
+    const store = this.state.selectedStore;
+    return {
+      alias,
+      region: this.state.session.region,
+      userId: this.state.auth?.userId,
+      phoneMasked: this.state.auth?.phoneMasked,
+      phoneRaw: this.state.auth?.phoneRaw,
+      guestToken: this.state.session.guestToken,
+      defaultStore: store ? { storeNo: store.storeNo, storeName: store.storeName } : previous?.defaultStore,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private canSwitchAccount(): boolean {
+    if (this.state.payment?.status === "pending") {
+      console.log("Finish or cancel the pending payment before switching accounts.");
+      return false;
     }
+    return true;
+  }
 
-    const closest = pickClosestStore(this.state.storesCache);
-    if (!closest) {
-      return;
+  // Swap in another account's login, guest token and store. Order, quote, voucher and payment
+  // state belong to the previous login and are dropped, as on logout.
+  private async restoreAccount(profile: AccountProfile): Promise<void> {
+    const region = this.regionRegistry.get(profile.region);
+    if (region && profile.region !== this.state.session.region) {
+      this.applyRegionSwitch(region);
     }
 
-    const selected = this.state.selectedStore;
-    if (!selected || !this.state.session.storePinned) {
-      const changed = !selected || selected.storeNo !== closest.storeNo;
-      this.state.selectedStore = closest;
-      this.state.session.storePinned = false;
+    const token = profile.userId ? await loadAuthToken(profile.userId) : undefined;
+    this.state.auth =
+      profile.userId && token
+        ? {
+            token,
+            userId: profile.userId,
+            phoneMasked: profile.phoneMasked,
+            phoneRaw: profile.phoneRaw,
+            expiresAt: jwtExpiresAt(token)
+          }
+        : undefined;
+    if (profile.userId && !token) {
+      console.log(`Saved login for ${profile.alias} is no longer available; run \`login\` again.`);
+    }
+    this.state.session.guestToken = profile.guestToken;
+    this.state.session.account = profile.alias;
+    this.state.pendingLoginPhone = undefined;
+    this.state.quote = undefined;
+    this.state.appliedVouchers = undefined;
+    this.state.pendingCreatePayload = undefined;
+    this.state.order = undefined;
+    this.state.payment = undefined;
+    this.itemSkuOptionsCacheByStore = {};
+    this.vouchers = [];
+
+    const store = profile.defaultStore;
+    if (store && store.storeNo !== this.state.selectedStore?.storeNo) {
+      const cached = this.state.storesCache.find((candidate) => candidate.storeNo === store.storeNo);
+      this.state.selectedStore = cached ? { ...cached } : { ...store };
+      resetForStoreSwitch(this.state);
+      this.state.session.storePinned = true;
       this.syncMenuCacheForSelectedStore();
-      await this.ensureMenuForSelectedStore(true, changed);
-      if (changed) {
-        await this.persist();
+      await this.ensureMenuForSelectedStore(true);
+    }
+    await this.persist();
+  }
+
+  private async cmdLocate(rest: string[]): Promise<void> {
+    const parsed = parseKeyValueTokens(rest);
+    const sub = parsed.args[0];
+    if (sub === "help") {
+      console.log("Usage: locate [timeout=60] [open=1]");
+      console.log("Opens a browser page to request geolocation permission.");
+      return;
+    }
+
+    const timeoutSec = Math.max(15, Math.min(180, Math.floor(parseNum(parsed.opts.timeout, 60))));
+    const shouldOpenBrowser = parseBool(parsed.opts.open, true);
+    const location = await this.captureBrowserLocation(timeoutSec, shouldOpenBrowser);
+
+    this.state.session.latitude = location.latitude;
+    this.state.session.longitude = location.longitude;
+    this.state.session.locationSource = "browser";
+    this.state.session.locationUpdatedAt = new Date().toISOString();
+    this.state.session.locationAccuracyMeters = location.accuracyMeters;
+    this.state.session.storePinned = false;
+    await this.persist();
+
+    const accuracy =
+      location.accuracyMeters !== undefined && Number.isFinite(location.accuracyMeters)
+        ? ` (accuracy +/-${Math.round(location.accuracyMeters)}m)`
+        : "";
+    console.log(
+      `Location set: ${location.latitude.toFixed(6)},${location.longitude.toFixed(6)}${accuracy}`
+    );
+    await this.refreshStores("distance", false);
+    await this.persist();
+  }
+
+  private async cmdStores(rest: string[]): Promise<void> {
+    const sub = rest[0];
+
+    if (sub === "watch") {
+      const mode = rest[1];
+      if (mode === "alert" || mode === "alerts") {
+        await this.cmdWatchAlert(rest.slice(2));
+        return;
+      }
+      const parsed = parseKeyValueTokens(rest.slice(2));
+      const intervalSec = Math.max(3, parseNum(parsed.opts.interval, 10));
+      const silent = parseBool(parsed.opts.quiet ?? parsed.opts.silent, false);
+      const sortBy = parseStoreSort(parsed.opts.sort, "distance");
+      if (mode === "on") {
+        await this.startStoreWatch(intervalSec, silent, sortBy);
+      } else if (mode === "off") {
+        this.stopStoreWatch();
+        console.log("watch off");
+      } else {
         console.log(
-          `Auto-selected closest store for ${trigger}: ${closest.storeNo} (${closest.storeName}, ${formatDistanceKm(
-            closest.distanceMeters
-          )})`
+          "Usage: watch on|off [interval=10] [sort=distance|wait|cups|name|eta] [quiet=1] | watch alert ..."
         );
       }
+      return;
     }
-  }
 
-  private warnIfAnonymousMenuEmpty(): void {
-    if (this.state.menuCache.length > 0) {
+    if (sub === "stats") {
+      await this.cmdStoreStats(rest.slice(1));
       return;
     }
-    if (this.state.auth) {
+
+    if (sub === "forecast") {
+      await this.cmdStoreForecast(rest.slice(1));
+      return;
+    }
+
+    if (sub === "list" || sub === undefined) {
+      const parsed = parseKeyValueTokens(sub === "list" ? rest.slice(1) : rest);
+      const sortBy = parseStoreSort(parsed.opts.sort, "distance");
+      const hasExplicitLocation = parsed.opts.lat !== undefined || parsed.opts.lng !== undefined;
+      const latitude = parseNum(parsed.opts.lat, this.state.session.latitude);
+      const longitude = parseNum(parsed.opts.lng, this.state.session.longitude);
+      this.state.session.latitude = latitude;
+      this.state.session.longitude = longitude;
+      if (hasExplicitLocation) {
+        this.state.session.locationSource = "manual";
+        this.state.session.locationUpdatedAt = new Date().toISOString();
+        this.state.session.locationAccuracyMeters = undefined;
+        this.state.session.storePinned = false;
+      }
+      await this.refreshStores(sortBy, false);
+      await this.persist();
       return;
     }
+
     console.log(
-      "Menu returned empty for anonymous session. Try another store, or login for account-specific availability."
+      "Usage: stores [sort=distance|wait|cups|name|eta] [lat=1.35] [lng=103.81] | stores stats [storeNo] | watch on|off"
     );
   }
 
-  private async cmdItem(rest: string[]): Promise<void> {
-    const sub = rest[0];
-    if (sub !== "show") {
-      console.log("Usage: item <spuId>");
+  private async cmdStoreForecast(rest: string[]): Promise<void> {
+    const usage =
+      "Usage: stores forecast at=<HH:MM|+30m> [sort=ready|wait|travel|distance] [speed=4.5] [limit=10]";
+    const parsed = parseKeyValueTokens(rest);
+    const now = new Date();
+    const target = parseScheduleAt(parsed.opts.at ?? parsed.args[0] ?? "", now);
+    if (!target) {
+      console.log(usage);
       return;
     }
-    if (!this.state.selectedStore) {
-      console.log("Select a store first: use <storeNo>");
+    if (target.getTime() - now.getTime() > SCHEDULE_MAX_AHEAD_MS) {
+      console.log("Forecasts look at most 24 hours ahead.");
       return;
     }
-    const spuId = rest[1];
-    if (!spuId) {
-      console.log("Usage: item <spuId>");
+    const sortBy = parseForecastSort(parsed.opts.sort);
+    if (!sortBy) {
+      console.log(usage);
       return;
     }
-    const region = this.activeRegion();
-    const res = await this.client.getGoodsDetail({
-      spuId,
-      storeNo: this.state.selectedStore.storeNo,
-      saleType: region.saleType,
-      saleChannel: region.saleChannel
-    });
-    this.printEnvelope(res);
-    if (!isApiOk(res)) {
+    const speedKmh = parseNum(parsed.opts.speed, this.travelSpeedKmh());
+    if (speedKmh <= 0) {
+      console.log("speed= must be a positive km/h value");
       return;
     }
-    const options = extractItemSkuOptions(envelopeData(res));
-    const storeNo = this.state.selectedStore.storeNo;
-    const perStore = (this.itemSkuOptionsCacheByStore[storeNo] ??= {});
-    perStore[spuId] = options;
-    if (options.length === 0) {
-      this.printData(envelopeData(res));
+    const limit = clampInt(parseNum(parsed.opts.limit, 10), 1, 50);
+    const days = clampInt(parseNum(parsed.opts.days, 28), 1, 56);
+
+    if (this.state.storesCache.length === 0) {
+      await this.refreshStores("distance", true);
+    }
+    const nearby = sortStores(this.state.storesCache, "distance").slice(0, limit);
+    if (nearby.length === 0) {
+      console.log("No stores to forecast. Run `stores` first.");
       return;
     }
-    const rows = options.slice(0, ITEM_OPTION_PRINT_LIMIT).map((option) => [
-      option.skuId,
-      option.price !== undefined ? option.price.toFixed(2) : "-",
-      option.specText ?? "-",
-      option.name
-    ]);
-    printTable(["skuId", "price", "variant", "name"], rows);
-    if (options.length > ITEM_OPTION_PRINT_LIMIT) {
-      console.log(
-        `... ${options.length - ITEM_OPTION_PRINT_LIMIT} more option(s). Use the TUI variant picker to browse all.`
-      );
+
+    const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const samplesByStore = new Map<string, WaitSample[]>();
+    for (const sample of await loadWaitSamples(undefined, since)) {
+      const list = samplesByStore.get(sample.storeNo) ?? [];
+      list.push(sample);
+      samplesByStore.set(sample.storeNo, list);
+    }
+
+    const forecasts = sortStoreForecasts(
+      buildStoreForecasts(nearby, samplesByStore, target, speedKmh),
+      sortBy
+    );
+    console.log(
+      `Forecast for ordering at ${formatScheduleClock(target, now)}, travelling at ${speedKmh}km/h:`
+    );
+    printTable(
+      ["storeNo", "storeName", "dist", "travel(min)", "wait(min)", "basis", "in hand", "status"],
+      forecasts.map((entry) => [
+        entry.store.storeNo,
+        formatStoreDisplayName(entry.store),
+        formatDistanceKm(entry.store.distanceMeters),
+        entry.travelMinutes !== undefined ? String(entry.travelMinutes) : "-",
+        entry.forecast.expectedWait !== undefined ? String(entry.forecast.expectedWait) : "-",
+        describeForecastBasis(entry.forecast, target),
+        entry.readyAt ? formatScheduleClock(entry.readyAt, now) : "-",
+        entry.store.runningStatusDesc ?? "-"
+      ])
+    );
+    const historical = forecasts.some(
+      (entry) => entry.forecast.basis === "weekday-hour" || entry.forecast.basis === "hour"
+    );
+    if (!historical) {
+      console.log("No wait history for that hour yet; using current waits. See `stores stats`.");
     }
   }
 
-  private async cmdCart(rest: string[]): Promise<void> {
-    const sub = rest[0];
-    if (!sub) {
-      console.log("Usage: add <skuId> | qty <item> <n> | rm <item> | clear | cart");
+  private async cmdStoreStats(rest: string[]): Promise<void> {
+    const parsed = parseKeyValueTokens(rest);
+    const storeNo = parsed.args[0] ?? this.state.selectedStore?.storeNo;
+    if (!storeNo) {
+      console.log("Usage: stores stats <storeNo> [days=28]");
+      return;
+    }
+    const days = clampInt(parseNum(parsed.opts.days, 28), 1, 56);
+    const now = new Date();
+    const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const samples = await loadWaitSamples(storeNo, since);
+    const storeName =
+      this.state.storesCache.find((store) => store.storeNo === storeNo)?.storeName ??
+      (this.state.selectedStore?.storeNo === storeNo ? this.state.selectedStore.storeName : undefined);
+    const label = storeName ? `${storeNo} (${storeName})` : storeNo;
+    if (samples.length === 0) {
+      console.log(`No wait samples for ${label} in the last ${days} days.`);
+      console.log("Samples are recorded by `stores`, `watch on` and `wait`.");
       return;
     }
 
-    if (sub === "add") {
-      const skuId = rest[1];
-      const parsed = parseKeyValueTokens(rest.slice(2));
-      if (!skuId) {
-        console.log(
-          "Usage: add <skuId> [qty=1] [spuId=...] [name=...] [price=...] [specList=<json>] [attributeList=<json>]"
+    const profile = buildBusynessProfile(samples);
+    console.log(
+      `Wait history for ${label}: ${profile.samples} samples, ${(profile.from ?? "").slice(0, 10)} .. ${(
+        profile.to ?? ""
+      ).slice(0, 10)}`
+    );
+    console.log("Typical wait (median minutes) by weekday and hour:");
+    const hours = [...new Set(profile.buckets.map((bucket) => bucket.hour))].sort((a, b) => a - b);
+    const weekdays = [...new Set(profile.buckets.map((bucket) => bucket.weekday))].sort(
+      (a, b) => mondayFirst(a) - mondayFirst(b)
+    );
+    const rows = weekdays.map((weekday) => [
+      formatWeekday(weekday),
+      ...hours.map((hour) => {
+        const bucket = profile.buckets.find(
+          (candidate) => candidate.weekday === weekday && candidate.hour === hour
         );
-        return;
-      }
-      const qty = Math.max(1, Math.floor(parseNum(parsed.opts.qty, 1)));
-      const specList = parseSpecSelectionList(parsed.opts.specList);
-      const attributeList = parseAttributeSelectionList(parsed.opts.attributeList);
-      const line: CartLine = {
-        lineId: buildCartLineId(),
-        skuId,
-        spuId: parsed.opts.spuId,
-        name: parsed.opts.name,
-        variantText: parsed.opts.variant,
-        qty,
-        price: parsed.opts.price ? parseNum(parsed.opts.price, 0) : undefined,
-        specList,
-        attributeList
-      };
-      this.state.cart.push(line);
-      nextCartVersion(this.state);
-      await this.persist();
-      console.log(`Added item ${this.state.cart.length}`);
+        return bucket?.medianWait !== undefined ? String(bucket.medianWait) : "-";
+      })
+    ]);
+    printTable(["day", ...hours.map((hour) => String(hour).padStart(2, "0"))], rows);
+
+    const suggestion = suggestBestTimes(profile, now);
+    if (!suggestion.best) {
+      console.log("Not enough samples per hour yet for a best-time suggestion.");
       return;
     }
+    console.log(
+      `Best time to order: ${formatBucketSlot(suggestion.best)} (typical wait ${
+        suggestion.best.medianWait
+      }min, ${suggestion.best.samples} samples)`
+    );
+    if (suggestion.next) {
+      const sameDay = suggestion.next.at.getDate() === now.getDate();
+      console.log(
+        `Next quiet slot: ${sameDay ? "today" : "tomorrow"} ${String(
+          suggestion.next.at.getHours()
+        ).padStart(2, "0")}:00 (typical wait ${suggestion.next.bucket.medianWait}min)`
+      );
+    }
+  }
 
-    if (sub === "set") {
-      const itemRef = rest[1];
-      const parsed = parseKeyValueTokens(rest.slice(2));
-      const qty = Math.max(0, Math.floor(parseNum(parsed.opts.qty, -1)));
-      if (!itemRef || qty < 0) {
-        console.log("Usage: qty <item> <n>");
-        return;
+  private async recordWaitSamples(stores: StoreState[]): Promise<void> {
+    const nowMs = Date.now();
+    const due = stores.filter(
+      (store) => nowMs - (this.waitSampleAt.get(store.storeNo) ?? 0) >= WAIT_SAMPLE_MIN_INTERVAL_MS
+    );
+    const samples = toWaitSamples(due, new Date(nowMs));
+    if (samples.length === 0) {
+      return;
+    }
+    try {
+      await appendWaitSamples(samples);
+      for (const sample of samples) {
+        this.waitSampleAt.set(sample.storeNo, nowMs);
       }
-      const resolved = this.resolveCartItemRef(itemRef);
-      if (!resolved) {
-        console.log(`item not found: ${itemRef}`);
-        return;
+    } catch (error) {
+      if (!this.waitHistoryWarned) {
+        this.waitHistoryWarned = true;
+        console.warn(
+          `Wait history warning: cannot write ${waitHistoryFilePath()}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
       }
-      const line = this.state.cart.find((l) => l.lineId === resolved.lineId);
-      if (!line) {
-        console.log(`item not found: ${itemRef}`);
+    }
+  }
+
+  private async cmdStore(rest: string[]): Promise<void> {
+    const sub = rest[0];
+    if (sub === "use") {
+      const storeNo = rest[1];
+      if (!storeNo) {
+        console.log("Usage: use <storeNo>");
         return;
       }
-      if (qty === 0) {
-        this.state.cart = this.state.cart.filter((l) => l.lineId !== resolved.lineId);
-        console.log(`Removed item ${resolved.itemNo}`);
+
+      const previousStoreNo = this.state.selectedStore?.storeNo;
+      const cached = this.state.storesCache.find((s) => s.storeNo === storeNo);
+      if (!cached) {
+        this.state.selectedStore = {
+          storeNo,
+          storeName: "(unknown store)"
+        };
       } else {
-        line.qty = qty;
-        console.log(`Updated item ${resolved.itemNo} qty=${qty}`);
+        this.state.selectedStore = { ...cached };
       }
-      nextCartVersion(this.state);
-      await this.persist();
-      return;
-    }
 
-    if (sub === "rm") {
-      const itemRef = rest[1];
-      if (!itemRef) {
-        console.log("Usage: rm <item>");
-        return;
-      }
-      const resolved = this.resolveCartItemRef(itemRef);
-      if (!resolved) {
-        console.log(`item not found: ${itemRef}`);
-        return;
+      const changedStore = previousStoreNo !== this.state.selectedStore.storeNo;
+      if (changedStore) {
+        resetForStoreSwitch(this.state);
       }
-      this.state.cart = this.state.cart.filter((l) => l.lineId !== resolved.lineId);
-      nextCartVersion(this.state);
-      await this.persist();
-      console.log(`Removed item ${resolved.itemNo}`);
-      return;
-    }
+      this.state.session.storePinned = true;
+      this.syncMenuCacheForSelectedStore();
+      await this.ensureMenuForSelectedStore(true);
 
-    if (sub === "clear") {
-      this.state.cart = [];
-      nextCartVersion(this.state);
       await this.persist();
-      console.log("Cart cleared");
-      return;
-    }
-
-    if (sub === "show") {
-      if (this.state.cart.length === 0) {
-        console.log("Cart is empty");
-        return;
+      console.log(`Selected store ${this.state.selectedStore.storeNo}`);
+      if (this.state.session.fulfillment === "delivery") {
+        const eta = this.state.selectedStore.deliveryTime;
+        console.log(
+          eta ? `Delivery ETA: ${eta}` : "No delivery ETA for this store; it may not deliver to you."
+        );
       }
-      const rows = this.state.cart.map((l, idx) => [
-        String(idx + 1),
-        l.skuId,
-        l.name ?? "-",
-        String(l.qty),
-        l.price !== undefined ? String(l.price) : "-"
-      ]);
-      printTable(["item", "skuId", "name", "qty", "price"], rows);
       return;
     }
 
-    if (sub === "sync") {
-      if (!this.state.auth || !this.state.selectedStore) {
-        console.log("cart sync needs auth + selected store");
+    if (sub === "wait") {
+      if (!this.state.selectedStore) {
+        console.log("Select a store first: use <storeNo>");
         return;
       }
-      const region = this.activeRegion();
-      const skuList = this.buildSkuList();
-      const changed = await this.client.cartChange({
-        userId: this.state.auth.userId,
-        skuList,
-        saleType: region.saleType,
-        saleChannel: region.saleChannel,
-        inAppDeliveryGray: false
+
+      const res = await this.client.getStoreWaitInfo({
+        storeNo: this.state.selectedStore.storeNo,
+        isTakeaway: this.fulfillmentParams().isTakeaway
       });
-      this.printEnvelope(changed);
-      if (isApiOk(changed)) {
-        const got = await this.client.cartGet({
-          userId: this.state.auth.userId,
-          storeNo: this.state.selectedStore.storeNo,
-          saleType: region.saleType,
-          saleChannel: region.saleChannel,
-          tradeChannel: region.tradeChannel
-        });
-        this.printEnvelope(got);
-        this.printData(envelopeData(got));
+      this.printEnvelope(res);
+
+      if (isApiOk(res)) {
+        const wait = parseWaitInfo(envelopeData(res));
+        this.state.selectedStore = {
+          ...this.state.selectedStore,
+          ...wait
+        };
+        await this.recordWaitSamples([this.state.selectedStore]);
+        await this.persist();
+        console.log(
+          `Store ${this.state.selectedStore.storeNo}: waitingCups=${
+            this.state.selectedStore.waitingCups ?? "-"
+          }, waitingTime=${this.state.selectedStore.waitingTime ?? "-"}min`
+        );
+        if (this.state.session.fulfillment === "delivery") {
+          console.log(`Delivery ETA: ${this.state.selectedStore.deliveryTime || "-"}`);
+        }
       }
       return;
     }
 
-    console.log("Usage: add|qty|rm|clear|cart");
+    console.log("Usage: use <storeNo> | wait");
   }
 
-  private resolveCartItemRef(itemRef: string): { lineId: string; itemNo: number } | undefined {
-    const asNumber = Number.parseInt(itemRef, 10);
-    if (/^\d+$/.test(itemRef) && Number.isFinite(asNumber)) {
-      const itemNo = Math.max(1, asNumber);
-      const line = this.state.cart[itemNo - 1];
-      if (!line) {
-        return undefined;
-      }
-      return { lineId: line.lineId, itemNo };
-    }
-
-    const index = this.state.cart.findIndex((line) => line.lineId === itemRef);
-    if (index < 0) {
-      return undefined;
+  private async cmdMenu(rest: string[]): Promise<void> {
+    let sub = rest[0];
+    if (sub === "compare") {
+      await this.cmdMenuCompare(rest.slice(1));
+      return;
     }
-    const line = this.state.cart[index];
-    if (!line) {
-      return undefined;
+    if (sub === "diff") {
+      await this.cmdMenuDiff(rest.slice(1));
+      return;
     }
-    return { lineId: line.lineId, itemNo: index + 1 };
-  }
-
-  private async cmdQuote(): Promise<void> {
-    if (!this.state.auth) {
-      console.log("Login required");
+    if (sub === "notify") {
+      await this.cmdMenuNotify(rest.slice(1));
       return;
     }
-    await this.ensureSelectedStoreForOrder("quote");
-    if (!this.state.selectedStore) {
-      console.log("Select a store first");
+    if (sub === "cache") {
+      await this.cmdMenuCache(rest.slice(1));
       return;
     }
-    if (this.state.cart.length === 0) {
-      console.log("Cart is empty");
+    if (!this.state.selectedStore) {
+      console.log("Select a store first: use <storeNo>");
       return;
     }
+    this.syncMenuCacheForSelectedStore();
+
+    if (sub === undefined) {
+      const parsed = parseKeyValueTokens(rest);
+      const search = parsed.opts.search;
+      if (search) {
+        sub = "search";
+        rest = [sub, search];
+      } else {
+        sub = "categories";
+      }
+    } else if (sub.startsWith("search=")) {
+      const value = sub.slice("search=".length);
+      sub = "search";
+      rest = [sub, value, ...rest.slice(1)];
+    }
+
+    if (sub === "refresh") {
+      await this.cmdMenuRefresh(this.state.selectedStore.storeNo);
+      return;
+    }
+
+    if (sub === "categories") {
+      await this.ensureMenuForSelectedStore(false);
+      this.warnIfAnonymousMenuEmpty();
+      const rows = this.state.menuCache.map((c) => [c.id, c.name, String(c.items.length)]);
+      printTable(["categoryId", "name", "items"], rows);
+      return;
+    }
+
+    if (sub === "list") {
+      const categoryId = rest[1];
+      if (!categoryId) {
+        console.log("Usage: menu list <categoryId>");
+        return;
+      }
+      if (this.state.menuCache.length === 0) {
+        await this.ensureMenuForSelectedStore(false);
+        this.warnIfAnonymousMenuEmpty();
+      }
+      const category = this.state.menuCache.find((c) => c.id === categoryId);
+      if (!category) {
+        console.log(`Category not found: ${categoryId}`);
+        return;
+      }
+      const rows = category.items.map((item) => [
+        item.spuId,
+        item.skuId ?? "-",
+        item.name,
+        item.price !== undefined ? String(item.price) : "-"
+      ]);
+      printTable(["spuId", "skuId", "name", "price"], rows);
+      return;
+    }
+
+    if (sub === "search") {
+      const keyword = rest.slice(1).join(" ").trim();
+      if (!keyword) {
+        console.log('Usage: menu search "<text>"');
+        return;
+      }
+      if (this.state.menuCache.length === 0) {
+        await this.ensureMenuForSelectedStore(false);
+        this.warnIfAnonymousMenuEmpty();
+      }
+      const hits = this.searchSelectedMenu(keyword);
+      if (hits.length === 0) {
+        console.log(`No menu items match "${keyword}".`);
+        return;
+      }
+      const rows = hits.map((h) => [
+        h.item.spuId,
+        h.item.skuId ?? "-",
+        h.item.name,
+        h.category,
+        h.typo ? `${h.field} (typo)` : h.field
+      ]);
+      printTable(["spuId", "skuId", "name", "category", "match"], rows);
+      return;
+    }
+
+    console.log(
+      "Usage: menu categories | menu list <categoryId> | menu search <text> | menu refresh | menu cache"
+    );
+  }
+
+  private async cmdMenuCompare(rest: string[]): Promise<void> {
+    const parsed = parseKeyValueTokens(rest);
+    const query = parsed.args.join(" ").trim();
+    if (query.length === 0) {
+      console.log("Usage: menu compare <spuId|name> [stores=<a,b,c>|nearest=5]");
+      return;
+    }
+
+    let stores: StoreState[];
+    if (parsed.opts.stores) {
+      stores = parsed.opts.stores
+        .split(",")
+        .map((storeNo) => storeNo.trim())
+        .filter((storeNo) => storeNo.length > 0)
+        .map(
+          (storeNo) =>
+            this.state.storesCache.find((store) => store.storeNo === storeNo) ?? {
+              storeNo,
+              storeName: "(unknown store)"
+            }
+        );
+    } else {
+      if (this.state.storesCache.length === 0) {
+        await this.refreshStores("distance", true);
+      }
+      const nearest = clampInt(parseNum(parsed.opts.nearest, 5), 1, MENU_COMPARE_MAX_STORES);
+      stores = sortStores(this.state.storesCache, "distance").slice(0, nearest);
+    }
+    if (stores.length === 0) {
+      console.log("No stores to compare. Run `stores` first or pass stores=<a,b,c>.");
+      return;
+    }
+    if (stores.length > MENU_COMPARE_MAX_STORES) {
+      console.log(`Compare at most ${MENU_COMPARE_MAX_STORES} stores at a time.`);
+      return;
+    }
+
+    let fetched = false;
+    for (const store of stores) {
+      if (!this.hasMenuCacheForStore(store.storeNo)) {
+        await this.loadMenuFromDisk(store.storeNo);
+      }
+      if (!this.hasMenuCacheForStore(store.storeNo)) {
+        await this.fetchMenuForStore(store.storeNo, true);
+        fetched = true;
+      }
+    }
+    if (fetched) {
+      await this.persist();
+    }
+
+    const matches = findMenuMatches(
+      stores.map((store) => this.state.menuCacheByStore[store.storeNo] ?? []),
+      query
+    );
+    if (matches.length > 1) {
+      console.log(`"${query}" matches ${matches.length} items; be more specific or use a spuId:`);
+      printTable(
+        ["spuId", "name"],
+        matches.slice(0, 10).map((item) => [item.spuId, item.name])
+      );
+      return;
+    }
+    if (matches.length === 0 && !looksLikeSpuId(query)) {
+      console.log(`No item matches "${query}" on these menus. Try \`menu search ${query}\`.`);
+      return;
+    }
+    // A spuId on no menu (sold out everywhere or unknown): still ask each store for it.
+    const spuId = matches[0]?.spuId ?? query.trim();
+    const itemName = matches[0]?.name ?? spuId;
+
+    const entries: MenuCompareEntry[] = [];
+    for (const store of stores) {
+      const listed = findMenuItem(this.state.menuCacheByStore[store.storeNo] ?? [], spuId);
+      const detail = await this.fetchGoodsDetailForStore(store.storeNo, spuId);
+      entries.push({
+        storeNo: store.storeNo,
+        storeName: store.storeName,
+        distanceMeters: store.distanceMeters,
+        closed: isStoreClosed(store),
+        ...resolveMenuCompareStatus(listed, detail)
+      });
+    }
+
+    console.log(`${itemName} (${spuId}) across ${entries.length} store(s):`);
+    printTable(
+      ["storeNo", "storeName", "dist", "availability", "price", "options"],
+      entries.map((entry) => [
+        entry.storeNo,
+        truncateForTable(entry.closed ? `${entry.storeName} [CLOSED]` : entry.storeName, 36),
+        formatDistanceKm(entry.distanceMeters),
+        entry.status === "sold-out"
+          ? "SOLD OUT"
+          : entry.detail
+            ? `${entry.status} (${truncateForTable(entry.detail, 24)})`
+            : entry.status,
+        formatPriceRange(entry),
+        entry.options > 0 ? String(entry.options) : "-"
+      ])
+    );
+    const availableAt = entries.filter((entry) => entry.status === "available" && !entry.closed);
+    const cheapest = pickCheapestEntry(entries);
+    console.log(
+      `Available at ${availableAt.length}/${entries.length} open store(s)${
+        cheapest ? `; cheapest at ${cheapest.storeNo} (${formatPriceRange(cheapest)})` : ""
+      }.`
+    );
+  }
+
+  private async cmdMenuDiff(rest: string[]): Promise<void> {
+    const storeNo = rest[0] ?? this.state.selectedStore?.storeNo;
+    if (!storeNo) {
+      console.log("Usage: menu diff [storeNo]");
+      return;
+    }
+    const variant = this.menuCacheVariant();
+    const history = await loadStoreMenuHistory(storeNo, variant);
+    if (!history) {
+      console.log(
+        `No ${variant} menu snapshot for ${storeNo} yet; one is taken whenever its menu is fetched.`
+      );
+      return;
+    }
+    const diff = history.lastDiff;
+    const checkedAt = formatLocalDateTime(history.current.at);
+    if (!diff) {
+      const itemCount = history.current.items.length;
+      console.log(`No menu changes recorded for ${storeNo} (${itemCount} items, last checked ${checkedAt}).`);
+      return;
+    }
+    const span = `${formatLocalDateTime(diff.from)} and ${formatLocalDateTime(diff.to)}`;
+    console.log(`Menu changes at ${storeNo} between ${span}: ${summarizeMenuChanges(diff.changes)}`);
+    printTable(
+      ["change", "spuId", "name", "category", "price"],
+      diff.changes.map((change) => [
+        MENU_CHANGE_LABELS[change.kind],
+        change.spuId,
+        truncateForTable(change.name, 36),
+        truncateForTable(change.category || "-", 20),
+        formatMenuChangePrice(change)
+      ])
+    );
+    console.log(`Last checked ${checkedAt}.`);
+  }
+
+  private async cmdMenuNotify(rest: string[]): Promise<void> {
+    const value = rest[0];
+    if (value === undefined) {
+      console.log(`Menu notify: ${this.state.session.menuNotify ? "on" : "off"}`);
+      return;
+    }
+    if (value !== "on" && value !== "off") {
+      console.log("Usage: menu notify on|off");
+      return;
+    }
+    this.state.session.menuNotify = value === "on";
+    await this.persist();
+    console.log(`Menu notify ${value}`);
+    if (value === "on") {
+      console.log("New or restocked drinks ring the bell and run the `watch alert hook`.");
+      console.log("With `watch on`, the selected store's menu is re-checked every 15 minutes.");
+    }
+  }
+
+  // Aliases expand first; variant text comes from options already fetched with `item`.
+  private searchSelectedMenu(query: string): MenuSearchHit[] {
+    const expanded = expandAliases(query, this.aliases);
+    for (const alias of expanded.used) {
+      console.log(`alias ${alias.name} -> "${alias.text}"`);
+    }
+    const storeNo = this.state.selectedStore?.storeNo ?? "";
+    const variants = new Map(
+      Object.entries(this.itemSkuOptionsCacheByStore[storeNo] ?? {}).map(([spuId, options]) => [
+        spuId,
+        options.map((option) => option.specText ?? option.name)
+      ])
+    );
+    return searchMenu(this.state.menuCache, expanded.query, { variants });
+  }
+
+  private async cmdMenuRefresh(storeNo: string): Promise<void> {
+    const cached = this.state.menuCacheByStore[storeNo];
+    const before = cached && cached.length > 0 ? menuContentHash(cached) : undefined;
+    const categories = await this.fetchMenuForStore(storeNo, true);
+    if (categories.length === 0) {
+      console.log(
+        before !== undefined
+          ? `No menu returned for ${storeNo}; keeping the cached menu.`
+          : `No menu returned for ${storeNo}.`
+      );
+      this.warnIfAnonymousMenuEmpty();
+      return;
+    }
+    const items = categories.reduce((sum, category) => sum + category.items.length, 0);
+    console.log(
+      menuContentHash(categories) === before
+        ? `Menu for ${storeNo} not modified (${items} items).`
+        : `Menu for ${storeNo} updated: ${categories.length} categories, ${items} items.`
+    );
+  }
+
+  private async cmdMenuCache(rest: string[]): Promise<void> {
+    const parsed = parseKeyValueTokens(rest);
+    const sub = parsed.args[0] ?? (parsed.opts.ttl !== undefined ? "ttl" : "stats");
+
+    if (sub === "ttl") {
+      const raw = parsed.opts.ttl ?? parsed.args[1];
+      if (raw === undefined) {
+        console.log(`Menu cache TTL: ${Math.round(this.menuTtlMs() / 60_000)} min`);
+        return;
+      }
+      const minutes = Number(raw);
+      if (!Number.isInteger(minutes) || minutes < 0 || minutes > MENU_CACHE_MAX_TTL_MIN) {
+        console.log(`Usage: menu cache ttl=<0-${MENU_CACHE_MAX_TTL_MIN} minutes>`);
+        return;
+      }
+      this.state.session.menuTtlMin = minutes;
+      await this.persist();
+      console.log(
+        minutes === 0
+          ? "Menu cache TTL 0 min: cached menus are shown and refetched on every use."
+          : `Menu cache TTL ${minutes} min`
+      );
+      return;
+    }
+
+    if (sub === "clear") {
+      const storeNo = parsed.args[1];
+      // Let in-flight refetches land first so they cannot rewrite a cleared entry.
+      await Promise.all(this.menuRevalidations.values());
+      const removed = await clearMenuCache(storeNo);
+      for (const key of storeNo !== undefined ? [storeNo] : Object.keys(this.state.menuCacheByStore)) {
+        delete this.state.menuCacheByStore[key];
+        this.menuFetchedAt.delete(key);
+      }
+      this.syncMenuCacheForSelectedStore();
+      console.log(
+        `Cleared ${removed} cached menu${removed === 1 ? "" : "s"}${
+          storeNo !== undefined ? ` for ${storeNo}` : ""
+        }.`
+      );
+      return;
+    }
+
+    if (sub !== "stats") {
+      console.log("Usage: menu cache [stats] | menu cache clear [storeNo] | menu cache ttl=<min>");
+      return;
+    }
+    const entries = await listCachedMenus();
+    const ttlMs = this.menuTtlMs();
+    const now = Date.now();
+    if (entries.length === 0) {
+      console.log("No cached menus.");
+    } else {
+      printTable(
+        ["storeNo", "variant", "items", "size", "fetched", "age", "state"],
+        entries.map((entry) => [
+          entry.storeNo,
+          entry.variant,
+          String(entry.items),
+          `${(entry.bytes / 1024).toFixed(1)}KB`,
+          formatLocalDateTime(entry.fetchedAt),
+          `${Math.max(0, Math.round((now - Date.parse(entry.fetchedAt)) / 60_000))}m`,
+          isMenuStale(entry.fetchedAt, ttlMs, now) ? "stale" : "fresh"
+        ])
+      );
+    }
+    console.log(`TTL ${Math.round(ttlMs / 60_000)} min · ${menuCacheDir()}`);
+  }
+
+  private async fetchGoodsDetailForStore(
+    storeNo: string,
+    spuId: string
+  ): Promise<GoodsDetailResult> {
+    // Always asks the store: cached options carry no stock state.
+    const region = this.activeRegion();
+    let res: ApiEnvelope;
+    try {
+      res = await this.client.getGoodsDetail({
+        spuId,
+        storeNo,
+        saleType: region.saleType,
+        saleChannel: region.saleChannel
+      });
+    } catch (error) {
+      return { kind: "error", message: error instanceof Error ? error.message : String(error) };
+    }
+    if (!isApiOk(res)) {
+      // Rate limits, auth and server errors say nothing about whether the store stocks the item.
+      return { kind: "error", message: res.errmsg ?? `errcode ${String(res.errcode ?? "?")}` };
+    }
+    const data = envelopeData(res);
+    const root = normalizeItemDetailRoot(data);
+    if (!root) {
+      return { kind: "missing" };
+    }
+    const options = extractItemSkuOptions(data);
+    if (options.length > 0) {
+      (this.itemSkuOptionsCacheByStore[storeNo] ??= {})[spuId] = options;
+    }
+    return { kind: "ok", soldOut: isMenuItemOutOfStock(root), options };
+  }
+
+  private async ensureSelectedStoreForOrder(trigger: string): Promise<void> {
+    if (this.state.storesCache.length === 0) {
+      await this.refreshStores("distance", true);
+    }
+
+    const closest = pickClosestStore(
+      this.state.storesCache,
+      this.storeAutoSelect(),
+      this.travelSpeedKmh()
+    );
+    if (!closest) {
+      return;
+    }
+
+    const selected = this.state.selectedStore;
+    if (!selected || !this.state.session.storePinned) {
+      const changed = !selected || selected.storeNo !== closest.storeNo;
+      this.state.selectedStore = closest;
+      this.state.session.storePinned = false;
+      this.syncMenuCacheForSelectedStore();
+      await this.ensureMenuForSelectedStore(true);
+      if (changed) {
+        await this.persist();
+        console.log(
+          `Auto-selected closest store for ${trigger}: ${closest.storeNo} (${closest.storeName}, ${formatDistanceKm(
+            closest.distanceMeters
+          )})`
+        );
+      }
+    }
+  }
+
+  private warnIfAnonymousMenuEmpty(): void {
+    if (this.state.menuCache.length > 0) {
+      return;
+    }
+    if (this.state.auth) {
+      return;
+    }
+    console.log(
+      "Menu returned empty for anonymous session. Try another store, or login for account-specific availability."
+    );
+  }
+
+  private async cmdItem(rest: string[]): Promise<void> {
+    const sub = rest[0];
+    if (sub !== "show") {
+      console.log("Usage: item <spuId>");
+      return;
+    }
+    if (!this.state.selectedStore) {
+      console.log("Select a store first: use <storeNo>");
+      return;
+    }
+    const spuId = rest[1];
+    if (!spuId) {
+      console.log("Usage: item <spuId>");
+      return;
+    }
+    const region = this.activeRegion();
+    const res = await this.client.getGoodsDetail({
+      spuId,
+      storeNo: this.state.selectedStore.storeNo,
+      saleType: region.saleType,
+      saleChannel: region.saleChannel
+    });
+    this.printEnvelope(res);
+    if (!isApiOk(res)) {
+      return;
+    }
+    const options = extractItemSkuOptions(envelopeData(res));
+    const storeNo = this.state.selectedStore.storeNo;
+    const perStore = (this.itemSkuOptionsCacheByStore[storeNo] ??= {});
+    perStore[spuId] = options;
+    if (options.length === 0) {
+      this.printData(envelopeData(res));
+      return;
+    }
+    const rows = options.slice(0, ITEM_OPTION_PRINT_LIMIT).map((option) => [
+      option.skuId,
+      option.price !== undefined ? option.price.toFixed(2) : "-",
+      option.specText ?? "-",
+      option.name
+    ]);
+    printTable(["skuId", "price", "variant", "name"], rows);
+    if (options.length > ITEM_OPTION_PRINT_LIMIT) {
+      console.log(
+        `... ${options.length - ITEM_OPTION_PRINT_LIMIT} more option(s). Use the TUI variant picker to browse all.`
+      );
+    }
+  }
+
+  private async cmdCart(rest: string[]): Promise<void> {
+    const sub = rest[0];
+    if (!sub) {
+      console.log("Usage: add <skuId> | qty <item> <n> | rm <item> | clear | cart");
+      return;
+    }
+
+    if (sub === "add") {
+      const phrase = parseKeyValueTokens(rest.slice(1));
+      if (this.isAddPhrase(phrase.args)) {
+        await this.addByPhrase(phrase.args.join(" "), phrase.opts);
+        return;
+      }
+      const skuId = rest[1];
+      const parsed = parseKeyValueTokens(rest.slice(2));
+      if (!skuId) {
+        console.log(
+          "Usage: add <skuId> [qty=1] [spuId=...] [name=...] [price=...] [specList=<json>] [attributeList=<json>]"
+        );
+        return;
+      }
+      const qty = Math.max(1, Math.floor(parseNum(parsed.opts.qty, 1)));
+      const specList = parseSpecSelectionList(parsed.opts.specList);
+      const attributeList = parseAttributeSelectionList(parsed.opts.attributeList);
+      const line: CartLine = {
+        lineId: buildCartLineId(),
+        skuId,
+        spuId: parsed.opts.spuId,
+        name: parsed.opts.name,
+        variantText: parsed.opts.variant,
+        qty,
+        price: parsed.opts.price ? parseNum(parsed.opts.price, 0) : undefined,
+        specList,
+        attributeList,
+        owner: parsed.opts.owner
+      };
+      this.state.cart.push(line);
+      nextCartVersion(this.state);
+      await this.persist();
+      console.log(`Added item ${this.state.cart.length}`);
+      return;
+    }
+
+    if (sub === "set") {
+      const itemRef = rest[1];
+      const parsed = parseKeyValueTokens(rest.slice(2));
+      const qty = Math.max(0, Math.floor(parseNum(parsed.opts.qty, -1)));
+      if (!itemRef || qty < 0) {
+        console.log("Usage: qty <item> <n>");
+        return;
+      }
+      const resolved = this.resolveCartItemRef(itemRef);
+      if (!resolved) {
+        console.log(`item not found: ${itemRef}`);
+        return;
+      }
+      const line = this.state.cart.find((l) => l.lineId === resolved.lineId);
+      if (!line) {
+        console.log(`item not found: ${itemRef}`);
+        return;
+      }
+      if (qty === 0) {
+        this.state.cart = this.state.cart.filter((l) => l.lineId !== resolved.lineId);
+        console.log(`Removed item ${resolved.itemNo}`);
+      } else {
+        line.qty = qty;
+        console.log(`Updated item ${resolved.itemNo} qty=${qty}`);
+      }
+      nextCartVersion(this.state);
+      await this.persist();
+      return;
+    }
+
+    if (sub === "rm") {
+      const itemRef = rest[1];
+      if (!itemRef) {
+        console.log("Usage: rm <item>");
+        return;
+      }
+      const resolved = this.resolveCartItemRef(itemRef);
+      if (!resolved) {
+        console.log(`item not found: ${itemRef}`);
+        return;
+      }
+      this.state.cart = this.state.cart.filter((l) => l.lineId !== resolved.lineId);
+      nextCartVersion(this.state);
+      await this.persist();
+      console.log(`Removed item ${resolved.itemNo}`);
+      return;
+    }
+
+    if (sub === "clear") {
+      this.state.cart = [];
+      nextCartVersion(this.state);
+      await this.persist();
+      console.log("Cart cleared");
+      return;
+    }
+
+    if (sub === "show") {
+      if (this.state.cart.length === 0) {
+        console.log("Cart is empty");
+        return;
+      }
+      const rows = this.state.cart.map((l, idx) => [
+        String(idx + 1),
+        l.skuId,
+        l.name ?? "-",
+        String(l.qty),
+        l.price !== undefined ? String(l.price) : "-"
+      ]);
+      if (hasOwnerTags(this.state.cart)) {
+        printTable(
+          ["item", "skuId", "name", "qty", "price", "owner"],
+          rows.map((row, idx) => [...row, this.state.cart[idx]?.owner ?? "-"])
+        );
+        return;
+      }
+      printTable(["item", "skuId", "name", "qty", "price"], rows);
+      return;
+    }
+
+    if (sub === "sync") {
+      if (!this.state.auth || !this.state.selectedStore) {
+        console.log("cart sync needs auth + selected store");
+        return;
+      }
+      const region = this.activeRegion();
+      const skuList = this.buildSkuList();
+      const changed = await this.client.cartChange({
+        userId: this.state.auth.userId,
+        skuList,
+        saleType: region.saleType,
+        saleChannel: region.saleChannel,
+        inAppDeliveryGray: false
+      });
+      this.printEnvelope(changed);
+      if (isApiOk(changed)) {
+        const got = await this.client.cartGet({
+          userId: this.state.auth.userId,
+          storeNo: this.state.selectedStore.storeNo,
+          saleType: region.saleType,
+          saleChannel: region.saleChannel,
+          tradeChannel: region.tradeChannel
+        });
+        this.printEnvelope(got);
+        this.printData(envelopeData(got));
+      }
+      return;
+    }
+
+    console.log("Usage: add|qty|rm|clear|cart");
+  }
+
+  private resolveCartItemRef(itemRef: string): { lineId: string; itemNo: number } | undefined {
+    const asNumber = Number.parseInt(itemRef, 10);
+    if (/^\d+$/.test(itemRef) && Number.isFinite(asNumber)) {
+      const itemNo = Math.max(1, asNumber);
+      const line = this.state.cart[itemNo - 1];
+      if (!line) {
+        return undefined;
+      }
+      return { lineId: line.lineId, itemNo };
+    }
+
+    const index = this.state.cart.findIndex((line) => line.lineId === itemRef);
+    if (index < 0) {
+      return undefined;
+    }
+    const line = this.state.cart[index];
+    if (!line) {
+      return undefined;
+    }
+    return { lineId: line.lineId, itemNo: index + 1 };
+  }
+
+  private async cmdQuote(): Promise<void> {
+    if (!this.state.auth) {
+      console.log("Login required");
+      return;
+    }
+    await this.checkAuthExpiry();
+    await this.ensureSelectedStoreForOrder("quote");
+    if (!this.state.selectedStore) {
+      console.log("Select a store first");
+      return;
+    }
+    if (this.state.cart.length === 0) {
+      console.log("Cart is empty");
+      return;
+    }
+    if (this.deliveryAddressMissing()) {
+      return;
+    }
+
+    const payload = this.buildQuotePayload();
+    const res = await this.client.orderPrice(payload);
+    this.printEnvelope(res);
+
+    if (!isApiOk(res)) {
+      if (this.state.quote || this.state.pendingCreatePayload) {
+        this.state.quote = undefined;
+        this.state.pendingCreatePayload = undefined;
+        await this.persist();
+      }
+      console.log("Quote failed; cleared cached quote.");
+      if ((this.state.appliedVouchers ?? []).length > 0) {
+        console.log("Vouchers are applied; run `voucher clear` if the store rejected them.");
+      }
+      return;
+    }
+
+    const data = envelopeData<Record<string, unknown>>(res) ?? {};
+    const quoteRespVO =
+      (data.priceQuoteRespVO as Record<string, unknown> | undefined) ?? undefined;
+    const totalCandidates = [
+      quoteRespVO?.payAmount,
+      quoteRespVO?.amount,
+      data.payAmount,
+      data.totalAmount
+    ];
+    let total: string | undefined;
+    for (const c of totalCandidates) {
+      if (typeof c === "string" || typeof c === "number") {
+        total = String(c);
+        break;
+      }
+    }
+
+    const breakdown = parseQuoteBreakdown(quoteRespVO, total);
+    this.state.quote = {
+      at: new Date().toISOString(),
+      total,
+      breakdown,
+      priceQuoteRespVO: quoteRespVO,
+      raw: data
+    };
+    if (this.state.pendingCreatePayload) {
+      this.state.pendingCreatePayload = undefined;
+    }
+    await this.persist();
+    this.printQuoteBreakdown(breakdown);
+    console.log(`Quoted total: ${total ?? "(unknown)"}`);
+  }
+
+  private quoteBreakdown(): QuoteBreakdown | undefined {
+    const quote = this.state.quote;
+    if (!quote) {
+      return undefined;
+    }
+    // Sessions saved before breakdowns existed only kept the raw VO.
+    return quote.breakdown ?? parseQuoteBreakdown(quote.priceQuoteRespVO, quote.total);
+  }
+
+  private printQuoteBreakdown(breakdown: QuoteBreakdown): void {
+    if (this.state.session.jsonOutput) {
+      this.printData(breakdown);
+      return;
+    }
+    if (breakdown.lines.length > 0) {
+      printTable(
+        ["skuId", "name", "qty", "unit", "options", "total"],
+        breakdown.lines.map((line) => [
+          line.skuId,
+          truncateForTable(line.name ?? "-", 32),
+          String(line.qty),
+          formatAmount(line.unitPrice),
+          line.optionsSurcharge > 0 ? `+${line.optionsSurcharge.toFixed(2)}` : "-",
+          line.lineTotal.toFixed(2)
+        ])
+      );
+    }
+    const rows: string[][] = [["Items", breakdown.subtotal.toFixed(2)]];
+    for (const discount of breakdown.discounts) {
+      rows.push([discount.label, `-${discount.amount.toFixed(2)}`]);
+    }
+    for (const fee of breakdown.fees) {
+      rows.push([fee.label, fee.amount.toFixed(2)]);
+    }
+    const unexplained = quoteUnexplainedAmount(breakdown);
+    if (unexplained !== undefined && unexplained !== 0) {
+      rows.push(["Other/rounding", unexplained.toFixed(2)]);
+    }
+    rows.push(["Payable", formatAmount(breakdown.payable)]);
+    for (const row of rows) {
+      console.log(`${(row[0] ?? "").padEnd(16)} ${(row[1] ?? "").padStart(9)}`);
+    }
+
+    const cartSubtotal = this.state.cart.reduce(
+      (sum, line) => sum + (line.price ?? 0) * line.qty,
+      0
+    );
+    const cartPriced = this.state.cart.every((line) => line.price !== undefined);
+    if (cartPriced && breakdown.lines.length > 0) {
+      const drift = Math.round((breakdown.subtotal - cartSubtotal) * 100) / 100;
+      if (drift !== 0) {
+        console.log(
+          `Note: quoted items differ from cart prices by ${drift > 0 ? "+" : ""}${drift.toFixed(2)} (cart ${cartSubtotal.toFixed(2)}).`
+        );
+      }
+    }
+
+    const applied = this.state.appliedVouchers ?? [];
+    if (applied.length > 0) {
+      console.log(`Vouchers: ${applied.map(describeAppliedVoucher).join(", ")}`);
+      if (breakdown.discountTotal === 0) {
+        console.log("Note: vouchers are applied but the quote shows no discount.");
+      }
+    }
+  }
+
+  private async cmdPlace(rest: string[]): Promise<void> {
+    if (!this.state.auth) {
+      console.log("Login required");
+      return;
+    }
+    await this.checkAuthExpiry();
+    await this.ensureSelectedStoreForOrder("place");
+    if (!this.state.selectedStore) {
+      console.log("Select a store first");
+      return;
+    }
+    if (this.state.cart.length === 0) {
+      console.log("Cart is empty");
+      return;
+    }
+    if (this.deliveryAddressMissing()) {
+      return;
+    }
+
+    const parsed = parseKeyValueTokens(rest);
+    const open = parsed.opts.open !== "0";
+    const region = this.activeRegion();
+    const channelCode = parsed.opts.channelCode ?? region.channelCode;
+    const payType = parsed.opts.payType ?? "1";
+
+    if (!this.state.quote) {
+      console.log("No quote in session, running quote...");
+      await this.cmdQuote();
+      if (!this.state.quote) {
+        return;
+      }
+    }
+
+    const payload = this.buildCreatePayload();
+    this.state.pendingCreatePayload = payload;
+    await this.persist();
+
+    if (this.state.session.mode !== "live") {
+      console.log("Dry-run mode: order not submitted.");
+      console.log("Run `live on` and retry `place` to create a real order.");
+      this.printOwnerSplit();
+      return;
+    }
+
+    const createRes = await this.client.orderCreate(payload);
+    this.printEnvelope(createRes);
+
+    if (!isApiOk(createRes)) {
+      return;
+    }
+
+    const created = envelopeData<Record<string, unknown>>(createRes) ?? {};
+    const orderNo =
+      asString(created.orderNo) ?? asString(created.orderId) ?? asString(created.no) ?? "";
+    if (!orderNo) {
+      console.log("Create succeeded but orderNo not found in response.");
+      return;
+    }
+
+    this.state.order = {
+      orderNo,
+      status: "created",
+      amount: this.state.quote?.total,
+      createdAt: new Date().toISOString(),
+      raw: created
+    };
+    this.applyOrderCancelWindow(created);
+    this.state.pendingCreatePayload = undefined;
+    this.state.payment = undefined;
+    await this.recordOrderInHistory(orderNo);
+    this.state.appliedVouchers = undefined;
+    await this.persist();
+    console.log(`Order created: ${orderNo}`);
+    this.printOwnerSplit();
+
+    const payPayload = {
+      userId: this.state.auth.userId,
+      orderNo,
+      storeNo: this.state.selectedStore.storeNo,
+      source: region.source,
+      channelCode,
+      payType,
+      extInfo: {}
+    };
+
+    const payRes = await this.client.continuePay(payPayload);
+    this.printEnvelope(payRes);
+    if (!isApiOk(payRes)) {
+      return;
+    }
+
+    const payData = envelopeData<Record<string, unknown>>(payRes) ?? {};
+    const payNo = asString(payData.payNo);
+    const payUrl = extractPayUrl(payData);
+    this.state.payment = {
+      payNo,
+      payUrl,
+      status: "pending",
+      method: payType,
+      raw: payData
+    };
+    this.applyOrderCancelWindow(payData);
+    await this.persist();
+
+    console.log(`payNo=${payNo ?? "-"}`);
+    if (!payUrl) {
+      console.log("No payment URL returned.");
+      return;
+    }
+
+    console.log(`payUrl=${payUrl}`);
+    if (open) {
+      this.openUrl(payUrl);
+    } else {
+      console.log("Run `pay open` to open payment in your browser.");
+    }
+  }
+
+  private async cmdSchedule(rest: string[]): Promise<void> {
+    const sub = (rest[0] ?? "list").toLowerCase();
+
+    if (sub === "place") {
+      await this.schedulePlace(parseKeyValueTokens(rest.slice(1)).opts);
+      return;
+    }
+
+    if (sub === "list") {
+      if (this.state.session.jsonOutput) {
+        this.printData(this.scheduledJobs.map(({ cart: _cart, ...job }) => job));
+        return;
+      }
+      if (this.scheduledJobs.length === 0) {
+        console.log("No scheduled jobs. Use `schedule place at=HH:MM [store=...] [maxWait=...]`.");
+        return;
+      }
+      const now = new Date();
+      printTable(
+        ["id", "at", "in", "store", "items", "maxWait", "status", "detail"],
+        this.scheduledJobs.map((job) => {
+          const at = new Date(job.at);
+          return [
+            job.id,
+            formatScheduleClock(at),
+            job.status === "pending" ? formatTimeUntil(at, now) : "-",
+            job.storeNo,
+            String(job.cart.reduce((sum, line) => sum + line.qty, 0)),
+            job.maxWaitMin !== undefined ? `${job.maxWaitMin}min` : "-",
+            job.status,
+            truncateForTable(job.orderNo ?? job.detail ?? "-", 40)
+          ];
+        })
+      );
+      return;
+    }
+
+    if (sub === "cancel") {
+      const ref = rest[1];
+      if (!ref) {
+        console.log("Usage: schedule cancel <id|all>");
+        return;
+      }
+      const targets = this.scheduledJobs.filter(
+        (job) => job.status === "pending" && (ref === "all" || job.id === ref)
+      );
+      if (targets.length === 0) {
+        console.log(`No pending scheduled job: ${ref}`);
+        return;
+      }
+      for (const job of targets) {
+        this.clearScheduleTimer(job.id);
+        job.status = "canceled";
+        job.detail = "canceled by user";
+      }
+      console.log(`Canceled ${targets.map((job) => job.id).join(", ")}`);
+      return;
+    }
+
+    if (sub === "wait") {
+      const parsed = parseKeyValueTokens(rest.slice(1));
+      const active = this.scheduledJobs.filter(isScheduledJobActive);
+      if (active.length === 0) {
+        console.log("No pending scheduled jobs.");
+        return;
+      }
+      const lastAt = Math.max(...active.map((job) => Date.parse(job.at)));
+      const defaultTimeoutSec = Math.ceil((lastAt - Date.now()) / 1000) + 600;
+      const timeoutSec = Math.max(1, parseNum(parsed.opts.timeout, defaultTimeoutSec));
+      console.log(`Waiting for ${active.length} scheduled job(s) (timeout ${timeoutSec}s)...`);
+      const deadline = Date.now() + timeoutSec * 1000;
+      while (this.scheduledJobs.some(isScheduledJobActive) && Date.now() < deadline) {
+        await sleepMs(500);
+      }
+      if (this.scheduledJobs.some(isScheduledJobActive)) {
+        console.log("schedule wait timed out; jobs are still pending.");
+      }
+      return;
+    }
+
+    console.log(
+      "Usage: schedule place at=HH:MM|+15m [store=<storeNo>] [maxWait=<min>] [open=0] | schedule [list] | schedule cancel <id|all> | schedule wait [timeout=<sec>]"
+    );
+  }
+
+  private async schedulePlace(opts: Record<string, string>): Promise<void> {
+    if (!this.state.auth) {
+      console.log("Login required");
+      return;
+    }
+    const rawAt = opts.at;
+    const target = rawAt ? parseScheduleAt(rawAt) : undefined;
+    if (!target) {
+      console.log("Usage: schedule place at=HH:MM|+15m [store=<storeNo>] [maxWait=<min>] [open=0]");
+      return;
+    }
+    const delayMs = target.getTime() - Date.now();
+    if (delayMs < 0 || delayMs > SCHEDULE_MAX_AHEAD_MS) {
+      console.log("Scheduled time must be within the next 24 hours.");
+      return;
+    }
+    if (this.state.cart.length === 0) {
+      console.log("Cart is empty; build the cart you want placed first.");
+      return;
+    }
+    const storeNo = opts.store ?? this.state.selectedStore?.storeNo;
+    if (!storeNo) {
+      console.log("Select a store first or pass store=<storeNo>");
+      return;
+    }
+    let maxWaitMin: number | undefined;
+    if (opts.maxWait !== undefined || opts.maxwait !== undefined) {
+      maxWaitMin = parseNum(opts.maxWait ?? opts.maxwait, Number.NaN);
+      if (!Number.isFinite(maxWaitMin) || maxWaitMin < 0) {
+        console.log("maxWait must be a number of minutes.");
+        return;
+      }
+    }
+
+    this.scheduleSeq += 1;
+    const job: ScheduledPlaceJob = {
+      id: `s${this.scheduleSeq}`,
+      at: target.toISOString(),
+      createdAt: new Date().toISOString(),
+      storeNo,
+      storeName:
+        this.state.storesCache.find((store) => store.storeNo === storeNo)?.storeName ??
+        (this.state.selectedStore?.storeNo === storeNo
+          ? this.state.selectedStore.storeName
+          : undefined),
+      maxWaitMin,
+      open: parseBool(opts.open, false),
+      // shutdown() clears the live cart, so the job keeps its own copy.
+      cart: this.state.cart.map((line) => ({
+        ...line,
+        specList: cloneSpecSelections(line.specList),
+        attributeList: cloneAttributeSelections(line.attributeList)
+      })),
+      status: "pending"
+    };
+    this.scheduledJobs.push(job);
+    this.scheduleTimers.set(
+      job.id,
+      setTimeout(() => {
+        this.scheduleTimers.delete(job.id);
+        void this.runScheduledPlace(job);
+      }, delayMs)
+    );
+
+    const items = job.cart.reduce((sum, line) => sum + line.qty, 0);
+    const threshold = maxWaitMin !== undefined ? `, only if wait <= ${maxWaitMin}min` : "";
+    console.log(
+      `Scheduled ${job.id}: place ${items} item(s) at ${job.storeNo} at ${formatScheduleClock(
+        target
+      )} (in ${formatTimeUntil(target)})${threshold}.`
+    );
+    if (this.state.session.mode !== "live") {
+      console.log(
+        "Mode is dry-run: the job will re-quote and check the wait but not place. Run `live on` to arm it."
+      );
+    }
+    console.log("Keep this session open until it fires (`schedule wait` blocks in scripts).");
+  }
+
+  private async runScheduledPlace(job: ScheduledPlaceJob): Promise<void> {
+    if (job.status !== "pending") {
+      return;
+    }
+    const finish = (status: ScheduledPlaceJob["status"], detail: string): void => {
+      job.status = status;
+      job.detail = detail;
+      console.log(`[schedule ${job.id}] ${status}: ${detail}`);
+    };
+    const busy = (): boolean =>
+      this.runningCommands > 0 || this.scheduledJobs.some((other) => other.status === "running");
+    const idleDeadline = Date.now() + SCHEDULE_IDLE_WAIT_MS;
+    while (busy() && Date.now() < idleDeadline && job.status === "pending") {
+      await sleepMs(500);
+    }
+    if (job.status !== "pending") {
+      return;
+    }
+    if (busy()) {
+      finish("skipped", `another command was still running after ${SCHEDULE_IDLE_WAIT_MS / 1000}s`);
+      return;
+    }
+    job.status = "running";
+    console.log(`\n[schedule ${job.id}] firing for ${job.storeNo}`);
+
+    // The job borrows the session's store and cart; the user's are put back afterwards. A placed
+    // order keeps the job's store, which its payment status lookups need.
+    const saved = {
+      selectedStore: this.state.selectedStore,
+      storePinned: this.state.session.storePinned,
+      cart: this.state.cart,
+      appliedVouchers: this.state.appliedVouchers,
+      order: this.state.order,
+      payment: this.state.payment
+    };
+    try {
+      if (!this.state.auth) {
+        finish("failed", "not logged in");
+        return;
+      }
+      if (this.state.selectedStore?.storeNo !== job.storeNo) {
+        await this.cmdStore(["use", job.storeNo]);
+      }
+      const store = this.state.selectedStore;
+      if (!store || store.storeNo !== job.storeNo) {
+        finish("failed", `could not select store ${job.storeNo}`);
+        return;
+      }
+      if (isStoreClosed(store)) {
+        finish("skipped", `${store.storeName} is closed`);
+        return;
+      }
+
+      this.state.cart = job.cart.map((line) => ({
+        ...line,
+        specList: cloneSpecSelections(line.specList),
+        attributeList: cloneAttributeSelections(line.attributeList)
+      }));
+      nextCartVersion(this.state);
+      await this.persist();
+
+      const waitRes = await this.client.getStoreWaitInfo({
+        storeNo: store.storeNo,
+        isTakeaway: this.fulfillmentParams().isTakeaway
+      });
+      const wait = isApiOk(waitRes) ? parseWaitInfo(envelopeData(waitRes)) : {};
+      this.state.selectedStore = { ...store, ...wait };
+      await this.recordWaitSamples([this.state.selectedStore]);
+      const check = checkWaitThreshold(wait.waitingTime, job.maxWaitMin);
+      if (!check.ok) {
+        finish("skipped", check.reason ?? "wait check failed");
+        return;
+      }
+
+      await this.cmdQuote();
+      if (!this.state.quote) {
+        finish("failed", "re-quote failed");
+        return;
+      }
+      const waitText = wait.waitingTime !== undefined ? `wait ${wait.waitingTime}min, ` : "";
+      if (this.state.session.mode !== "live") {
+        finish("dry-run", `${waitText}quoted ${this.state.quote.total ?? "?"}; not placed (dry-run)`);
+        return;
+      }
+
+      const previousOrderNo = this.state.order?.orderNo;
+      await this.cmdPlace([`open=${job.open ? "1" : "0"}`]);
+      const placedOrderNo = this.state.order?.orderNo;
+      if (!placedOrderNo || placedOrderNo === previousOrderNo) {
+        finish("failed", "place did not create an order");
+        return;
+      }
+      job.orderNo = placedOrderNo;
+      finish("placed", `${waitText}order ${placedOrderNo}, ${this.state.quote?.total ?? "?"}`);
+    } catch (error) {
+      finish("failed", error instanceof Error ? error.message : String(error));
+    } finally {
+      await this.restoreAfterScheduledJob(job, saved);
+    }
+  }
+
+  private async restoreAfterScheduledJob(
+    job: ScheduledPlaceJob,
+    saved: {
+      selectedStore: AppState["selectedStore"];
+      storePinned: boolean;
+      cart: CartLine[];
+      appliedVouchers: AppState["appliedVouchers"];
+      order: AppState["order"];
+      payment: AppState["payment"];
+    }
+  ): Promise<void> {
+    if (job.status !== "placed") {
+      this.state.selectedStore = saved.selectedStore;
+      this.state.session.storePinned = saved.storePinned;
+      this.state.order = saved.order;
+      this.state.payment = saved.payment;
+      this.syncMenuCacheForSelectedStore();
+    }
+    const movedStore = saved.selectedStore?.storeNo !== this.state.selectedStore?.storeNo;
+    this.state.cart = saved.cart;
+    // Vouchers belong to the store they were applied at.
+    this.state.appliedVouchers = movedStore ? undefined : saved.appliedVouchers;
+    nextCartVersion(this.state);
+    await this.persist();
+    if (movedStore) {
+      console.log(
+        `[schedule ${job.id}] store is now ${job.storeNo} for the placed order; your cart (${saved.cart.length} line(s)) was kept.`
+      );
+    }
+  }
+
+  private clearScheduleTimer(id: string): void {
+    const timer = this.scheduleTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.scheduleTimers.delete(id);
+    }
+  }
+
+  private cancelScheduledJobsOnExit(): void {
+    const pending = this.scheduledJobs.filter((job) => job.status === "pending");
+    for (const job of pending) {
+      this.clearScheduleTimer(job.id);
+      job.status = "canceled";
+      job.detail = "session ended";
+    }
+    if (pending.length > 0) {
+      console.warn(`Canceled ${pending.length} scheduled job(s) on exit.`);
+    }
+  }
+
+  private async cmdCheckout(): Promise<void> {
+    if (!this.state.auth) {
+      console.log("Login required");
+      return;
+    }
+    await this.checkAuthExpiry();
+    await this.ensureSelectedStoreForOrder("checkout");
+    if (!this.state.selectedStore) {
+      console.log("Select a store first");
+      return;
+    }
+    if (!this.state.quote) {
+      console.log("Run `quote` first");
+      return;
+    }
+
+    const payload = this.buildCreatePayload();
+    this.state.pendingCreatePayload = payload;
+    await this.persist();
+
+    console.log("Create-order payload staged. Review with `debug last-req` after confirm.");
+    console.log(`Mode=${this.state.session.mode}. Use 'confirm' to submit create order.`);
+    this.printData(payload);
+  }
+
+  private async cmdConfirm(): Promise<void> {
+    if (this.state.session.mode !== "live") {
+      console.log("confirm is disabled in dry-run mode. Run: live on");
+      return;
+    }
+    if (!this.state.pendingCreatePayload) {
+      console.log("No staged checkout payload. Run `checkout` first.");
+      return;
+    }
+
+    const res = await this.client.orderCreate(this.state.pendingCreatePayload);
+    this.printEnvelope(res);
+
+    if (isApiOk(res)) {
+      const data = envelopeData<Record<string, unknown>>(res) ?? {};
+      const orderNo =
+        asString(data.orderNo) ?? asString(data.orderId) ?? asString(data.no) ?? "";
+      if (!orderNo) {
+        console.log("Create succeeded but orderNo not found in response.");
+      }
+      this.state.order = {
+        orderNo,
+        status: "created",
+        amount: this.state.quote?.total,
+        createdAt: new Date().toISOString(),
+        raw: data
+      };
+      this.applyOrderCancelWindow(data);
+      this.state.pendingCreatePayload = undefined;
+      this.state.payment = undefined;
+      await this.recordOrderInHistory(orderNo);
+      this.state.appliedVouchers = undefined;
+      await this.persist();
+      console.log(`Order created: ${orderNo || "(unknown)"}`);
+    }
+  }
+
+  private async cmdOrder(rest: string[]): Promise<void> {
+    const sub = rest[0];
+    if (sub === "show" || sub === undefined) {
+      if (!this.state.order) {
+        this.printData(null);
+        return;
+      }
+      this.printData(buildOrderView(this.state.order));
+      return;
+    }
+
+    if (sub === "cancel") {
+      if (!this.state.auth || !this.state.order?.orderNo) {
+        console.log("order cancel needs auth + existing order");
+        return;
+      }
+      const parsed = parseKeyValueTokens(rest.slice(1));
+      const force = parsed.opts.force === "1";
+      const remainingSec = estimateCancelRemainingSec(this.state.order);
+      if (remainingSec !== undefined && remainingSec <= 0 && !force) {
+        console.log(
+          `Local check: cancel window appears expired at ${this.state.order.cancelByAt ?? "(unknown)"}`
+        );
+        console.log("Use `order cancel force=1` to still send API request.");
+        return;
+      }
+      const res = await this.client.orderCancel(
+        this.state.auth.userId,
+        this.state.order.orderNo
+      );
+      this.printEnvelope(res);
+      if (isApiOk(res)) {
+        this.state.order.status = "canceled";
+        await this.persist();
+      }
+      return;
+    }
+
+    console.log("Usage: order | order show | order cancel [force=1]");
+  }
+
+  private async cmdOrders(rest: string[]): Promise<void> {
+    const sub = rest[0];
+
+    if (sub === "list" || sub === undefined) {
+      const parsed = parseKeyValueTokens(sub === "list" ? rest.slice(1) : rest);
+      const limit = clampInt(parseNum(parsed.opts.limit, 10), 1, 50);
+      if (this.orderHistory.length === 0) {
+        console.log("Order history is empty.");
+        console.log(`History file: ${orderHistoryFilePath()}`);
+        return;
+      }
+
+      const rows = this.orderHistory.slice(0, limit).map((entry, idx) => {
+        const totalItems = entry.items.reduce((sum, line) => sum + Math.max(0, line.qty), 0);
+        return [
+          String(idx + 1),
+          entry.at,
+          entry.orderNo,
+          entry.region,
+          entry.storeName ?? entry.storeNo ?? "-",
+          String(totalItems),
+          entry.total ?? "-",
+          entry.discount ? `-${entry.discount}` : "-"
+        ];
+      });
+      printTable(["#", "at", "orderNo", "region", "store", "qty", "total", "discount"], rows);
+      if (this.orderHistory.length > limit) {
+        console.log(`Showing ${limit} of ${this.orderHistory.length} entries (use limit=<n>).`);
+      }
+      return;
+    }
+
+    if (sub === "show") {
+      const ref = rest[1];
+      const entry = this.resolveOrderHistoryEntry(ref);
+      if (!entry) {
+        console.log(`Order history entry not found: ${ref ?? "(missing ref)"}`);
+        return;
+      }
+      this.printData(entry);
+      return;
+    }
+
+    if (sub === "clear") {
+      await clearOrderHistory();
+      this.orderHistory = [];
+      console.log("Order history cleared.");
+      return;
+    }
+
+    if (sub === "file") {
+      console.log(orderHistoryFilePath());
+      return;
+    }
+
+    console.log("Usage: orders [list [limit=10]] | orders show <ref> | orders clear | orders file");
+  }
+
+  private async cmdReorder(rest: string[]): Promise<void> {
+    const parsed = parseKeyValueTokens(rest);
+    const ref = parsed.args[0];
+    if (!ref) {
+      console.log("Usage: reorder <ref> [append=0] [qty=1]");
+      console.log("Use `orders` to find refs (index, id, or orderNo).");
+      return;
+    }
+
+    const entry = this.resolveOrderHistoryEntry(ref);
+    if (!entry) {
+      console.log(`Order history entry not found: ${ref}`);
+      return;
+    }
+    if (entry.items.length === 0) {
+      console.log("Order history entry has no items to reorder.");
+      return;
+    }
+
+    let append = parseBool(parsed.opts.append, false);
+    const qtyMultiplier = clampInt(parseNum(parsed.opts.qty, 1), 1, 20);
+
+    const targetRegion = normalizeRegionCode(entry.region);
+    const currentRegion = normalizeRegionCode(this.state.session.region);
+    if (targetRegion !== currentRegion) {
+      console.log(
+        `Warning: history entry region=${targetRegion} differs from current region=${currentRegion}.`
+      );
+    }
+
+    const currentStoreNo = this.state.selectedStore?.storeNo;
+    const targetStoreNo = entry.storeNo;
+    const requiresStoreSwitch = Boolean(targetStoreNo && targetStoreNo !== currentStoreNo);
+    if (requiresStoreSwitch && append) {
+      append = false;
+      console.log("append=1 ignored because reorder switches to a different store.");
+    }
+    if (requiresStoreSwitch && targetStoreNo) {
+      await this.cmdStore(["use", targetStoreNo]);
+    }
+    if (!this.state.selectedStore && !targetStoreNo) {
+      console.log("Select a store first (history entry has no store).");
+      return;
+    }
+
+    const rebuiltLines = this.buildCartLinesFromOrderHistory(entry.items, qtyMultiplier);
+    if (rebuiltLines.length === 0) {
+      console.log("No valid cart lines found in selected history entry.");
+      return;
+    }
+
+    if (!append) {
+      this.state.cart = [];
+    }
+    this.state.cart.push(...rebuiltLines);
+    nextCartVersion(this.state);
+    this.state.order = undefined;
+    this.state.payment = undefined;
+    await this.persist();
+
+    const totalQty = rebuiltLines.reduce((sum, line) => sum + line.qty, 0);
+    const modeText = append ? "Appended" : "Replaced";
+    console.log(
+      `${modeText} cart from order ${entry.orderNo} (${rebuiltLines.length} line(s), ${totalQty} item(s)).`
+    );
+    if (this.state.selectedStore?.storeNo) {
+      console.log(`Active store: ${this.state.selectedStore.storeNo}`);
+    }
+  }
+
+  private async cmdAlias(rest: string[]): Promise<void> {
+    const sub = rest[0];
+
+    if (sub === undefined || sub === "list") {
+      if (this.aliases.length === 0) {
+        console.log('No aliases. Use `alias <name> = "<menu text>"`.');
+        console.log(`Aliases file: ${aliasesFilePath()}`);
+        return;
+      }
+      if (this.state.session.jsonOutput) {
+        this.printData(this.aliases);
+        return;
+      }
+      printTable(
+        ["alias", "expands to"],
+        this.aliases.map((alias) => [alias.name, alias.text])
+      );
+      return;
+    }
+
+    if (sub === "rm") {
+      const name = rest[1];
+      if (!name) {
+        console.log("Usage: alias rm <name>");
+        return;
+      }
+      const result = await removeAlias(name);
+      this.aliases = result.aliases;
+      console.log(result.removed ? `Removed alias ${name}` : `Alias not found: ${name}`);
+      return;
+    }
+
+    // alias <name> = <text...> | alias <name>=<text> | alias <name> <text...>
+    const eq = sub.indexOf("=");
+    const name = eq > 0 ? sub.slice(0, eq) : sub;
+    const textParts = eq > 0 ? [sub.slice(eq + 1), ...rest.slice(1)] : rest.slice(1);
+    if (textParts[0] === "=") {
+      textParts.shift();
+    }
+    const text = textParts.join(" ").trim();
+    if (!text) {
+      console.log('Usage: alias <name> = "<menu text>" | alias rm <name> | alias [list]');
+      return;
+    }
+    if (!isValidAliasName(name) || name === "rm" || name === "list") {
+      console.log("Alias names must be 1-40 characters without spaces, quotes or '='.");
+      return;
+    }
+    this.aliases = await upsertAlias({ name, text });
+    console.log(`Saved alias ${name} -> "${text}"`);
+  }
+
+  // `add "jasmine milk tea large less sugar x2"`: several words, an alias, or one word naming
+  // a menu item, rather than a skuId.
+  private isAddPhrase(args: string[]): boolean {
+    const first = args[0];
+    if (first === undefined) {
+      return false;
+    }
+    if (args.length > 1 || /\s/.test(first.trim()) || findAlias(this.aliases, first)) {
+      return true;
+    }
+    const knownSku = this.state.menuCache.some((category) =>
+      category.items.some((item) => item.skuId === first)
+    );
+    return !knownSku && searchMenu(this.state.menuCache, first).some((hit) => hit.field === "name");
+  }
+
+  private async addByPhrase(text: string, opts: Record<string, string>): Promise<void> {
+    if (!this.state.selectedStore) {
+      console.log("Select a store first: use <storeNo>");
+      return;
+    }
+    const expanded = expandAliases(text, this.aliases);
+    for (const alias of expanded.used) {
+      console.log(`alias ${alias.name} -> "${alias.text}"`);
+    }
+    const phrase = parseAddPhrase(expanded.query);
+    if (this.state.menuCache.length === 0) {
+      await this.ensureMenuForSelectedStore(true);
+    }
+
+    const found = resolvePhraseItem(this.state.menuCache, phrase.text);
+    if (!found.item) {
+      if (found.candidates.length > 1) {
+        console.log(`"${text}" matches several items; name one more precisely:`);
+        printTable(
+          ["spuId", "name"],
+          found.candidates.slice(0, ITEM_OPTION_PRINT_LIMIT).map((c) => [c.spuId, c.name])
+        );
+      } else {
+        console.log(`No menu item matches "${text}". Try \`menu search <text>\`.`);
+      }
+      return;
+    }
+    const item = found.item;
+
+    const options = await this.getItemSkuOptions(item.spuId);
+    if (options.length === 0) {
+      console.log(`${item.name} has no sellable variants at this store right now.`);
+      return;
+    }
+    const match = matchPhraseVariant(options, found.variantWords);
+    if (match.kind === "ambiguous") {
+      console.log(`"${match.word}" is ambiguous for ${item.name}; say one of: ${match.labels.join(", ")}`);
+      return;
+    }
+    if (match.kind === "unknown") {
+      console.log(`${item.name} has no option "${match.words.join(" ")}".`);
+      console.log(`Options: ${match.labels.join(", ")}`);
+      return;
+    }
+    if (match.kind === "none") {
+      console.log(`No sellable variant of ${item.name} has ${match.labels.join(" + ")}.`);
+      printTable(
+        ["skuId", "variant"],
+        options
+          .slice(0, ITEM_OPTION_PRINT_LIMIT)
+          .map((o) => [o.skuId, truncateForTable(o.specText ?? o.name, 60)])
+      );
+      return;
+    }
+
+    const qty = Math.max(1, Math.floor(parseNum(opts.qty, phrase.qty ?? 1)));
+    await this.addVariantToCart(item, match.option, qty, opts.owner);
+  }
+
+  private async addVariantToCart(
+    item: MenuItem,
+    option: ItemSkuOption,
+    qty: number,
+    owner?: string | undefined
+  ): Promise<void> {
+    this.state.cart.push({
+      lineId: buildCartLineId(),
+      spuId: item.spuId,
+      skuId: option.skuId,
+      name: item.name,
+      variantText: option.specText,
+      qty,
+      price: option.price,
+      specList: cloneSpecSelections(option.specList),
+      attributeList: cloneAttributeSelections(option.attributeList),
+      owner
+    });
+    nextCartVersion(this.state);
+    await this.persist();
+    console.log(
+      `Added item ${this.state.cart.length}: ${qty} x ${item.name} (${option.specText ?? option.skuId})${
+        option.price !== undefined ? ` @ ${option.price.toFixed(2)}` : ""
+      }`
+    );
+  }
 
-    const payload = this.buildQuotePayload();
-    const res = await this.client.orderPrice(payload);
-    this.printEnvelope(res);
+  // Line-mode counterpart of the TUI variant picker: one numbered prompt per dimension.
+  private async cmdPick(rest: string[]): Promise<void> {
+    const parsed = parseKeyValueTokens(rest);
+    const query = parsed.args.join(" ").trim();
+    if (!query) {
+      console.log("Usage: pick <spuId|name> [qty=1]");
+      return;
+    }
+    const prompt = this.promptLine;
+    if (!prompt) {
+      console.log("pick needs the interactive line shell; in scripts use `item <spuId>` then `add <skuId>` or `add \"<item> <options>\"`.");
+      return;
+    }
+    if (!this.state.selectedStore) {
+      console.log("Select a store first: use <storeNo>");
+      return;
+    }
+    if (this.state.menuCache.length === 0) {
+      await this.ensureMenuForSelectedStore(true);
+    }
 
-    if (!isApiOk(res)) {
-      if (this.state.quote || this.state.pendingCreatePayload) {
-        this.state.quote = undefined;
-        this.state.pendingCreatePayload = undefined;
-        await this.persist();
+    let item = findMenuItem(this.state.menuCache, query);
+    if (!item) {
+      const found = resolvePhraseItem(this.state.menuCache, expandAliases(query, this.aliases).query);
+      if (!found.item || found.variantWords.length > 0) {
+        console.log(
+          found.candidates.length > 1
+            ? `"${query}" matches several items: ${found.candidates.map((c) => `${c.name} (${c.spuId})`).join(", ")}`
+            : `No menu item matches "${query}".`
+        );
+        return;
       }
-      console.log("Quote failed; cleared cached quote.");
+      item = found.item;
+    }
+
+    const options = await this.getItemSkuOptions(item.spuId);
+    if (options.length === 0) {
+      console.log(`${item.name} has no sellable variants at this store right now.`);
       return;
     }
 
-    const data = envelopeData<Record<string, unknown>>(res) ?? {};
-    const quoteRespVO =
-      (data.priceQuoteRespVO as Record<string, unknown> | undefined) ?? undefined;
-    const totalCandidates = [
-      quoteRespVO?.payAmount,
-      quoteRespVO?.amount,
-      data.payAmount,
-      data.totalAmount
-    ];
-    let total: string | undefined;
-    for (const c of totalCandidates) {
-      if (typeof c === "string" || typeof c === "number") {
-        total = String(c);
-        break;
+    let picker = createMenuVariantPickerState({ item }, options);
+    let option: ItemSkuOption | undefined;
+    while (!option) {
+      const choices = getMenuVariantStageChoices(picker);
+      const dimension = picker.dimensions[picker.stageIndex];
+      console.log(
+        `${item.name} · step ${picker.stageIndex + 1}/${picker.dimensions.length}: ${dimension?.label ?? "Option"}`
+      );
+      printTable(
+        ["#", "choice", "price"],
+        choices.map((choice, idx) => [String(idx + 1), choice.value, choice.priceText])
+      );
+      const back = picker.stageIndex > 0 ? ", b=back" : "";
+      const answer = (
+        await prompt(`Choose 1-${choices.length} [${picker.choiceIndex + 1}]${back}, q=cancel: `)
+      )?.trim();
+      if (answer === undefined || answer === "q") {
+        console.log("Pick cancelled");
+        return;
+      }
+      if (answer === "b" && picker.stageIndex > 0) {
+        picker = syncMenuVariantPicker({ ...picker, stageIndex: picker.stageIndex - 1 });
+        continue;
+      }
+      const index = answer === "" ? picker.choiceIndex : Number(answer) - 1;
+      if (!Number.isInteger(index) || index < 0 || index >= choices.length) {
+        console.log(`Enter a number from 1 to ${choices.length}.`);
+        continue;
+      }
+      const transition = commitMenuVariantChoice(picker, index);
+      if (transition.mode === "add") {
+        option = transition.option;
+      } else if (transition.mode === "advance") {
+        picker = transition.picker;
       }
     }
 
-    this.state.quote = {
-      at: new Date().toISOString(),
-      total,
-      priceQuoteRespVO: quoteRespVO,
-      raw: data
-    };
-    if (this.state.pendingCreatePayload) {
-      this.state.pendingCreatePayload = undefined;
+    let qty = Math.max(0, Math.floor(parseNum(parsed.opts.qty, 0)));
+    while (qty < 1) {
+      const answer = (await prompt("Qty [1]: "))?.trim();
+      if (answer === undefined || answer === "q") {
+        console.log("Pick cancelled");
+        return;
+      }
+      const value = answer === "" ? 1 : Number(answer);
+      if (Number.isInteger(value) && value >= 1 && value <= 99) {
+        qty = value;
+      } else {
+        console.log("Enter a quantity from 1 to 99.");
+      }
     }
-    await this.persist();
-    console.log(`Quoted total: ${total ?? "(unknown)"}`);
+    await this.addVariantToCart(item, option, qty);
   }
 
-  private async cmdPlace(rest: string[]): Promise<void> {
-    if (!this.state.auth) {
-      console.log("Login required");
+  private async cmdFav(rest: string[]): Promise<void> {
+    const sub = rest[0];
+
+    if (sub === "list" || sub === undefined) {
+      if (this.favorites.length === 0) {
+        console.log("No favorites saved. Use `fav save <name> <item>` on a cart item.");
+        console.log(`Favorites file: ${favoritesFilePath()}`);
+        return;
+      }
+      if (this.state.session.jsonOutput) {
+        this.printData(this.favorites);
+        return;
+      }
+      printTable(
+        ["name", "item", "variant", "skuId", "price"],
+        this.favorites.map((preset) => [
+          preset.name,
+          preset.itemName ?? preset.spuId ?? "-",
+          truncateForTable(preset.variantText ?? "-", 48),
+          preset.skuId,
+          preset.price !== undefined ? preset.price.toFixed(2) : "-"
+        ])
+      );
       return;
     }
-    await this.ensureSelectedStoreForOrder("place");
-    if (!this.state.selectedStore) {
-      console.log("Select a store first");
+
+    if (sub === "save") {
+      const name = rest[1];
+      const itemRef = rest[2];
+      if (!name || !itemRef) {
+        console.log("Usage: fav save <name> <item>");
+        return;
+      }
+      if (!isValidFavoriteName(name)) {
+        console.log("Favorite names must be 1-40 characters without spaces or '='.");
+        return;
+      }
+      const resolved = this.resolveCartItemRef(itemRef);
+      const line = resolved
+        ? this.state.cart.find((candidate) => candidate.lineId === resolved.lineId)
+        : undefined;
+      if (!line) {
+        console.log(`item not found: ${itemRef}`);
+        return;
+      }
+      const replaced = Boolean(findFavorite(this.favorites, name));
+      this.favorites = await upsertFavorite({
+        name,
+        savedAt: new Date().toISOString(),
+        skuId: line.skuId,
+        spuId: line.spuId,
+        itemName: line.name,
+        variantText: line.variantText,
+        price: line.price,
+        specList: cloneSpecSelections(line.specList),
+        attributeList: cloneAttributeSelections(line.attributeList)
+      });
+      console.log(
+        `${replaced ? "Updated" : "Saved"} favorite ${name}: ${line.name ?? line.skuId}${
+          line.variantText ? ` (${line.variantText})` : ""
+        }`
+      );
       return;
     }
-    if (this.state.cart.length === 0) {
-      console.log("Cart is empty");
+
+    if (sub === "add") {
+      const parsed = parseKeyValueTokens(rest.slice(1));
+      if (parsed.args.length === 0) {
+        console.log("Usage: fav add <name> [<name>...] [qty=1]");
+        return;
+      }
+      if (!this.state.selectedStore) {
+        console.log("Select a store first (use <storeNo>).");
+        return;
+      }
+      const qty = clampInt(parseNum(parsed.opts.qty, 1), 1, 20);
+      const presets: FavoritePreset[] = [];
+      for (const name of parsed.args) {
+        const preset = findFavorite(this.favorites, name);
+        if (!preset) {
+          console.log(`Favorite not found: ${name} (see \`fav list\`)`);
+          return;
+        }
+        presets.push(preset);
+      }
+
+      const lines: CartLine[] = [];
+      for (const preset of presets) {
+        const line = await this.buildCartLineFromFavorite(preset, qty);
+        if (!line) {
+          return;
+        }
+        lines.push(line);
+      }
+      this.state.cart.push(...lines);
+      nextCartVersion(this.state);
+      await this.persist();
+      for (const line of lines) {
+        console.log(
+          `Added item ${this.state.cart.indexOf(line) + 1}: ${line.qty} x ${line.name ?? line.skuId}`
+        );
+      }
       return;
     }
 
-    const parsed = parseKeyValueTokens(rest);
-    const open = parsed.opts.open !== "0";
-    const region = this.activeRegion();
-    const channelCode = parsed.opts.channelCode ?? region.channelCode;
-    const payType = parsed.opts.payType ?? "1";
-
-    if (!this.state.quote) {
-      console.log("No quote in session, running quote...");
-      await this.cmdQuote();
-      if (!this.state.quote) {
+    if (sub === "rm" || sub === "remove") {
+      const name = rest[1];
+      if (!name) {
+        console.log("Usage: fav rm <name>");
         return;
       }
+      const result = await removeFavorite(name);
+      this.favorites = result.favorites;
+      console.log(result.removed ? `Removed favorite ${name}` : `Favorite not found: ${name}`);
+      return;
     }
 
-    const payload = this.buildCreatePayload();
-    this.state.pendingCreatePayload = payload;
-    await this.persist();
-
-    if (this.state.session.mode !== "live") {
-      console.log("Dry-run mode: order not submitted.");
-      console.log("Run `live on` and retry `place` to create a real order.");
+    if (sub === "file") {
+      console.log(favoritesFilePath());
       return;
     }
 
-    const createRes = await this.client.orderCreate(payload);
-    this.printEnvelope(createRes);
+    console.log(
+      "Usage: fav [list] | fav save <name> <item> | fav add <name...> [qty=1] | fav rm <name> | fav file"
+    );
+  }
 
-    if (!isApiOk(createRes)) {
+  private async cmdGroup(rest: string[]): Promise<void> {
+    const sub = rest[0];
+    const parsed = parseKeyValueTokens(rest.slice(1));
+    const activeFile = this.state.session.activeGroupFile;
+    const groupFile = parsed.opts.group ? resolveGroupOrderFile(parsed.opts.group) : activeFile;
+
+    if (sub === "start") {
+      const name = parsed.args[0];
+      if (!name) {
+        console.log("Usage: group start <name> [file=<path>]");
+        return;
+      }
+      const file = resolveGroupOrderFile(parsed.opts.file ?? name);
+      const group = await createGroupOrder(file, {
+        name,
+        createdAt: new Date().toISOString(),
+        region: normalizeRegionCode(this.state.session.region),
+        storeNo: this.state.selectedStore?.storeNo,
+        storeName: this.state.selectedStore?.storeName
+      });
+      this.state.session.activeGroupFile = file;
+      await this.persist();
+      console.log(`Group ${group.name} is open${group.storeNo ? ` for store ${group.storeNo}` : ""}.`);
+      console.log(`Group file: ${file}`);
+      console.log(
+        `Teammates add lines with: chagee -c 'group add <their-name> <skuId> qty=1 group=${file}'`
+      );
       return;
     }
 
-    const created = envelopeData<Record<string, unknown>>(createRes) ?? {};
-    const orderNo =
-      asString(created.orderNo) ?? asString(created.orderId) ?? asString(created.no) ?? "";
-    if (!orderNo) {
-      console.log("Create succeeded but orderNo not found in response.");
+    if (!groupFile) {
+      console.log("No active group. Run `group start <name>` or pass group=<name|file>.");
       return;
     }
 
-    this.state.order = {
-      orderNo,
-      status: "created",
-      amount: this.state.quote?.total,
-      createdAt: new Date().toISOString(),
-      raw: created
-    };
-    this.applyOrderCancelWindow(created);
-    this.state.pendingCreatePayload = undefined;
-    this.state.payment = undefined;
-    await this.recordOrderInHistory(orderNo);
-    await this.persist();
-    console.log(`Order created: ${orderNo}`);
+    if (sub === "show" || sub === undefined) {
+      const group = await loadGroupOrder(groupFile);
+      if (!group) {
+        console.log(`Group file not found: ${groupFile}`);
+        return;
+      }
+      this.printGroupOrder(group);
+      return;
+    }
 
-    const payPayload = {
-      userId: this.state.auth.userId,
-      orderNo,
-      storeNo: this.state.selectedStore.storeNo,
-      source: region.source,
-      channelCode,
-      payType,
-      extInfo: {}
-    };
+    if (sub === "add") {
+      const owner = parsed.args[0];
+      const favName = parsed.opts.fav;
+      const skuArg = parsed.args[1];
+      if (!owner || (!skuArg && !favName)) {
+        console.log(
+          "Usage: group add <owner> <skuId>|fav=<name> [qty=1] [spuId=...] [name=...] [variant=...] [price=...] [group=<name|file>]"
+        );
+        return;
+      }
+      const preset = favName ? findFavorite(this.favorites, favName) : undefined;
+      if (favName && !preset) {
+        console.log(`Favorite not found: ${favName} (see \`fav list\`)`);
+        return;
+      }
+      const skuId = skuArg ?? preset?.skuId;
+      if (!skuId) {
+        return;
+      }
+      const result = await appendGroupOrderLine(groupFile, {
+        owner,
+        skuId,
+        spuId: parsed.opts.spuId ?? preset?.spuId,
+        name: parsed.opts.name ?? preset?.itemName,
+        variantText: parsed.opts.variant ?? preset?.variantText,
+        qty: clampInt(parseNum(parsed.opts.qty, 1), 1, 20),
+        price: parsed.opts.price ? parseNum(parsed.opts.price, 0) : preset?.price,
+        specList:
+          parseSpecSelectionList(parsed.opts.specList) ?? cloneSpecSelections(preset?.specList),
+        attributeList:
+          parseAttributeSelectionList(parsed.opts.attributeList) ??
+          cloneAttributeSelections(preset?.attributeList)
+      });
+      console.log(
+        `Added group line ${result.group.lines.length} for ${owner}: ${result.line.qty} x ${
+          result.line.name ?? result.line.skuId
+        }`
+      );
+      return;
+    }
 
-    const payRes = await this.client.continuePay(payPayload);
-    this.printEnvelope(payRes);
-    if (!isApiOk(payRes)) {
+    if (sub === "rm") {
+      const ref = parsed.args[0];
+      if (!ref) {
+        console.log("Usage: group rm <line>");
+        return;
+      }
+      const result = await removeGroupOrderLine(groupFile, ref);
+      console.log(`Removed group line for ${result.line.owner}: ${result.line.name ?? result.line.skuId}`);
       return;
     }
 
-    const payData = envelopeData<Record<string, unknown>>(payRes) ?? {};
-    const payNo = asString(payData.payNo);
-    const payUrl = extractPayUrl(payData);
-    this.state.payment = {
-      payNo,
-      payUrl,
-      status: "pending",
-      method: payType,
-      raw: payData
-    };
-    this.applyOrderCancelWindow(payData);
-    await this.persist();
+    if (sub === "close") {
+      const group = await loadGroupOrder(groupFile);
+      if (!group) {
+        console.log(`Group file not found: ${groupFile}`);
+        return;
+      }
+      if (group.status !== "open") {
+        console.log(`Group ${group.name} is already closed.`);
+        return;
+      }
+      if (group.lines.length === 0) {
+        console.log(`Group ${group.name} has no lines yet; nothing to merge.`);
+        return;
+      }
+      let append = parseBool(parsed.opts.append, false);
+      if (group.storeNo && group.storeNo !== this.state.selectedStore?.storeNo) {
+        if (append) {
+          append = false;
+          console.log("append=1 ignored because the group switches to a different store.");
+        }
+        await this.cmdStore(["use", group.storeNo]);
+      }
+      if (!this.state.selectedStore) {
+        console.log("Select a store first (use <storeNo>), then rerun `group close`.");
+        return;
+      }
 
-    console.log(`payNo=${payNo ?? "-"}`);
-    if (!payUrl) {
-      console.log("No payment URL returned.");
+      const closed = await closeGroupOrder(groupFile);
+      const lines: CartLine[] = closed.lines.map((line) => ({
+        lineId: buildCartLineId(),
+        skuId: line.skuId,
+        spuId: line.spuId,
+        name: line.name,
+        variantText: line.variantText,
+        qty: line.qty,
+        price: line.price,
+        specList: cloneSpecSelections(line.specList),
+        attributeList: cloneAttributeSelections(line.attributeList),
+        owner: line.owner
+      }));
+      if (!append) {
+        this.state.cart = [];
+      }
+      this.state.cart.push(...lines);
+      nextCartVersion(this.state);
+      this.state.order = undefined;
+      this.state.payment = undefined;
+      if (this.state.session.activeGroupFile === groupFile) {
+        this.state.session.activeGroupFile = undefined;
+      }
+      await this.persist();
+      const owners = new Set(lines.map((line) => line.owner));
+      console.log(
+        `Closed group ${closed.name}: merged ${lines.length} line(s) from ${owners.size} person(s) into the cart.`
+      );
+      return;
+    }
+
+    console.log(
+      "Usage: group start <name> [file=<path>] | group [show] | group add <owner> <skuId>|fav=<name> [qty=1] | group rm <line> | group close [append=0]"
+    );
+  }
+
+  private printGroupOrder(group: GroupOrder): void {
+    if (this.state.session.jsonOutput) {
+      this.printData(group);
       return;
     }
-
-    console.log(`payUrl=${payUrl}`);
-    if (open) {
-      this.openUrl(payUrl);
-    } else {
-      console.log("Run `pay open` to open payment in your browser.");
+    console.log(
+      `Group ${group.name} (${group.status})${group.storeNo ? ` store=${group.storeNo}` : ""} lines=${group.lines.length}`
+    );
+    if (group.lines.length === 0) {
+      return;
     }
+    printTable(
+      ["#", "owner", "skuId", "name", "variant", "qty", "price"],
+      group.lines.map((line, idx) => [
+        String(idx + 1),
+        line.owner,
+        line.skuId,
+        line.name ?? "-",
+        truncateForTable(line.variantText ?? "-", 40),
+        String(line.qty),
+        line.price !== undefined ? String(line.price) : "-"
+      ])
+    );
   }
 
-  private async cmdCheckout(): Promise<void> {
-    if (!this.state.auth) {
-      console.log("Login required");
+  private printOwnerSplit(): void {
+    if (!hasOwnerTags(this.state.cart)) {
       return;
     }
-    await this.ensureSelectedStoreForOrder("checkout");
-    if (!this.state.selectedStore) {
-      console.log("Select a store first");
+    const split = this.buildBillSplit();
+    if (!split) {
+      console.log("Per-person split unavailable: quote total is missing.");
       return;
     }
-    if (!this.state.quote) {
-      console.log("Run `quote` first");
+    if (this.state.session.jsonOutput) {
+      this.printData(split.owners);
       return;
     }
-
-    const payload = this.buildCreatePayload();
-    this.state.pendingCreatePayload = payload;
-    await this.persist();
-
-    console.log("Create-order payload staged. Review with `debug last-req` after confirm.");
-    console.log(`Mode=${this.state.session.mode}. Use 'confirm' to submit create order.`);
-    this.printData(payload);
+    console.log("Per-person split (run `split` for details):");
+    this.printBillSplitOwners(split);
   }
 
-  private async cmdConfirm(): Promise<void> {
-    if (this.state.session.mode !== "live") {
-      console.log("confirm is disabled in dry-run mode. Run: live on");
+  private async cmdSplit(rest: string[]): Promise<void> {
+    const parsed = parseKeyValueTokens(rest);
+    if (this.state.cart.length === 0) {
+      console.log("Cart is empty; split needs the cart that was quoted or placed.");
       return;
     }
-    if (!this.state.pendingCreatePayload) {
-      console.log("No staged checkout payload. Run `checkout` first.");
+    if (!this.state.quote) {
+      console.log("Run `quote` (or `place`) first.");
+      return;
+    }
+    const split = this.buildBillSplit();
+    if (!split) {
+      console.log("Quote has no payable amount to split.");
       return;
     }
 
-    const res = await this.client.orderCreate(this.state.pendingCreatePayload);
-    this.printEnvelope(res);
+    const region = this.activeRegion();
+    const orderNo = this.state.order?.orderNo;
+    const storeName = this.state.selectedStore?.storeName;
+    const summary = formatPayNowSummary(split, {
+      currencySymbol: region.currencySymbol,
+      title: `${storeName ?? "CHAGEE order"}${orderNo ? ` #${orderNo}` : ""}`,
+      payTo: parsed.opts.payto ?? parsed.opts.payTo
+    });
 
-    if (isApiOk(res)) {
-      const data = envelopeData<Record<string, unknown>>(res) ?? {};
-      const orderNo =
-        asString(data.orderNo) ?? asString(data.orderId) ?? asString(data.no) ?? "";
-      if (!orderNo) {
-        console.log("Create succeeded but orderNo not found in response.");
-      }
-      this.state.order = {
-        orderNo,
-        status: "created",
-        amount: this.state.quote?.total,
-        createdAt: new Date().toISOString(),
-        raw: data
-      };
-      this.applyOrderCancelWindow(data);
-      this.state.pendingCreatePayload = undefined;
-      this.state.payment = undefined;
-      await this.recordOrderInHistory(orderNo);
-      await this.persist();
-      console.log(`Order created: ${orderNo || "(unknown)"}`);
+    if (this.state.session.jsonOutput) {
+      this.printData({ ...split, currency: region.currencyCode, orderNo, summary });
+      return;
+    }
+
+    if (parseBool(parsed.opts.lines, false)) {
+      printTable(
+        ["owner", "item", "qty", "price", "discount", "fees", "round", "share"],
+        split.lines.map((line) => [
+          line.owner,
+          truncateForTable(line.name ?? line.skuId ?? "-", 28),
+          String(line.qty),
+          line.base.toFixed(2),
+          line.discount > 0 ? `-${line.discount.toFixed(2)}` : "0.00",
+          line.fees.toFixed(2),
+          line.rounding.toFixed(2),
+          line.share.toFixed(2)
+        ])
+      );
+      console.log("");
     }
+    this.printBillSplitOwners(split);
+    console.log("");
+    console.log(summary);
   }
 
-  private async cmdOrder(rest: string[]): Promise<void> {
-    const sub = rest[0];
-    if (sub === "show" || sub === undefined) {
-      if (!this.state.order) {
-        this.printData(null);
+  private buildBillSplit(): BillSplit | undefined {
+    const quote = this.quoteBreakdown();
+    if (quote?.payable === undefined) {
+      return undefined;
+    }
+    return computeBillSplit(this.state.cart, quote);
+  }
+
+  private printBillSplitOwners(split: BillSplit): void {
+    printTable(
+      ["owner", "items", "subtotal", "discount", "fees", "round", "share"],
+      [
+        ...split.owners.map((row) => [
+          row.owner,
+          String(row.items),
+          row.base.toFixed(2),
+          row.discount > 0 ? `-${row.discount.toFixed(2)}` : "0.00",
+          row.fees.toFixed(2),
+          row.rounding.toFixed(2),
+          row.share.toFixed(2)
+        ]),
+        [
+          "total",
+          String(split.owners.reduce((sum, row) => sum + row.items, 0)),
+          split.base.toFixed(2),
+          split.discount > 0 ? `-${split.discount.toFixed(2)}` : "0.00",
+          split.fees.toFixed(2),
+          split.rounding.toFixed(2),
+          split.share.toFixed(2)
+        ]
+      ]
+    );
+  }
+
+  private async cmdVoucher(rest: string[]): Promise<void> {
+    const sub = (rest[0] ?? "list").toLowerCase();
+
+    if (sub === "list") {
+      const vouchers = await this.refreshVouchers();
+      if (!vouchers) {
         return;
       }
-      this.printData(buildOrderView(this.state.order));
+      if (this.state.session.jsonOutput) {
+        this.printData({ vouchers, applied: this.state.appliedVouchers ?? [] });
+        return;
+      }
+      if (vouchers.length === 0) {
+        console.log("No vouchers in your wallet.");
+        return;
+      }
+      const appliedIds = new Set((this.state.appliedVouchers ?? []).map((voucher) => voucher.id));
+      printTable(
+        ["#", "code", "name", "off", "min spend", "expires", "status"],
+        vouchers.map((voucher, idx) => [
+          String(idx + 1),
+          voucher.code ?? voucher.id,
+          truncateForTable(voucher.name, 32),
+          formatAmount(voucher.discount),
+          voucher.minSpend ? voucher.minSpend.toFixed(2) : "-",
+          voucher.expiresAt ?? "-",
+          appliedIds.has(voucher.id)
+            ? "applied"
+            : voucher.usable
+              ? "usable"
+              : `unusable${voucher.reason ? `: ${voucher.reason}` : ""}`
+        ])
+      );
       return;
     }
 
-    if (sub === "cancel") {
-      if (!this.state.auth || !this.state.order?.orderNo) {
-        console.log("order cancel needs auth + existing order");
+    if (sub === "apply") {
+      const ref = rest[1];
+      if (!ref) {
+        console.log("Usage: voucher apply <code|id|#>");
         return;
       }
-      const parsed = parseKeyValueTokens(rest.slice(1));
-      const force = parsed.opts.force === "1";
-      const remainingSec = estimateCancelRemainingSec(this.state.order);
-      if (remainingSec !== undefined && remainingSec <= 0 && !force) {
+      const stale = this.vouchers.length === 0 || this.vouchersScope !== this.voucherScope();
+      if (stale && !(await this.refreshVouchers())) {
+        return;
+      }
+      const voucher = findVoucher(this.vouchers, ref);
+      if (!voucher) {
+        console.log(`Voucher not found in your wallet: ${ref}. Run \`voucher list\`.`);
+        return;
+      }
+      if (!voucher.usable) {
         console.log(
-          `Local check: cancel window appears expired at ${this.state.order.cancelByAt ?? "(unknown)"}`
+          `Voucher ${voucher.code ?? voucher.id} is not usable${voucher.reason ? `: ${voucher.reason}` : "."}`
         );
-        console.log("Use `order cancel force=1` to still send API request.");
         return;
       }
-      const res = await this.client.orderCancel(
-        this.state.auth.userId,
-        this.state.order.orderNo
+      const applied = this.state.appliedVouchers ?? [];
+      if (applied.some((entry) => entry.id === voucher.id)) {
+        console.log(`Voucher already applied: ${describeAppliedVoucher(voucher)}`);
+        return;
+      }
+      this.state.appliedVouchers = [...applied, toAppliedVoucher(voucher)];
+      nextCartVersion(this.state);
+      await this.persist();
+      console.log(
+        `Applied voucher: ${describeAppliedVoucher(voucher)}. Run \`quote\` to see the discount.`
       );
-      this.printEnvelope(res);
-      if (isApiOk(res)) {
-        this.state.order.status = "canceled";
-        await this.persist();
+      return;
+    }
+
+    if (sub === "clear") {
+      const applied = this.state.appliedVouchers ?? [];
+      const ref = rest[1]?.toLowerCase();
+      const remaining = ref
+        ? applied.filter(
+            (voucher) => voucher.id.toLowerCase() !== ref && voucher.code?.toLowerCase() !== ref
+          )
+        : [];
+      if (remaining.length === applied.length) {
+        console.log(ref ? `Voucher not applied: ${rest[1]}` : "No vouchers applied.");
+        return;
       }
+      this.state.appliedVouchers = remaining.length > 0 ? remaining : undefined;
+      nextCartVersion(this.state);
+      await this.persist();
+      console.log(`Cleared ${applied.length - remaining.length} voucher(s); quote invalidated.`);
       return;
     }
 
-    console.log("Usage: order | order show | order cancel [force=1]");
+    console.log("Usage: voucher [list] | voucher apply <code|id|#> | voucher clear [code|id]");
   }
 
-  private async cmdOrders(rest: string[]): Promise<void> {
-    const sub = rest[0];
+  private async cmdAddress(rest: string[]): Promise<void> {
+    const sub = (rest[0] ?? "list").toLowerCase();
 
-    if (sub === "list" || sub === undefined) {
-      const parsed = parseKeyValueTokens(sub === "list" ? rest.slice(1) : rest);
-      const limit = clampInt(parseNum(parsed.opts.limit, 10), 1, 50);
-      if (this.orderHistory.length === 0) {
-        console.log("Order history is empty.");
-        console.log(`History file: ${orderHistoryFilePath()}`);
+    if (sub === "list") {
+      if (this.state.session.jsonOutput) {
+        this.printData({ addresses: this.addresses, active: this.state.session.deliveryAddress });
         return;
       }
-
-      const rows = this.orderHistory.slice(0, limit).map((entry, idx) => {
-        const totalItems = entry.items.reduce((sum, line) => sum + Math.max(0, line.qty), 0);
-        return [
+      if (this.addresses.length === 0) {
+        console.log("Address book is empty. Use `address add <label> <street...>`.");
+        console.log(`Address file: ${addressBookFilePath()}`);
+        return;
+      }
+      const active = this.state.session.deliveryAddress?.label.toLowerCase();
+      printTable(
+        ["#", "label", "address", "recipient", "lat,lng", ""],
+        this.addresses.map((entry, idx) => [
           String(idx + 1),
-          entry.at,
-          entry.orderNo,
-          entry.region,
-          entry.storeName ?? entry.storeNo ?? "-",
-          String(totalItems),
-          entry.total ?? "-"
-        ];
-      });
-      printTable(["#", "at", "orderNo", "region", "store", "qty", "total"], rows);
-      if (this.orderHistory.length > limit) {
-        console.log(`Showing ${limit} of ${this.orderHistory.length} entries (use limit=<n>).`);
+          entry.label,
+          truncateForTable(formatDeliveryAddress(entry), 40),
+          entry.recipient ?? "-",
+          entry.latitude !== undefined && entry.longitude !== undefined
+            ? `${entry.latitude.toFixed(4)},${entry.longitude.toFixed(4)}`
+            : "-",
+          entry.label.toLowerCase() === active ? "active" : ""
+        ])
+      );
+      return;
+    }
+
+    if (sub === "add") {
+      const parsed = parseKeyValueTokens(rest.slice(1));
+      const [label, ...street] = parsed.args;
+      if (!label || street.length === 0) {
+        console.log(
+          "Usage: address add <label> <street...> [unit=] [postal=] [name=] [phone=] [lat=] [lng=]"
+        );
+        return;
+      }
+      if (!isValidAddressLabel(label)) {
+        console.log("Address label must be 1-40 characters with no spaces or '='.");
+        return;
+      }
+      const hasLat = parsed.opts.lat !== undefined;
+      if (hasLat !== (parsed.opts.lng !== undefined)) {
+        console.log("Give both lat= and lng=, or neither.");
+        return;
+      }
+      const latitude = hasLat ? parseNum(parsed.opts.lat, Number.NaN) : undefined;
+      const longitude = hasLat ? parseNum(parsed.opts.lng, Number.NaN) : undefined;
+      if (
+        (latitude !== undefined && (!Number.isFinite(latitude) || Math.abs(latitude) > 90)) ||
+        (longitude !== undefined && (!Number.isFinite(longitude) || Math.abs(longitude) > 180))
+      ) {
+        console.log("lat= must be -90..90 and lng= -180..180.");
+        return;
+      }
+      const address: DeliveryAddress = {
+        label,
+        address: street.join(" "),
+        unit: parsed.opts.unit,
+        postalCode: parsed.opts.postal ?? parsed.opts.postalCode,
+        recipient: parsed.opts.name,
+        phone: parsed.opts.phone,
+        latitude,
+        longitude,
+        savedAt: new Date().toISOString()
+      };
+      this.addresses = await upsertAddress(address);
+      console.log(`Saved address ${label}: ${formatDeliveryAddress(address)}`);
+      if (!hasLat) {
+        console.log(
+          "No lat/lng saved; store lookup uses the session location at the time. Add lat= lng= for accurate delivery ranking."
+        );
+      }
+      if (this.state.session.deliveryAddress?.label.toLowerCase() === label.toLowerCase()) {
+        this.state.session.deliveryAddress = address;
+        nextCartVersion(this.state);
+        await this.persist();
       }
       return;
     }
 
-    if (sub === "show") {
+    if (sub === "use") {
       const ref = rest[1];
-      const entry = this.resolveOrderHistoryEntry(ref);
-      if (!entry) {
-        console.log(`Order history entry not found: ${ref ?? "(missing ref)"}`);
+      const address = ref ? findAddress(this.addresses, ref) : undefined;
+      if (!address) {
+        console.log(ref ? `Address not found: ${ref}` : "Usage: address use <label|#>");
         return;
       }
-      this.printData(entry);
+      this.state.session.deliveryAddress = { ...address };
+      nextCartVersion(this.state);
+      await this.persist();
+      console.log(`Delivering to ${address.label}: ${formatDeliveryAddress(address)}`);
+      if (this.state.session.fulfillment !== "delivery") {
+        console.log("Fulfillment is pickup; run `fulfillment delivery` to use it.");
+      }
       return;
     }
 
-    if (sub === "clear") {
-      await clearOrderHistory();
-      this.orderHistory = [];
-      console.log("Order history cleared.");
+    if (sub === "rm") {
+      const label = rest[1];
+      if (!label) {
+        console.log("Usage: address rm <label>");
+        return;
+      }
+      const result = await removeAddress(label);
+      this.addresses = result.addresses;
+      if (!result.removed) {
+        console.log(`Address not found: ${label}`);
+        return;
+      }
+      console.log(`Removed address ${label}`);
       return;
     }
 
     if (sub === "file") {
-      console.log(orderHistoryFilePath());
+      console.log(addressBookFilePath());
       return;
     }
 
-    console.log("Usage: orders [list [limit=10]] | orders show <ref> | orders clear | orders file");
+    console.log(
+      "Usage: address [list] | address add <label> <street...> [unit=] [postal=] | address use <label|#> | address rm <label>"
+    );
   }
 
-  private async cmdReorder(rest: string[]): Promise<void> {
-    const parsed = parseKeyValueTokens(rest);
-    const ref = parsed.args[0];
-    if (!ref) {
-      console.log("Usage: reorder <ref> [append=0] [qty=1]");
-      console.log("Use `orders` to find refs (index, id, or orderNo).");
-      return;
+  private async refreshVouchers(): Promise<Voucher[] | undefined> {
+    if (!this.state.auth) {
+      console.log("Login required");
+      return undefined;
+    }
+    const res = await this.client.listCoupons({
+      userId: this.state.auth.userId,
+      storeNo: this.state.selectedStore?.storeNo
+    });
+    if (!isApiOk(res)) {
+      this.printEnvelope(res);
+      console.log("Voucher list failed.");
+      return undefined;
+    }
+    this.vouchers = parseVoucherList(envelopeData<unknown>(res));
+    this.vouchersScope = this.voucherScope();
+    return this.vouchers;
+  }
+
+  private voucherScope(): string {
+    return `${this.state.auth?.userId ?? ""}@${this.state.selectedStore?.storeNo ?? ""}`;
+  }
+
+  private async buildCartLineFromFavorite(
+    preset: FavoritePreset,
+    qty: number
+  ): Promise<CartLine | undefined> {
+    const saved: CartLine = {
+      lineId: buildCartLineId(),
+      skuId: preset.skuId,
+      spuId: preset.spuId,
+      name: preset.itemName,
+      variantText: preset.variantText,
+      qty,
+      price: preset.price,
+      specList: cloneSpecSelections(preset.specList),
+      attributeList: cloneAttributeSelections(preset.attributeList)
+    };
+    if (!preset.spuId) {
+      return saved;
     }
 
-    const entry = this.resolveOrderHistoryEntry(ref);
-    if (!entry) {
-      console.log(`Order history entry not found: ${ref}`);
-      return;
+    const options = await this.getItemSkuOptions(preset.spuId);
+    if (options.length === 0) {
+      console.log(
+        `Warning: could not load SKU options for ${preset.name}; using saved skuId=${preset.skuId}.`
+      );
+      return saved;
     }
-    if (entry.items.length === 0) {
-      console.log("Order history entry has no items to reorder.");
-      return;
+    const resolved = resolveFavoriteOption(preset, options);
+    if (!resolved) {
+      console.log(
+        `Favorite ${preset.name} is not sellable at ${this.state.selectedStore?.storeNo ?? "this store"}. Available variants:`
+      );
+      printTable(
+        ["skuId", "variant"],
+        options
+          .slice(0, ITEM_OPTION_PRINT_LIMIT)
+          .map((option) => [option.skuId, truncateForTable(option.specText ?? option.name, 60)])
+      );
+      return undefined;
+    }
+    if (resolved.via !== "sku") {
+      console.log(
+        `Re-resolved ${preset.name}: skuId ${preset.skuId} -> ${resolved.option.skuId} (matched by ${resolved.via}).`
+      );
+    }
+    return {
+      ...saved,
+      skuId: resolved.option.skuId,
+      variantText: resolved.option.specText ?? preset.variantText,
+      price: resolved.option.price ?? preset.price,
+      specList: cloneSpecSelections(resolved.option.specList) ?? saved.specList,
+      attributeList: cloneAttributeSelections(resolved.option.attributeList) ?? saved.attributeList
+    };
+  }
+
+  async runOrderSpec(spec: OrderSpec): Promise<OrderSpecExitCode> {
+    const activeRegion = normalizeRegionCode(this.state.session.region);
+    if (spec.region && normalizeRegionCode(spec.region) !== activeRegion) {
+      console.log(
+        `Spec region=${normalizeRegionCode(spec.region)} differs from active region=${activeRegion}. Re-run with --region ${spec.region}.`
+      );
+      return ORDER_SPEC_EXIT_CODES.invalidSpec;
+    }
+    if (!this.state.auth) {
+      console.log("Login required. Run `chagee -c login` (or `login token <token>`) first.");
+      return ORDER_SPEC_EXIT_CODES.auth;
+    }
+    if (this.state.cart.length > 0) {
+      console.log(
+        `Cart has ${this.state.cart.length} line(s); an order spec starts from an empty cart. Run \`clear\` first.`
+      );
+      return ORDER_SPEC_EXIT_CODES.cart;
+    }
+
+    // The spec's mode and store apply to this run only; the session gets them back afterwards
+    // unless a live order was created, which stays with its store.
+    const previous = {
+      mode: this.state.session.mode,
+      selectedStore: this.state.selectedStore,
+      storePinned: this.state.session.storePinned,
+      order: this.state.order,
+      payment: this.state.payment
+    };
+    this.state.session.mode = spec.mode;
+    console.log(`Mode for this spec: ${spec.mode}`);
+    try {
+      return await this.runOrderSpecSteps(spec);
+    } finally {
+      this.state.session.mode = previous.mode;
+      const placedOrderNo = this.state.order?.orderNo;
+      if (!placedOrderNo || placedOrderNo === previous.order?.orderNo) {
+        this.state.selectedStore = previous.selectedStore;
+        this.state.session.storePinned = previous.storePinned;
+        this.state.cart = [];
+        nextCartVersion(this.state);
+        this.state.order = previous.order;
+        this.state.payment = previous.payment;
+        this.syncMenuCacheForSelectedStore();
+      }
+      await this.persist();
     }
+  }
 
-    let append = parseBool(parsed.opts.append, false);
-    const qtyMultiplier = clampInt(parseNum(parsed.opts.qty, 1), 1, 20);
-
-    const targetRegion = normalizeRegionCode(entry.region);
-    const currentRegion = normalizeRegionCode(this.state.session.region);
-    if (targetRegion !== currentRegion) {
+  private async runOrderSpecSteps(spec: OrderSpec): Promise<OrderSpecExitCode> {
+    const selector = spec.store;
+    let stores = this.state.storesCache;
+    if (selector.kind !== "storeNo" || !stores.some((s) => s.storeNo === selector.storeNo)) {
+      stores = await this.refreshStores(selector.kind === "shortest-wait" ? "wait" : "distance", true);
+    }
+    const store = pickSpecStore(stores, selector);
+    if (!store) {
       console.log(
-        `Warning: history entry region=${targetRegion} differs from current region=${currentRegion}.`
+        selector.kind === "storeNo"
+          ? `Store ${selector.storeNo} not found near the current location.`
+          : "No open store found near the current location."
       );
+      return ORDER_SPEC_EXIT_CODES.store;
+    }
+    if (isStoreClosed(store)) {
+      console.log(`Store ${store.storeNo} is closed (${store.runningStatusDesc ?? "closed"}).`);
+      return ORDER_SPEC_EXIT_CODES.store;
+    }
+    await this.cmdStore(["use", store.storeNo]);
+    if (this.state.selectedStore?.storeNo !== store.storeNo) {
+      return ORDER_SPEC_EXIT_CODES.store;
+    }
+
+    const lines: CartLine[] = [];
+    for (const specItem of spec.items) {
+      const label = specItem.spuId ?? specItem.name ?? "?";
+      const found = findSpecMenuItem(this.state.menuCache, specItem);
+      if (!found.item) {
+        console.log(`Item "${label}" not found on the menu of ${store.storeNo}.`);
+        if (found.candidates.length > 1) {
+          printTable(
+            ["spuId", "name"],
+            found.candidates.slice(0, ITEM_OPTION_PRINT_LIMIT).map((c) => [c.spuId, c.name])
+          );
+        }
+        return ORDER_SPEC_EXIT_CODES.item;
+      }
+      const options = await this.getItemSkuOptions(found.item.spuId);
+      const matches = matchSpecVariant(options, specItem);
+      const option = matches[0];
+      // A live order must never guess the size, ice or sugar.
+      if (!option || matches.length > 1) {
+        const wanted = `[${specItem.variant.join(", ")}]`;
+        console.log(
+          option
+            ? `${matches.length} variants of "${found.item.name}" match ${wanted}; add variant tokens or a skuId.`
+            : `No sellable variant of "${found.item.name}" matches ${wanted}.`
+        );
+        printTable(
+          ["skuId", "variant"],
+          (option ? matches : options)
+            .slice(0, ITEM_OPTION_PRINT_LIMIT)
+            .map((o) => [o.skuId, truncateForTable(o.specText ?? o.name, 60)])
+        );
+        return ORDER_SPEC_EXIT_CODES.item;
+      }
+      lines.push({
+        lineId: buildCartLineId(),
+        spuId: found.item.spuId,
+        skuId: option.skuId,
+        name: found.item.name,
+        variantText: option.specText,
+        qty: specItem.qty,
+        price: option.price,
+        specList: cloneSpecSelections(option.specList),
+        attributeList: cloneAttributeSelections(option.attributeList)
+      });
     }
 
-    const currentStoreNo = this.state.selectedStore?.storeNo;
-    const targetStoreNo = entry.storeNo;
-    const requiresStoreSwitch = Boolean(targetStoreNo && targetStoreNo !== currentStoreNo);
-    if (requiresStoreSwitch && append) {
-      append = false;
-      console.log("append=1 ignored because reorder switches to a different store.");
-    }
-    if (requiresStoreSwitch && targetStoreNo) {
-      await this.cmdStore(["use", targetStoreNo]);
-    }
-    if (!this.state.selectedStore && !targetStoreNo) {
-      console.log("Select a store first (history entry has no store).");
-      return;
+    this.state.cart = lines;
+    nextCartVersion(this.state);
+    await this.persist();
+    for (const line of lines) {
+      console.log(`Added ${line.qty} x ${line.name ?? line.skuId} (${line.variantText ?? line.skuId})`);
     }
 
-    const rebuiltLines = this.buildCartLinesFromOrderHistory(entry.items, qtyMultiplier);
-    if (rebuiltLines.length === 0) {
-      console.log("No valid cart lines found in selected history entry.");
-      return;
+    await this.cmdQuote();
+    if (!this.state.quote) {
+      return ORDER_SPEC_EXIT_CODES.quote;
     }
 
-    if (!append) {
-      this.state.cart = [];
+    const previousOrderNo = this.state.order?.orderNo;
+    await this.cmdPlace([`open=${spec.pay.open ? "1" : "0"}`]);
+    if (spec.mode !== "live") {
+      return this.state.pendingCreatePayload
+        ? ORDER_SPEC_EXIT_CODES.ok
+        : ORDER_SPEC_EXIT_CODES.place;
+    }
+    const placedOrderNo = this.state.order?.orderNo;
+    if (!placedOrderNo || placedOrderNo === previousOrderNo || !this.state.payment) {
+      return ORDER_SPEC_EXIT_CODES.place;
+    }
+    if (!spec.pay.await) {
+      return ORDER_SPEC_EXIT_CODES.ok;
     }
-    this.state.cart.push(...rebuiltLines);
-    nextCartVersion(this.state);
-    this.state.order = undefined;
-    this.state.payment = undefined;
-    await this.persist();
 
-    const totalQty = rebuiltLines.reduce((sum, line) => sum + line.qty, 0);
-    const modeText = append ? "Appended" : "Replaced";
-    console.log(
-      `${modeText} cart from order ${entry.orderNo} (${rebuiltLines.length} line(s), ${totalQty} item(s)).`
+    await this.cmdPayAwait(
+      spec.pay.timeoutSec !== undefined ? [`timeout=${spec.pay.timeoutSec}`] : []
     );
-    if (this.state.selectedStore?.storeNo) {
-      console.log(`Active store: ${this.state.selectedStore.storeNo}`);
-    }
+    return this.state.payment?.status === "success"
+      ? ORDER_SPEC_EXIT_CODES.ok
+      : ORDER_SPEC_EXIT_CODES.payment;
   }
 
   private buildCartLinesFromOrderHistory(
@@ -2333,6 +5335,10 @@ export class App {
     if (items.length === 0) {
       return;
     }
+    const discountTotal = this.quoteBreakdown()?.discountTotal ?? 0;
+    const vouchers = (this.state.appliedVouchers ?? []).map(
+      (voucher) => voucher.code ?? voucher.id
+    );
 
     const entry: OrderHistoryEntry = {
       id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
@@ -2342,6 +5348,8 @@ export class App {
       storeNo: this.state.selectedStore?.storeNo,
       storeName: this.state.selectedStore?.storeName,
       total: this.state.quote?.total ?? this.state.order?.amount,
+      discount: discountTotal > 0 ? discountTotal.toFixed(2) : undefined,
+      vouchers: vouchers.length > 0 ? vouchers : undefined,
       items
     };
 
@@ -2768,7 +5776,8 @@ export class App {
   debug region list|show|set|file
   debug mode dry-run|live
   debug json on|off
-  debug guest show|set-token|bootstrap|clear`);
+  debug guest show|set-token|bootstrap|clear
+  debug cassette`);
       return;
     }
     if (sub === "region") {
@@ -2799,7 +5808,11 @@ export class App {
       await this.cmdEvent(rest.slice(1));
       return;
     }
-    console.log("Usage: debug help | debug last-req | debug last-res | debug events");
+    if (sub === "cassette") {
+      this.printData(this.cassetteSnapshot() ?? null);
+      return;
+    }
+    console.log("Usage: debug help | debug last-req | debug last-res | debug events | debug cassette");
   }
 
   private async cmdEvent(rest: string[]): Promise<void> {
@@ -2924,6 +5937,7 @@ export class App {
       console.log(`watch on (interval ${intervalSec}s, sort=${sortBy})`);
     }
     await this.refreshStores(sortBy, silent);
+    this.evaluateWatchAlerts();
     this.storesWatchTimer = setInterval(() => {
       void this.pollStoresWatch();
     }, intervalSec * 1000);
@@ -2938,6 +5952,155 @@ export class App {
     this.storesWatchSort = "distance";
   }
 
+  private async cmdWatchAlert(rest: string[]): Promise<void> {
+    const sub = (rest[0] ?? "list").toLowerCase();
+
+    if (sub === "list") {
+      if (this.watchAlerts.length === 0) {
+        console.log("No watch alerts. Example: watch alert store=<storeNo> wait<=5 [cups<=3] [open]");
+        return;
+      }
+      const rows = this.watchAlerts.map((rule) => {
+        const evaluation = this.evaluateWatchAlertAgainstCache(rule);
+        return [
+          rule.id,
+          describeWatchAlertRule(rule),
+          rule.once ? "once" : "repeat",
+          evaluation.seen ? (evaluation.met ? "MET" : "waiting") : "not seen",
+          truncateForTable(evaluation.summary, 48)
+        ];
+      });
+      printTable(["id", "rule", "mode", "state", "last seen"], rows);
+      console.log(`Notify hook: ${this.watchAlertHook() ?? "(none)"}`);
+      if (!this.storesWatchTimer) {
+        console.log("watch is off; run `watch on` to check alerts.");
+      }
+      return;
+    }
+
+    if (sub === "rm") {
+      const ref = rest[1];
+      if (!ref) {
+        console.log("Usage: watch alert rm <id|all>");
+        return;
+      }
+      const removed = this.watchAlerts.filter((rule) => ref === "all" || rule.id === ref);
+      if (removed.length === 0) {
+        console.log(`Watch alert not found: ${ref}`);
+        return;
+      }
+      this.watchAlerts = this.watchAlerts.filter((rule) => !removed.includes(rule));
+      for (const rule of removed) {
+        this.watchAlertMet.delete(rule.id);
+      }
+      console.log(`Removed ${removed.map((rule) => rule.id).join(", ")}`);
+      return;
+    }
+
+    if (sub === "hook") {
+      const command = rest.slice(1).join(" ").trim();
+      if (command.length === 0) {
+        console.log(`Notify hook: ${this.watchAlertHook() ?? "(none)"}`);
+        return;
+      }
+      this.state.session.alertHook = command === "off" ? undefined : command;
+      await this.persist();
+      console.log(
+        this.state.session.alertHook
+          ? `Notify hook set: ${this.state.session.alertHook}`
+          : "Notify hook cleared."
+      );
+      return;
+    }
+
+    if (sub === "test") {
+      this.fireWatchAlert("test", { met: true, seen: true, summary: "test alert from chagee-cli" });
+      return;
+    }
+
+    this.watchAlertSeq += 1;
+    const parsed = parseWatchAlertRule(rest, `a${this.watchAlertSeq}`);
+    if (!parsed.rule) {
+      console.log(parsed.error ?? "Invalid alert rule");
+      console.log("Usage: watch alert store=<storeNo> [wait<=N] [cups<=N] [open] [once]");
+      return;
+    }
+    this.watchAlerts.push(parsed.rule);
+    console.log(`Watch alert ${parsed.rule.id}: ${describeWatchAlertRule(parsed.rule)}`);
+    if (!this.storesWatchTimer) {
+      console.log("watch is off; run `watch on` to start checking.");
+      return;
+    }
+    this.evaluateWatchAlerts();
+  }
+
+  private watchAlertHook(): string | undefined {
+    return this.state.session.alertHook ?? (process.env[ALERT_HOOK_ENV_VAR]?.trim() || undefined);
+  }
+
+  private evaluateWatchAlertAgainstCache(rule: WatchAlertRule): WatchAlertEvaluation {
+    return evaluateWatchAlertRule(
+      rule,
+      this.state.storesCache.find((store) => store.storeNo === rule.storeNo)
+    );
+  }
+
+  // Alerts fire when a rule goes from unmet to met, not on every poll while it stays met.
+  private evaluateWatchAlerts(): void {
+    for (const rule of [...this.watchAlerts]) {
+      const evaluation = this.evaluateWatchAlertAgainstCache(rule);
+      const wasMet = this.watchAlertMet.get(rule.id) === true;
+      this.watchAlertMet.set(rule.id, evaluation.met);
+      if (!evaluation.met || wasMet) {
+        continue;
+      }
+      this.fireWatchAlert(`${rule.id} ${describeWatchAlertRule(rule)}`, evaluation);
+      if (rule.once) {
+        this.watchAlerts = this.watchAlerts.filter((candidate) => candidate !== rule);
+        this.watchAlertMet.delete(rule.id);
+      }
+    }
+  }
+
+  // Informational side notes; kept out of --json output so it stays parseable.
+  private notice(message: string): void {
+    if (this.state.session.jsonOutput) {
+      return;
+    }
+    console.log(`notice ${message}`);
+  }
+
+  private fireWatchAlert(label: string, evaluation: WatchAlertEvaluation): void {
+    const message = `ALERT ${label}: ${evaluation.summary}`;
+    if (process.stdout.isTTY) {
+      process.stdout.write("\u0007");
+    }
+    console.log(message);
+
+    const hook = this.watchAlertHook();
+    if (!hook) {
+      return;
+    }
+    try {
+      const child = spawn(hook, {
+        shell: true,
+        detached: true,
+        stdio: "ignore",
+        env: {
+          ...process.env,
+          CHAGEE_ALERT_MESSAGE: message,
+          CHAGEE_ALERT_SUMMARY: evaluation.summary
+        }
+      });
+      child.on("error", (error) => {
+        console.warn(`Notify hook warning: ${error.message}`);
+      });
+      child.unref();
+    } catch (error) {
+      console.warn(`Notify hook warning: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   private shouldPollPaymentStatus(): boolean {
     if (!this.state.auth || !this.state.selectedStore || !this.state.order?.orderNo) {
       return false;
@@ -3008,14 +6171,30 @@ export class App {
     this.storesWatchBusy = true;
     try {
       await this.refreshStores(this.storesWatchSort, this.storesWatchSilent);
+      this.evaluateWatchAlerts();
+      await this.maybeRefreshMenuForNotify();
     } finally {
       this.storesWatchBusy = false;
     }
   }
 
+  private async maybeRefreshMenuForNotify(): Promise<void> {
+    const storeNo = this.state.selectedStore?.storeNo;
+    if (!this.state.session.menuNotify || !storeNo) {
+      return;
+    }
+    if (Date.now() - (this.menuFetchedAt.get(storeNo) ?? 0) < MENU_NOTIFY_REFRESH_MS) {
+      return;
+    }
+    await this.fetchMenu(true);
+  }
+
   private async refreshStores(sortBy: StoreSort, silent: boolean): Promise<StoreState[]> {
     await this.maybeRefreshLocationHeartbeat(silent);
     const region = this.activeRegion();
+    const fulfillment = this.fulfillmentParams();
+    // Delivery stores are ranked from the drop-off address, not the device location.
+    const address = fulfillment.mode === "delivery" ? this.state.session.deliveryAddress : undefined;
     const pageSize = 20;
     const params: {
       latitude: number;
@@ -3024,13 +6203,15 @@ export class App {
       pageSize: number;
       isTakeaway: boolean;
       channelCode: string;
+      deliveryType?: number | undefined;
     } = {
-      latitude: this.state.session.latitude,
-      longitude: this.state.session.longitude,
+      latitude: address?.latitude ?? this.state.session.latitude,
+      longitude: address?.longitude ?? this.state.session.longitude,
       pageNum: 1,
       pageSize,
-      isTakeaway: region.isTakeaway,
-      channelCode: region.channelCode
+      isTakeaway: fulfillment.isTakeaway,
+      channelCode: region.channelCode,
+      deliveryType: fulfillment.mode === "delivery" ? fulfillment.deliveryType : undefined
     };
     const res = await this.client.listStores(params);
 
@@ -3055,11 +6236,13 @@ export class App {
     }
 
     const mergedStores = dedupeStores(stores);
-    const sorted = sortStores(mergedStores, sortBy);
+    const travelSpeedKmh = this.travelSpeedKmh();
+    const sorted = sortStores(mergedStores, sortBy, travelSpeedKmh);
     this.state.storesCache = sorted;
+    await this.recordWaitSamples(sorted);
 
     const previousStoreNo = this.state.selectedStore?.storeNo;
-    const closest = pickClosestStore(sorted);
+    const closest = pickClosestStore(sorted, this.storeAutoSelect(sortBy), travelSpeedKmh);
     if (this.state.session.storePinned) {
       if (this.state.selectedStore) {
         const matched = sorted.find((s) => s.storeNo === this.state.selectedStore?.storeNo);
@@ -3079,19 +6262,45 @@ export class App {
       selectedStoreNo &&
       (storeChanged || !this.hasMenuCacheForStore(selectedStoreNo))
     ) {
-      await this.ensureMenuForSelectedStore(true, storeChanged);
+      await this.ensureMenuForSelectedStore(true);
     }
 
     if (!silent) {
-      const rows = sorted.map((s) => [
-        s.storeNo,
-        formatDistanceKm(s.distanceMeters),
-        formatStoreDisplayName(s),
-        s.waitingCups !== undefined ? String(s.waitingCups) : "-",
-        s.waitingTime !== undefined ? String(s.waitingTime) : "-",
-        s.runningStatusDesc ?? "-"
-      ]);
-      printTable(["storeNo", "dist", "storeName", "cups", "wait(min)", "status"], rows);
+      const delivery = fulfillment.mode === "delivery";
+      const showEta = sortBy === "eta";
+      const rows = sorted.map((s) => {
+        const eta = showEta ? pickupEtaMinutes(s, travelSpeedKmh) : undefined;
+        return [
+          s.storeNo,
+          formatDistanceKm(s.distanceMeters),
+          formatStoreDisplayName(s),
+          s.waitingCups !== undefined ? String(s.waitingCups) : "-",
+          s.waitingTime !== undefined ? String(s.waitingTime) : "-",
+          ...(showEta ? [eta !== undefined ? String(eta) : "-"] : []),
+          ...(delivery ? [s.deliveryTime || "-"] : []),
+          s.runningStatusDesc ?? "-"
+        ];
+      });
+      printTable(
+        [
+          "storeNo",
+          "dist",
+          "storeName",
+          "cups",
+          "wait(min)",
+          ...(showEta ? ["eta(min)"] : []),
+          ...(delivery ? ["delivery"] : []),
+          "status"
+        ],
+        rows
+      );
+      if (showEta) {
+        const travelMode = this.state.session.travelMode ?? DEFAULT_TRAVEL_MODE;
+        console.log(`eta = longer of travel (${travelMode} at ${travelSpeedKmh}km/h) and wait`);
+      }
+      if (delivery && address) {
+        console.log(`Delivering to ${address.label}: ${formatDeliveryAddress(address)}`);
+      }
     }
 
     return sorted;
@@ -3101,19 +6310,83 @@ export class App {
     if (!this.state.selectedStore) {
       return;
     }
-    const storeNo = this.state.selectedStore.storeNo;
+    await this.fetchMenuForStore(this.state.selectedStore.storeNo, silent);
+    await this.persist();
+  }
+
+  private async fetchMenuForStore(storeNo: string, silent: boolean): Promise<MenuCategory[]> {
     const region = this.activeRegion();
+    const fulfillment = this.fulfillmentParams();
+    const variant = this.menuCacheVariant();
     const res = await this.client.getStoreMenu({
       storeNo,
       saleType: region.saleType,
-      saleChannel: region.saleChannel
+      saleChannel: region.saleChannel,
+      deliveryType: fulfillment.mode === "delivery" ? fulfillment.deliveryType : undefined
     });
     if (!silent) {
       this.printEnvelope(res);
     }
-    const categories = extractMenuCategories(envelopeData(res));
+    const data = envelopeData(res);
+    const categories = extractMenuCategories(data);
+    // Fulfillment or region changed while this was in flight; the menu is for the old one.
+    if (this.menuCacheVariant() !== variant) {
+      return categories;
+    }
+    // A failed refetch keeps the cached menu rather than blanking it.
+    if (!isApiOk(res) && this.hasMenuCacheForStore(storeNo)) {
+      return categories;
+    }
     this.setMenuCacheForStore(storeNo, categories);
-    await this.persist();
+    this.menuFetchedAt.set(storeNo, Date.now());
+    if (isApiOk(res)) {
+      await this.saveMenuToDisk(storeNo, categories);
+      await this.recordMenuChanges(storeNo, data, !silent);
+    }
+    return categories;
+  }
+
+  private async recordMenuChanges(storeNo: string, data: unknown, announce: boolean): Promise<void> {
+    const categories = extractMenuCategories(data, true);
+    // An empty parse is a failed or odd response, not a store that removed everything.
+    if (categories.length === 0) {
+      return;
+    }
+    let diff: MenuDiff | undefined;
+    try {
+      diff = await recordMenuSnapshot(buildMenuSnapshot(storeNo, this.menuCacheVariant(), categories, new Date()));
+    } catch (error) {
+      if (!this.menuSnapshotWarned) {
+        this.menuSnapshotWarned = true;
+        console.warn(
+          `Menu snapshot warning: cannot write ${menuSnapshotFilePath()}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+      return;
+    }
+    if (!diff) {
+      return;
+    }
+    if (announce) {
+      this.notice(
+        `menu changed at ${storeNo}: ${summarizeMenuChanges(diff.changes)} (menu diff ${storeNo})`
+      );
+    }
+
+    const fresh = diff.changes.filter(
+      (change) => change.kind === "added" || change.kind === "back-in-stock"
+    );
+    if (this.state.session.menuNotify && fresh.length > 0) {
+      this.fireWatchAlert(`menu ${storeNo}`, {
+        met: true,
+        seen: true,
+        summary: `new at ${storeNo}: ${fresh
+          .map((change) => (change.kind === "added" ? change.name : `${change.name} (back)`))
+          .join(", ")}`
+      });
+    }
   }
 
   private buildSkuList(): Record<string, unknown>[] {
@@ -3135,22 +6408,23 @@ export class App {
       throw new Error("Missing auth or selected store");
     }
     const region = this.activeRegion();
+    const fulfillment = this.fulfillmentParams();
 
     return {
       userId: this.state.auth.userId,
       storeNo: this.state.selectedStore.storeNo,
       channel: region.saleChannel,
       tradeChannel: region.tradeChannel,
-      deliveryType: region.deliveryType,
+      deliveryType: fulfillment.deliveryType,
       enableRecommend: true,
       skuList: this.buildSkuList(),
-      promotionList: [],
+      promotionList: buildVoucherPromotionList(this.state.appliedVouchers),
       storeChannel: region.storeChannel,
       feeInfoList: [],
       marketingActivityInfoList: [],
       tradeSource: 2,
-      businessType: region.businessType,
-      userAddress: null
+      businessType: fulfillment.businessType,
+      userAddress: this.deliveryAddressPayload(fulfillment)
     };
   }
 
@@ -3166,11 +6440,14 @@ export class App {
     }
 
     const now = new Date();
+    const fulfillment = this.fulfillmentParams();
+    const address = this.deliveryAddressPayload(fulfillment);
 
     return {
       confirmOrderKey: `cli-${now.getTime()}`,
-      orderType: 0,
-      businessType: region.businessType,
+      orderType: fulfillment.orderType,
+      businessType: fulfillment.businessType,
+      ...(fulfillment.mode === "delivery" ? { deliveryType: fulfillment.deliveryType } : {}),
       channelCode: region.channelCode,
       source: region.source,
       storeNo: this.state.selectedStore.storeNo,
@@ -3193,18 +6470,42 @@ export class App {
       saleChannel: region.saleChannel,
       contact: 1,
       storeChannel: region.storeChannel,
-      receiveAddress: null,
+      receiveAddress: address,
       assetDeduction: null,
       orderItems: this.buildSkuList(),
-      discountInfos: [],
+      discountInfos: buildVoucherPromotionList(this.state.appliedVouchers),
       marketingActivityInfoList: [],
       feeInfos: [],
       extInfo: {},
       priceQuoteRespVO: this.state.quote?.priceQuoteRespVO,
-      userAddress: null
+      userAddress: address
     };
   }
 
+  private fulfillmentParams(): FulfillmentParams {
+    return resolveFulfillmentParams(this.activeRegion(), this.state.session.fulfillment);
+  }
+
+  private deliveryAddressPayload(
+    fulfillment: FulfillmentParams
+  ): Record<string, unknown> | null {
+    if (fulfillment.mode !== "delivery") {
+      return null;
+    }
+    return buildDeliveryAddressPayload(
+      this.state.session.deliveryAddress,
+      this.state.auth?.phoneRaw
+    );
+  }
+
+  private deliveryAddressMissing(): boolean {
+    if (this.state.session.fulfillment !== "delivery" || this.state.session.deliveryAddress) {
+      return false;
+    }
+    console.log("Delivery needs an address: `address use <label>` or `fulfillment pickup`.");
+    return true;
+  }
+
   private printEnvelope(envelope: ApiEnvelope): void {
     const code = String(envelope.errcode ?? "");
     const msg = String(envelope.errmsg ?? "");
@@ -3227,10 +6528,14 @@ export class App {
 
   private openUrl(url: string): void {
     const opener = process.platform === "darwin" ? "open" : "xdg-open";
-    spawn(opener, [url], {
+    const child = spawn(opener, [url], {
       detached: true,
       stdio: "ignore"
-    }).unref();
+    });
+    child.on("error", (error) => {
+      console.log(`Could not open a browser (${error.message}); open ${url} manually.`);
+    });
+    child.unref();
     console.log(`Opened ${url}`);
   }
 
@@ -3637,14 +6942,46 @@ export class App {
     });
   }
 
-  private async persist(): Promise<void> {
-    await saveSession(this.state);
+  private async persist(options: SessionSaveOptions = {}): Promise<void> {
+    const result = await this.sessionStore.save(this.state, options);
+    for (const warning of result.warnings) {
+      console.warn(`Session warning: ${warning}`);
+    }
+    const token = this.state.auth?.token;
+    if (!result.tokenSaved && token && this.tokenSaveWarnedFor !== token) {
+      this.tokenSaveWarnedFor = token;
+      console.warn(
+        "Session warning: the login token could not be saved to the token store and lasts only for this run; see `token-store status`."
+      );
+    }
+    if (result.merged) {
+      Object.assign(this.state, result.merged);
+    }
   }
 
   private async dispatch(raw: string, source: CommandSource): Promise<boolean> {
-    const shouldExit = await this.handle(raw, source);
-    this.reconcilePaymentStatusPolling();
-    return shouldExit;
+    // A running scheduled job owns the cart and store until it restores them.
+    const runningJob = this.scheduledJobs.find((job) => job.status === "running");
+    if (runningJob && this.changesOrderState(raw)) {
+      console.log(
+        `Scheduled order ${runningJob.id} is being placed; retry once it finishes (\`schedule list\`).`
+      );
+      return false;
+    }
+    // `schedule wait` only waits for jobs, so it must not hold them back.
+    const blocksSchedule = !/^\/?schedule\s+wait\b/i.test(raw.trim());
+    if (blocksSchedule) {
+      this.runningCommands += 1;
+    }
+    try {
+      const shouldExit = await this.handle(raw, source);
+      this.reconcilePaymentStatusPolling();
+      return shouldExit;
+    } finally {
+      if (blocksSchedule) {
+        this.runningCommands -= 1;
+      }
+    }
   }
 
   async execute(raw: string, options: ExecuteOptions = {}): Promise<boolean> {
@@ -3652,7 +6989,7 @@ export class App {
   }
 
   async refreshMenuForSelectedStore(silent = true): Promise<void> {
-    await this.ensureMenuForSelectedStore(silent, true);
+    await this.fetchMenu(silent);
   }
 
   startupLocationRecommendationSnapshot(): StartupLocationRecommendation {
@@ -3667,14 +7004,61 @@ export class App {
     return [...this.events];
   }
 
+  cassetteSnapshot():
+    | { mode: CassetteOptions["mode"]; dir: string; strict: boolean; unmatched: string[] }
+    | undefined {
+    if (!this.cassetteOptions) {
+      return undefined;
+    }
+    return {
+      mode: this.cassetteOptions.mode,
+      dir: this.cassetteOptions.dir,
+      strict: this.cassetteOptions.strict === true,
+      unmatched: this.cassettePlayer?.unmatched ?? []
+    };
+  }
+
   async shutdown(): Promise<void> {
     this.stopStoreWatch();
+    this.cancelScheduledJobsOnExit();
     this.stopPaymentStatusPolling();
-    if (this.state.cart.length > 0 || this.state.quote || this.state.pendingCreatePayload) {
+    await Promise.all(this.menuRevalidations.values());
+    const exitCleanup =
+      this.state.cart.length > 0 || this.state.quote !== undefined || this.state.pendingCreatePayload !== undefined;
+    if (exitCleanup) {
       this.state.cart = [];
       nextCartVersion(this.state);
     }
-    await this.persist();
+    await this.persist({ exitCleanup });
+    if (this.cassetteRecorder) {
+      await this.cassetteRecorder.flush();
+      if (this.cassetteRecorder.failedWrites > 0) {
+        console.warn(
+          `Cassette warning: ${this.cassetteRecorder.failedWrites} exchange(s) could not be written to ${this.cassetteRecorder.dir}`
+        );
+      }
+    }
+  }
+
+  // Ordering commands plus the ones that swap the login or region under the cart.
+  private changesOrderState(raw: string): boolean {
+    const trimmed = raw.trim();
+    const [root, ...rest] = tokenize(trimmed.startsWith("/") ? trimmed.slice(1) : trimmed);
+    if (!root) {
+      return false;
+    }
+    const cmd = root.toLowerCase();
+    const sub = (rest[0] ?? "").toLowerCase();
+    if (cmd === "login" || cmd === "logout") {
+      return true;
+    }
+    if (cmd === "account" || cmd === "accounts") {
+      return sub === "use" || sub === "switch";
+    }
+    if (cmd === "region") {
+      return sub !== "" && sub !== "list" && sub !== "show";
+    }
+    return this.isShellOrderingCommand(root, rest);
   }
 
   private isShellOrderingCommand(root: string, rest: string[]): boolean {
@@ -3688,6 +7072,7 @@ export class App {
         "menu",
         "item",
         "add",
+        "pick",
         "qty",
         "rm",
         "clear",
@@ -3710,6 +7095,30 @@ export class App {
       return sub === "cancel";
     }
 
+    if (cmd === "fav" || cmd === "favs") {
+      return sub === "add";
+    }
+
+    if (cmd === "group") {
+      return sub === "close";
+    }
+
+    if (cmd === "voucher" || cmd === "vouchers") {
+      return sub === "apply" || sub === "clear";
+    }
+
+    if (cmd === "schedule") {
+      return sub === "place";
+    }
+
+    if (cmd === "fulfillment") {
+      return sub !== "";
+    }
+
+    if (cmd === "address" || cmd === "addresses") {
+      return sub === "use";
+    }
+
     if (cmd === "pay") {
       if (sub === "status" || sub === "await") {
         return false;
@@ -3924,10 +7333,15 @@ function parseWaitInfo(data: unknown): Partial<StoreState> {
 
 function sortStores(
   stores: StoreState[],
-  sortBy: StoreSort
+  sortBy: StoreSort,
+  travelSpeedKmh = resolveTravelSpeedKmh(DEFAULT_TRAVEL_MODE)
 ): StoreState[] {
   const cloned = [...stores];
 
+  if (sortBy === "eta") {
+    return sortStoresByEta(cloned, travelSpeedKmh);
+  }
+
   if (sortBy === "distance") {
     cloned.sort((a, b) => {
       const da = a.distanceMeters ?? Number.POSITIVE_INFINITY;
@@ -3965,7 +7379,13 @@ function parseStoreSort(input: string | undefined, fallback: StoreSort): StoreSo
   if (!input) {
     return fallback;
   }
-  if (input === "distance" || input === "wait" || input === "cups" || input === "name") {
+  if (
+    input === "distance" ||
+    input === "wait" ||
+    input === "cups" ||
+    input === "name" ||
+    input === "eta"
+  ) {
     return input;
   }
   return fallback;
@@ -3981,6 +7401,43 @@ function formatDistanceKm(distanceMeters: number | undefined): string {
   return `${(distanceMeters / 1000).toFixed(1)}km`;
 }
 
+const MENU_CHANGE_LABELS: Record<MenuChange["kind"], string> = {
+  added: "NEW",
+  removed: "REMOVED",
+  price: "PRICE",
+  "sold-out": "SOLD OUT",
+  "back-in-stock": "BACK"
+};
+
+function summarizeMenuChanges(changes: MenuChange[]): string {
+  const counts = new Map<MenuChange["kind"], number>();
+  for (const change of changes) {
+    counts.set(change.kind, (counts.get(change.kind) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([kind, count]) => `${count} ${MENU_CHANGE_LABELS[kind].toLowerCase()}`)
+    .join(", ");
+}
+
+function formatLocalDateTime(iso: string): string {
+  const date = new Date(iso);
+  if (!Number.isFinite(date.getTime())) {
+    return iso;
+  }
+  const pad = (value: number): string => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+}
+
+function formatMenuChangePrice(change: MenuChange): string {
+  if (change.kind === "price") {
+    return `${formatAmount(change.priceBefore)} -> ${formatAmount(change.priceAfter)}`;
+  }
+  const price = change.priceAfter ?? change.priceBefore;
+  return price !== undefined ? formatAmount(price) : "-";
+}
+
 function truncateForTable(value: string, width: number): string {
   if (value.length <= width) {
     return value;
@@ -3991,10 +7448,20 @@ function truncateForTable(value: string, width: number): string {
   return `${value.slice(0, width - 3)}...`;
 }
 
-function pickClosestStore(stores: StoreState[]): StoreState | undefined {
+function pickClosestStore(
+  stores: StoreState[],
+  by: StoreAutoSelect = "distance",
+  travelSpeedKmh = resolveTravelSpeedKmh(DEFAULT_TRAVEL_MODE)
+): StoreState | undefined {
   if (stores.length === 0) {
     return undefined;
   }
+  if (by === "eta") {
+    const fastest = pickFastestStore(stores, travelSpeedKmh);
+    if (fastest) {
+      return fastest;
+    }
+  }
   let best = stores[0];
   if (!best) {
     return undefined;
@@ -4066,7 +7533,8 @@ const MENU_GROUP_ARRAY_KEYS = [
   "tabs"
 ] as const;
 
-function extractMenuCategories(data: unknown): MenuCategory[] {
+// With `keepUnavailable`, sold-out items stay in the result flagged `soldOut` (menu snapshots).
+function extractMenuCategories(data: unknown, keepUnavailable = false): MenuCategory[] {
   const root = data && typeof data === "object" ? (data as Record<string, unknown>) : undefined;
   const nestedRoot =
     root?.data && typeof root.data === "object"
@@ -4086,7 +7554,7 @@ function extractMenuCategories(data: unknown): MenuCategory[] {
   }
 
   for (const candidate of categoryCandidates) {
-    const categories = mapMenuCategoryArray(candidate);
+    const categories = mapMenuCategoryArray(candidate, keepUnavailable);
     if (categories.length > 0) {
       return categories;
     }
@@ -4095,13 +7563,13 @@ function extractMenuCategories(data: unknown): MenuCategory[] {
   return [];
 }
 
-function mapMenuCategoryArray(raw: unknown): MenuCategory[] {
+function mapMenuCategoryArray(raw: unknown, keepUnavailable: boolean): MenuCategory[] {
   const arr = asArray(raw);
   if (!arr || arr.length === 0) {
     return [];
   }
   const categories = arr
-    .map((entry) => mapCategory(entry))
+    .map((entry) => mapCategory(entry, keepUnavailable))
     .filter((category): category is MenuCategory => category !== undefined);
   if (categories.length === 0) {
     return [];
@@ -4163,17 +7631,19 @@ function firstString(obj: Record<string, unknown>, keys: readonly string[]): str
   return "";
 }
 
-function mapItemsFromArray(raw: unknown): MenuItem[] {
+function mapItemsFromArray(raw: unknown, keepUnavailable: boolean): MenuItem[] {
   const arr = asArray(raw);
   if (!arr || arr.length === 0) {
     return [];
   }
-  return arr.map((entry) => mapItem(entry)).filter((item): item is MenuItem => item !== undefined);
+  return arr
+    .map((entry) => mapItem(entry, keepUnavailable))
+    .filter((item): item is MenuItem => item !== undefined);
 }
 
-function extractCategoryItems(obj: Record<string, unknown>): MenuItem[] {
+function extractCategoryItems(obj: Record<string, unknown>, keepUnavailable: boolean): MenuItem[] {
   for (const key of MENU_ITEM_ARRAY_KEYS) {
-    const items = mapItemsFromArray(obj[key]);
+    const items = mapItemsFromArray(obj[key], keepUnavailable);
     if (items.length > 0) {
       return dedupeMenuItems(items);
     }
@@ -4191,7 +7661,7 @@ function extractCategoryItems(obj: Record<string, unknown>): MenuItem[] {
       }
       const groupObj = rawGroup as Record<string, unknown>;
       for (const itemKey of MENU_ITEM_ARRAY_KEYS) {
-        const items = mapItemsFromArray(groupObj[itemKey]);
+        const items = mapItemsFromArray(groupObj[itemKey], keepUnavailable);
         if (items.length > 0) {
           groupedItems.push(...items);
         }
@@ -4201,14 +7671,14 @@ function extractCategoryItems(obj: Record<string, unknown>): MenuItem[] {
   return groupedItems.length > 0 ? dedupeMenuItems(groupedItems) : [];
 }
 
-function mapCategory(raw: unknown): MenuCategory | undefined {
+function mapCategory(raw: unknown, keepUnavailable: boolean): MenuCategory | undefined {
   if (!raw || typeof raw !== "object") {
     return undefined;
   }
   const obj = raw as Record<string, unknown>;
   const id = firstString(obj, MENU_CATEGORY_ID_KEYS);
   const name = firstString(obj, MENU_CATEGORY_NAME_KEYS);
-  const items = extractCategoryItems(obj);
+  const items = extractCategoryItems(obj, keepUnavailable);
 
   if (!id && !name) {
     return undefined;
@@ -4224,7 +7694,7 @@ function mapCategory(raw: unknown): MenuCategory | undefined {
   };
 }
 
-function mapItem(raw: unknown): MenuItem | undefined {
+function mapItem(raw: unknown, keepUnavailable: boolean): MenuItem | undefined {
   if (!raw || typeof raw !== "object") {
     return undefined;
   }
@@ -4247,10 +7717,8 @@ function mapItem(raw: unknown): MenuItem | undefined {
   if (!spuId || !name) {
     return undefined;
   }
-  if (isMenuItemOutOfStock(obj)) {
-    return undefined;
-  }
-  if (isComboMenuItemUnavailable(obj)) {
+  const unavailable = isMenuItemOutOfStock(obj) || isComboMenuItemUnavailable(obj);
+  if (unavailable && !keepUnavailable) {
     return undefined;
   }
 
@@ -4259,6 +7727,7 @@ function mapItem(raw: unknown): MenuItem | undefined {
     skuId,
     name,
     price,
+    ...(unavailable ? { soldOut: true } : {}),
     raw
   };
 }
@@ -5780,6 +9249,12 @@ function clipboardReadCommands(platform: NodeJS.Platform): ClipboardReadCommand[
   ];
 }
 
+function describeAuthExpiry(expiry: AuthExpiry): string {
+  return expiry.status === "expired"
+    ? `expired ${formatExpiryRemaining(expiry.remainingMs)} ago`
+    : `expires in ${formatExpiryRemaining(expiry.remainingMs)}`;
+}
+
 function normalizeImportedAuthToken(raw: string | undefined): string | undefined {
   if (!raw) {
     return undefined;
@@ -0,0 +1,149 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+// A saved login. The auth token itself stays in the token store, keyed by userId.
+export interface AccountProfile {
+  alias: string;
+  region: string;
+  userId?: string | undefined;
+  phoneMasked?: string | undefined;
+  phoneRaw?: string | undefined;
+  guestToken?: string | undefined;
+  defaultStore?: AccountStore | undefined;
+  updatedAt: string;
+}
+
+export interface AccountStore {
+  storeNo: string;
+  storeName: string;
+}
+
+const ACCOUNTS_DIR_ENV_VAR = "CHAGEE_CLI_HOME";
+const ACCOUNTS_SCHEMA_VERSION = 1;
+const ACCOUNTS_MAX_ITEMS = 20;
+const ACCOUNT_ALIAS_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,23}$/;
+
+export function accountsFilePath(): string {
+  return resolveAccountsFile();
+}
+
+export function isValidAccountAlias(alias: string): boolean {
+  return ACCOUNT_ALIAS_PATTERN.test(alias);
+}
+
+export function findAccount(
+  accounts: AccountProfile[],
+  alias: string
+): AccountProfile | undefined {
+  const key = alias.trim().toLowerCase();
+  return accounts.find((account) => account.alias.toLowerCase() === key);
+}
+
+export async function loadAccounts(): Promise<AccountProfile[]> {
+  const file = resolveAccountsFile();
+  try {
+    const raw = await readFile(file, "utf8");
+    return normalizeAccountsPayload(JSON.parse(raw) as unknown);
+  } catch {
+    return [];
+  }
+}
+
+export async function upsertAccount(account: AccountProfile): Promise<AccountProfile[]> {
+  const existing = await loadAccounts();
+  const key = account.alias.toLowerCase();
+  const index = existing.findIndex((candidate) => candidate.alias.toLowerCase() === key);
+  if (index < 0 && existing.length >= ACCOUNTS_MAX_ITEMS) {
+    throw new Error(`at most ${ACCOUNTS_MAX_ITEMS} accounts can be saved`);
+  }
+  const next =
+    index >= 0
+      ? existing.map((candidate, i) => (i === index ? account : candidate))
+      : [...existing, account];
+  await saveAccounts(next);
+  return next;
+}
+
+export async function removeAccount(
+  alias: string
+): Promise<{ removed?: AccountProfile | undefined; accounts: AccountProfile[] }> {
+  const existing = await loadAccounts();
+  const removed = findAccount(existing, alias);
+  if (!removed) {
+    return { accounts: existing };
+  }
+  const next = existing.filter((candidate) => candidate !== removed);
+  await saveAccounts(next);
+  return { removed, accounts: next };
+}
+
+async function saveAccounts(accounts: AccountProfile[]): Promise<void> {
+  const file = resolveAccountsFile();
+  await mkdir(dirname(file), { recursive: true });
+  const payload = {
+    schemaVersion: ACCOUNTS_SCHEMA_VERSION,
+    accounts
+  };
+  const tempFile = `${file}.tmp-${process.pid}-${Date.now()}`;
+  await writeFile(tempFile, JSON.stringify(payload, null, 2), {
+    encoding: "utf8",
+    mode: 0o600
+  });
+  await rename(tempFile, file);
+}
+
+function normalizeAccountsPayload(parsed: unknown): AccountProfile[] {
+  if (!parsed || typeof parsed !== "object") {
+    return [];
+  }
+  const root = parsed as Record<string, unknown>;
+  const rawAccounts = Array.isArray(root.accounts) ? root.accounts : [];
+  const out: AccountProfile[] = [];
+  for (const rawAccount of rawAccounts) {
+    if (!rawAccount || typeof rawAccount !== "object") {
+      continue;
+    }
+    const obj = rawAccount as Record<string, unknown>;
+    const alias = typeof obj.alias === "string" ? obj.alias : "";
+    const region = typeof obj.region === "string" ? obj.region : "";
+    if (!isValidAccountAlias(alias) || !region || findAccount(out, alias)) {
+      continue;
+    }
+    out.push({
+      alias,
+      region,
+      userId: asNonEmptyString(obj.userId),
+      phoneMasked: asNonEmptyString(obj.phoneMasked),
+      phoneRaw: asNonEmptyString(obj.phoneRaw),
+      guestToken: asNonEmptyString(obj.guestToken),
+      defaultStore: normalizeAccountStore(obj.defaultStore),
+      updatedAt: asNonEmptyString(obj.updatedAt) ?? new Date(0).toISOString()
+    });
+  }
+  return out.slice(0, ACCOUNTS_MAX_ITEMS);
+}
+
+function normalizeAccountStore(value: unknown): AccountStore | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const obj = value as Record<string, unknown>;
+  const storeNo = asNonEmptyString(obj.storeNo);
+  if (!storeNo) {
+    return undefined;
+  }
+  return { storeNo, storeName: asNonEmptyString(obj.storeName) ?? storeNo };
+}
+
+function asNonEmptyString(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function resolveAccountsFile(): string {
+  const configuredDir = process.env[ACCOUNTS_DIR_ENV_VAR]?.trim();
+  if (configuredDir) {
+    return join(configuredDir, "accounts.json");
+  }
+  return join(homedir(), ".chagee-cli", "accounts.json");
+}
@@ -0,0 +1,142 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+import type { DeliveryAddress } from "../types.js";
+
+const ADDRESS_BOOK_DIR_ENV_VAR = "CHAGEE_CLI_HOME";
+const ADDRESS_BOOK_SCHEMA_VERSION = 1;
+const ADDRESS_BOOK_MAX_ITEMS = 20;
+const ADDRESS_LABEL_PATTERN = /^[^\s=]{1,40}$/;
+
+export function addressBookFilePath(): string {
+  return resolveAddressBookFile();
+}
+
+export function isValidAddressLabel(label: string): boolean {
+  return ADDRESS_LABEL_PATTERN.test(label);
+}
+
+// Match by list index (1-based) or label, ignoring case.
+export function findAddress(
+  addresses: DeliveryAddress[],
+  ref: string
+): DeliveryAddress | undefined {
+  const trimmed = ref.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const byIndex = addresses[Number.parseInt(trimmed, 10) - 1];
+    if (byIndex) {
+      return byIndex;
+    }
+  }
+  const key = trimmed.toLowerCase();
+  return addresses.find((entry) => entry.label.toLowerCase() === key);
+}
+
+export function formatDeliveryAddress(address: DeliveryAddress): string {
+  return [address.address, address.unit, address.postalCode].filter(Boolean).join(", ");
+}
+
+export async function loadAddresses(): Promise<DeliveryAddress[]> {
+  const file = resolveAddressBookFile();
+  try {
+    const raw = await readFile(file, "utf8");
+    return normalizeAddressBookPayload(JSON.parse(raw) as unknown);
+  } catch {
+    return [];
+  }
+}
+
+export async function upsertAddress(address: DeliveryAddress): Promise<DeliveryAddress[]> {
+  const existing = await loadAddresses();
+  const key = address.label.toLowerCase();
+  const next = [...existing.filter((entry) => entry.label.toLowerCase() !== key), address]
+    .sort((a, b) => a.label.localeCompare(b.label))
+    .slice(0, ADDRESS_BOOK_MAX_ITEMS);
+  await saveAddresses(next);
+  return next;
+}
+
+export async function removeAddress(
+  label: string
+): Promise<{ removed: boolean; addresses: DeliveryAddress[] }> {
+  const existing = await loadAddresses();
+  const key = label.trim().toLowerCase();
+  const next = existing.filter((entry) => entry.label.toLowerCase() !== key);
+  if (next.length === existing.length) {
+    return { removed: false, addresses: existing };
+  }
+  await saveAddresses(next);
+  return { removed: true, addresses: next };
+}
+
+async function saveAddresses(addresses: DeliveryAddress[]): Promise<void> {
+  const file = resolveAddressBookFile();
+  await mkdir(dirname(file), { recursive: true });
+  const payload = {
+    schemaVersion: ADDRESS_BOOK_SCHEMA_VERSION,
+    addresses
+  };
+  const tempFile = `${file}.tmp-${process.pid}-${Date.now()}`;
+  await writeFile(tempFile, JSON.stringify(payload, null, 2), {
+    encoding: "utf8",
+    mode: 0o600
+  });
+  await rename(tempFile, file);
+}
+
+function normalizeAddressBookPayload(parsed: unknown): DeliveryAddress[] {
+  if (!parsed || typeof parsed !== "object") {
+    return [];
+  }
+  const root = parsed as Record<string, unknown>;
+  const rawAddresses = Array.isArray(root.addresses) ? root.addresses : [];
+  const out: DeliveryAddress[] = [];
+  for (const rawAddress of rawAddresses) {
+    const address = normalizeAddress(rawAddress);
+    const key = address?.label.toLowerCase();
+    if (address && !out.some((entry) => entry.label.toLowerCase() === key)) {
+      out.push(address);
+    }
+  }
+  return out.slice(0, ADDRESS_BOOK_MAX_ITEMS);
+}
+
+function normalizeAddress(value: unknown): DeliveryAddress | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const obj = value as Record<string, unknown>;
+  const label = asString(obj.label);
+  const address = asString(obj.address);
+  if (!label || !isValidAddressLabel(label) || !address) {
+    return undefined;
+  }
+  return {
+    label,
+    address,
+    unit: asString(obj.unit),
+    postalCode: asString(obj.postalCode),
+    recipient: asString(obj.recipient),
+    phone: asString(obj.phone),
+    latitude: asNumber(obj.latitude),
+    longitude: asNumber(obj.longitude),
+    savedAt: asString(obj.savedAt) ?? ""
+  };
+}
+
+function resolveAddressBookFile(): string {
+  const configuredDir = process.env[ADDRESS_BOOK_DIR_ENV_VAR]?.trim();
+  if (configuredDir) {
+    return join(configuredDir, "addresses.json");
+  }
+  return join(homedir(), ".chagee-cli", "addresses.json");
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
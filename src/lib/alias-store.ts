@@ -0,0 +1,127 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+export interface MenuAlias {
+  name: string;
+  text: string;
+}
+
+const ALIASES_DIR_ENV_VAR = "CHAGEE_CLI_HOME";
+const ALIASES_SCHEMA_VERSION = 1;
+const ALIASES_MAX_ITEMS = 200;
+const ALIAS_NAME_PATTERN = /^[^\s="']{1,40}$/;
+
+export function aliasesFilePath(): string {
+  return resolveAliasesFile();
+}
+
+export function isValidAliasName(name: string): boolean {
+  return ALIAS_NAME_PATTERN.test(name);
+}
+
+export function findAlias(aliases: MenuAlias[], name: string): MenuAlias | undefined {
+  const key = name.trim().toLowerCase();
+  return aliases.find((alias) => alias.name.toLowerCase() === key);
+}
+
+// Replace each whitespace-separated word that is an alias name with the alias text.
+export function expandAliases(
+  query: string,
+  aliases: MenuAlias[]
+): { query: string; used: MenuAlias[] } {
+  const used: MenuAlias[] = [];
+  const words = query
+    .trim()
+    .split(/\s+/)
+    .filter((word) => word.length > 0)
+    .map((word) => {
+      const alias = findAlias(aliases, word);
+      if (!alias) {
+        return word;
+      }
+      if (!used.includes(alias)) {
+        used.push(alias);
+      }
+      return alias.text;
+    });
+  return { query: words.join(" "), used };
+}
+
+export async function loadAliases(): Promise<MenuAlias[]> {
+  const file = resolveAliasesFile();
+  try {
+    const raw = await readFile(file, "utf8");
+    return normalizeAliasesPayload(JSON.parse(raw) as unknown);
+  } catch {
+    return [];
+  }
+}
+
+export async function upsertAlias(alias: MenuAlias): Promise<MenuAlias[]> {
+  const existing = await loadAliases();
+  const key = alias.name.toLowerCase();
+  const next = [...existing.filter((candidate) => candidate.name.toLowerCase() !== key), alias]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .slice(0, ALIASES_MAX_ITEMS);
+  await saveAliases(next);
+  return next;
+}
+
+export async function removeAlias(
+  name: string
+): Promise<{ removed: boolean; aliases: MenuAlias[] }> {
+  const existing = await loadAliases();
+  const key = name.trim().toLowerCase();
+  const next = existing.filter((candidate) => candidate.name.toLowerCase() !== key);
+  if (next.length === existing.length) {
+    return { removed: false, aliases: existing };
+  }
+  await saveAliases(next);
+  return { removed: true, aliases: next };
+}
+
+async function saveAliases(aliases: MenuAlias[]): Promise<void> {
+  const file = resolveAliasesFile();
+  await mkdir(dirname(file), { recursive: true });
+  const payload = {
+    schemaVersion: ALIASES_SCHEMA_VERSION,
+    aliases
+  };
+  const tempFile = `${file}.tmp-${process.pid}-${Date.now()}`;
+  await writeFile(tempFile, JSON.stringify(payload, null, 2), {
+    encoding: "utf8",
+    mode: 0o600
+  });
+  await rename(tempFile, file);
+}
+
+function normalizeAliasesPayload(parsed: unknown): MenuAlias[] {
+  if (!parsed || typeof parsed !== "object") {
+    return [];
+  }
+  const root = parsed as Record<string, unknown>;
+  const rawAliases = Array.isArray(root.aliases) ? root.aliases : [];
+  const out: MenuAlias[] = [];
+  for (const rawAlias of rawAliases) {
+    if (!rawAlias || typeof rawAlias !== "object") {
+      continue;
+    }
+    const obj = rawAlias as Record<string, unknown>;
+    const name = typeof obj.name === "string" ? obj.name : "";
+    const text = typeof obj.text === "string" ? obj.text.trim() : "";
+    if (!isValidAliasName(name) || text.length === 0 || findAlias(out, name)) {
+      continue;
+    }
+    out.push({ name, text });
+  }
+  return out.slice(0, ALIASES_MAX_ITEMS);
+}
+
+function resolveAliasesFile(): string {
+  const configuredDir = process.env[ALIASES_DIR_ENV_VAR]?.trim();
+  if (configuredDir) {
+    return join(configuredDir, "aliases.json");
+  }
+  return join(homedir(), ".chagee-cli", "aliases.json");
+}
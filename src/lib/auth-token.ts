@@ -0,0 +1,64 @@
+export type AuthExpiryStatus = "valid" | "expiring" | "expired";
+
+export interface AuthExpiry {
+  status: AuthExpiryStatus;
+  remainingMs: number;
+}
+
+export const AUTH_EXPIRY_WARN_MS = 60 * 60 * 1000;
+
+// Expiry of a JWT-shaped token ("Bearer " prefix allowed) from its `exp` claim; opaque
+// tokens and tokens without `exp` have no known expiry.
+export function jwtExpiresAt(token: string): string | undefined {
+  const parts = token.replace(/^bearer\s+/i, "").trim().split(".");
+  if (parts.length !== 3 || !parts[1]) {
+    return undefined;
+  }
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8")) as unknown;
+    if (!payload || typeof payload !== "object") {
+      return undefined;
+    }
+    const exp = (payload as Record<string, unknown>).exp;
+    const seconds = typeof exp === "string" ? Number(exp) : exp;
+    if (typeof seconds !== "number" || !Number.isFinite(seconds) || seconds <= 0) {
+      return undefined;
+    }
+    // Some issuers put milliseconds in `exp`.
+    const ms = seconds > 1e12 ? seconds : seconds * 1000;
+    return new Date(ms).toISOString();
+  } catch {
+    return undefined;
+  }
+}
+
+export function authExpiry(
+  expiresAt: string | undefined,
+  now = Date.now(),
+  warnMs = AUTH_EXPIRY_WARN_MS
+): AuthExpiry | undefined {
+  const expiresMs = expiresAt ? Date.parse(expiresAt) : Number.NaN;
+  if (!Number.isFinite(expiresMs)) {
+    return undefined;
+  }
+  const remainingMs = expiresMs - now;
+  return {
+    status: remainingMs <= 0 ? "expired" : remainingMs <= warnMs ? "expiring" : "valid",
+    remainingMs
+  };
+}
+
+// "45s", "12m", "3h20m", "2d4h".
+export function formatExpiryRemaining(remainingMs: number): string {
+  const totalSec = Math.max(0, Math.floor(Math.abs(remainingMs) / 1000));
+  const days = Math.floor(totalSec / 86_400);
+  const hours = Math.floor((totalSec % 86_400) / 3600);
+  const minutes = Math.floor((totalSec % 3600) / 60);
+  if (days > 0) {
+    return hours > 0 ? `${days}d${hours}h` : `${days}d`;
+  }
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}h${minutes}m` : `${hours}h`;
+  }
+  return minutes > 0 ? `${minutes}m` : `${totalSec}s`;
+}
@@ -0,0 +1,194 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+import type { ItemSkuOption } from "../types.js";
+import { parseAttributeSelectionList, parseSpecSelectionList } from "./order-history-store.js";
+
+export interface FavoritePreset {
+  name: string;
+  savedAt: string;
+  skuId: string;
+  spuId?: string | undefined;
+  itemName?: string | undefined;
+  variantText?: string | undefined;
+  price?: number | undefined;
+  specList?: Array<{ specId: string; specOptionId: string }> | undefined;
+  attributeList?: Array<{ attributeOptionId: string }> | undefined;
+}
+
+export type FavoriteResolution = "sku" | "selection" | "variant";
+
+const FAVORITES_DIR_ENV_VAR = "CHAGEE_CLI_HOME";
+const FAVORITES_SCHEMA_VERSION = 1;
+const FAVORITES_MAX_ITEMS = 100;
+const FAVORITE_NAME_PATTERN = /^[^\s=]{1,40}$/;
+
+export function favoritesFilePath(): string {
+  return resolveFavoritesFile();
+}
+
+export function isValidFavoriteName(name: string): boolean {
+  return FAVORITE_NAME_PATTERN.test(name);
+}
+
+export function findFavorite(
+  favorites: FavoritePreset[],
+  name: string
+): FavoritePreset | undefined {
+  const key = name.trim().toLowerCase();
+  return favorites.find((preset) => preset.name.toLowerCase() === key);
+}
+
+export async function loadFavorites(): Promise<FavoritePreset[]> {
+  const file = resolveFavoritesFile();
+  try {
+    const raw = await readFile(file, "utf8");
+    const parsed = JSON.parse(raw) as unknown;
+    return normalizeFavoritesPayload(parsed);
+  } catch {
+    return [];
+  }
+}
+
+export async function upsertFavorite(preset: FavoritePreset): Promise<FavoritePreset[]> {
+  const existing = await loadFavorites();
+  const key = preset.name.toLowerCase();
+  const next = [...existing.filter((candidate) => candidate.name.toLowerCase() !== key), preset]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .slice(0, FAVORITES_MAX_ITEMS);
+  await saveFavorites(next);
+  return next;
+}
+
+export async function removeFavorite(
+  name: string
+): Promise<{ removed: boolean; favorites: FavoritePreset[] }> {
+  const existing = await loadFavorites();
+  const key = name.trim().toLowerCase();
+  const next = existing.filter((candidate) => candidate.name.toLowerCase() !== key);
+  if (next.length === existing.length) {
+    return { removed: false, favorites: existing };
+  }
+  await saveFavorites(next);
+  return { removed: true, favorites: next };
+}
+
+// Match a preset against the current store's sellable SKUs. SKU ids are
+// store-specific, so fall back to the saved spec/attribute selection, then to
+// the human variant text.
+export function resolveFavoriteOption(
+  preset: FavoritePreset,
+  options: ItemSkuOption[]
+): { option: ItemSkuOption; via: FavoriteResolution } | undefined {
+  // One skuId covers several attribute combinations, so the selection must match too.
+  const wantedSelection = selectionKey(preset.specList, preset.attributeList);
+  const bySku = options.find(
+    (option) =>
+      option.skuId === preset.skuId &&
+      (!wantedSelection || selectionKey(option.specList, option.attributeList) === wantedSelection)
+  );
+  if (bySku) {
+    return { option: bySku, via: "sku" };
+  }
+
+  if (wantedSelection) {
+    const bySelection = options.find(
+      (option) => selectionKey(option.specList, option.attributeList) === wantedSelection
+    );
+    if (bySelection) {
+      return { option: bySelection, via: "selection" };
+    }
+  }
+
+  const wantedText = normalizeVariantText(preset.variantText);
+  if (wantedText) {
+    const byText = options.find((option) => normalizeVariantText(option.specText) === wantedText);
+    if (byText) {
+      return { option: byText, via: "variant" };
+    }
+  }
+  return undefined;
+}
+
+async function saveFavorites(favorites: FavoritePreset[]): Promise<void> {
+  const file = resolveFavoritesFile();
+  await mkdir(dirname(file), { recursive: true });
+  const payload = {
+    schemaVersion: FAVORITES_SCHEMA_VERSION,
+    favorites
+  };
+  const tempFile = `${file}.tmp-${process.pid}-${Date.now()}`;
+  await writeFile(tempFile, JSON.stringify(payload, null, 2), {
+    encoding: "utf8",
+    mode: 0o600
+  });
+  await rename(tempFile, file);
+}
+
+function normalizeFavoritesPayload(parsed: unknown): FavoritePreset[] {
+  if (!parsed || typeof parsed !== "object") {
+    return [];
+  }
+  const root = parsed as Record<string, unknown>;
+  const rawFavorites = Array.isArray(root.favorites) ? root.favorites : [];
+  const out: FavoritePreset[] = [];
+  for (const rawFavorite of rawFavorites) {
+    const preset = normalizeFavorite(rawFavorite);
+    if (preset && !findFavorite(out, preset.name)) {
+      out.push(preset);
+    }
+  }
+  return out.slice(0, FAVORITES_MAX_ITEMS);
+}
+
+function normalizeFavorite(value: unknown): FavoritePreset | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const obj = value as Record<string, unknown>;
+  const name = asString(obj.name);
+  const skuId = asString(obj.skuId);
+  if (!name || !isValidFavoriteName(name) || !skuId) {
+    return undefined;
+  }
+  return {
+    name,
+    savedAt: asString(obj.savedAt) ?? "",
+    skuId,
+    spuId: asString(obj.spuId),
+    itemName: asString(obj.itemName),
+    variantText: asString(obj.variantText),
+    price: typeof obj.price === "number" && Number.isFinite(obj.price) ? obj.price : undefined,
+    specList: parseSpecSelectionList(obj.specList),
+    attributeList: parseAttributeSelectionList(obj.attributeList)
+  };
+}
+
+function selectionKey(
+  specList: Array<{ specId: string; specOptionId: string }> | undefined,
+  attributeList: Array<{ attributeOptionId: string }> | undefined
+): string {
+  const specs = (specList ?? []).map((spec) => `${spec.specId}:${spec.specOptionId}`).sort();
+  const attributes = (attributeList ?? []).map((attr) => attr.attributeOptionId).sort();
+  if (specs.length === 0 && attributes.length === 0) {
+    return "";
+  }
+  return `${specs.join(",")}|${attributes.join(",")}`;
+}
+
+function normalizeVariantText(value: string | undefined): string {
+  return (value ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function resolveFavoritesFile(): string {
+  const configuredDir = process.env[FAVORITES_DIR_ENV_VAR]?.trim();
+  if (configuredDir) {
+    return join(configuredDir, "favorites.json");
+  }
+  return join(homedir(), ".chagee-cli", "favorites.json");
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
@@ -39,3 +39,7 @@ export function toNum(value: unknown): number | undefined {
   }
   return undefined;
 }
+
+export function formatAmount(value: number | undefined): string {
+  return value === undefined ? "-" : value.toFixed(2);
+}
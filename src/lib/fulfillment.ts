@@ -0,0 +1,64 @@
+import type { RegionProfile } from "../config/regions.js";
+import type { DeliveryAddress, FulfillmentMode } from "../types.js";
+
+export interface FulfillmentParams {
+  mode: FulfillmentMode;
+  deliveryType: number;
+  businessType: number;
+  isTakeaway: boolean;
+  orderType: number;
+}
+
+export function parseFulfillmentMode(value: string | undefined): FulfillmentMode | undefined {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === "pickup" || normalized === "pick-up" || normalized === "takeaway") {
+    return "pickup";
+  }
+  if (normalized === "delivery" || normalized === "deliver") {
+    return "delivery";
+  }
+  return undefined;
+}
+
+// Pickup keeps the region's own values; delivery swaps in the region's
+// home-delivery codes so custom profiles can override both.
+export function resolveFulfillmentParams(
+  region: RegionProfile,
+  mode: FulfillmentMode | undefined
+): FulfillmentParams {
+  if (mode === "delivery") {
+    return {
+      mode,
+      deliveryType: region.homeDeliveryType,
+      businessType: region.homeDeliveryBusinessType,
+      isTakeaway: true,
+      orderType: 1
+    };
+  }
+  return {
+    mode: "pickup",
+    deliveryType: region.deliveryType,
+    businessType: region.businessType,
+    isTakeaway: region.isTakeaway,
+    orderType: 0
+  };
+}
+
+export function buildDeliveryAddressPayload(
+  address: DeliveryAddress | undefined,
+  fallbackPhone?: string
+): Record<string, unknown> | null {
+  if (!address) {
+    return null;
+  }
+  return {
+    addressLabel: address.label,
+    address: address.address,
+    detailAddress: address.unit ?? "",
+    postCode: address.postalCode ?? "",
+    contactName: address.recipient ?? "",
+    contactPhone: address.phone ?? fallbackPhone ?? "",
+    latitude: address.latitude ?? null,
+    longitude: address.longitude ?? null
+  };
+}
@@ -0,0 +1,261 @@
+import { mkdir, open, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+
+import { parseAttributeSelectionList, parseSpecSelectionList } from "./order-history-store.js";
+
+export type GroupOrderStatus = "open" | "closed";
+
+export interface GroupOrderLine {
+  id: string;
+  owner: string;
+  addedAt: string;
+  skuId: string;
+  spuId?: string | undefined;
+  name?: string | undefined;
+  variantText?: string | undefined;
+  qty: number;
+  price?: number | undefined;
+  specList?: Array<{ specId: string; specOptionId: string }> | undefined;
+  attributeList?: Array<{ attributeOptionId: string }> | undefined;
+}
+
+export interface GroupOrder {
+  name: string;
+  status: GroupOrderStatus;
+  createdAt: string;
+  closedAt?: string | undefined;
+  region?: string | undefined;
+  storeNo?: string | undefined;
+  storeName?: string | undefined;
+  lines: GroupOrderLine[];
+}
+
+const GROUP_ORDER_DIR_ENV_VAR = "CHAGEE_CLI_HOME";
+const GROUP_ORDER_SCHEMA_VERSION = 1;
+const GROUP_ORDER_MAX_LINES = 200;
+const GROUP_LOCK_RETRY_MS = 50;
+const GROUP_LOCK_TIMEOUT_MS = 5000;
+const GROUP_LOCK_STALE_MS = 30 * 1000;
+
+// A group is either a bare name (kept under the CLI home) or a path to a
+// shared JSON file, so teammates on one machine or one network drive can join.
+export function resolveGroupOrderFile(ref: string): string {
+  const trimmed = ref.trim();
+  if (trimmed.includes("/") || trimmed.includes("\\") || trimmed.endsWith(".json")) {
+    return isAbsolute(trimmed) ? trimmed : resolve(trimmed);
+  }
+  return join(resolveGroupOrderDir(), `${slugifyGroupName(trimmed)}.json`);
+}
+
+export async function loadGroupOrder(file: string): Promise<GroupOrder | undefined> {
+  try {
+    const raw = await readFile(file, "utf8");
+    return normalizeGroupOrder(JSON.parse(raw) as unknown);
+  } catch {
+    return undefined;
+  }
+}
+
+export async function createGroupOrder(
+  file: string,
+  init: Omit<GroupOrder, "status" | "lines" | "closedAt">
+): Promise<GroupOrder> {
+  return withGroupFileLock(file, async () => {
+    const existing = await loadGroupOrder(file);
+    if (existing?.status === "open") {
+      throw new Error(
+        `Group ${existing.name} is already open with ${existing.lines.length} line(s).`
+      );
+    }
+    const group: GroupOrder = { ...init, status: "open", lines: [] };
+    await saveGroupOrder(file, group);
+    return group;
+  });
+}
+
+export async function appendGroupOrderLine(
+  file: string,
+  line: Omit<GroupOrderLine, "id" | "addedAt">
+): Promise<{ group: GroupOrder; line: GroupOrderLine }> {
+  return updateOpenGroup(file, (group) => {
+    if (group.lines.length >= GROUP_ORDER_MAX_LINES) {
+      throw new Error(`Group ${group.name} is full (${GROUP_ORDER_MAX_LINES} lines).`);
+    }
+    const added: GroupOrderLine = {
+      ...line,
+      id: `g-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      addedAt: new Date().toISOString()
+    };
+    group.lines.push(added);
+    return added;
+  });
+}
+
+export async function removeGroupOrderLine(
+  file: string,
+  ref: string
+): Promise<{ group: GroupOrder; line: GroupOrderLine }> {
+  return updateOpenGroup(file, (group) => {
+    const index = /^\d+$/.test(ref)
+      ? Number.parseInt(ref, 10) - 1
+      : group.lines.findIndex((line) => line.id === ref);
+    const line = group.lines[index];
+    if (!line) {
+      throw new Error(`Group line not found: ${ref}`);
+    }
+    group.lines.splice(index, 1);
+    return line;
+  });
+}
+
+export async function closeGroupOrder(file: string): Promise<GroupOrder> {
+  const result = await updateOpenGroup(file, (group) => {
+    group.status = "closed";
+    group.closedAt = new Date().toISOString();
+    return group;
+  });
+  return result.group;
+}
+
+async function updateOpenGroup<T>(
+  file: string,
+  update: (group: GroupOrder) => T
+): Promise<{ group: GroupOrder; line: T }> {
+  return withGroupFileLock(file, async () => {
+    const group = await loadGroupOrder(file);
+    if (!group) {
+      throw new Error(`Group file not found: ${file}`);
+    }
+    if (group.status !== "open") {
+      throw new Error(`Group ${group.name} is already closed.`);
+    }
+    const line = update(group);
+    await saveGroupOrder(file, group);
+    return { group, line };
+  });
+}
+
+async function withGroupFileLock<T>(file: string, run: () => Promise<T>): Promise<T> {
+  await mkdir(dirname(file), { recursive: true });
+  const lockFile = `${file}.lock`;
+  const deadline = Date.now() + GROUP_LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      const handle = await open(lockFile, "wx", 0o600);
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+      const lockAge = await stat(lockFile).then(
+        (info) => Date.now() - info.mtimeMs,
+        () => 0
+      );
+      if (lockAge > GROUP_LOCK_STALE_MS) {
+        await unlink(lockFile).catch(() => undefined);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Group file is locked by another writer: ${lockFile}`);
+      }
+      await new Promise((resolveWait) => setTimeout(resolveWait, GROUP_LOCK_RETRY_MS));
+    }
+  }
+  try {
+    return await run();
+  } finally {
+    await unlink(lockFile).catch(() => undefined);
+  }
+}
+
+async function saveGroupOrder(file: string, group: GroupOrder): Promise<void> {
+  const payload = {
+    schemaVersion: GROUP_ORDER_SCHEMA_VERSION,
+    ...group
+  };
+  const tempFile = `${file}.tmp-${process.pid}-${Date.now()}`;
+  // Shared group files are meant to be written by teammates, so keep them group-readable.
+  await writeFile(tempFile, JSON.stringify(payload, null, 2), {
+    encoding: "utf8",
+    mode: 0o660
+  });
+  await rename(tempFile, file);
+}
+
+function normalizeGroupOrder(parsed: unknown): GroupOrder | undefined {
+  if (!parsed || typeof parsed !== "object") {
+    return undefined;
+  }
+  const obj = parsed as Record<string, unknown>;
+  const name = asString(obj.name);
+  const createdAt = asString(obj.createdAt);
+  if (!name || !createdAt) {
+    return undefined;
+  }
+  const lines: GroupOrderLine[] = [];
+  for (const rawLine of Array.isArray(obj.lines) ? obj.lines : []) {
+    const line = normalizeGroupOrderLine(rawLine);
+    if (line) {
+      lines.push(line);
+    }
+  }
+  return {
+    name,
+    status: obj.status === "closed" ? "closed" : "open",
+    createdAt,
+    closedAt: asString(obj.closedAt),
+    region: asString(obj.region),
+    storeNo: asString(obj.storeNo),
+    storeName: asString(obj.storeName),
+    lines: lines.slice(0, GROUP_ORDER_MAX_LINES)
+  };
+}
+
+function normalizeGroupOrderLine(value: unknown): GroupOrderLine | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const obj = value as Record<string, unknown>;
+  const id = asString(obj.id);
+  const owner = asString(obj.owner);
+  const skuId = asString(obj.skuId);
+  const qty = typeof obj.qty === "number" && Number.isFinite(obj.qty) ? Math.floor(obj.qty) : 0;
+  if (!id || !owner || !skuId || qty <= 0) {
+    return undefined;
+  }
+  return {
+    id,
+    owner,
+    addedAt: asString(obj.addedAt) ?? "",
+    skuId,
+    spuId: asString(obj.spuId),
+    name: asString(obj.name),
+    variantText: asString(obj.variantText),
+    qty,
+    price: typeof obj.price === "number" && Number.isFinite(obj.price) ? obj.price : undefined,
+    specList: parseSpecSelectionList(obj.specList),
+    attributeList: parseAttributeSelectionList(obj.attributeList)
+  };
+}
+
+function slugifyGroupName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "group";
+}
+
+function resolveGroupOrderDir(): string {
+  const configuredDir = process.env[GROUP_ORDER_DIR_ENV_VAR]?.trim();
+  if (configuredDir) {
+    return join(configuredDir, "groups");
+  }
+  return join(homedir(), ".chagee-cli", "groups");
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
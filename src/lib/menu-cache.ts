@@ -0,0 +1,158 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+import type { MenuCategory } from "../types.js";
+
+export interface CachedMenu {
+  storeNo: string;
+  // Region and fulfillment the menu was fetched for; a different variant is a cache miss.
+  variant: string;
+  fetchedAt: string;
+  hash: string;
+  categories: MenuCategory[];
+}
+
+export interface CachedMenuStats {
+  storeNo: string;
+  variant: string;
+  fetchedAt: string;
+  items: number;
+  bytes: number;
+}
+
+const MENU_CACHE_DIR_ENV_VAR = "CHAGEE_CLI_HOME";
+const MENU_CACHE_SCHEMA_VERSION = 1;
+
+export const DEFAULT_MENU_TTL_MS = 15 * 60 * 1000;
+
+export function menuCacheDir(): string {
+  const configuredDir = process.env[MENU_CACHE_DIR_ENV_VAR]?.trim();
+  return join(configuredDir || join(homedir(), ".chagee-cli"), "menus");
+}
+
+// Content hash over the parsed menu (raw payloads excluded): an unchanged hash after a
+// refetch means "not modified".
+export function menuContentHash(categories: MenuCategory[]): string {
+  const normalized = categories.map((category) => ({
+    id: category.id,
+    name: category.name,
+    items: category.items.map((item) => [item.spuId, item.skuId ?? "", item.name, item.price ?? null])
+  }));
+  return createHash("sha1").update(JSON.stringify(normalized)).digest("hex").slice(0, 16);
+}
+
+export function isMenuStale(fetchedAt: string | number, ttlMs: number, now = Date.now()): boolean {
+  const fetchedMs = typeof fetchedAt === "number" ? fetchedAt : Date.parse(fetchedAt);
+  return !Number.isFinite(fetchedMs) || now - fetchedMs >= ttlMs;
+}
+
+export async function loadCachedMenu(
+  storeNo: string,
+  variant: string
+): Promise<CachedMenu | undefined> {
+  try {
+    const raw = await readFile(menuCacheFile(storeNo), "utf8");
+    const entry = normalizeCachedMenu(JSON.parse(raw) as unknown);
+    return entry && entry.storeNo === storeNo && entry.variant === variant ? entry : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function saveCachedMenu(entry: CachedMenu): Promise<void> {
+  const file = menuCacheFile(entry.storeNo);
+  await mkdir(menuCacheDir(), { recursive: true });
+  const payload = {
+    schemaVersion: MENU_CACHE_SCHEMA_VERSION,
+    ...entry,
+    categories: entry.categories.map((category) => ({
+      ...category,
+      items: category.items.map(({ raw: _raw, ...item }) => item)
+    }))
+  };
+  const tempFile = `${file}.tmp-${process.pid}-${Date.now()}`;
+  await writeFile(tempFile, JSON.stringify(payload), { encoding: "utf8", mode: 0o600 });
+  await rename(tempFile, file);
+}
+
+export async function listCachedMenus(): Promise<CachedMenuStats[]> {
+  let names: string[];
+  try {
+    names = await readdir(menuCacheDir());
+  } catch {
+    return [];
+  }
+  const out: CachedMenuStats[] = [];
+  for (const name of names.filter((candidate) => candidate.endsWith(".json")).sort()) {
+    const file = join(menuCacheDir(), name);
+    try {
+      const [raw, info] = await Promise.all([readFile(file, "utf8"), stat(file)]);
+      const entry = normalizeCachedMenu(JSON.parse(raw) as unknown);
+      if (!entry) {
+        continue;
+      }
+      out.push({
+        storeNo: entry.storeNo,
+        variant: entry.variant,
+        fetchedAt: entry.fetchedAt,
+        items: entry.categories.reduce((sum, category) => sum + category.items.length, 0),
+        bytes: info.size
+      });
+    } catch {
+      // Unreadable entries are skipped; `menu cache clear` removes them.
+    }
+  }
+  return out;
+}
+
+// Remove one store's cached menu, or all of them; returns how many files were removed.
+export async function clearMenuCache(storeNo?: string): Promise<number> {
+  if (storeNo !== undefined) {
+    const file = menuCacheFile(storeNo);
+    try {
+      await stat(file);
+    } catch {
+      return 0;
+    }
+    await rm(file, { force: true });
+    return 1;
+  }
+  let names: string[];
+  try {
+    names = await readdir(menuCacheDir());
+  } catch {
+    return 0;
+  }
+  const files = names.filter((name) => name.endsWith(".json"));
+  await Promise.all(files.map((name) => rm(join(menuCacheDir(), name), { force: true })));
+  return files.length;
+}
+
+function menuCacheFile(storeNo: string): string {
+  return join(menuCacheDir(), `${storeNo.replace(/[^A-Za-z0-9_-]/g, "_")}.json`);
+}
+
+function normalizeCachedMenu(parsed: unknown): CachedMenu | undefined {
+  if (!parsed || typeof parsed !== "object") {
+    return undefined;
+  }
+  const root = parsed as Record<string, unknown>;
+  if (
+    typeof root.storeNo !== "string" ||
+    typeof root.variant !== "string" ||
+    typeof root.fetchedAt !== "string" ||
+    typeof root.hash !== "string" ||
+    !Array.isArray(root.categories)
+  ) {
+    return undefined;
+  }
+  return {
+    storeNo: root.storeNo,
+    variant: root.variant,
+    fetchedAt: root.fetchedAt,
+    hash: root.hash,
+    categories: root.categories as MenuCategory[]
+  };
+}
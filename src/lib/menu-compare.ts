@@ -0,0 +1,124 @@
+import type { ItemSkuOption, MenuCategory, MenuItem } from "../types.js";
+
+export type MenuCompareStatus = "available" | "sold-out" | "not-stocked" | "unknown";
+
+// What `getGoodsDetail` said about the item at one store.
+export type GoodsDetailResult =
+  | { kind: "ok"; soldOut: boolean; options: ItemSkuOption[] }
+  | { kind: "missing" }
+  | { kind: "error"; message: string };
+
+export interface MenuCompareEntry {
+  storeNo: string;
+  storeName: string;
+  distanceMeters?: number | undefined;
+  closed: boolean;
+  status: MenuCompareStatus;
+  minPrice?: number | undefined;
+  maxPrice?: number | undefined;
+  options: number;
+  detail?: string | undefined;
+}
+
+// Exact spuId first, then exact name, then name substring; one item per spuId.
+export function findMenuMatches(menus: MenuCategory[][], query: string): MenuItem[] {
+  const needle = query.trim().toLowerCase();
+  if (needle.length === 0) {
+    return [];
+  }
+  const items = new Map<string, MenuItem>();
+  for (const categories of menus) {
+    for (const category of categories) {
+      for (const item of category.items) {
+        if (!items.has(item.spuId)) {
+          items.set(item.spuId, item);
+        }
+      }
+    }
+  }
+  const all = [...items.values()];
+  const bySpu = all.filter((item) => item.spuId.toLowerCase() === needle);
+  if (bySpu.length > 0) {
+    return bySpu;
+  }
+  const byName = all.filter((item) => item.name.toLowerCase() === needle);
+  if (byName.length > 0) {
+    return byName;
+  }
+  return all.filter((item) => item.name.toLowerCase().includes(needle));
+}
+
+// Only a spuId-shaped query is worth asking stores about when no menu lists it; a name that
+// matches nothing is more likely a typo than an item sold out everywhere.
+export function looksLikeSpuId(query: string): boolean {
+  return /^\d+$/.test(query.trim());
+}
+
+export function findMenuItem(categories: MenuCategory[], spuId: string): MenuItem | undefined {
+  for (const category of categories) {
+    const item = category.items.find((candidate) => candidate.spuId === spuId);
+    if (item) {
+      return item;
+    }
+  }
+  return undefined;
+}
+
+// Menus drop sold-out items, so an item missing from the menu is sold out or not stocked
+// depending on the goods detail.
+export function resolveMenuCompareStatus(
+  listed: MenuItem | undefined,
+  detail: GoodsDetailResult
+): Pick<MenuCompareEntry, "status" | "minPrice" | "maxPrice" | "options" | "detail"> {
+  if (detail.kind === "ok" && detail.soldOut) {
+    return { status: "sold-out", options: 0 };
+  }
+  const prices = (detail.kind === "ok" ? detail.options : [])
+    .map((option) => option.price)
+    .filter((price): price is number => price !== undefined);
+  if (listed?.price !== undefined && prices.length === 0) {
+    prices.push(listed.price);
+  }
+  const range = {
+    minPrice: prices.length > 0 ? Math.min(...prices) : undefined,
+    maxPrice: prices.length > 0 ? Math.max(...prices) : undefined,
+    options: detail.kind === "ok" ? detail.options.length : 0
+  };
+  if (detail.kind === "ok" && detail.options.length > 0) {
+    return { status: "available", ...range };
+  }
+  if (listed) {
+    return {
+      status: "available",
+      ...range,
+      ...(detail.kind === "error" ? { detail: detail.message } : {})
+    };
+  }
+  if (detail.kind === "error") {
+    return { status: "unknown", options: 0, detail: detail.message };
+  }
+  return { status: "not-stocked", options: 0 };
+}
+
+export function formatPriceRange(entry: Pick<MenuCompareEntry, "minPrice" | "maxPrice">): string {
+  if (entry.minPrice === undefined || entry.maxPrice === undefined) {
+    return "-";
+  }
+  return entry.minPrice === entry.maxPrice
+    ? entry.minPrice.toFixed(2)
+    : `${entry.minPrice.toFixed(2)}-${entry.maxPrice.toFixed(2)}`;
+}
+
+// Cheapest open store that has the item, by its lowest variant price.
+export function pickCheapestEntry(entries: MenuCompareEntry[]): MenuCompareEntry | undefined {
+  let best: MenuCompareEntry | undefined;
+  for (const entry of entries) {
+    if (entry.closed || entry.status !== "available" || entry.minPrice === undefined) {
+      continue;
+    }
+    if (!best || entry.minPrice < (best.minPrice ?? Number.POSITIVE_INFINITY)) {
+      best = entry;
+    }
+  }
+  return best;
+}
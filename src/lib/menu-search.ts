@@ -0,0 +1,285 @@
+import type { MenuCategory, MenuItem } from "../types.js";
+
+export type MenuSearchField = "name" | "category" | "variant";
+
+export interface MenuSearchHit {
+  item: MenuItem;
+  category: string;
+  score: number;
+  // Weakest field any query word had to match in; "name" means every word hit the name.
+  field: MenuSearchField;
+  typo: boolean;
+}
+
+export interface MenuSearchOptions {
+  // Variant text (spec/attribute labels) per spuId, from options already fetched.
+  variants?: Map<string, string[]> | undefined;
+}
+
+interface SearchField {
+  tokens: string[];
+  compact: string;
+  initials: string;
+}
+
+// Pinyin for characters common on CHAGEE menus (simplified and traditional), so
+// "molilvcha", "mo li lv cha" and "綠茶" all reach 茉莉绿茶. Not a general dictionary.
+const PINYIN_SYLLABLES: Record<string, string> = {
+  bai: "白",
+  ban: "半",
+  bei: "杯焙",
+  biao: "标標",
+  bing: "冰",
+  bo: "伯",
+  bu: "布",
+  cao: "草",
+  cha: "茶",
+  chang: "常",
+  chao: "超",
+  chen: "尘塵",
+  chun: "春",
+  cong: "丛叢",
+  da: "大",
+  dan: "单單淡",
+  ding: "丁定",
+  duo: "多",
+  er: "洱",
+  fen: "分",
+  feng: "凤鳳",
+  fu: "馥",
+  gai: "盖蓋",
+  guan: "观觀",
+  gui: "桂",
+  guo: "果",
+  hei: "黑",
+  hong: "红紅",
+  hua: "花",
+  huang: "凰",
+  ji: "季姬",
+  jia: "加",
+  jie: "节節",
+  jin: "金",
+  jue: "绝絕",
+  lan: "兰蘭",
+  lao: "酪",
+  leng: "冷",
+  li: "莉里",
+  liao: "料",
+  long: "龙龍",
+  lv: "绿綠",
+  mang: "芒",
+  mei: "莓",
+  meng: "檬",
+  mo: "茉抹",
+  mu: "木",
+  na: "拿",
+  nai: "奶",
+  ning: "柠檸",
+  nong: "浓濃",
+  nuo: "糯",
+  ping: "瓶",
+  pu: "普葡",
+  qing: "青清轻輕",
+  qu: "去",
+  quan: "全",
+  re: "热熱",
+  ri: "日",
+  ru: "乳",
+  shan: "山",
+  shao: "少",
+  shi: "时時士",
+  tang: "糖",
+  tao: "桃萄",
+  tian: "田甜",
+  tie: "铁鐵",
+  wan: "万萬",
+  wang: "王",
+  wen: "温溫",
+  wu: "乌烏雾霧无無",
+  xian: "弦鲜鮮限",
+  xiang: "香",
+  xiao: "小",
+  xin: "新",
+  xing: "醒",
+  xue: "雪",
+  xun: "寻尋",
+  ya: "芽牙",
+  yan: "岩",
+  ye: "叶葉野椰",
+  yin: "音",
+  yu: "芋",
+  yuan: "原",
+  zhen: "珍",
+  zheng: "正",
+  zhi: "栀梔芝",
+  zhong: "中",
+  zhu: "珠",
+  zhun: "准準",
+  zi: "子"
+};
+
+const PINYIN_BY_CHAR = new Map(
+  Object.entries(PINYIN_SYLLABLES).flatMap(([syllable, chars]) =>
+    [...chars].map((char) => [char, syllable] as const)
+  )
+);
+
+const FIELD_WEIGHTS: Record<MenuSearchField, number> = { name: 1, variant: 0.6, category: 0.5 };
+
+// Lowercase, fold width and accents (ü -> v, as typed in pinyin) and spell known Han
+// characters as pinyin syllables; unknown Han characters stay as one-character words.
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/u\u0308/g, "v")
+    .replace(/\p{M}/gu, "")
+    .replace(/\p{Script=Han}/gu, (char) => ` ${PINYIN_BY_CHAR.get(char) ?? char} `)
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+// Words in any order must each match the name, category or variant text: exactly, as a
+// prefix, inside the run-together text, as initials, or within a small edit distance.
+export function searchMenu(
+  categories: MenuCategory[],
+  query: string,
+  options: MenuSearchOptions = {}
+): MenuSearchHit[] {
+  const normalizedQuery = normalizeSearchText(query);
+  const words = normalizedQuery.split(" ").filter((word) => word.length > 0);
+  if (words.length === 0) {
+    return [];
+  }
+  const compactQuery = words.join("");
+  const seen = new Set<string>();
+  const hits: MenuSearchHit[] = [];
+
+  for (const category of categories) {
+    const categoryField = buildField(category.name);
+    for (const item of category.items) {
+      if (seen.has(item.spuId)) {
+        continue;
+      }
+      const nameField = buildField(item.name);
+      const fields: Array<[MenuSearchField, SearchField]> = [
+        ["name", nameField],
+        ["category", categoryField],
+        ["variant", buildField((options.variants?.get(item.spuId) ?? []).join(" "))]
+      ];
+
+      let score = 0;
+      let field: MenuSearchField = "name";
+      let typo = false;
+      let matchedAll = true;
+      for (const word of words) {
+        let best: { score: number; field: MenuSearchField; typo: boolean } | undefined;
+        for (const [fieldName, candidate] of fields) {
+          const match = scoreWord(word, candidate);
+          const weighted = match.score * FIELD_WEIGHTS[fieldName];
+          if (weighted > 0 && (!best || weighted > best.score)) {
+            best = { score: weighted, field: fieldName, typo: match.typo };
+          }
+        }
+        if (!best) {
+          matchedAll = false;
+          break;
+        }
+        score += best.score;
+        typo = typo || best.typo;
+        if (FIELD_WEIGHTS[best.field] < FIELD_WEIGHTS[field]) {
+          field = best.field;
+        }
+      }
+      if (!matchedAll) {
+        continue;
+      }
+
+      const normalizedName = nameField.tokens.join(" ");
+      if (normalizedName === normalizedQuery) {
+        score += 6;
+      } else if (normalizedName.startsWith(normalizedQuery)) {
+        score += 3;
+      } else if (nameField.compact.includes(compactQuery)) {
+        score += 1;
+      }
+      // Of two names matching every word, the one with fewer other words is the closer match.
+      if (field === "name" && nameField.tokens.length > 0) {
+        score += Math.min(1, words.length / nameField.tokens.length);
+      }
+      seen.add(item.spuId);
+      hits.push({ item, category: category.name, score, field, typo });
+    }
+  }
+
+  return hits.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.item.name.length - b.item.name.length ||
+      a.item.name.localeCompare(b.item.name)
+  );
+}
+
+// Optimal string alignment distance: insertions, deletions, substitutions and adjacent swaps.
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i < rows; i += 1) {
+    for (let j = 1; j < cols; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      const row = d[i] as number[];
+      const prev = d[i - 1] as number[];
+      let value = Math.min((prev[j] ?? 0) + 1, (row[j - 1] ?? 0) + 1, (prev[j - 1] ?? 0) + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, ((d[i - 2] as number[])[j - 2] ?? 0) + 1);
+      }
+      row[j] = value;
+    }
+  }
+  return (d[a.length] as number[])[b.length] ?? 0;
+}
+
+function buildField(text: string): SearchField {
+  const tokens = normalizeSearchText(text)
+    .split(" ")
+    .filter((token) => token.length > 0);
+  return {
+    tokens,
+    compact: tokens.join(""),
+    initials: tokens.map((token) => token[0] ?? "").join("")
+  };
+}
+
+function scoreWord(word: string, field: SearchField): { score: number; typo: boolean } {
+  if (field.tokens.length === 0) {
+    return { score: 0, typo: false };
+  }
+  if (field.tokens.includes(word)) {
+    return { score: 3, typo: false };
+  }
+  if (word.length >= 2 && field.initials.length >= 2 && field.initials === word) {
+    return { score: 2.5, typo: false };
+  }
+  if (word.length >= 2 && field.tokens.some((token) => token.startsWith(word))) {
+    return { score: 2, typo: false };
+  }
+  if (word.length >= 3 && field.compact.includes(word)) {
+    return { score: 1.5, typo: false };
+  }
+  const allowed = word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+  if (
+    allowed > 0 &&
+    field.tokens.some(
+      (token) =>
+        editDistance(word, token) <= allowed ||
+        (token.length > word.length && editDistance(word, token.slice(0, word.length)) <= allowed)
+    )
+  ) {
+    return { score: 1, typo: true };
+  }
+  return { score: 0, typo: false };
+}
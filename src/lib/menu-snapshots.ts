@@ -0,0 +1,277 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+import type { MenuCategory } from "../types.js";
+
+export interface MenuSnapshotItem {
+  spuId: string;
+  name: string;
+  category: string;
+  price?: number | undefined;
+  soldOut: boolean;
+}
+
+export interface MenuSnapshot {
+  storeNo: string;
+  // Region and fulfillment the menu was fetched for; pickup and delivery menus differ.
+  variant: string;
+  at: string;
+  items: MenuSnapshotItem[];
+}
+
+export type MenuChangeKind = "added" | "removed" | "price" | "sold-out" | "back-in-stock";
+
+export interface MenuChange {
+  kind: MenuChangeKind;
+  spuId: string;
+  name: string;
+  category: string;
+  priceBefore?: number | undefined;
+  priceAfter?: number | undefined;
+}
+
+export interface MenuDiff {
+  storeNo: string;
+  from: string;
+  to: string;
+  changes: MenuChange[];
+}
+
+export interface StoreMenuHistory {
+  current: MenuSnapshot;
+  lastDiff?: MenuDiff | undefined;
+}
+
+const MENU_SNAPSHOT_DIR_ENV_VAR = "CHAGEE_CLI_HOME";
+const MENU_SNAPSHOT_SCHEMA_VERSION = 2;
+const MENU_SNAPSHOT_MAX_STORES = 50;
+
+export function menuSnapshotFilePath(): string {
+  return resolveMenuSnapshotFile();
+}
+
+export function menuSnapshotKey(storeNo: string, variant: string): string {
+  return `${storeNo}@${variant}`;
+}
+
+// Categories must include sold-out items (flagged `soldOut`) so stock flips show up.
+export function buildMenuSnapshot(
+  storeNo: string,
+  variant: string,
+  categories: MenuCategory[],
+  at: Date
+): MenuSnapshot {
+  const items = new Map<string, MenuSnapshotItem>();
+  for (const category of categories) {
+    for (const item of category.items) {
+      if (items.has(item.spuId)) {
+        continue;
+      }
+      items.set(item.spuId, {
+        spuId: item.spuId,
+        name: item.name,
+        category: category.name,
+        price: item.price,
+        soldOut: item.soldOut === true
+      });
+    }
+  }
+  return { storeNo, variant, at: at.toISOString(), items: [...items.values()] };
+}
+
+export function diffMenuSnapshots(previous: MenuSnapshot, next: MenuSnapshot): MenuDiff {
+  const before = new Map(previous.items.map((item) => [item.spuId, item]));
+  const after = new Map(next.items.map((item) => [item.spuId, item]));
+  const changes: MenuChange[] = [];
+
+  for (const item of next.items) {
+    const old = before.get(item.spuId);
+    const base = { spuId: item.spuId, name: item.name, category: item.category };
+    if (!old) {
+      changes.push({ kind: "added", ...base, priceAfter: item.price });
+      continue;
+    }
+    if (old.soldOut !== item.soldOut) {
+      changes.push({ kind: item.soldOut ? "sold-out" : "back-in-stock", ...base });
+    }
+    if (old.price !== undefined && item.price !== undefined && old.price !== item.price) {
+      changes.push({ kind: "price", ...base, priceBefore: old.price, priceAfter: item.price });
+    }
+  }
+  for (const item of previous.items) {
+    if (!after.has(item.spuId)) {
+      changes.push({
+        kind: "removed",
+        spuId: item.spuId,
+        name: item.name,
+        category: item.category,
+        priceBefore: item.price
+      });
+    }
+  }
+
+  return { storeNo: next.storeNo, from: previous.at, to: next.at, changes };
+}
+
+export async function loadMenuHistory(): Promise<Record<string, StoreMenuHistory>> {
+  try {
+    const raw = await readFile(resolveMenuSnapshotFile(), "utf8");
+    return normalizeMenuHistoryPayload(JSON.parse(raw) as unknown);
+  } catch {
+    return {};
+  }
+}
+
+export async function loadStoreMenuHistory(
+  storeNo: string,
+  variant: string
+): Promise<StoreMenuHistory | undefined> {
+  return (await loadMenuHistory())[menuSnapshotKey(storeNo, variant)];
+}
+
+// Replace the store's snapshot for this variant and return the diff against the previous one.
+// The first snapshot of a store and variant has nothing to compare against and returns undefined.
+export async function recordMenuSnapshot(snapshot: MenuSnapshot): Promise<MenuDiff | undefined> {
+  const stores = await loadMenuHistory();
+  const key = menuSnapshotKey(snapshot.storeNo, snapshot.variant);
+  const existing = stores[key];
+  const diff = existing ? diffMenuSnapshots(existing.current, snapshot) : undefined;
+  const changed = diff !== undefined && diff.changes.length > 0;
+  stores[key] = {
+    current: snapshot,
+    lastDiff: changed ? diff : existing?.lastDiff
+  };
+  await saveMenuHistory(stores);
+  return changed ? diff : undefined;
+}
+
+async function saveMenuHistory(stores: Record<string, StoreMenuHistory>): Promise<void> {
+  const file = resolveMenuSnapshotFile();
+  await mkdir(dirname(file), { recursive: true });
+  const kept = Object.entries(stores)
+    .sort(([, a], [, b]) => b.current.at.localeCompare(a.current.at))
+    .slice(0, MENU_SNAPSHOT_MAX_STORES);
+  const payload = {
+    schemaVersion: MENU_SNAPSHOT_SCHEMA_VERSION,
+    stores: Object.fromEntries(kept)
+  };
+  const tempFile = `${file}.tmp-${process.pid}-${Date.now()}`;
+  await writeFile(tempFile, JSON.stringify(payload, null, 2), {
+    encoding: "utf8",
+    mode: 0o600
+  });
+  await rename(tempFile, file);
+}
+
+function normalizeMenuHistoryPayload(parsed: unknown): Record<string, StoreMenuHistory> {
+  const root = asRecord(parsed);
+  const rawStores = asRecord(root?.stores);
+  if (!rawStores) {
+    return {};
+  }
+  const out: Record<string, StoreMenuHistory> = {};
+  // Version 1 entries were keyed by storeNo alone and have no variant; they are dropped.
+  for (const [key, rawEntry] of Object.entries(rawStores)) {
+    const entry = asRecord(rawEntry);
+    const current = normalizeSnapshot(entry?.current);
+    if (!current || menuSnapshotKey(current.storeNo, current.variant) !== key) {
+      continue;
+    }
+    out[key] = { current, lastDiff: normalizeDiff(entry?.lastDiff) };
+  }
+  return out;
+}
+
+function normalizeSnapshot(raw: unknown): MenuSnapshot | undefined {
+  const obj = asRecord(raw);
+  if (
+    !obj ||
+    typeof obj.storeNo !== "string" ||
+    typeof obj.variant !== "string" ||
+    typeof obj.at !== "string"
+  ) {
+    return undefined;
+  }
+  const items = Array.isArray(obj.items)
+    ? obj.items.flatMap((rawItem): MenuSnapshotItem[] => {
+        const item = asRecord(rawItem);
+        if (!item || typeof item.spuId !== "string" || typeof item.name !== "string") {
+          return [];
+        }
+        return [
+          {
+            spuId: item.spuId,
+            name: item.name,
+            category: typeof item.category === "string" ? item.category : "",
+            price: finiteNumber(item.price),
+            soldOut: item.soldOut === true
+          }
+        ];
+      })
+    : [];
+  return { storeNo: obj.storeNo, variant: obj.variant, at: obj.at, items };
+}
+
+function normalizeDiff(raw: unknown): MenuDiff | undefined {
+  const obj = asRecord(raw);
+  if (
+    !obj ||
+    typeof obj.storeNo !== "string" ||
+    typeof obj.from !== "string" ||
+    typeof obj.to !== "string" ||
+    !Array.isArray(obj.changes)
+  ) {
+    return undefined;
+  }
+  const changes = obj.changes.flatMap((rawChange): MenuChange[] => {
+    const change = asRecord(rawChange);
+    if (
+      !change ||
+      !isMenuChangeKind(change.kind) ||
+      typeof change.spuId !== "string" ||
+      typeof change.name !== "string"
+    ) {
+      return [];
+    }
+    return [
+      {
+        kind: change.kind,
+        spuId: change.spuId,
+        name: change.name,
+        category: typeof change.category === "string" ? change.category : "",
+        priceBefore: finiteNumber(change.priceBefore),
+        priceAfter: finiteNumber(change.priceAfter)
+      }
+    ];
+  });
+  return { storeNo: obj.storeNo, from: obj.from, to: obj.to, changes };
+}
+
+function isMenuChangeKind(value: unknown): value is MenuChangeKind {
+  return (
+    value === "added" ||
+    value === "removed" ||
+    value === "price" ||
+    value === "sold-out" ||
+    value === "back-in-stock"
+  );
+}
+
+function finiteNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function resolveMenuSnapshotFile(): string {
+  const configuredDir = process.env[MENU_SNAPSHOT_DIR_ENV_VAR]?.trim();
+  if (configuredDir) {
+    return join(configuredDir, "menu-snapshots.json");
+  }
+  return join(homedir(), ".chagee-cli", "menu-snapshots.json");
+}
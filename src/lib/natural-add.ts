@@ -0,0 +1,147 @@
+import type { ItemSkuOption, MenuCategory, MenuItem } from "../types.js";
+import { editDistance, normalizeSearchText, searchMenu } from "./menu-search.js";
+
+export type PhraseVariantMatch =
+  | { kind: "ok"; option: ItemSkuOption; labels: string[] }
+  // A word that only partly names an option, e.g. "less" for "Less Sugar" or "Less Ice".
+  | { kind: "ambiguous"; word: string; labels: string[] }
+  | { kind: "unknown"; words: string[]; labels: string[] }
+  // Every phrase named an option, but no sellable variant has them all.
+  | { kind: "none"; labels: string[] };
+
+const QTY_MAX = 99;
+// Items scoring within this of the best match are too close to pick between.
+const ITEM_AMBIGUITY_MARGIN = 0.5;
+const FILLER_WORDS = new Set(["a", "an", "the", "with", "and", "please", "cup", "cups", "of"]);
+
+// Pull a quantity out of the phrase: "x2", "2x", "×2" anywhere, or a leading "2".
+export function parseAddPhrase(text: string): { text: string; qty?: number | undefined } {
+  const words = text
+    .trim()
+    .split(/\s+/)
+    .filter((word) => word.length > 0);
+  let qty: number | undefined;
+  const rest = words.filter((word, index) => {
+    const match =
+      /^[x×](\d{1,2})$/i.exec(word) ??
+      /^(\d{1,2})[x×]$/i.exec(word) ??
+      (index === 0 && words.length > 1 ? /^(\d{1,2})$/.exec(word) : null);
+    const value = match ? Number(match[1]) : Number.NaN;
+    if (qty === undefined && value >= 1 && value <= QTY_MAX) {
+      qty = value;
+      return false;
+    }
+    return true;
+  });
+  return { text: rest.join(" "), qty };
+}
+
+// The longest run of words that names a menu item; the words around it describe the variant.
+export function resolvePhraseItem(
+  categories: MenuCategory[],
+  phrase: string
+): { item?: MenuItem | undefined; candidates: MenuItem[]; variantWords: string[] } {
+  const words = normalizeSearchText(phrase)
+    .split(" ")
+    .filter((word) => word.length > 0);
+  for (let length = words.length; length >= 1; length -= 1) {
+    let best: { start: number; hits: ReturnType<typeof searchMenu> } | undefined;
+    for (let start = 0; start + length <= words.length; start += 1) {
+      const hits = searchMenu(categories, words.slice(start, start + length).join(" ")).filter(
+        (hit) => hit.field === "name"
+      );
+      const top = hits[0];
+      if (top && (!best || top.score > (best.hits[0]?.score ?? 0))) {
+        best = { start, hits };
+      }
+    }
+    if (!best) {
+      continue;
+    }
+    const variantWords = [...words.slice(0, best.start), ...words.slice(best.start + length)];
+    const topScore = best.hits[0]?.score ?? 0;
+    const tied = best.hits
+      .filter((hit) => topScore - hit.score < ITEM_AMBIGUITY_MARGIN)
+      .map((hit) => hit.item);
+    if (tied.length > 1) {
+      return { candidates: tied, variantWords };
+    }
+    return { item: tied[0], candidates: tied, variantWords };
+  }
+  return { candidates: [], variantWords: words };
+}
+
+export function matchPhraseVariant(options: ItemSkuOption[], words: string[]): PhraseVariantMatch {
+  const display = new Map<string, string>();
+  const optionLabels = options.map((option) => {
+    const labels = new Set<string>();
+    for (const label of splitVariantLabels(option)) {
+      const key = normalizeSearchText(label);
+      if (key.length > 0) {
+        labels.add(key);
+        display.set(key, label);
+      }
+    }
+    return labels;
+  });
+  const allLabels = [...display.keys()].sort(
+    (a, b) => b.split(" ").length - a.split(" ").length || b.length - a.length
+  );
+  const displayAll = (): string[] => [...display.values()];
+
+  const remaining = words
+    .map((word) => normalizeSearchText(word))
+    .filter((word) => word.length > 0);
+  const used = remaining.map(() => false);
+  const selected: string[] = [];
+  for (const label of allLabels) {
+    const labelWords = label.split(" ");
+    for (let start = 0; start + labelWords.length <= remaining.length; start += 1) {
+      const window = remaining.slice(start, start + labelWords.length);
+      const free = used.slice(start, start + labelWords.length).every((flag) => !flag);
+      if (free && window.every((word, index) => sameWord(word, labelWords[index] ?? ""))) {
+        used.fill(true, start, start + labelWords.length);
+        selected.push(label);
+        break;
+      }
+    }
+  }
+
+  const leftover = remaining.filter((word, index) => !used[index] && !FILLER_WORDS.has(word));
+  for (const word of leftover) {
+    const partial = allLabels.filter((label) =>
+      label.split(" ").some((labelWord) => sameWord(word, labelWord))
+    );
+    if (partial.length > 0) {
+      return {
+        kind: "ambiguous",
+        word,
+        labels: partial.map((label) => display.get(label) ?? label)
+      };
+    }
+  }
+  if (leftover.length > 0) {
+    return { kind: "unknown", words: leftover, labels: displayAll() };
+  }
+
+  // Options list default choices first, so unmentioned dimensions keep their defaults.
+  const index = optionLabels.findIndex((labels) => selected.every((label) => labels.has(label)));
+  const option = options[index];
+  const labels = selected.map((label) => display.get(label) ?? label);
+  return option ? { kind: "ok", option, labels } : { kind: "none", labels };
+}
+
+// "Large + Oat | Ice: No Ice" -> ["Large", "Oat", "No Ice"]
+function splitVariantLabels(option: ItemSkuOption): string[] {
+  return (option.specText ?? "")
+    .split(/\s*[|+]\s*/)
+    .map((part) => {
+      const colon = part.indexOf(":");
+      return (colon >= 0 ? part.slice(colon + 1) : part).trim();
+    })
+    .filter((part) => part.length > 0);
+}
+
+function sameWord(word: string, labelWord: string): boolean {
+  return word === labelWord || (word.length >= 4 && editDistance(word, labelWord) <= 1);
+}
@@ -21,6 +21,8 @@ export interface OrderHistoryEntry {
   storeNo?: string | undefined;
   storeName?: string | undefined;
   total?: string | undefined;
+  discount?: string | undefined;
+  vouchers?: string[] | undefined;
   items: OrderHistoryLine[];
 }
 
@@ -121,6 +123,10 @@ function normalizeHistoryEntry(value: unknown): OrderHistoryEntry | undefined {
     storeNo: asString(obj.storeNo),
     storeName: asString(obj.storeName),
     total: asString(obj.total),
+    discount: asString(obj.discount),
+    vouchers: Array.isArray(obj.vouchers)
+      ? obj.vouchers.filter((value): value is string => typeof value === "string")
+      : undefined,
     items
   };
 }
@@ -157,7 +163,7 @@ function resolveOrderHistoryFile(): string {
   return join(homedir(), ".chagee-cli", "order-history.json");
 }
 
-function parseSpecSelectionList(
+export function parseSpecSelectionList(
   raw: unknown
 ): Array<{ specId: string; specOptionId: string }> | undefined {
   if (!Array.isArray(raw)) {
@@ -179,7 +185,7 @@ function parseSpecSelectionList(
   return out.length > 0 ? out : undefined;
 }
 
-function parseAttributeSelectionList(
+export function parseAttributeSelectionList(
   raw: unknown
 ): Array<{ attributeOptionId: string }> | undefined {
   if (!Array.isArray(raw)) {
@@ -0,0 +1,307 @@
+import { readFile } from "node:fs/promises";
+
+import type { ItemSkuOption, MenuCategory, MenuItem, SessionMode, StoreState } from "../types.js";
+import { isStoreClosed } from "./store-display.js";
+
+export type OrderSpecStoreSelector =
+  | { kind: "storeNo"; storeNo: string }
+  | { kind: "nearest" }
+  | { kind: "shortest-wait" };
+
+export interface OrderSpecItem {
+  spuId?: string | undefined;
+  name?: string | undefined;
+  skuId?: string | undefined;
+  variant: string[];
+  qty: number;
+}
+
+export interface OrderSpec {
+  region?: string | undefined;
+  mode: SessionMode;
+  store: OrderSpecStoreSelector;
+  items: OrderSpecItem[];
+  pay: {
+    await: boolean;
+    timeoutSec?: number | undefined;
+    open: boolean;
+  };
+}
+
+// Exit codes for `chagee order --spec`; documented in README.
+export const ORDER_SPEC_EXIT_CODES = {
+  ok: 0,
+  failure: 1,
+  invalidSpec: 2,
+  auth: 3,
+  store: 4,
+  item: 5,
+  quote: 6,
+  place: 7,
+  payment: 8,
+  cart: 9
+} as const;
+
+export type OrderSpecExitCode = (typeof ORDER_SPEC_EXIT_CODES)[keyof typeof ORDER_SPEC_EXIT_CODES];
+
+const ORDER_SPEC_MAX_QTY = 20;
+
+export async function loadOrderSpec(
+  file: string
+): Promise<{ spec?: OrderSpec | undefined; errors: string[] }> {
+  let raw: string;
+  try {
+    raw = await readFile(file, "utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { errors: [`cannot read spec file: ${message}`] };
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { errors: [`spec file is not valid JSON: ${message}`] };
+  }
+  return parseOrderSpec(parsed);
+}
+
+export function parseOrderSpec(input: unknown): { spec?: OrderSpec | undefined; errors: string[] } {
+  const errors: string[] = [];
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { errors: ["spec must be a JSON object"] };
+  }
+  const obj = input as Record<string, unknown>;
+
+  const store = parseStoreSelector(obj.store ?? obj.storeNo, errors);
+
+  const mode = asString(obj.mode) ?? "dry-run";
+  if (mode !== "dry-run" && mode !== "live") {
+    errors.push(`mode must be "dry-run" or "live" (got "${mode}")`);
+  }
+
+  const items: OrderSpecItem[] = [];
+  if (!Array.isArray(obj.items) || obj.items.length === 0) {
+    errors.push("items must be a non-empty array");
+  } else {
+    obj.items.forEach((rawItem, index) => {
+      const item = parseSpecItem(rawItem, index, errors);
+      if (item) {
+        items.push(item);
+      }
+    });
+  }
+
+  const rawPay =
+    obj.pay && typeof obj.pay === "object" ? (obj.pay as Record<string, unknown>) : {};
+  const payTimeout = asNumber(rawPay.timeout);
+  const pay = {
+    await: asBool(rawPay.await) ?? true,
+    timeoutSec: payTimeout !== undefined && payTimeout > 0 ? Math.floor(payTimeout) : undefined,
+    open: asBool(rawPay.open) ?? false
+  };
+
+  if (errors.length > 0 || !store) {
+    return { errors };
+  }
+  return {
+    spec: {
+      region: asString(obj.region),
+      mode: mode as SessionMode,
+      store,
+      items,
+      pay
+    },
+    errors
+  };
+}
+
+export function pickSpecStore(
+  stores: StoreState[],
+  selector: OrderSpecStoreSelector
+): StoreState | undefined {
+  if (selector.kind === "storeNo") {
+    return stores.find((store) => store.storeNo === selector.storeNo);
+  }
+  const open = stores.filter((store) => !isStoreClosed(store));
+  const ranked = [...open].sort((a, b) => {
+    if (selector.kind === "shortest-wait") {
+      const wa = a.waitingTime ?? Number.POSITIVE_INFINITY;
+      const wb = b.waitingTime ?? Number.POSITIVE_INFINITY;
+      if (wa !== wb) {
+        return wa - wb;
+      }
+      const ca = a.waitingCups ?? Number.POSITIVE_INFINITY;
+      const cb = b.waitingCups ?? Number.POSITIVE_INFINITY;
+      if (ca !== cb) {
+        return ca - cb;
+      }
+    }
+    return (a.distanceMeters ?? Number.POSITIVE_INFINITY) - (b.distanceMeters ?? Number.POSITIVE_INFINITY);
+  });
+  return ranked[0];
+}
+
+export function findSpecMenuItem(
+  categories: MenuCategory[],
+  item: Pick<OrderSpecItem, "spuId" | "name">
+): { item?: MenuItem | undefined; candidates: MenuItem[] } {
+  const all = categories.flatMap((category) => category.items);
+  if (item.spuId) {
+    const match = all.find((candidate) => candidate.spuId === item.spuId);
+    return match ? { item: match, candidates: [match] } : { candidates: [] };
+  }
+  const wanted = normalizeText(item.name ?? "");
+  if (!wanted) {
+    return { candidates: [] };
+  }
+  const exact = uniqueBySpu(all.filter((candidate) => normalizeText(candidate.name) === wanted));
+  if (exact.length === 1) {
+    return { item: exact[0], candidates: exact };
+  }
+  const partial = uniqueBySpu(
+    all.filter((candidate) => normalizeText(candidate.name).includes(wanted))
+  );
+  if (partial.length === 1) {
+    return { item: partial[0], candidates: partial };
+  }
+  return { candidates: exact.length > 0 ? exact : partial };
+}
+
+export function matchSpecVariant(
+  options: ItemSkuOption[],
+  item: Pick<OrderSpecItem, "skuId" | "variant">
+): ItemSkuOption[] {
+  const wanted = item.variant.map(normalizeText).filter((value) => value.length > 0);
+  return options.filter((option) => {
+    if (item.skuId && option.skuId !== item.skuId) {
+      return false;
+    }
+    const labels = variantLabels(option);
+    return wanted.every((token) => labels.has(token));
+  });
+}
+
+function variantLabels(option: ItemSkuOption): Set<string> {
+  const labels = new Set<string>();
+  const text = option.specText ?? "";
+  for (const part of text.split(/\s*[|+]\s*/)) {
+    const normalized = normalizeText(part);
+    if (!normalized) {
+      continue;
+    }
+    labels.add(normalized);
+    const colon = part.indexOf(":");
+    if (colon >= 0) {
+      labels.add(normalizeText(part.slice(colon + 1)));
+    }
+  }
+  return labels;
+}
+
+function parseStoreSelector(
+  value: unknown,
+  errors: string[]
+): OrderSpecStoreSelector | undefined {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const storeNo = asString((value as Record<string, unknown>).storeNo);
+    if (storeNo) {
+      return { kind: "storeNo", storeNo };
+    }
+    errors.push("store object must contain storeNo");
+    return undefined;
+  }
+  const text = asString(value);
+  if (!text) {
+    errors.push('store is required ("nearest", "shortest-wait", or a storeNo)');
+    return undefined;
+  }
+  const normalized = text.trim().toLowerCase();
+  if (normalized === "nearest") {
+    return { kind: "nearest" };
+  }
+  if (normalized === "shortest-wait") {
+    return { kind: "shortest-wait" };
+  }
+  return { kind: "storeNo", storeNo: text.trim() };
+}
+
+function parseSpecItem(value: unknown, index: number, errors: string[]): OrderSpecItem | undefined {
+  const label = `items[${index}]`;
+  if (typeof value === "string") {
+    return { name: value, variant: [], qty: 1 };
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    errors.push(`${label} must be an object or item name`);
+    return undefined;
+  }
+  const obj = value as Record<string, unknown>;
+  const spuId = asString(obj.spuId);
+  const name = asString(obj.name);
+  if (!spuId && !name) {
+    errors.push(`${label} needs spuId or name`);
+    return undefined;
+  }
+  const rawVariant = obj.variant ?? obj.options;
+  const variant = Array.isArray(rawVariant)
+    ? rawVariant.map((entry) => asString(entry)).filter((entry): entry is string => Boolean(entry))
+    : (asString(rawVariant) ?? "")
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0);
+  const qty = asNumber(obj.qty) ?? 1;
+  if (!Number.isInteger(qty) || qty < 1 || qty > ORDER_SPEC_MAX_QTY) {
+    errors.push(`${label}.qty must be an integer between 1 and ${ORDER_SPEC_MAX_QTY}`);
+    return undefined;
+  }
+  return { spuId, name, skuId: asString(obj.skuId), variant, qty };
+}
+
+function uniqueBySpu(items: MenuItem[]): MenuItem[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    if (seen.has(item.spuId)) {
+      return false;
+    }
+    seen.add(item.spuId);
+    return true;
+  });
+}
+
+function normalizeText(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === "string" && value.trim().length > 0) {
+    return value;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  return undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim().length > 0) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function asBool(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  if (value === "1" || value === "true" || value === 1) {
+    return true;
+  }
+  if (value === "0" || value === "false" || value === 0) {
+    return false;
+  }
+  return undefined;
+}
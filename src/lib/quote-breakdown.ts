@@ -0,0 +1,204 @@
+import type { QuoteAdjustment, QuoteBreakdown, QuoteLineBreakdown } from "../types.js";
+
+const LINE_LIST_KEYS = ["goodsList", "skuList", "goodsInfoList", "itemList"];
+const DISCOUNT_LIST_KEYS = [
+  "discountList",
+  "promotionList",
+  "promotionInfoList",
+  "discountInfoList",
+  "couponList"
+];
+const DISCOUNT_TOTAL_KEYS = [
+  "discountAmount",
+  "totalDiscountAmount",
+  "promotionAmount",
+  "couponAmount"
+];
+const FEE_LIST_KEYS = ["feeInfoList", "feeList"];
+const FEE_KEYS: Array<[key: string, label: string]> = [
+  ["packingFee", "Packaging fee"],
+  ["packageFee", "Packaging fee"],
+  ["packagingFee", "Packaging fee"],
+  ["serviceFee", "Service fee"],
+  ["deliveryFee", "Delivery fee"]
+];
+const SURCHARGE_KEYS = ["optionsPrice", "attributePrice", "extraPrice", "addPrice"];
+
+// Parse `priceQuoteRespVO` into a typed breakdown. Field names differ between
+// regions and API versions, so each value is probed from a short list of keys.
+export function parseQuoteBreakdown(
+  priceQuoteRespVO: unknown,
+  fallbackTotal?: string
+): QuoteBreakdown {
+  const vo = asRecord(priceQuoteRespVO) ?? {};
+
+  const lines: QuoteLineBreakdown[] = [];
+  for (const raw of firstArray(vo, LINE_LIST_KEYS)) {
+    const line = parseQuoteLine(raw);
+    if (line) {
+      lines.push(line);
+    }
+  }
+
+  const discounts = parseAdjustments(firstArray(vo, DISCOUNT_LIST_KEYS), "Discount", [
+    "discountAmount",
+    "promotionAmount",
+    "reduceAmount",
+    "amount"
+  ]);
+  // Listed discounts are authoritative; a total field (often a placeholder "0.00") is only
+  // used when there is no list.
+  const discountTotal =
+    discounts.length > 0
+      ? sumAmounts(discounts)
+      : Math.abs(firstAmount(vo, DISCOUNT_TOTAL_KEYS) ?? 0);
+  if (discounts.length === 0 && discountTotal > 0) {
+    discounts.push({ label: "Discount", amount: discountTotal });
+  }
+
+  let fees = parseAdjustments(firstArray(vo, FEE_LIST_KEYS), "Fee", ["feeAmount", "amount"]);
+  if (fees.length === 0) {
+    fees = FEE_KEYS.flatMap(([key, label]) => {
+      const amount = toAmount(vo[key]);
+      return amount !== undefined && amount !== 0 ? [{ label, amount: Math.abs(amount) }] : [];
+    });
+  }
+
+  const lineTotal = roundCents(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  const subtotal =
+    lines.length > 0
+      ? lineTotal
+      : (firstAmount(vo, ["originalAmount", "goodsAmount", "totalAmount"]) ?? 0);
+
+  return {
+    lines,
+    subtotal,
+    discounts,
+    discountTotal: roundCents(discountTotal),
+    fees,
+    feeTotal: sumAmounts(fees),
+    payable: firstAmount(vo, ["payAmount", "amount", "totalAmount"]) ?? toAmount(fallbackTotal)
+  };
+}
+
+// Difference between the quoted payable and what subtotal, discounts and fees explain.
+export function quoteUnexplainedAmount(breakdown: QuoteBreakdown): number | undefined {
+  if (breakdown.payable === undefined) {
+    return undefined;
+  }
+  return roundCents(
+    breakdown.payable - (breakdown.subtotal - breakdown.discountTotal + breakdown.feeTotal)
+  );
+}
+
+function parseQuoteLine(raw: unknown): QuoteLineBreakdown | undefined {
+  const line = asRecord(raw);
+  if (!line) {
+    return undefined;
+  }
+  const skuId = asId(line.skuId);
+  if (!skuId) {
+    return undefined;
+  }
+  const qty = Math.max(1, Math.floor(firstAmount(line, ["num", "qty", "count"]) ?? 1));
+  const unitPrice = firstAmount(line, ["unitPrice", "salePrice", "price"]);
+  const total =
+    firstAmount(line, ["totalPrice", "totalAmount", "payPrice"]) ??
+    (unitPrice !== undefined ? unitPrice * qty : undefined);
+  if (total === undefined) {
+    return undefined;
+  }
+  const basePrice = firstAmount(line, ["basePrice", "skuPrice", "skuSalePrice"]);
+  const explicitSurcharge = firstAmount(line, SURCHARGE_KEYS);
+  const optionsSurcharge =
+    explicitSurcharge ??
+    (unitPrice !== undefined && basePrice !== undefined ? unitPrice - basePrice : 0);
+  return {
+    skuId,
+    spuId: asId(line.spuId),
+    name: typeof line.name === "string" ? line.name : undefined,
+    qty,
+    unitPrice,
+    basePrice,
+    optionsSurcharge: roundCents(Math.max(0, optionsSurcharge)),
+    lineTotal: roundCents(total)
+  };
+}
+
+function parseAdjustments(
+  rawList: unknown[],
+  fallbackLabel: string,
+  amountKeys: string[]
+): QuoteAdjustment[] {
+  const out: QuoteAdjustment[] = [];
+  for (const raw of rawList) {
+    const entry = asRecord(raw);
+    if (!entry) {
+      continue;
+    }
+    const amount = firstAmount(entry, amountKeys);
+    if (amount === undefined || amount === 0) {
+      continue;
+    }
+    const label = ["name", "title", "promotionName", "couponName", "discountName", "feeName"]
+      .map((key) => entry[key])
+      .find((value): value is string => typeof value === "string" && value.length > 0);
+    out.push({ label: label ?? fallbackLabel, amount: roundCents(Math.abs(amount)) });
+  }
+  return out;
+}
+
+function firstArray(obj: Record<string, unknown>, keys: string[]): unknown[] {
+  for (const key of keys) {
+    const value = obj[key];
+    if (Array.isArray(value) && value.length > 0) {
+      return value;
+    }
+  }
+  return [];
+}
+
+function firstAmount(obj: Record<string, unknown>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = toAmount(obj[key]);
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function toAmount(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim().length > 0) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function sumAmounts(list: QuoteAdjustment[]): number {
+  return roundCents(list.reduce((sum, entry) => sum + entry.amount, 0));
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function asId(value: unknown): string | undefined {
+  if (typeof value === "string" && value.length > 0) {
+    return value;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  return undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
@@ -77,6 +77,8 @@ function mapRegionInput(value: unknown): RegionProfileInput | undefined {
   assignNumber(profile, "saleChannel", obj.saleChannel);
   assignNumber(profile, "deliveryType", obj.deliveryType);
   assignNumber(profile, "businessType", obj.businessType);
+  assignNumber(profile, "homeDeliveryType", obj.homeDeliveryType);
+  assignNumber(profile, "homeDeliveryBusinessType", obj.homeDeliveryBusinessType);
   assignNumber(profile, "userType", obj.userType);
 
   assignBool(profile, "isTakeaway", obj.isTakeaway);
@@ -0,0 +1,103 @@
+import type { CartLine } from "../types.js";
+
+export type ScheduledJobStatus =
+  | "pending"
+  | "running"
+  | "placed"
+  | "dry-run"
+  | "skipped"
+  | "failed"
+  | "canceled";
+
+export interface ScheduledPlaceJob {
+  id: string;
+  at: string;
+  createdAt: string;
+  storeNo: string;
+  storeName?: string | undefined;
+  maxWaitMin?: number | undefined;
+  open: boolean;
+  cart: CartLine[];
+  status: ScheduledJobStatus;
+  detail?: string | undefined;
+  orderNo?: string | undefined;
+}
+
+export const SCHEDULE_MAX_AHEAD_MS = 24 * 60 * 60 * 1000;
+
+// Accepts `HH:MM` (next occurrence in local time), `+15m`/`+90s`/`+1h`, or an
+// ISO timestamp. Returns undefined for anything else.
+export function parseScheduleAt(value: string, now: Date = new Date()): Date | undefined {
+  const trimmed = value.trim();
+
+  const clock = /^(\d{1,2}):(\d{2})$/.exec(trimmed);
+  if (clock) {
+    const hours = Number(clock[1]);
+    const minutes = Number(clock[2]);
+    if (hours > 23 || minutes > 59) {
+      return undefined;
+    }
+    const target = new Date(now);
+    target.setHours(hours, minutes, 0, 0);
+    if (target.getTime() <= now.getTime()) {
+      target.setDate(target.getDate() + 1);
+    }
+    return target;
+  }
+
+  const relative = /^\+(\d+)(s|m|h)$/i.exec(trimmed);
+  if (relative) {
+    const amount = Number(relative[1]);
+    const unit = (relative[2] ?? "m").toLowerCase();
+    const factor = unit === "h" ? 3_600_000 : unit === "m" ? 60_000 : 1000;
+    return new Date(now.getTime() + amount * factor);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const parsed = Date.parse(trimmed);
+    return Number.isFinite(parsed) ? new Date(parsed) : undefined;
+  }
+  return undefined;
+}
+
+// An unknown wait never passes a threshold: an unattended order should not guess.
+export function checkWaitThreshold(
+  waitingTime: number | undefined,
+  maxWaitMin: number | undefined
+): { ok: boolean; reason?: string | undefined } {
+  if (maxWaitMin === undefined) {
+    return { ok: true };
+  }
+  if (waitingTime === undefined) {
+    return { ok: false, reason: "store wait time unavailable" };
+  }
+  if (waitingTime > maxWaitMin) {
+    return { ok: false, reason: `wait ${waitingTime}min is over maxWait=${maxWaitMin}min` };
+  }
+  return { ok: true };
+}
+
+export function formatTimeUntil(target: Date, now: Date = new Date()): string {
+  const totalSec = Math.max(0, Math.round((target.getTime() - now.getTime()) / 1000));
+  const hours = Math.floor(totalSec / 3600);
+  const minutes = Math.floor((totalSec % 3600) / 60);
+  const seconds = totalSec % 60;
+  if (hours > 0) {
+    return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${String(seconds).padStart(2, "0")}s`;
+  }
+  return `${seconds}s`;
+}
+
+export function formatScheduleClock(target: Date, now: Date = new Date()): string {
+  const hours = String(target.getHours()).padStart(2, "0");
+  const minutes = String(target.getMinutes()).padStart(2, "0");
+  const clock = `${hours}:${minutes}`;
+  return target.toDateString() === now.toDateString() ? clock : `${clock} (tomorrow)`;
+}
+
+export function isScheduledJobActive(job: ScheduledPlaceJob): boolean {
+  return job.status === "pending" || job.status === "running";
+}
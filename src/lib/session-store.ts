@@ -1,90 +1,482 @@
-import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
-import { homedir } from "node:os";
+import { unlinkSync } from "node:fs";
+import { copyFile, mkdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { homedir, hostname } from "node:os";
 import { dirname, join } from "node:path";
 
-import type { AppState } from "../types.js";
+import type { AppState, CartLine } from "../types.js";
+import { jwtExpiresAt } from "./auth-token.js";
 import { loadAuthToken, saveAuthToken } from "./token-store.js";
 
-const STORE_FILE = join(homedir(), ".chagee-cli", "session.json");
-const SESSION_SCHEMA_VERSION = 2;
+const SESSION_DIR_ENV_VAR = "CHAGEE_CLI_HOME";
+const SESSION_SCHEMA_VERSION = 3;
+const WRITE_LOCK_RETRY_MS = 25;
+const WRITE_LOCK_STALE_MS = 10_000;
+// Exit cleanups remembered in session.json; a process further behind than this merges them as
+// ordinary removals.
+const EXIT_CLEANUP_HISTORY = 32;
 
 interface SessionLoadResult {
   state?: Partial<AppState>;
   warnings: string[];
 }
 
+export interface SessionSaveResult {
+  revision: number;
+  // Cart/order state after merging another process's changes; absent when nothing was merged.
+  merged?: SessionMergeFields | undefined;
+  // False when the login token could not be written to any token backend.
+  tokenSaved: boolean;
+  warnings: string[];
+}
+
+export interface SessionSaveOptions {
+  // The save made on exit, which empties the cart; other processes do not merge it as an edit.
+  exitCleanup?: boolean | undefined;
+}
+
+export interface SessionLockHolder {
+  pid: number;
+  host: string;
+  startedAt: string;
+}
+
+// The parts of the session that concurrent runs merge instead of overwriting.
+export interface SessionMergeFields {
+  cart?: AppState["cart"] | undefined;
+  cartVersion?: AppState["cartVersion"] | undefined;
+  quote?: AppState["quote"];
+  appliedVouchers?: AppState["appliedVouchers"];
+  pendingCreatePayload?: AppState["pendingCreatePayload"];
+  order?: AppState["order"];
+  payment?: AppState["payment"];
+}
+
+// A save made on exit and the cart lines it removed.
+interface SessionExitCleanup {
+  revision: number;
+  lineIds: string[];
+}
+
+interface SessionFileSnapshot {
+  revision: number;
+  exitCleanups: SessionExitCleanup[];
+  writer?: SessionLockHolder | undefined;
+  state?: Partial<AppState> | undefined;
+}
+
 export function sessionFilePath(): string {
-  return STORE_FILE;
+  const configuredDir = process.env[SESSION_DIR_ENV_VAR]?.trim();
+  return join(configuredDir || join(homedir(), ".chagee-cli"), "session.json");
 }
 
-export async function loadSession(): Promise<SessionLoadResult> {
-  const warnings: string[] = [];
-  try {
-    const raw = await readFile(STORE_FILE, "utf8");
-    const parsed = JSON.parse(raw) as unknown;
-    const candidate = extractSessionCandidate(parsed, warnings);
-    if (!candidate) {
+export function sessionLockFilePath(): string {
+  return `${sessionFilePath()}.lock`;
+}
+
+// One process's handle on session.json: the revision it last read or wrote (the base for
+// three-way merges) and whether it holds the session lock.
+export class SessionStore {
+  private known: { revision: number; base: SessionMergeFields } | undefined;
+  private ownsHolderLock = false;
+
+  async load(): Promise<SessionLoadResult> {
+    const warnings: string[] = [];
+    const file = sessionFilePath();
+    let raw: string;
+    try {
+      raw = await readFile(file, "utf8");
+    } catch {
+      this.known = { revision: 0, base: {} };
       return { warnings };
     }
-    const state = sanitizeSessionState(candidate, warnings);
-    if (!state) {
+    try {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw) as unknown;
+      } catch {
+        // Keep the damaged file for inspection instead of silently overwriting it on the next save.
+        const backup = `${file}.corrupt-${Date.now()}`;
+        await copyFile(file, backup).catch(() => undefined);
+        warnings.push(`session file is not valid JSON; starting fresh (backup: ${backup})`);
+        this.known = { revision: 0, base: {} };
+        return { warnings };
+      }
+      const candidate = extractSessionCandidate(parsed, warnings);
+      this.known = { revision: readRevision(parsed), base: {} };
+      if (!candidate) {
+        return { warnings };
+      }
+      const state = sanitizeSessionState(candidate, warnings);
+      if (!state) {
+        return { warnings };
+      }
+      this.known.base = pickMergeFields(state);
+
+      const authUserId = state.auth?.userId;
+      if (authUserId && !state.auth?.token) {
+        const token = await loadAuthToken(authUserId);
+        if (token) {
+          state.auth = { ...(state.auth ?? {}), userId: authUserId, token };
+        } else {
+          warnings.push(`auth token missing from secure store for userId=${authUserId}; clearing auth state`);
+          state.auth = undefined;
+        }
+      }
+      if (state.auth?.token && !state.auth.expiresAt) {
+        state.auth.expiresAt = jwtExpiresAt(state.auth.token);
+      }
+
+      return { state, warnings };
+    } catch {
       return { warnings };
     }
+  }
 
-    const authUserId = state.auth?.userId;
-    if (authUserId && !state.auth?.token) {
-      const token = await loadAuthToken(authUserId);
-      if (token) {
-        state.auth = { ...(state.auth ?? {}), userId: authUserId, token };
-      } else {
-        warnings.push(`auth token missing from secure store for userId=${authUserId}; clearing auth state`);
-        state.auth = undefined;
+  // Take the long-lived advisory lock that marks this process as using the session. When another
+  // live process already holds it, its details are returned so the caller can warn.
+  async acquireLock(): Promise<{ acquired: boolean; holder?: SessionLockHolder }> {
+    if (this.ownsHolderLock) {
+      return { acquired: true };
+    }
+    const lockFile = sessionLockFilePath();
+    await mkdir(dirname(lockFile), { recursive: true });
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      if (await createLockFile(lockFile)) {
+        this.ownsHolderLock = true;
+        process.once("exit", () => this.releaseLock());
+        return { acquired: true };
       }
+      const holder = await readLockHolder(lockFile);
+      if (holder && isHolderAlive(holder)) {
+        return { acquired: false, holder };
+      }
+      await rm(lockFile, { force: true });
     }
+    return { acquired: false };
+  }
 
-    return { state, warnings };
-  } catch {
-    return { warnings };
+  releaseLock(): void {
+    if (!this.ownsHolderLock) {
+      return;
+    }
+    this.ownsHolderLock = false;
+    try {
+      unlinkSync(sessionLockFilePath());
+    } catch {
+      // Already removed.
+    }
   }
-}
 
-export async function saveSession(state: AppState): Promise<void> {
-  if (state.auth?.userId && state.auth.token) {
-    await saveAuthToken(state.auth.userId, state.auth.token);
+  async save(state: AppState, options: SessionSaveOptions = {}): Promise<SessionSaveResult> {
+    const tokenSaved =
+      state.auth?.userId && state.auth.token
+        ? await saveAuthToken(state.auth.userId, state.auth.token)
+        : true;
+
+    const auth =
+      state.auth && typeof state.auth === "object"
+        ? (() => {
+            const { token: _token, ...rest } = state.auth;
+            return rest;
+          })()
+        : undefined;
+
+    const file = sessionFilePath();
+    await mkdir(dirname(file), { recursive: true });
+    const warnings: string[] = [];
+    const releaseWriteLock = await acquireWriteLock(`${file}.write.lock`, warnings);
+    try {
+      const onDisk = await readSessionSnapshot(file);
+      let fields = pickMergeFields(state);
+      let merged: SessionMergeFields | undefined;
+      const knownRevision = this.known?.revision ?? onDisk.revision;
+      if (onDisk.state && onDisk.revision > knownRevision) {
+        const writer = onDisk.writer ? ` (pid ${onDisk.writer.pid})` : "";
+        const ourStore = state.selectedStore?.storeNo;
+        const theirStore = onDisk.state.selectedStore?.storeNo;
+        if (ourStore !== theirStore) {
+          // A cart and order only make sense for the store they were built at.
+          warnings.push(
+            `session.json was changed by another process${writer} for store ${theirStore ?? "(none)"}; kept this process's cart/order for store ${ourStore ?? "(none)"}`
+          );
+        } else {
+          const base = this.known?.base ?? {};
+          const theirs = pickMergeFields(onDisk.state);
+          // Another process emptying its cart on exit is not a removal of our lines, even when
+          // later writes carried the emptied cart forward.
+          const cleanups = onDisk.exitCleanups.filter((cleanup) => cleanup.revision > knownRevision);
+          if (cleanups.length > 0) {
+            const cleared = new Set(cleanups.flatMap((cleanup) => cleanup.lineIds));
+            const theirIds = new Set((theirs.cart ?? []).map((cartLine) => cartLine.lineId));
+            theirs.cart = [
+              ...(theirs.cart ?? []),
+              ...(base.cart ?? []).filter(
+                (cartLine) => cleared.has(cartLine.lineId) && !theirIds.has(cartLine.lineId)
+              )
+            ];
+            theirs.quote ??= base.quote;
+            theirs.pendingCreatePayload ??= base.pendingCreatePayload;
+          }
+          const result = mergeSessionChanges(base, fields, theirs);
+          if (!sameJson(result, fields)) {
+            merged = result;
+            fields = result;
+            warnings.push(
+              `session.json was changed by another process${writer} since revision ${this.known?.revision ?? 0}; merged its cart/order changes`
+            );
+          }
+        }
+      }
+
+      const revision = Math.max(onDisk.revision, this.known?.revision ?? 0) + 1;
+      const keptIds = new Set((fields.cart ?? []).map((cartLine) => cartLine.lineId));
+      const exitCleanups =
+        options.exitCleanup === true
+          ? [
+              ...onDisk.exitCleanups,
+              {
+                revision,
+                lineIds: (onDisk.state?.cart ?? [])
+                  .map((cartLine) => cartLine.lineId)
+                  .filter((lineId) => !keptIds.has(lineId))
+              }
+            ].slice(-EXIT_CLEANUP_HISTORY)
+          : onDisk.exitCleanups;
+      const payload: Record<string, unknown> = {
+        schemaVersion: SESSION_SCHEMA_VERSION,
+        revision,
+        savedAt: new Date().toISOString(),
+        writer: { pid: process.pid, host: hostname() },
+        session: state.session,
+        auth,
+        selectedStore: state.selectedStore,
+        storesCache: state.storesCache,
+        cart: fields.cart,
+        cartVersion: fields.cartVersion,
+        quote: fields.quote,
+        appliedVouchers: fields.appliedVouchers,
+        pendingCreatePayload: fields.pendingCreatePayload,
+        order: fields.order,
+        payment: fields.payment,
+        pendingLoginPhone: state.pendingLoginPhone,
+        exitCleanups: exitCleanups.length > 0 ? exitCleanups : undefined
+      };
+
+      const tempFile = `${file}.tmp-${process.pid}-${Date.now()}-${Math.random()
+        .toString(36)
+        .slice(2, 8)}`;
+      await writeFile(tempFile, JSON.stringify(payload, null, 2), {
+        encoding: "utf8",
+        mode: 0o600
+      });
+      await rename(tempFile, file);
+      this.known = { revision, base: structuredClone(fields) };
+      return { revision, merged, tokenSaved, warnings };
+    } finally {
+      await releaseWriteLock();
+    }
   }
+}
 
-  const auth =
-    state.auth && typeof state.auth === "object"
-      ? (() => {
-          const { token: _token, ...rest } = state.auth;
-          return rest;
-        })()
-      : undefined;
+// Three-way merge of cart/order state against the last revision this process saw. Cart lines
+// merge by lineId; for everything else a side that left a field unchanged takes the other's value.
+export function mergeSessionChanges(
+  base: SessionMergeFields,
+  ours: SessionMergeFields,
+  theirs: SessionMergeFields
+): SessionMergeFields {
+  const pick = <K extends keyof SessionMergeFields>(key: K): SessionMergeFields[K] =>
+    sameJson(ours[key], base[key]) ? theirs[key] : ours[key];
+
+  const cart = mergeCartLines(base.cart ?? [], ours.cart ?? [], theirs.cart ?? []);
+  const keepsOurs = sameJson(cart, ours.cart ?? []);
+  const keepsTheirs = sameJson(cart, theirs.cart ?? []);
+  // A quote or staged order only stays valid for the cart it was made from.
+  const cartBound = <K extends "quote" | "pendingCreatePayload">(key: K): SessionMergeFields[K] =>
+    keepsOurs && keepsTheirs ? pick(key) : keepsOurs ? ours[key] : keepsTheirs ? theirs[key] : undefined;
+
+  return {
+    cart,
+    cartVersion: Math.max(ours.cartVersion ?? 0, theirs.cartVersion ?? 0),
+    quote: cartBound("quote"),
+    appliedVouchers: pick("appliedVouchers"),
+    pendingCreatePayload: cartBound("pendingCreatePayload"),
+    order: pick("order"),
+    payment: pick("payment")
+  };
+}
+
+function mergeCartLines(base: CartLine[], ours: CartLine[], theirs: CartLine[]): CartLine[] {
+  const baseById = new Map(base.map((line) => [line.lineId, line]));
+  const theirsById = new Map(theirs.map((line) => [line.lineId, line]));
+  const oursIds = new Set(ours.map((line) => line.lineId));
+  const out: CartLine[] = [];
+  for (const line of ours) {
+    const before = baseById.get(line.lineId);
+    const other = theirsById.get(line.lineId);
+    if (!before) {
+      out.push(line);
+    } else if (!other) {
+      // Removed there; kept only if edited here.
+      if (!sameJson(line, before)) {
+        out.push(line);
+      }
+    } else {
+      out.push(sameJson(line, before) ? other : line);
+    }
+  }
+  for (const line of theirs) {
+    if (!oursIds.has(line.lineId) && !baseById.has(line.lineId)) {
+      out.push(line);
+    }
+  }
+  return out;
+}
 
-  const payload: Record<string, unknown> = {
-    schemaVersion: SESSION_SCHEMA_VERSION,
-    session: state.session,
-    auth,
-    selectedStore: state.selectedStore,
-    storesCache: state.storesCache,
-    menuCache: state.menuCache,
-    menuCacheByStore: state.menuCacheByStore,
+function pickMergeFields(state: Partial<AppState>): SessionMergeFields {
+  return {
     cart: state.cart,
     cartVersion: state.cartVersion,
     quote: state.quote,
+    appliedVouchers: state.appliedVouchers,
     pendingCreatePayload: state.pendingCreatePayload,
     order: state.order,
-    payment: state.payment,
-    pendingLoginPhone: state.pendingLoginPhone
+    payment: state.payment
   };
+}
+
+async function readSessionSnapshot(file: string): Promise<SessionFileSnapshot> {
+  try {
+    const parsed = JSON.parse(await readFile(file, "utf8")) as unknown;
+    const candidate = extractSessionCandidate(parsed, []);
+    const root = parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : undefined;
+    return {
+      revision: readRevision(parsed),
+      exitCleanups: readExitCleanups(root?.exitCleanups),
+      writer: asLockHolder(root?.writer),
+      state: candidate ? sanitizeSessionState(candidate, []) : undefined
+    };
+  } catch {
+    return { revision: 0, exitCleanups: [] };
+  }
+}
+
+function readExitCleanups(value: unknown): SessionExitCleanup[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const out: SessionExitCleanup[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") {
+      continue;
+    }
+    const obj = entry as Record<string, unknown>;
+    const revision = asNumber(obj.revision);
+    if (revision !== undefined && Array.isArray(obj.lineIds)) {
+      out.push({
+        revision,
+        lineIds: obj.lineIds.filter((lineId): lineId is string => typeof lineId === "string")
+      });
+    }
+  }
+  return out;
+}
+
+// Short-lived lock around read-merge-write so two saves cannot interleave. Only a stale lock is
+// taken over: its holder died, or it is older than any save takes. A live writer is waited for.
+async function acquireWriteLock(lockFile: string, warnings: string[]): Promise<() => Promise<void>> {
+  const release = async (): Promise<void> => {
+    await rm(lockFile, { force: true });
+  };
+  while (!(await createLockFile(lockFile))) {
+    const holder = await readLockHolder(lockFile);
+    const ageMs = await stat(lockFile).then(
+      (info) => Date.now() - info.mtimeMs,
+      () => 0
+    );
+    if (holder && !isHolderAlive(holder)) {
+      await rm(lockFile, { force: true });
+      continue;
+    }
+    if (ageMs > WRITE_LOCK_STALE_MS) {
+      warnings.push(
+        `session write lock held by pid ${holder?.pid ?? "unknown"} for over ${WRITE_LOCK_STALE_MS}ms; taking it over`
+      );
+      await rm(lockFile, { force: true });
+      continue;
+    }
+    await new Promise((resolve) => setTimeout(resolve, WRITE_LOCK_RETRY_MS));
+  }
+  return release;
+}
+
+async function createLockFile(lockFile: string): Promise<boolean> {
+  const holder: SessionLockHolder = {
+    pid: process.pid,
+    host: hostname(),
+    startedAt: new Date().toISOString()
+  };
+  try {
+    await writeFile(lockFile, JSON.stringify(holder), { encoding: "utf8", mode: 0o600, flag: "wx" });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return false;
+    }
+    throw error;
+  }
+}
 
-  await mkdir(dirname(STORE_FILE), { recursive: true });
-  const tempFile = `${STORE_FILE}.tmp-${process.pid}-${Date.now()}`;
-  await writeFile(tempFile, JSON.stringify(payload, null, 2), {
-    encoding: "utf8",
-    mode: 0o600
-  });
-  await rename(tempFile, STORE_FILE);
+async function readLockHolder(lockFile: string): Promise<SessionLockHolder | undefined> {
+  try {
+    return asLockHolder(JSON.parse(await readFile(lockFile, "utf8")) as unknown);
+  } catch {
+    return undefined;
+  }
+}
+
+// Processes on another host (shared home directory) cannot be checked and count as alive.
+function isHolderAlive(holder: SessionLockHolder): boolean {
+  if (holder.host !== hostname()) {
+    return true;
+  }
+  if (holder.pid === process.pid) {
+    return true;
+  }
+  try {
+    process.kill(holder.pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function asLockHolder(value: unknown): SessionLockHolder | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const obj = value as Record<string, unknown>;
+  const pid = asNumber(obj.pid);
+  if (pid === undefined || typeof obj.host !== "string") {
+    return undefined;
+  }
+  return {
+    pid,
+    host: obj.host,
+    startedAt: typeof obj.startedAt === "string" ? obj.startedAt : ""
+  };
+}
+
+function readRevision(parsed: unknown): number {
+  if (!parsed || typeof parsed !== "object") {
+    return 0;
+  }
+  const revision = asNumber((parsed as Record<string, unknown>).revision);
+  return revision !== undefined && revision > 0 ? Math.floor(revision) : 0;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
 }
 
 function extractSessionCandidate(
@@ -132,6 +524,7 @@ function sanitizeSessionState(
   if (Array.isArray(candidate.storesCache)) {
     out.storesCache = candidate.storesCache as AppState["storesCache"];
   }
+  // Menus moved to the per-store cache in v3; older files still carry them.
   if (Array.isArray(candidate.menuCache)) {
     out.menuCache = candidate.menuCache as AppState["menuCache"];
   }
@@ -148,6 +541,9 @@ function sanitizeSessionState(
   if (candidate.quote && typeof candidate.quote === "object") {
     out.quote = candidate.quote as AppState["quote"];
   }
+  if (Array.isArray(candidate.appliedVouchers)) {
+    out.appliedVouchers = candidate.appliedVouchers as AppState["appliedVouchers"];
+  }
   if (candidate.pendingCreatePayload && typeof candidate.pendingCreatePayload === "object") {
     out.pendingCreatePayload = candidate.pendingCreatePayload as AppState["pendingCreatePayload"];
   }
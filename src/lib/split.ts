@@ -0,0 +1,192 @@
+import type { QuoteBreakdown } from "../types.js";
+
+export const UNASSIGNED_OWNER = "(unassigned)";
+
+export interface SplitLineInput {
+  owner?: string | undefined;
+  skuId?: string | undefined;
+  name?: string | undefined;
+  qty: number;
+  price?: number | undefined;
+}
+
+interface SplitAmounts {
+  base: number;
+  discount: number;
+  fees: number;
+  rounding: number;
+  share: number;
+}
+
+export interface BillSplitLine extends SplitAmounts {
+  owner: string;
+  skuId?: string | undefined;
+  name?: string | undefined;
+  qty: number;
+}
+
+export interface BillSplitOwner extends SplitAmounts {
+  owner: string;
+  items: number;
+}
+
+export interface BillSplit extends SplitAmounts {
+  lines: BillSplitLine[];
+  owners: BillSplitOwner[];
+}
+
+export function hasOwnerTags(lines: Array<Pick<SplitLineInput, "owner">>): boolean {
+  return lines.some((line) => Boolean(line.owner));
+}
+
+// Allocate the quote's discount, fees and leftover rounding across cart lines
+// in proportion to each line's quoted price, then roll lines up per owner.
+// Every component is split in whole cents, so shares always sum to the payable.
+export function computeBillSplit(cart: SplitLineInput[], quote: QuoteBreakdown): BillSplit {
+  // The quote may merge cart lines that share a skuId, so consume quoted units per sku.
+  const quoted = new Map<string, Array<{ remaining: number; unit: number }>>();
+  for (const line of quote.lines) {
+    const queue = quoted.get(line.skuId) ?? [];
+    const qty = Math.max(1, line.qty);
+    queue.push({ remaining: qty, unit: line.lineTotal / qty });
+    quoted.set(line.skuId, queue);
+  }
+
+  const baseCents = cart.map((line) => {
+    const queue = line.skuId ? quoted.get(line.skuId) : undefined;
+    let needed = line.qty;
+    let amount = 0;
+    while (queue && queue.length > 0 && needed > 0) {
+      const head = queue[0];
+      if (!head) {
+        break;
+      }
+      const take = Math.min(head.remaining, needed);
+      amount += head.unit * take;
+      head.remaining -= take;
+      needed -= take;
+      if (head.remaining <= 0) {
+        queue.shift();
+      }
+    }
+    amount += (line.price ?? 0) * needed;
+    return Math.round(amount * 100);
+  });
+  const baseTotal = sum(baseCents);
+  const weights = baseTotal > 0 ? baseCents : cart.map((line) => line.qty);
+
+  const discountCents = Math.round(quote.discountTotal * 100);
+  const feeCents = Math.round(quote.feeTotal * 100);
+  const payableCents =
+    quote.payable !== undefined
+      ? Math.round(quote.payable * 100)
+      : baseTotal - discountCents + feeCents;
+  const roundingCents = payableCents - (baseTotal - discountCents + feeCents);
+
+  const discounts = allocateCents(discountCents, weights);
+  const fees = allocateCents(feeCents, weights);
+  const rounding = allocateCents(roundingCents, weights);
+
+  const lines: BillSplitLine[] = cart.map((line, index) => {
+    const base = baseCents[index] ?? 0;
+    const discount = discounts[index] ?? 0;
+    const fee = fees[index] ?? 0;
+    const round = rounding[index] ?? 0;
+    return {
+      owner: line.owner?.trim() || UNASSIGNED_OWNER,
+      skuId: line.skuId,
+      name: line.name,
+      qty: line.qty,
+      base: base / 100,
+      discount: discount / 100,
+      fees: fee / 100,
+      rounding: round / 100,
+      share: (base - discount + fee + round) / 100
+    };
+  });
+
+  const owners = new Map<string, BillSplitOwner>();
+  for (const line of lines) {
+    const owner = owners.get(line.owner) ?? {
+      owner: line.owner,
+      items: 0,
+      base: 0,
+      discount: 0,
+      fees: 0,
+      rounding: 0,
+      share: 0
+    };
+    owner.items += line.qty;
+    owner.base = addCents(owner.base, line.base);
+    owner.discount = addCents(owner.discount, line.discount);
+    owner.fees = addCents(owner.fees, line.fees);
+    owner.rounding = addCents(owner.rounding, line.rounding);
+    owner.share = addCents(owner.share, line.share);
+    owners.set(line.owner, owner);
+  }
+
+  return {
+    base: baseTotal / 100,
+    discount: discountCents / 100,
+    fees: feeCents / 100,
+    rounding: roundingCents / 100,
+    share: payableCents / 100,
+    lines,
+    owners: [...owners.values()]
+  };
+}
+
+export function formatPayNowSummary(
+  split: BillSplit,
+  options: { currencySymbol: string; title: string; payTo?: string | undefined }
+): string {
+  const money = (value: number) => `${options.currencySymbol}${value.toFixed(2)}`;
+  const out = [`${options.title}: ${money(split.share)} total`];
+  for (const owner of split.owners) {
+    const items = `${owner.items} item${owner.items === 1 ? "" : "s"}`;
+    out.push(`- ${owner.owner}: ${money(owner.share)} (${items})`);
+  }
+  if (split.discount > 0 || split.fees > 0) {
+    out.push(
+      `(incl. discount -${money(split.discount)}, fees ${money(split.fees)}, shared by item price)`
+    );
+  }
+  if (options.payTo) {
+    out.push(`PayNow ${options.payTo} your share, thanks!`);
+  }
+  return out.join("\n");
+}
+
+// Largest-remainder allocation of `totalCents` by `weights`; handles negatives.
+function allocateCents(totalCents: number, weights: number[]): number[] {
+  const weightSum = sum(weights);
+  if (totalCents === 0 || weights.length === 0) {
+    return weights.map(() => 0);
+  }
+  const sign = totalCents < 0 ? -1 : 1;
+  const magnitude = Math.abs(totalCents);
+  const exact = weights.map((weight, index) =>
+    weightSum > 0 ? (magnitude * weight) / weightSum : index === 0 ? magnitude : 0
+  );
+  const shares = exact.map((value) => Math.floor(value));
+  let leftover = magnitude - sum(shares);
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of order) {
+    if (leftover <= 0) {
+      break;
+    }
+    shares[index] = (shares[index] ?? 0) + 1;
+    leftover -= 1;
+  }
+  return shares.map((value) => value * sign);
+}
+
+function addCents(a: number, b: number): number {
+  return Math.round((a + b) * 100) / 100;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
@@ -34,6 +34,7 @@ export function resetForStoreSwitch(state: AppState): void {
   state.cart = [];
   state.cartVersion += 1;
   state.quote = undefined;
+  state.appliedVouchers = undefined;
   state.pendingCreatePayload = undefined;
   state.order = undefined;
   state.payment = undefined;
@@ -46,6 +47,9 @@ export function derivePhase(state: AppState): AppPhase {
   if (!state.selectedStore) {
     return "AUTH_NO_STORE";
   }
+  if (state.session.fulfillment === "delivery" && !state.session.deliveryAddress && !state.order) {
+    return "DELIVERY_NO_ADDRESS";
+  }
   if (state.payment?.status === "pending") {
     return "PAYMENT_PENDING";
   }
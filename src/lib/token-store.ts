@@ -1,66 +1,496 @@
-import { execFile } from "node:child_process";
-import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { exec, execFile } from "node:child_process";
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
 import { homedir } from "node:os";
 import { dirname, join } from "node:path";
 import { promisify } from "node:util";
 
 const execFileAsync = promisify(execFile);
-const FALLBACK_FILE = join(homedir(), ".chagee-cli", "tokens.json");
 const KEYCHAIN_SERVICE = "chagee-cli";
+const TOKEN_ENV_VAR = "CHAGEE_TOKEN";
+const TOKEN_CMD_ENV_VAR = "CHAGEE_TOKEN_CMD";
+const BACKEND_ORDER_ENV_VAR = "CHAGEE_TOKEN_BACKENDS";
+const VAULT_PASSPHRASE_ENV_VAR = "CHAGEE_VAULT_PASSPHRASE";
+const TOKEN_DIR_ENV_VAR = "CHAGEE_CLI_HOME";
+const TOKEN_STORE_SCHEMA_VERSION = 1;
+const VAULT_SCHEMA_VERSION = 1;
+const TOKEN_CMD_TIMEOUT_MS = 15_000;
+const VAULT_UNLOCK_ATTEMPTS = 3;
+// scrypt cost for new vaults: ~32 MiB and ~100 ms per derivation; the derived key is cached per
+// salt. Existing vaults are read with the parameters stored in the file.
+const VAULT_SCRYPT = { N: 1 << 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
 
 type TokenMap = Record<string, string>;
 
+export type TokenBackendName =
+  | "env"
+  | "cmd"
+  | "keychain"
+  | "secret-service"
+  | "vault"
+  | "plaintext";
+
+export type TokenBackendAvailability = { ok: true } | { ok: false; reason: string };
+
+export interface TokenBackend {
+  name: TokenBackendName;
+  // Read-only backends supply tokens but never take saves (env var, external command).
+  readOnly: boolean;
+  // Whether tokens are protected at rest; saves never fall back from a secure to an insecure one.
+  secure: boolean;
+  location(): string;
+  available(): Promise<TokenBackendAvailability>;
+  load(userId: string): Promise<string | undefined>;
+  // Resolves false when the token could not be stored.
+  save(userId: string, token: string): Promise<boolean>;
+  clear(userId: string): Promise<void>;
+}
+
+export interface TokenStoreConfig {
+  // Backends to use, highest priority first; backends left out are disabled.
+  order?: TokenBackendName[] | undefined;
+  // Shell command that prints a token, e.g. "pass show chagee". CHAGEE_USER_ID is set for it.
+  tokenCmd?: string | undefined;
+}
+
+export interface TokenBackendStatus {
+  name: TokenBackendName;
+  location: string;
+  // Why a stronger backend is not in use, or why the active one cannot be read.
+  note?: string | undefined;
+  backends: Array<{
+    name: TokenBackendName;
+    readOnly: boolean;
+    secure: boolean;
+    available: boolean;
+    reason?: string | undefined;
+  }>;
+}
+
+interface VaultKdf {
+  name: "scrypt";
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+}
+
+interface VaultPayload {
+  schemaVersion: number;
+  kdf: VaultKdf;
+  cipher: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export const DEFAULT_TOKEN_BACKEND_ORDER: TokenBackendName[] = [
+  "env",
+  "cmd",
+  "keychain",
+  "secret-service",
+  "vault",
+  "plaintext"
+];
+
+const backends = new Map<TokenBackendName, TokenBackend>();
+const vaultKeys = new Map<string, Buffer>();
+const tokenCmdResults = new Map<string, Promise<string | undefined>>();
+let secretToolProbe: Promise<boolean> | undefined;
+// Passphrases typed at the unlock prompt, per vault file; kept for this process only.
+const promptedVaultPassphrases = new Map<string, string>();
+
+export function registerTokenBackend(backend: TokenBackend): void {
+  backends.set(backend.name, backend);
+}
+
+export function isTokenBackendName(value: string): value is TokenBackendName {
+  return (DEFAULT_TOKEN_BACKEND_ORDER as string[]).includes(value);
+}
+
+export function tokenStoreConfigPath(): string {
+  return join(tokenStoreDir(), "token-store.json");
+}
+
+export async function loadTokenStoreConfig(): Promise<TokenStoreConfig> {
+  try {
+    const raw = await readFile(tokenStoreConfigPath(), "utf8");
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const order = Array.isArray(parsed.order)
+      ? parsed.order.filter(
+          (name): name is TokenBackendName => typeof name === "string" && isTokenBackendName(name)
+        )
+      : undefined;
+    const tokenCmd =
+      typeof parsed.tokenCmd === "string" && parsed.tokenCmd.trim() ? parsed.tokenCmd.trim() : undefined;
+    return { order: order && order.length > 0 ? order : undefined, tokenCmd };
+  } catch {
+    return {};
+  }
+}
+
+export async function saveTokenStoreConfig(config: TokenStoreConfig): Promise<void> {
+  const file = tokenStoreConfigPath();
+  await mkdir(dirname(file), { recursive: true });
+  const payload = {
+    schemaVersion: TOKEN_STORE_SCHEMA_VERSION,
+    order: config.order,
+    tokenCmd: config.tokenCmd
+  };
+  const tempFile = `${file}.tmp-${process.pid}-${Date.now()}`;
+  await writeFile(tempFile, JSON.stringify(payload, null, 2), {
+    encoding: "utf8",
+    mode: 0o600
+  });
+  await rename(tempFile, file);
+}
+
 export async function loadAuthToken(userId: string): Promise<string | undefined> {
   if (!userId) {
     return undefined;
   }
+  for (const backend of await usableBackends()) {
+    const token = await backend.load(userId);
+    if (token) {
+      return token;
+    }
+  }
+  return undefined;
+}
 
-  if (process.platform === "darwin") {
-    const fromKeychain = await loadFromMacKeychain(userId);
-    if (fromKeychain !== undefined) {
-      return fromKeychain;
+// A token supplied from outside (env var or command) that is not tied to a saved login; used
+// to sign in non-interactive runs that have no session yet.
+export async function loadExternalAuthToken(): Promise<
+  { token: string; backend: TokenBackendName } | undefined
+> {
+  for (const backend of await usableBackends()) {
+    if (!backend.readOnly) {
+      continue;
+    }
+    const token = await backend.load("");
+    if (token) {
+      return { token, backend: backend.name };
     }
   }
+  return undefined;
+}
 
-  const fallback = await loadFallbackTokenMap();
-  const token = fallback[userId];
-  return typeof token === "string" && token.length > 0 ? token : undefined;
+// Whether the token is supplied by a read-only backend, which a fresh login cannot update.
+export async function isExternalAuthToken(userId: string, token: string): Promise<boolean> {
+  for (const backend of await usableBackends()) {
+    if (!backend.readOnly) {
+      continue;
+    }
+    if ((await backend.load("")) === token || (userId && (await backend.load(userId)) === token)) {
+      return true;
+    }
+  }
+  return false;
 }
 
-export async function saveAuthToken(userId: string, token: string): Promise<void> {
+// Resolves to false when an enabled backend refused the token; it then lives in memory only.
+export async function saveAuthToken(userId: string, token: string): Promise<boolean> {
   if (!userId || !token) {
-    return;
+    return true;
   }
-
-  if (process.platform === "darwin") {
-    const stored = await saveToMacKeychain(userId, token);
-    if (stored) {
-      return;
+  // A token supplied by the environment or a secret manager is not copied anywhere else.
+  if (await isExternalAuthToken(userId, token)) {
+    return true;
+  }
+  const writable = (await usableBackends()).filter((backend) => !backend.readOnly);
+  const hasSecure = writable.some((backend) => backend.secure);
+  let keychainFailed = false;
+  for (const backend of writable) {
+    // Plaintext only takes tokens when no secure backend is usable or the macOS keychain refused
+    // them (as before other backends existed), never after the vault or Secret Service failed.
+    if (hasSecure && !backend.secure && !keychainFailed) {
+      return false;
     }
+    if ((await backend.load(userId)) === token || (await backend.save(userId, token))) {
+      return true;
+    }
+    keychainFailed ||= backend.name === "keychain";
   }
-
-  const map = await loadFallbackTokenMap();
-  map[userId] = token;
-  await saveFallbackTokenMap(map);
+  return writable.length === 0;
 }
 
 export async function clearAuthToken(userId: string): Promise<void> {
   if (!userId) {
     return;
   }
+  for (const backend of await usableBackends()) {
+    if (!backend.readOnly) {
+      await backend.clear(userId);
+    }
+  }
+}
 
-  if (process.platform === "darwin") {
-    await clearFromMacKeychain(userId);
+export async function tokenBackendStatus(): Promise<TokenBackendStatus> {
+  const order = await backendOrder();
+  const rows: TokenBackendStatus["backends"] = [];
+  for (const name of order) {
+    const backend = backends.get(name);
+    if (!backend) {
+      continue;
+    }
+    const availability = await backend.available();
+    rows.push({
+      name,
+      readOnly: backend.readOnly,
+      secure: backend.secure,
+      available: availability.ok,
+      reason: availability.ok ? undefined : availability.reason
+    });
   }
 
+  const active = rows.find((row) => row.available && !row.readOnly);
+  const backend = active ? backends.get(active.name) : undefined;
+  if (!active || !backend) {
+    return {
+      name: "plaintext",
+      location: "(none)",
+      note: `no writable backend is enabled; tokens are kept in memory only (order: ${order.join(",")})`,
+      backends: rows
+    };
+  }
+  let note: string | undefined;
+  if (active.name === "vault") {
+    try {
+      await loadVaultTokenMap();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      note = `cannot decrypt (${reason}); check ${VAULT_PASSPHRASE_ENV_VAR}`;
+    }
+  } else if (!active.secure) {
+    note = `tokens are stored unencrypted; install secret-tool or set ${VAULT_PASSPHRASE_ENV_VAR}`;
+  }
+  return { name: active.name, location: backend.location(), note, backends: rows };
+}
+
+// Asks for the vault passphrase when CHAGEE_VAULT_PASSPHRASE is unset and an existing vault is
+// enabled, retrying a wrong answer. Resolves true once the vault can be read. Callers run it
+// before a UI takes over the terminal; an empty answer gives up.
+export async function unlockVault(ask: (prompt: string) => Promise<string>): Promise<boolean> {
+  if (vaultPassphrase()) {
+    return true;
+  }
+  if (!(await backendOrder()).includes("vault") || !(await readVaultPayload().catch(() => undefined))) {
+    return false;
+  }
+  let prompt = "Vault passphrase: ";
+  for (let attempt = 0; attempt < VAULT_UNLOCK_ATTEMPTS; attempt += 1) {
+    const answer = await ask(prompt);
+    if (!answer) {
+      return false;
+    }
+    promptedVaultPassphrases.set(vaultFilePath(), answer);
+    try {
+      await loadVaultTokenMap();
+      return true;
+    } catch {
+      promptedVaultPassphrases.delete(vaultFilePath());
+      prompt = "Wrong passphrase, try again: ";
+    }
+  }
+  return false;
+}
+
+// Move tokens from plaintext tokens.json into the first usable secure backend. Tokens that
+// cannot be stored securely stay where they are.
+export async function migratePlaintextTokens(): Promise<{
+  backend: TokenBackendName;
+  moved: string[];
+  remaining: string[];
+}> {
+  const target = (await usableBackends()).find((backend) => !backend.readOnly && backend.secure);
   const map = await loadFallbackTokenMap();
-  if (map[userId] === undefined) {
-    return;
+  if (!target) {
+    return { backend: "plaintext", moved: [], remaining: Object.keys(map) };
+  }
+  const moved: string[] = [];
+  for (const [userId, token] of Object.entries(map)) {
+    if (await target.save(userId, token)) {
+      moved.push(userId);
+      delete map[userId];
+    }
+  }
+  const remaining = Object.keys(map);
+  if (moved.length > 0) {
+    if (remaining.length === 0) {
+      await rm(fallbackFilePath(), { force: true });
+    } else {
+      await saveFallbackTokenMap(map);
+    }
+  }
+  return { backend: target.name, moved, remaining };
+}
+
+async function backendOrder(): Promise<TokenBackendName[]> {
+  const fromEnv = (process.env[BACKEND_ORDER_ENV_VAR] ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(isTokenBackendName);
+  if (fromEnv.length > 0) {
+    return fromEnv;
+  }
+  return (await loadTokenStoreConfig()).order ?? DEFAULT_TOKEN_BACKEND_ORDER;
+}
+
+async function usableBackends(): Promise<TokenBackend[]> {
+  const out: TokenBackend[] = [];
+  for (const name of await backendOrder()) {
+    const backend = backends.get(name);
+    if (backend && (await backend.available()).ok) {
+      out.push(backend);
+    }
+  }
+  return out;
+}
+
+async function tokenCommand(): Promise<string | undefined> {
+  const fromEnv = process.env[TOKEN_CMD_ENV_VAR]?.trim();
+  return fromEnv || (await loadTokenStoreConfig()).tokenCmd;
+}
+
+// Drops the remembered token-cmd output so the next lookup runs the command again, e.g. after the
+// API rejected the token it printed.
+export function forgetTokenCommandOutput(): void {
+  tokenCmdResults.clear();
+}
+
+// Output of the token command, run once per process and userId until forgotten.
+function runTokenCommand(command: string, userId: string): Promise<string | undefined> {
+  const cacheKey = `${command}\n${userId}`;
+  let pending = tokenCmdResults.get(cacheKey);
+  if (!pending) {
+    pending = new Promise((resolve) => {
+      exec(
+        command,
+        { timeout: TOKEN_CMD_TIMEOUT_MS, env: { ...process.env, CHAGEE_USER_ID: userId } },
+        (error, stdout) => {
+          const token = error ? "" : (String(stdout).split(/\r?\n/)[0] ?? "").trim();
+          resolve(token.length > 0 ? token : undefined);
+        }
+      );
+    });
+    tokenCmdResults.set(cacheKey, pending);
   }
-  delete map[userId];
-  await saveFallbackTokenMap(map);
+  return pending;
 }
 
+registerTokenBackend({
+  name: "env",
+  readOnly: true,
+  secure: true,
+  location: () => `$${TOKEN_ENV_VAR}`,
+  available: async () =>
+    process.env[TOKEN_ENV_VAR]?.trim() ? { ok: true } : { ok: false, reason: `${TOKEN_ENV_VAR} is not set` },
+  // Only answers the external lookup (no userId): the variable is not tied to a saved login, so
+  // it must not stand in for whichever account is restored.
+  load: async (userId) => (userId ? undefined : process.env[TOKEN_ENV_VAR]?.trim() || undefined),
+  save: async () => false,
+  clear: async () => undefined
+});
+
+registerTokenBackend({
+  name: "cmd",
+  readOnly: true,
+  secure: true,
+  location: () => "token-cmd",
+  available: async () =>
+    (await tokenCommand())
+      ? { ok: true }
+      : { ok: false, reason: `no token-cmd configured (token-store set token-cmd=... or ${TOKEN_CMD_ENV_VAR})` },
+  load: async (userId) => {
+    const command = await tokenCommand();
+    return command ? runTokenCommand(command, userId) : undefined;
+  },
+  save: async () => false,
+  clear: async () => undefined
+});
+
+registerTokenBackend({
+  name: "keychain",
+  readOnly: false,
+  secure: true,
+  location: () => `macOS login keychain (service ${KEYCHAIN_SERVICE})`,
+  available: async () =>
+    process.platform === "darwin" ? { ok: true } : { ok: false, reason: "macOS only" },
+  load: loadFromMacKeychain,
+  save: saveToMacKeychain,
+  clear: clearFromMacKeychain
+});
+
+registerTokenBackend({
+  name: "secret-service",
+  readOnly: false,
+  secure: true,
+  location: () => `Secret Service via secret-tool (service ${KEYCHAIN_SERVICE})`,
+  available: async () =>
+    (await hasSecretTool())
+      ? { ok: true }
+      : { ok: false, reason: "secret-tool or a running Secret Service not found" },
+  load: loadFromSecretService,
+  save: saveToSecretService,
+  clear: clearFromSecretService
+});
+
+registerTokenBackend({
+  name: "vault",
+  readOnly: false,
+  secure: true,
+  location: () => vaultFilePath(),
+  available: async () =>
+    vaultPassphrase() ? { ok: true } : { ok: false, reason: `${VAULT_PASSPHRASE_ENV_VAR} is not set` },
+  load: async (userId) => (await loadVaultTokenMap().catch(() => ({}) as TokenMap))[userId],
+  save: async (userId, token) => {
+    try {
+      const vault = await loadVaultTokenMap();
+      if (vault[userId] !== token) {
+        vault[userId] = token;
+        await saveVaultTokenMap(vault);
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  clear: async (userId) => {
+    try {
+      const vault = await loadVaultTokenMap();
+      if (vault[userId] !== undefined) {
+        delete vault[userId];
+        await saveVaultTokenMap(vault);
+      }
+    } catch {
+      // An unreadable vault cannot be edited; it is left as is.
+    }
+  }
+});
+
+// Also where tokens saved before a secure backend existed still live until `token-store migrate`.
+registerTokenBackend({
+  name: "plaintext",
+  readOnly: false,
+  secure: false,
+  location: () => fallbackFilePath(),
+  available: async () => ({ ok: true }),
+  load: async (userId) => (await loadFallbackTokenMap())[userId],
+  save: async (userId, token) => {
+    const map = await loadFallbackTokenMap();
+    map[userId] = token;
+    await saveFallbackTokenMap(map);
+    return true;
+  },
+  clear: async (userId) => {
+    const map = await loadFallbackTokenMap();
+    if (map[userId] !== undefined) {
+      delete map[userId];
+      await saveFallbackTokenMap(map);
+    }
+  }
+});
+
 async function loadFromMacKeychain(userId: string): Promise<string | undefined> {
   try {
     const { stdout } = await execFileAsync("security", [
@@ -110,33 +540,228 @@ async function clearFromMacKeychain(userId: string): Promise<void> {
   }
 }
 
+// secret-tool exits 1 with no output for a missing entry; a missing binary or an unreachable
+// Secret Service daemon fails differently and means the backend is unavailable.
+function hasSecretTool(): Promise<boolean> {
+  secretToolProbe ??= new Promise((resolve) => {
+    execFile(
+      "secret-tool",
+      ["lookup", "service", KEYCHAIN_SERVICE, "account", "probe"],
+      { timeout: 5000 },
+      (error, _stdout, stderr) => {
+        resolve(!error || (error.code === 1 && String(stderr).trim().length === 0));
+      }
+    );
+  });
+  return secretToolProbe;
+}
+
+async function loadFromSecretService(userId: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync("secret-tool", [
+      "lookup",
+      "service",
+      KEYCHAIN_SERVICE,
+      "account",
+      tokenAccount(userId)
+    ]);
+    const token = stdout.trim();
+    return token.length > 0 ? token : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function saveToSecretService(userId: string, token: string): Promise<boolean> {
+  // The secret is passed on stdin so it never shows up in the process list.
+  return new Promise((resolve) => {
+    const child = execFile(
+      "secret-tool",
+      [
+        "store",
+        `--label=${KEYCHAIN_SERVICE} ${tokenAccount(userId)}`,
+        "service",
+        KEYCHAIN_SERVICE,
+        "account",
+        tokenAccount(userId)
+      ],
+      { timeout: 10_000 },
+      (error) => resolve(!error)
+    );
+    child.stdin?.end(token);
+  });
+}
+
+async function clearFromSecretService(userId: string): Promise<void> {
+  try {
+    await execFileAsync("secret-tool", [
+      "clear",
+      "service",
+      KEYCHAIN_SERVICE,
+      "account",
+      tokenAccount(userId)
+    ]);
+  } catch {
+    // Ignore missing entry and continue.
+  }
+}
+
 function tokenAccount(userId: string): string {
   return `auth:${userId}`;
 }
 
+function vaultPassphrase(): string | undefined {
+  const passphrase = process.env[VAULT_PASSPHRASE_ENV_VAR];
+  return passphrase && passphrase.length > 0 ? passphrase : promptedVaultPassphrases.get(vaultFilePath());
+}
+
+async function vaultKey(passphrase: string, kdf: VaultKdf): Promise<Buffer> {
+  const cacheKey = `${kdf.salt}:${kdf.N}:${kdf.r}:${kdf.p}:${passphrase}`;
+  const cached = vaultKeys.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+  // scrypt needs about 128 * N * r bytes; allow that for vaults written with a higher cost.
+  const maxmem = Math.max(VAULT_SCRYPT.maxmem, 256 * kdf.N * kdf.r);
+  const key = await new Promise<Buffer>((resolve, reject) => {
+    scrypt(
+      passphrase,
+      Buffer.from(kdf.salt, "base64"),
+      32,
+      { N: kdf.N, r: kdf.r, p: kdf.p, maxmem },
+      (error, derived) => (error ? reject(error) : resolve(derived))
+    );
+  });
+  vaultKeys.set(cacheKey, key);
+  return key;
+}
+
+async function readVaultPayload(): Promise<VaultPayload | undefined> {
+  let raw: string;
+  try {
+    raw = await readFile(vaultFilePath(), "utf8");
+  } catch {
+    return undefined;
+  }
+  const parsed = JSON.parse(raw) as Partial<VaultPayload>;
+  if (
+    parsed.cipher !== "aes-256-gcm" ||
+    parsed.kdf?.name !== "scrypt" ||
+    typeof parsed.kdf.salt !== "string" ||
+    ![parsed.kdf.N, parsed.kdf.r, parsed.kdf.p].every(
+      (value) => Number.isSafeInteger(value) && (value ?? 0) > 0
+    ) ||
+    typeof parsed.iv !== "string" ||
+    typeof parsed.tag !== "string" ||
+    typeof parsed.data !== "string"
+  ) {
+    throw new Error("unrecognized vault format");
+  }
+  return parsed as VaultPayload;
+}
+
+// Throws when the vault exists but cannot be decrypted (wrong passphrase or corrupt file).
+async function loadVaultTokenMap(): Promise<TokenMap> {
+  const passphrase = vaultPassphrase();
+  if (!passphrase) {
+    throw new Error(`${VAULT_PASSPHRASE_ENV_VAR} is not set`);
+  }
+  const payload = await readVaultPayload();
+  if (!payload) {
+    return {};
+  }
+  const key = await vaultKey(passphrase, payload.kdf);
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(payload.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(payload.tag, "base64"));
+  let plain: string;
+  try {
+    plain = Buffer.concat([
+      decipher.update(Buffer.from(payload.data, "base64")),
+      decipher.final()
+    ]).toString("utf8");
+  } catch {
+    throw new Error("wrong passphrase or corrupted vault");
+  }
+  return normalizeTokenMap(JSON.parse(plain) as unknown);
+}
+
+async function saveVaultTokenMap(map: TokenMap): Promise<void> {
+  const passphrase = vaultPassphrase();
+  if (!passphrase) {
+    throw new Error(`${VAULT_PASSPHRASE_ENV_VAR} is not set`);
+  }
+  // Keep the salt and cost across writes so the derived key stays cached; the IV is fresh every
+  // time.
+  const existing = await readVaultPayload().catch(() => undefined);
+  const kdf: VaultKdf = existing?.kdf ?? {
+    name: "scrypt",
+    salt: randomBytes(16).toString("base64"),
+    N: VAULT_SCRYPT.N,
+    r: VAULT_SCRYPT.r,
+    p: VAULT_SCRYPT.p
+  };
+  const key = await vaultKey(passphrase, kdf);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(map), "utf8"), cipher.final()]);
+  const payload: VaultPayload = {
+    schemaVersion: VAULT_SCHEMA_VERSION,
+    kdf: { name: "scrypt", salt: kdf.salt, N: kdf.N, r: kdf.r, p: kdf.p },
+    cipher: "aes-256-gcm",
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64")
+  };
+  const file = vaultFilePath();
+  await mkdir(dirname(file), { recursive: true });
+  const tempFile = `${file}.tmp-${process.pid}-${Date.now()}`;
+  await writeFile(tempFile, JSON.stringify(payload, null, 2), {
+    encoding: "utf8",
+    mode: 0o600
+  });
+  await rename(tempFile, file);
+}
+
 async function loadFallbackTokenMap(): Promise<TokenMap> {
   try {
-    const raw = await readFile(FALLBACK_FILE, "utf8");
-    const parsed = JSON.parse(raw) as unknown;
-    if (!parsed || typeof parsed !== "object") {
-      return {};
-    }
-    const out: TokenMap = {};
-    for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
-      if (typeof value === "string" && value.length > 0) {
-        out[key] = value;
-      }
-    }
-    return out;
+    const raw = await readFile(fallbackFilePath(), "utf8");
+    return normalizeTokenMap(JSON.parse(raw) as unknown);
   } catch {
     return {};
   }
 }
 
 async function saveFallbackTokenMap(map: TokenMap): Promise<void> {
-  await mkdir(dirname(FALLBACK_FILE), { recursive: true });
-  await writeFile(FALLBACK_FILE, JSON.stringify(map, null, 2), {
+  const file = fallbackFilePath();
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(map, null, 2), {
     encoding: "utf8",
     mode: 0o600
   });
 }
+
+function normalizeTokenMap(parsed: unknown): TokenMap {
+  if (!parsed || typeof parsed !== "object") {
+    return {};
+  }
+  const out: TokenMap = {};
+  for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (typeof value === "string" && value.length > 0) {
+      out[key] = value;
+    }
+  }
+  return out;
+}
+
+function fallbackFilePath(): string {
+  return join(tokenStoreDir(), "tokens.json");
+}
+
+function vaultFilePath(): string {
+  return join(tokenStoreDir(), "tokens.vault.json");
+}
+
+function tokenStoreDir(): string {
+  const configuredDir = process.env[TOKEN_DIR_ENV_VAR]?.trim();
+  return configuredDir || join(homedir(), ".chagee-cli");
+}
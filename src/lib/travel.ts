@@ -0,0 +1,82 @@
+import type { StoreState, TravelMode } from "../types.js";
+import { isStoreClosed } from "./store-display.js";
+
+export const TRAVEL_MODE_SPEEDS_KMH: Record<TravelMode, number> = {
+  walk: 4.5,
+  cycle: 14,
+  drive: 25
+};
+
+export const DEFAULT_TRAVEL_MODE: TravelMode = "walk";
+
+export function parseTravelMode(input: string | undefined): TravelMode | undefined {
+  const value = input?.trim().toLowerCase();
+  if (value === "walk" || value === "walking") {
+    return "walk";
+  }
+  if (value === "cycle" || value === "bike" || value === "cycling") {
+    return "cycle";
+  }
+  if (value === "drive" || value === "driving" || value === "car") {
+    return "drive";
+  }
+  return undefined;
+}
+
+export function resolveTravelSpeedKmh(
+  mode: TravelMode | undefined,
+  speedKmh?: number | undefined
+): number {
+  if (speedKmh !== undefined && Number.isFinite(speedKmh) && speedKmh > 0) {
+    return speedKmh;
+  }
+  return TRAVEL_MODE_SPEEDS_KMH[mode ?? DEFAULT_TRAVEL_MODE];
+}
+
+// Straight-line distance at a flat speed; good enough to rank stores, not to navigate.
+export function estimateTravelMinutes(
+  distanceMeters: number | undefined,
+  speedKmh = TRAVEL_MODE_SPEEDS_KMH[DEFAULT_TRAVEL_MODE]
+): number | undefined {
+  if (distanceMeters === undefined || !Number.isFinite(distanceMeters) || speedKmh <= 0) {
+    return undefined;
+  }
+  return Math.ceil(distanceMeters / ((speedKmh * 1000) / 60));
+}
+
+// Order on the way: the drink is ready once it is made and you have arrived, whichever is later.
+export function pickupEtaMinutes(store: StoreState, speedKmh: number): number | undefined {
+  const travel = estimateTravelMinutes(store.distanceMeters, speedKmh);
+  if (travel === undefined || store.waitingTime === undefined) {
+    return undefined;
+  }
+  return Math.max(travel, store.waitingTime);
+}
+
+export function sortStoresByEta(stores: StoreState[], speedKmh: number): StoreState[] {
+  const key = (store: StoreState): number =>
+    isStoreClosed(store)
+      ? Number.POSITIVE_INFINITY
+      : (pickupEtaMinutes(store, speedKmh) ?? Number.MAX_SAFE_INTEGER);
+  return [...stores].sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    if (ka !== kb) {
+      return ka < kb ? -1 : 1;
+    }
+    const da = a.distanceMeters ?? Number.POSITIVE_INFINITY;
+    const db = b.distanceMeters ?? Number.POSITIVE_INFINITY;
+    if (da !== db) {
+      return da < db ? -1 : 1;
+    }
+    return a.storeName.localeCompare(b.storeName);
+  });
+}
+
+// Fastest open store with a known ETA; undefined when no store has one.
+export function pickFastestStore(stores: StoreState[], speedKmh: number): StoreState | undefined {
+  const first = sortStoresByEta(stores, speedKmh)[0];
+  return first && !isStoreClosed(first) && pickupEtaMinutes(first, speedKmh) !== undefined
+    ? first
+    : undefined;
+}
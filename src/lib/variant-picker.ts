@@ -0,0 +1,395 @@
+import type { ItemSkuOption, MenuItem } from "../types.js";
+
+export interface VariantPickerRow {
+  item: MenuItem;
+}
+
+// One stage per variant dimension (size, ice, sugar, ...), narrowed by earlier choices.
+export interface MenuVariantPickerState<Row extends VariantPickerRow = VariantPickerRow> {
+  row: Row;
+  options: ItemSkuOption[];
+  parsedOptions: MenuVariantParsedOption[];
+  dimensions: MenuVariantDimension[];
+  stageIndex: number;
+  choiceIndex: number;
+  selectedValues: Array<string | undefined>;
+  qty: number;
+}
+
+export interface MenuVariantDimension {
+  key: string;
+  label: string;
+}
+
+export interface MenuVariantParsedOption {
+  option: ItemSkuOption;
+  summary: string;
+  valuesByDimension: string[];
+}
+
+export interface MenuVariantStageChoice {
+  value: string;
+  priceText: string;
+  previewOption?: ItemSkuOption;
+  combos: number;
+}
+
+export type PickerCommitResult<Row extends VariantPickerRow = VariantPickerRow> =
+  | { mode: "none" }
+  | { mode: "advance"; picker: MenuVariantPickerState<Row> }
+  | { mode: "add"; option: ItemSkuOption };
+
+export function createMenuVariantPickerState<Row extends VariantPickerRow>(
+  row: Row,
+  options: ItemSkuOption[]
+): MenuVariantPickerState<Row> {
+  const parsedSegmentsByOption = options.map((option) => {
+    const summary = option.specText ?? option.name ?? option.skuId;
+    return {
+      option,
+      summary,
+      segments: parseVariantSummarySegments(summary)
+    };
+  });
+
+  const dimensions: MenuVariantDimension[] = [];
+  const dimensionIndex = new Map<string, number>();
+
+  for (const parsed of parsedSegmentsByOption) {
+    for (const segment of parsed.segments) {
+      if (dimensionIndex.has(segment.key)) {
+        continue;
+      }
+      const idx = dimensions.length;
+      dimensionIndex.set(segment.key, idx);
+      dimensions.push({ key: segment.key, label: segment.label });
+    }
+  }
+
+  if (dimensions.length === 0) {
+    dimensions.push({ key: "variant", label: "Variant" });
+    dimensionIndex.set("variant", 0);
+  }
+
+  const orderedDimensions = orderMenuVariantDimensions(dimensions);
+  const parsedOptions: MenuVariantParsedOption[] = parsedSegmentsByOption.map((parsed) => {
+    const valueByKey = new Map<string, string>();
+    for (const segment of parsed.segments) {
+      if (!valueByKey.has(segment.key)) {
+        valueByKey.set(segment.key, segment.value);
+      }
+    }
+    const valuesByDimension = orderedDimensions.map(
+      (dimension) => valueByKey.get(dimension.key) ?? "-"
+    );
+    return {
+      option: parsed.option,
+      summary: parsed.summary,
+      valuesByDimension
+    };
+  });
+
+  const matchedIndex = options.findIndex((option) => option.skuId === row.item.skuId);
+  const defaultIndex = matchedIndex >= 0 ? matchedIndex : 0;
+  const defaultParsed = parsedOptions[defaultIndex] ?? parsedOptions[0];
+  const selectedValues = orderedDimensions.map(
+    (_, idx) => defaultParsed?.valuesByDimension[idx] ?? undefined
+  );
+
+  return syncMenuVariantPicker({
+    row,
+    options,
+    parsedOptions,
+    dimensions: orderedDimensions,
+    stageIndex: 0,
+    choiceIndex: 0,
+    selectedValues,
+    qty: 1
+  });
+}
+
+function parseVariantSummarySegments(summary: string): Array<{
+  key: string;
+  label: string;
+  value: string;
+}> {
+  const segments: Array<{ key: string; label: string; value: string }> = [];
+  const parts = summary
+    .split("|")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+
+  let unnamedIndex = 0;
+  for (const part of parts) {
+    const separator = part.indexOf(":");
+    if (separator > 0) {
+      const label = part.slice(0, separator).trim();
+      const value = part.slice(separator + 1).trim();
+      const key = normalizeDimensionKey(label || `option_${segments.length + 1}`);
+      segments.push({
+        key,
+        label: label || `Option ${segments.length + 1}`,
+        value: value || "-"
+      });
+      continue;
+    }
+    unnamedIndex += 1;
+    const label = unnamedIndex === 1 ? "Variant" : `Variant ${unnamedIndex}`;
+    segments.push({
+      key: normalizeDimensionKey(label),
+      label,
+      value: part
+    });
+  }
+
+  if (segments.length === 0) {
+    segments.push({
+      key: "variant",
+      label: "Variant",
+      value: summary || "-"
+    });
+  }
+  return segments;
+}
+
+function normalizeDimensionKey(raw: string): string {
+  const normalized = raw.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return normalized || "option";
+}
+
+function orderMenuVariantDimensions(dimensions: MenuVariantDimension[]): MenuVariantDimension[] {
+  return dimensions
+    .map((dimension, index) => ({ dimension, index }))
+    .sort((left, right) => {
+      const leftPriority = menuVariantDimensionPriority(left.dimension);
+      const rightPriority = menuVariantDimensionPriority(right.dimension);
+      if (leftPriority !== rightPriority) {
+        return leftPriority - rightPriority;
+      }
+      return left.index - right.index;
+    })
+    .map((entry) => entry.dimension);
+}
+
+function menuVariantDimensionPriority(dimension: MenuVariantDimension): number {
+  const normalized = `${dimension.key} ${dimension.label}`.toLowerCase();
+  if (
+    dimension.key === "variant" ||
+    normalized.includes("size") ||
+    normalized.includes("milk") ||
+    normalized.includes("cup")
+  ) {
+    return 0;
+  }
+  if (normalized.includes("ice")) {
+    return 1;
+  }
+  if (normalized.includes("sweet") || normalized.includes("sugar")) {
+    return 2;
+  }
+  return 10;
+}
+
+export function getMenuVariantStageChoices(picker: MenuVariantPickerState): MenuVariantStageChoice[] {
+  if (picker.dimensions.length === 0) {
+    return [];
+  }
+  const stageIndex = clampIndex(picker.stageIndex, picker.dimensions.length);
+  const filtered = picker.parsedOptions.filter((parsed) =>
+    matchesVariantSelections(parsed, picker.selectedValues, stageIndex)
+  );
+  const grouped = new Map<
+    string,
+    {
+      prices: number[];
+      combos: number;
+      previewOption: ItemSkuOption;
+    }
+  >();
+
+  for (const parsed of filtered) {
+    const value = parsed.valuesByDimension[stageIndex] ?? "-";
+    const existing = grouped.get(value);
+    if (existing) {
+      existing.combos += 1;
+      if (parsed.option.price !== undefined) {
+        existing.prices.push(parsed.option.price);
+      }
+      continue;
+    }
+    grouped.set(value, {
+      prices: parsed.option.price !== undefined ? [parsed.option.price] : [],
+      combos: 1,
+      previewOption: parsed.option
+    });
+  }
+
+  const choices: MenuVariantStageChoice[] = [];
+  for (const [value, info] of grouped.entries()) {
+    choices.push({
+      value,
+      combos: info.combos,
+      previewOption: info.previewOption,
+      priceText: renderPriceRange(info.prices)
+    });
+  }
+
+  return choices;
+}
+
+function matchesVariantSelections(
+  parsed: MenuVariantParsedOption,
+  selectedValues: Array<string | undefined>,
+  untilStageExclusive: number
+): boolean {
+  for (let i = 0; i < untilStageExclusive; i += 1) {
+    const selected = selectedValues[i];
+    if (!selected) {
+      continue;
+    }
+    if ((parsed.valuesByDimension[i] ?? "-") !== selected) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function renderPriceRange(prices: number[]): string {
+  if (prices.length === 0) {
+    return "-";
+  }
+  const finite = prices.filter((price) => Number.isFinite(price));
+  if (finite.length === 0) {
+    return "-";
+  }
+  const min = Math.min(...finite);
+  const max = Math.max(...finite);
+  if (min === max) {
+    return min.toFixed(2);
+  }
+  return `${min.toFixed(2)}-${max.toFixed(2)}`;
+}
+
+export function syncMenuVariantPicker<Row extends VariantPickerRow>(
+  picker: MenuVariantPickerState<Row>
+): MenuVariantPickerState<Row> {
+  if (picker.dimensions.length === 0) {
+    return picker;
+  }
+
+  const stageIndex = clampIndex(picker.stageIndex, picker.dimensions.length);
+  const nextSelected = [...picker.selectedValues];
+  const choices = getMenuVariantStageChoices({ ...picker, stageIndex, selectedValues: nextSelected });
+
+  if (choices.length === 0) {
+    return {
+      ...picker,
+      stageIndex,
+      choiceIndex: 0,
+      selectedValues: nextSelected
+    };
+  }
+
+  const selectedValue = nextSelected[stageIndex];
+  const selectedChoiceIndex =
+    selectedValue !== undefined ? choices.findIndex((choice) => choice.value === selectedValue) : -1;
+  const choiceIndex =
+    selectedChoiceIndex >= 0
+      ? selectedChoiceIndex
+      : clampIndex(picker.choiceIndex, choices.length);
+
+  if (nextSelected[stageIndex] === undefined && choices[choiceIndex]) {
+    nextSelected[stageIndex] = choices[choiceIndex].value;
+  }
+
+  return {
+    ...picker,
+    stageIndex,
+    choiceIndex,
+    selectedValues: nextSelected
+  };
+}
+
+export function commitMenuVariantChoice<Row extends VariantPickerRow>(
+  picker: MenuVariantPickerState<Row>,
+  nextChoiceIndex?: number
+): PickerCommitResult<Row> {
+  const stageChoices = getMenuVariantStageChoices(picker);
+  const choiceIndex = clampIndex(nextChoiceIndex ?? picker.choiceIndex, stageChoices.length);
+  const chosen = stageChoices[choiceIndex];
+  if (!chosen) {
+    return { mode: "none" };
+  }
+
+  const selectedValues = [...picker.selectedValues];
+  selectedValues[picker.stageIndex] = chosen.value;
+  for (let i = picker.stageIndex + 1; i < selectedValues.length; i += 1) {
+    selectedValues[i] = undefined;
+  }
+
+  if (picker.stageIndex + 1 < picker.dimensions.length) {
+    return {
+      mode: "advance",
+      picker: syncMenuVariantPicker({
+        ...picker,
+        selectedValues,
+        stageIndex: picker.stageIndex + 1,
+        choiceIndex: 0
+      })
+    };
+  }
+
+  const completedPicker = syncMenuVariantPicker({
+    ...picker,
+    selectedValues,
+    choiceIndex
+  });
+  const option = resolveMenuVariantOption(completedPicker);
+  if (!option) {
+    return {
+      mode: "advance",
+      picker: completedPicker
+    };
+  }
+  return {
+    mode: "add",
+    option
+  };
+}
+
+export function resolveMenuVariantOption(picker: MenuVariantPickerState): ItemSkuOption | undefined {
+  if (picker.parsedOptions.length === 0 || picker.dimensions.length === 0) {
+    return undefined;
+  }
+  const selectedValues = picker.selectedValues;
+  const fullyMatched = picker.parsedOptions.filter((parsed) =>
+    parsed.valuesByDimension.every((value, idx) => {
+      const selected = selectedValues[idx];
+      return selected !== undefined && value === selected;
+    })
+  );
+  if (fullyMatched.length > 0) {
+    return fullyMatched[0]?.option;
+  }
+
+  const partialMatched = picker.parsedOptions.find((parsed) =>
+    parsed.valuesByDimension.every((value, idx) => {
+      const selected = selectedValues[idx];
+      return selected === undefined || value === selected;
+    })
+  );
+  return partialMatched?.option;
+}
+
+function clampIndex(index: number, len: number): number {
+  if (len <= 0) {
+    return 0;
+  }
+  if (index < 0) {
+    return 0;
+  }
+  if (index >= len) {
+    return len - 1;
+  }
+  return index;
+}
@@ -0,0 +1,141 @@
+import type { AppliedVoucher } from "../types.js";
+
+export interface Voucher {
+  id: string;
+  code?: string | undefined;
+  name: string;
+  discount?: number | undefined;
+  minSpend?: number | undefined;
+  expiresAt?: string | undefined;
+  usable: boolean;
+  reason?: string | undefined;
+}
+
+const VOUCHER_LIST_KEYS = ["couponList", "usableCouponList", "list", "records", "pageList"];
+const UNUSABLE_LIST_KEYS = ["unusableCouponList", "disableCouponList"];
+
+// Parse the wallet response into vouchers. Usable and unusable coupons may come
+// back as separate lists; unusable ones are kept so `voucher list` can explain why.
+export function parseVoucherList(data: unknown): Voucher[] {
+  const root = Array.isArray(data) ? { list: data } : (asRecord(data) ?? {});
+  const out: Voucher[] = [];
+  const seen = new Set<string>();
+  const push = (raw: unknown, forceUnusable: boolean): void => {
+    const voucher = parseVoucher(raw, forceUnusable);
+    if (voucher && !seen.has(voucher.id)) {
+      seen.add(voucher.id);
+      out.push(voucher);
+    }
+  };
+  for (const key of VOUCHER_LIST_KEYS) {
+    const list = root[key];
+    if (Array.isArray(list)) {
+      list.forEach((raw) => push(raw, false));
+    }
+  }
+  for (const key of UNUSABLE_LIST_KEYS) {
+    const list = root[key];
+    if (Array.isArray(list)) {
+      list.forEach((raw) => push(raw, true));
+    }
+  }
+  return out;
+}
+
+// Match by list index (1-based), id or code; ids and codes ignore case.
+export function findVoucher(vouchers: Voucher[], ref: string): Voucher | undefined {
+  const trimmed = ref.trim();
+  if (/^\d+$/.test(trimmed) && trimmed.length <= 3) {
+    const byIndex = vouchers[Number.parseInt(trimmed, 10) - 1];
+    if (byIndex) {
+      return byIndex;
+    }
+  }
+  const needle = trimmed.toLowerCase();
+  return vouchers.find(
+    (voucher) => voucher.id.toLowerCase() === needle || voucher.code?.toLowerCase() === needle
+  );
+}
+
+export function toAppliedVoucher(voucher: Voucher): AppliedVoucher {
+  return {
+    id: voucher.id,
+    code: voucher.code,
+    name: voucher.name,
+    discount: voucher.discount
+  };
+}
+
+export function describeAppliedVoucher(voucher: AppliedVoucher): string {
+  return voucher.code && voucher.code !== voucher.id
+    ? `${voucher.name ?? voucher.code} (${voucher.code})`
+    : (voucher.name ?? voucher.id);
+}
+
+// Shape sent as `promotionList` (quote) and `discountInfos` (create).
+export function buildVoucherPromotionList(
+  vouchers: AppliedVoucher[] | undefined
+): Record<string, unknown>[] {
+  return (vouchers ?? []).map((voucher) => ({
+    promotionType: "COUPON",
+    couponId: voucher.id,
+    couponCode: voucher.code ?? voucher.id,
+    selected: true
+  }));
+}
+
+function parseVoucher(raw: unknown, forceUnusable: boolean): Voucher | undefined {
+  const obj = asRecord(raw);
+  if (!obj) {
+    return undefined;
+  }
+  const id = asId(obj.couponId) ?? asId(obj.userCouponId) ?? asId(obj.id) ?? asId(obj.couponCode);
+  if (!id) {
+    return undefined;
+  }
+  const code = asId(obj.couponCode) ?? asId(obj.code);
+  const usableFlag = obj.usable ?? obj.available ?? obj.canUse;
+  const usable = !forceUnusable && usableFlag !== false && usableFlag !== 0;
+  return {
+    id,
+    code,
+    name: asId(obj.couponName) ?? asId(obj.name) ?? asId(obj.title) ?? code ?? id,
+    discount: firstAmount(obj, ["discountAmount", "reduceAmount", "couponAmount", "amount"]),
+    minSpend: firstAmount(obj, ["minAmount", "thresholdAmount", "useThreshold", "minSpend"]),
+    expiresAt: asId(obj.endTime) ?? asId(obj.expireTime) ?? asId(obj.validEndTime),
+    usable,
+    reason: asId(obj.unusableReason) ?? asId(obj.reason)
+  };
+}
+
+function firstAmount(obj: Record<string, unknown>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = obj[key];
+    const parsed =
+      typeof value === "number"
+        ? value
+        : typeof value === "string" && value.trim().length > 0
+          ? Number(value)
+          : Number.NaN;
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+  return undefined;
+}
+
+function asId(value: unknown): string | undefined {
+  if (typeof value === "string" && value.length > 0) {
+    return value;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  return undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
@@ -0,0 +1,125 @@
+import type { StoreState } from "../types.js";
+import { isStoreClosed } from "./store-display.js";
+import { estimateTravelMinutes } from "./travel.js";
+import { buildBusynessProfile, median } from "./wait-history.js";
+import type { WaitSample } from "./wait-history.js";
+
+export type ForecastBasis = "weekday-hour" | "hour" | "live" | "none";
+export type ForecastSort = "ready" | "wait" | "travel" | "distance";
+
+export interface WaitForecast {
+  expectedWait?: number | undefined;
+  basis: ForecastBasis;
+  samples: number;
+}
+
+export interface StoreForecast {
+  store: StoreState;
+  forecast: WaitForecast;
+  travelMinutes?: number | undefined;
+  readyAt?: Date | undefined;
+}
+
+export const FORECAST_MIN_SAMPLES = 2;
+
+// Expected wait at `target`: the same weekday and hour if recorded, else that hour on any
+// day, else the store's current wait.
+export function forecastWait(
+  samples: WaitSample[],
+  target: Date,
+  current?: number | undefined,
+  minSamples = FORECAST_MIN_SAMPLES
+): WaitForecast {
+  const profile = buildBusynessProfile(samples);
+  const weekday = target.getDay();
+  const hour = target.getHours();
+
+  const exact = profile.buckets.find(
+    (bucket) => bucket.weekday === weekday && bucket.hour === hour
+  );
+  if (exact?.medianWait !== undefined && exact.samples >= minSamples) {
+    return { expectedWait: exact.medianWait, basis: "weekday-hour", samples: exact.samples };
+  }
+
+  const sameHour = samples
+    .filter((sample) => new Date(sample.at).getHours() === hour)
+    .flatMap((sample) => (sample.waitingTime !== undefined ? [sample.waitingTime] : []));
+  const anyDay = sameHour.length >= minSamples ? median(sameHour) : undefined;
+  if (anyDay !== undefined) {
+    return { expectedWait: anyDay, basis: "hour", samples: sameHour.length };
+  }
+
+  if (current !== undefined) {
+    return { expectedWait: current, basis: "live", samples: 0 };
+  }
+  return { basis: "none", samples: 0 };
+}
+
+// Ordering at `target` on the way: the drink is in hand once it is made and you have arrived.
+export function buildStoreForecasts(
+  stores: StoreState[],
+  samplesByStore: Map<string, WaitSample[]>,
+  target: Date,
+  speedKmh: number
+): StoreForecast[] {
+  return stores.map((store) => {
+    const samples = samplesByStore.get(store.storeNo) ?? [];
+    const forecast = forecastWait(samples, target, store.waitingTime);
+    const travelMinutes = estimateTravelMinutes(store.distanceMeters, speedKmh);
+    const readyAt =
+      forecast.expectedWait !== undefined
+        ? new Date(
+            target.getTime() + Math.max(forecast.expectedWait, travelMinutes ?? 0) * 60_000
+          )
+        : undefined;
+    return { store, forecast, travelMinutes, readyAt };
+  });
+}
+
+export function parseForecastSort(input: string | undefined): ForecastSort | undefined {
+  if (input === undefined) {
+    return "ready";
+  }
+  return input === "ready" || input === "wait" || input === "travel" || input === "distance"
+    ? input
+    : undefined;
+}
+
+export function sortStoreForecasts(
+  forecasts: StoreForecast[],
+  sortBy: ForecastSort
+): StoreForecast[] {
+  const key = (entry: StoreForecast): number => {
+    switch (sortBy) {
+      case "wait":
+        return entry.forecast.expectedWait ?? Number.POSITIVE_INFINITY;
+      case "travel":
+        return entry.travelMinutes ?? Number.POSITIVE_INFINITY;
+      case "distance":
+        return entry.store.distanceMeters ?? Number.POSITIVE_INFINITY;
+      default:
+        return entry.readyAt?.getTime() ?? Number.POSITIVE_INFINITY;
+    }
+  };
+  // Stores closed right now rank last; the list has no opening hours to say otherwise.
+  return [...forecasts].sort(
+    (a, b) =>
+      Number(isStoreClosed(a.store)) - Number(isStoreClosed(b.store)) ||
+      key(a) - key(b) ||
+      a.store.storeName.localeCompare(b.store.storeName)
+  );
+}
+
+export function describeForecastBasis(forecast: WaitForecast, target: Date): string {
+  const hour = `${String(target.getHours()).padStart(2, "0")}h`;
+  switch (forecast.basis) {
+    case "weekday-hour":
+      return `${hour} same day (${forecast.samples})`;
+    case "hour":
+      return `${hour} any day (${forecast.samples})`;
+    case "live":
+      return "now";
+    default:
+      return "-";
+  }
+}
@@ -0,0 +1,272 @@
+import { appendFile, mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+import type { StoreState } from "../types.js";
+import { isStoreClosed } from "./store-display.js";
+
+export interface WaitSample {
+  storeNo: string;
+  at: string;
+  waitingCups?: number | undefined;
+  waitingTime?: number | undefined;
+}
+
+export interface BusynessBucket {
+  weekday: number;
+  hour: number;
+  samples: number;
+  medianWait?: number | undefined;
+  medianCups?: number | undefined;
+}
+
+export interface BusynessProfile {
+  samples: number;
+  from?: string | undefined;
+  to?: string | undefined;
+  buckets: BusynessBucket[];
+}
+
+export interface BestTimeSuggestion {
+  best?: BusynessBucket | undefined;
+  next?: { bucket: BusynessBucket; at: Date } | undefined;
+}
+
+const WAIT_HISTORY_DIR_ENV_VAR = "CHAGEE_CLI_HOME";
+const WAIT_HISTORY_MAX_AGE_MS = 56 * 24 * 60 * 60 * 1000;
+const WAIT_HISTORY_MAX_BYTES = 16 * 1024 * 1024;
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// The watch loop polls every few seconds; one sample per store per minute is plenty for hourly stats.
+export const WAIT_SAMPLE_MIN_INTERVAL_MS = 60 * 1000;
+export const BEST_TIME_MIN_SAMPLES = 3;
+
+export function waitHistoryFilePath(): string {
+  return resolveWaitHistoryFile();
+}
+
+// Closed stores report an empty queue; sampling them would make closing hours look quiet.
+export function toWaitSamples(stores: StoreState[], at: Date): WaitSample[] {
+  return stores
+    .filter((store) => !isStoreClosed(store))
+    .filter((store) => store.waitingCups !== undefined || store.waitingTime !== undefined)
+    .map((store) => ({
+      storeNo: store.storeNo,
+      at: at.toISOString(),
+      waitingCups: store.waitingCups,
+      waitingTime: store.waitingTime
+    }));
+}
+
+// Samples are appended as JSON lines so the watch loop never rewrites the whole file.
+export async function appendWaitSamples(samples: WaitSample[]): Promise<void> {
+  if (samples.length === 0) {
+    return;
+  }
+  const file = resolveWaitHistoryFile();
+  await mkdir(dirname(file), { recursive: true });
+  const lines = samples.map((sample) => JSON.stringify(sample)).join("\n");
+  await appendFile(file, `${lines}\n`, { encoding: "utf8", mode: 0o600 });
+
+  const size = (await stat(file)).size;
+  if (size > WAIT_HISTORY_MAX_BYTES) {
+    await compactWaitHistory(file);
+  }
+}
+
+export async function loadWaitSamples(storeNo?: string, since?: Date): Promise<WaitSample[]> {
+  let raw: string;
+  try {
+    raw = await readFile(resolveWaitHistoryFile(), "utf8");
+  } catch {
+    return [];
+  }
+  const sinceMs = since?.getTime() ?? Number.NEGATIVE_INFINITY;
+  return parseWaitSampleLines(raw).filter(
+    (sample) =>
+      (storeNo === undefined || sample.storeNo === storeNo) && Date.parse(sample.at) >= sinceMs
+  );
+}
+
+// Bucket by local weekday and hour; medians keep one rush spike from skewing the typical wait.
+export function buildBusynessProfile(samples: WaitSample[]): BusynessProfile {
+  const groups = new Map<
+    string,
+    { weekday: number; hour: number; waits: number[]; cups: number[]; samples: number }
+  >();
+  let from: number | undefined;
+  let to: number | undefined;
+  for (const sample of samples) {
+    const ms = Date.parse(sample.at);
+    if (!Number.isFinite(ms)) {
+      continue;
+    }
+    from = from === undefined ? ms : Math.min(from, ms);
+    to = to === undefined ? ms : Math.max(to, ms);
+    const date = new Date(ms);
+    const weekday = date.getDay();
+    const hour = date.getHours();
+    const key = `${weekday}:${hour}`;
+    const group = groups.get(key) ?? { weekday, hour, waits: [], cups: [], samples: 0 };
+    group.samples += 1;
+    if (sample.waitingTime !== undefined) {
+      group.waits.push(sample.waitingTime);
+    }
+    if (sample.waitingCups !== undefined) {
+      group.cups.push(sample.waitingCups);
+    }
+    groups.set(key, group);
+  }
+
+  const buckets = [...groups.values()]
+    .map((group) => ({
+      weekday: group.weekday,
+      hour: group.hour,
+      samples: group.samples,
+      medianWait: median(group.waits),
+      medianCups: median(group.cups)
+    }))
+    .sort((a, b) => mondayFirst(a.weekday) - mondayFirst(b.weekday) || a.hour - b.hour);
+
+  return {
+    samples: buckets.reduce((sum, bucket) => sum + bucket.samples, 0),
+    from: from !== undefined ? new Date(from).toISOString() : undefined,
+    to: to !== undefined ? new Date(to).toISOString() : undefined,
+    buckets
+  };
+}
+
+// `best` is the quietest slot of the week; `next` is the quietest slot in the coming 24 hours.
+export function suggestBestTimes(
+  profile: BusynessProfile,
+  now: Date,
+  minSamples = BEST_TIME_MIN_SAMPLES
+): BestTimeSuggestion {
+  const candidates = profile.buckets.filter(
+    (bucket) => bucket.samples >= minSamples && bucket.medianWait !== undefined
+  );
+  const best = pickQuietest(candidates);
+
+  const byKey = new Map(candidates.map((bucket) => [`${bucket.weekday}:${bucket.hour}`, bucket]));
+  const upcoming: Array<{ bucket: BusynessBucket; at: Date }> = [];
+  const slot = new Date(now.getTime());
+  slot.setMinutes(0, 0, 0);
+  for (let offset = 0; offset < 24; offset += 1) {
+    const at = new Date(slot.getTime());
+    at.setHours(slot.getHours() + offset);
+    const bucket = byKey.get(`${at.getDay()}:${at.getHours()}`);
+    if (bucket) {
+      upcoming.push({ bucket, at });
+    }
+  }
+  const nextBucket = pickQuietest(upcoming.map((entry) => entry.bucket));
+  const next = upcoming.find((entry) => entry.bucket === nextBucket);
+
+  return { best, next };
+}
+
+export function formatWeekday(weekday: number): string {
+  return WEEKDAY_NAMES[weekday] ?? "?";
+}
+
+export function formatBucketSlot(bucket: Pick<BusynessBucket, "weekday" | "hour">): string {
+  return `${formatWeekday(bucket.weekday)} ${String(bucket.hour).padStart(2, "0")}:00`;
+}
+
+// Weekday order for display: Mon..Sun.
+export function mondayFirst(weekday: number): number {
+  return (weekday + 6) % 7;
+}
+
+function pickQuietest(buckets: BusynessBucket[]): BusynessBucket | undefined {
+  let best: BusynessBucket | undefined;
+  for (const bucket of buckets) {
+    if (!best) {
+      best = bucket;
+      continue;
+    }
+    const waitDiff = (bucket.medianWait ?? Infinity) - (best.medianWait ?? Infinity);
+    const cupsDiff = (bucket.medianCups ?? Infinity) - (best.medianCups ?? Infinity);
+    if (waitDiff < 0 || (waitDiff === 0 && cupsDiff < 0)) {
+      best = bucket;
+    }
+  }
+  return best;
+}
+
+export function median(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const value =
+    sorted.length % 2 === 1 ? sorted[mid] : ((sorted[mid - 1] ?? 0) + (sorted[mid] ?? 0)) / 2;
+  return value !== undefined ? Math.round(value * 10) / 10 : undefined;
+}
+
+// Drop samples past the retention window; if the file is still too large keep the newest half.
+async function compactWaitHistory(file: string): Promise<void> {
+  const cutoff = Date.now() - WAIT_HISTORY_MAX_AGE_MS;
+  let samples = parseWaitSampleLines(await readFile(file, "utf8")).filter(
+    (sample) => Date.parse(sample.at) >= cutoff
+  );
+  let body = samples.map((sample) => JSON.stringify(sample)).join("\n");
+  if (body.length > WAIT_HISTORY_MAX_BYTES / 2) {
+    samples = samples.slice(Math.floor(samples.length / 2));
+    body = samples.map((sample) => JSON.stringify(sample)).join("\n");
+  }
+  const tempFile = `${file}.tmp-${process.pid}-${Date.now()}`;
+  await writeFile(tempFile, body.length > 0 ? `${body}\n` : "", { encoding: "utf8", mode: 0o600 });
+  await rename(tempFile, file);
+}
+
+function parseWaitSampleLines(raw: string): WaitSample[] {
+  const out: WaitSample[] = [];
+  for (const line of raw.split("\n")) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+    try {
+      const sample = normalizeWaitSample(JSON.parse(line) as unknown);
+      if (sample) {
+        out.push(sample);
+      }
+    } catch {
+      // A torn line from an interrupted append; skip it.
+    }
+  }
+  return out;
+}
+
+function normalizeWaitSample(raw: unknown): WaitSample | undefined {
+  if (!raw || typeof raw !== "object") {
+    return undefined;
+  }
+  const obj = raw as Record<string, unknown>;
+  if (
+    typeof obj.storeNo !== "string" ||
+    typeof obj.at !== "string" ||
+    !Number.isFinite(Date.parse(obj.at))
+  ) {
+    return undefined;
+  }
+  const waitingCups = finiteNumber(obj.waitingCups);
+  const waitingTime = finiteNumber(obj.waitingTime);
+  if (waitingCups === undefined && waitingTime === undefined) {
+    return undefined;
+  }
+  return { storeNo: obj.storeNo, at: obj.at, waitingCups, waitingTime };
+}
+
+function finiteNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function resolveWaitHistoryFile(): string {
+  const configuredDir = process.env[WAIT_HISTORY_DIR_ENV_VAR]?.trim();
+  if (configuredDir) {
+    return join(configuredDir, "wait-history.jsonl");
+  }
+  return join(homedir(), ".chagee-cli", "wait-history.jsonl");
+}
@@ -0,0 +1,114 @@
+import type { StoreState } from "../types.js";
+import { isStoreClosed } from "./store-display.js";
+
+export type WatchAlertMetric = "wait" | "cups";
+export type WatchAlertOp = "<=" | "<" | ">=" | ">" | "=";
+
+export type WatchAlertCondition =
+  | { metric: WatchAlertMetric; op: WatchAlertOp; value: number }
+  | { metric: "open" };
+
+export interface WatchAlertRule {
+  id: string;
+  storeNo: string;
+  conditions: WatchAlertCondition[];
+  once: boolean;
+}
+
+export interface WatchAlertEvaluation {
+  met: boolean;
+  seen: boolean;
+  summary: string;
+}
+
+const CONDITION_PATTERN = /^(wait|cups)(<=|>=|<|>|=)(\d+(?:\.\d+)?)$/i;
+
+// Parse `store=<no> wait<=5 cups<=3 open [once]`; all conditions must hold for the rule to fire.
+export function parseWatchAlertRule(
+  tokens: string[],
+  id: string
+): { rule?: WatchAlertRule | undefined; error?: string | undefined } {
+  let storeNo: string | undefined;
+  let once = false;
+  const conditions: WatchAlertCondition[] = [];
+  for (const token of tokens) {
+    const trimmed = token.trim();
+    if (trimmed.length === 0) {
+      continue;
+    }
+    if (/^store=/i.test(trimmed)) {
+      storeNo = trimmed.slice("store=".length).trim() || undefined;
+      continue;
+    }
+    if (trimmed.toLowerCase() === "once") {
+      once = true;
+      continue;
+    }
+    if (trimmed.toLowerCase() === "open") {
+      conditions.push({ metric: "open" });
+      continue;
+    }
+    const match = CONDITION_PATTERN.exec(trimmed);
+    if (!match) {
+      return { error: `Unknown alert condition: ${trimmed}` };
+    }
+    conditions.push({
+      metric: (match[1] ?? "wait").toLowerCase() as WatchAlertMetric,
+      op: match[2] as WatchAlertOp,
+      value: Number(match[3])
+    });
+  }
+  if (!storeNo) {
+    return { error: "Alert rule needs store=<storeNo>" };
+  }
+  if (conditions.length === 0) {
+    return { error: "Alert rule needs at least one of wait<=N, cups<=N, open" };
+  }
+  return { rule: { id, storeNo, conditions, once } };
+}
+
+export function describeWatchAlertRule(rule: WatchAlertRule): string {
+  return `${rule.storeNo} ${rule.conditions.map(describeCondition).join(" ")}`;
+}
+
+export function evaluateWatchAlertRule(
+  rule: WatchAlertRule,
+  store: StoreState | undefined
+): WatchAlertEvaluation {
+  if (!store) {
+    return { met: false, seen: false, summary: `${rule.storeNo} not in store list` };
+  }
+  const met = rule.conditions.every((condition) => conditionHolds(condition, store));
+  const parts = [
+    `wait ${store.waitingTime !== undefined ? `${store.waitingTime}min` : "?"}`,
+    `cups ${store.waitingCups ?? "?"}`,
+    isStoreClosed(store) ? "closed" : "open"
+  ];
+  return { met, seen: true, summary: `${store.storeName} (${store.storeNo}): ${parts.join(", ")}` };
+}
+
+function conditionHolds(condition: WatchAlertCondition, store: StoreState): boolean {
+  if (condition.metric === "open") {
+    return !isStoreClosed(store);
+  }
+  const actual = condition.metric === "wait" ? store.waitingTime : store.waitingCups;
+  if (actual === undefined) {
+    return false;
+  }
+  switch (condition.op) {
+    case "<=":
+      return actual <= condition.value;
+    case "<":
+      return actual < condition.value;
+    case ">=":
+      return actual >= condition.value;
+    case ">":
+      return actual > condition.value;
+    default:
+      return actual === condition.value;
+  }
+}
+
+function describeCondition(condition: WatchAlertCondition): string {
+  return condition.metric === "open" ? "open" : `${condition.metric}${condition.op}${condition.value}`;
+}
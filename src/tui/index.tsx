@@ -3,9 +3,20 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Box, Text, render, useApp, useInput, useStdin, useStdout } from "ink";
 
+import type { CassetteOptions } from "../api/cassette.js";
+import type { RegionProfile } from "../config/regions.js";
 import { App } from "../index.js";
 import { formatStoreDisplayName } from "../lib/store-display.js";
 import { derivePhase } from "../lib/state.js";
+import { formatAmount } from "../lib/format.js";
+import { authExpiry, formatExpiryRemaining } from "../lib/auth-token.js";
+import {
+  commitMenuVariantChoice,
+  createMenuVariantPickerState,
+  getMenuVariantStageChoices,
+  syncMenuVariantPicker
+} from "../lib/variant-picker.js";
+import type { MenuVariantPickerState as VariantPickerState } from "../lib/variant-picker.js";
 import type {
   AppPhase,
   AppState,
@@ -15,6 +26,7 @@ import type {
   LocationSource,
   MenuCategory,
   MenuItem,
+  QuoteState,
   StoreState
 } from "../types.js";
 
@@ -31,34 +43,7 @@ interface MenuPaneView {
   visibleItemIndices: Array<number | undefined>;
 }
 
-interface MenuVariantPickerState {
-  row: MenuRow;
-  options: ItemSkuOption[];
-  parsedOptions: MenuVariantParsedOption[];
-  dimensions: MenuVariantDimension[];
-  stageIndex: number;
-  choiceIndex: number;
-  selectedValues: Array<string | undefined>;
-  qty: number;
-}
-
-interface MenuVariantDimension {
-  key: string;
-  label: string;
-}
-
-interface MenuVariantParsedOption {
-  option: ItemSkuOption;
-  summary: string;
-  valuesByDimension: string[];
-}
-
-interface MenuVariantStageChoice {
-  value: string;
-  priceText: string;
-  previewOption?: ItemSkuOption;
-  combos: number;
-}
+type MenuVariantPickerState = VariantPickerState<MenuRow>;
 
 interface LayoutMetrics {
   cols: number;
@@ -145,19 +130,47 @@ const ALL_SLASH_COMMANDS: SlashCommandHint[] = [
   },
   { command: "otp <code>", description: "legacy OTP verify for login", insert: "otp " },
   { command: "logout", description: "clear authenticated session" },
+  { command: "account list", description: "saved accounts; * marks the active one" },
+  { command: "account use <alias>", description: "switch login, guest token and store", insert: "account use " },
+  { command: "account add <alias>", description: "save current login or start a new account", insert: "account add " },
+  { command: "account rm <alias>", description: "forget a saved account", insert: "account rm " },
+  { command: "token-store backend", description: "where auth tokens are stored" },
+  { command: "token-store migrate", description: "move plaintext tokens into the secure store" },
+  { command: "token-store set order=", description: "token backend priority (env,cmd,keychain,...)" },
+  { command: "token-store set token-cmd=", description: "command that prints the auth token" },
   { command: "locate", description: "precise browser geolocation for distance sorting" },
-  { command: "stores", description: "list stores by distance/wait/cups/name" },
+  { command: "stores", description: "list stores by distance/wait/cups/name/eta" },
+  { command: "stores sort=eta", description: "rank stores by travel + wait pickup time" },
+  { command: "stores stats <storeNo>", description: "typical wait by weekday/hour and best time", insert: "stores stats " },
+  { command: "stores forecast at=<HH:MM>", description: "rank stores by drink-in-hand time", insert: "stores forecast at=" },
   { command: "watch on", description: "auto-refresh stores every few seconds" },
   { command: "watch off", description: "stop live store auto-refresh" },
+  { command: "watch alert store=<storeNo> wait<=5", description: "alert when a store's wait drops", insert: "watch alert store=" },
+  { command: "watch alert", description: "list watch alert rules" },
   { command: "use <storeNo>", description: "choose active pickup store", insert: "use " },
   { command: "wait", description: "refresh wait/cup info for selected store" },
-  { command: "menu", description: "fetch store menu" },
+  { command: "travel <walk|cycle|drive>", description: "travel mode/speed for eta ranking", insert: "travel " },
+  { command: "menu", description: "show store menu (cached)" },
   { command: "item <spuId>", description: "show SKU options for an item", insert: "item " },
+  { command: "menu compare <spuId|name>", description: "compare an item across nearby stores", insert: "menu compare " },
+  { command: "menu diff", description: "show menu changes since the last snapshot" },
+  { command: "menu notify on", description: "alert on new or restocked drinks" },
+  { command: "menu refresh", description: "refetch the selected store's menu" },
+  { command: "menu cache", description: "show cached menus and their age" },
+  { command: "menu search <text>", description: "fuzzy search the menu", insert: "menu search " },
+  { command: "alias", description: "list menu search aliases" },
+  { command: "alias <name> = <text>", description: "save a menu search shortcut", insert: "alias " },
   { command: "add <skuId>", description: "add SKU into cart", insert: "add " },
+  { command: 'add "<item> <options> x2"', description: "add by name, size, sugar and ice", insert: 'add "' },
   { command: "qty <item> <n>", description: "change cart item quantity", insert: "qty " },
   { command: "rm <item>", description: "remove cart item", insert: "rm " },
   { command: "clear", description: "clear cart contents" },
   { command: "cart", description: "show cart lines and totals" },
+  { command: "fulfillment pickup", description: "collect the order at the store" },
+  { command: "fulfillment delivery", description: "deliver to the active address" },
+  { command: "address", description: "list saved delivery addresses" },
+  { command: "address add <label> <street>", description: "save a delivery address", insert: "address add " },
+  { command: "address use <label>", description: "deliver to a saved address", insert: "address use " },
   { command: "quote", description: "request price quote" },
   { command: "live on", description: "enable real order creation mode" },
   { command: "live off", description: "switch back to dry-run mode" },
@@ -167,6 +180,21 @@ const ALL_SLASH_COMMANDS: SlashCommandHint[] = [
   { command: "orders", description: "show local successful order history" },
   { command: "orders show <ref>", description: "inspect one history entry", insert: "orders show " },
   { command: "reorder <ref>", description: "rebuild cart from order history", insert: "reorder " },
+  { command: "fav", description: "list saved drink presets" },
+  { command: "fav save <name> <item>", description: "save a cart item as a preset", insert: "fav save " },
+  { command: "fav add <name>", description: "add a saved preset to the cart", insert: "fav add " },
+  { command: "fav rm <name>", description: "delete a saved preset", insert: "fav rm " },
+  { command: "group start <name>", description: "open a shared group order", insert: "group start " },
+  { command: "group", description: "show lines collected in the active group" },
+  { command: "group add <owner> <skuId>", description: "append a line to the group", insert: "group add " },
+  { command: "group close", description: "merge group lines into the cart" },
+  { command: "split", description: "per-person bill split from the quote" },
+  { command: "schedule place at=<HH:MM>", description: "place the cart later if the wait is short", insert: "schedule place at=" },
+  { command: "schedule", description: "list scheduled place jobs" },
+  { command: "schedule cancel <id>", description: "cancel a scheduled job", insert: "schedule cancel " },
+  { command: "voucher", description: "list vouchers in your wallet" },
+  { command: "voucher apply <code>", description: "apply a voucher to quote/place", insert: "voucher apply " },
+  { command: "voucher clear", description: "remove applied vouchers" },
   { command: "pay", description: "guided payment (create/open payment link)" },
   { command: "pay status", description: "check payment status for latest order" },
   { command: "pay await", description: "poll payment status until success/failure/timeout" },
@@ -203,6 +231,8 @@ interface RunTuiOptions {
   yolo?: boolean;
   autoLocate?: boolean;
   locationPolicy?: LocationPolicy;
+  regionOverrides?: Partial<RegionProfile> | undefined;
+  cassette?: CassetteOptions | undefined;
 }
 
 export async function runTui(options: RunTuiOptions = {}): Promise<void> {
@@ -211,7 +241,13 @@ export async function runTui(options: RunTuiOptions = {}): Promise<void> {
   const locationPolicy = options.locationPolicy ?? "smart";
   const restoreTerminal = enterInteractiveSession(process.stdout);
   const instance = render(
-    <TuiRoot yolo={yolo} autoLocate={autoLocate} locationPolicy={locationPolicy} />,
+    <TuiRoot
+      yolo={yolo}
+      autoLocate={autoLocate}
+      locationPolicy={locationPolicy}
+      regionOverrides={options.regionOverrides}
+      cassette={options.cassette}
+    />,
     { exitOnCtrlC: false }
   );
   const teardown = (): void => {
@@ -235,10 +271,19 @@ interface TuiRootProps {
   yolo: boolean;
   autoLocate: boolean;
   locationPolicy: LocationPolicy;
+  regionOverrides?: Partial<RegionProfile> | undefined;
+  cassette?: CassetteOptions | undefined;
 }
 
 function TuiRoot(props: TuiRootProps): React.JSX.Element {
-  const appRef = useRef(new App({ yolo: props.yolo, locationPolicy: props.locationPolicy }));
+  const appRef = useRef(
+    new App({
+      yolo: props.yolo,
+      locationPolicy: props.locationPolicy,
+      regionOverrides: props.regionOverrides,
+      cassette: props.cassette
+    })
+  );
   const queueRef = useRef(Promise.resolve());
   const stoppingRef = useRef(false);
   const autoWatchStartedRef = useRef(false);
@@ -314,6 +359,7 @@ function TuiRoot(props: TuiRootProps): React.JSX.Element {
   );
   const cartLines = appState?.cart ?? [];
   const phase: AppPhase = appState ? derivePhase(appState) : "UNAUTH";
+  const loginExpiry = authExpiry(appState?.auth?.expiresAt);
   const slashHints = useMemo(
     () => getSlashHints(commandInput, slashCommands),
     [commandInput, slashCommands]
@@ -1194,7 +1240,7 @@ function TuiRoot(props: TuiRootProps): React.JSX.Element {
     focusPane === "cart",
     cartPaneTextWidth,
     Math.max(1, layout.paneHeight - 2),
-    appState?.quote?.total
+    appState?.quote
   );
 
   return (
@@ -1209,7 +1255,17 @@ function TuiRoot(props: TuiRootProps): React.JSX.Element {
       </Box>
       <Box justifyContent="space-between">
         <Text color="white">
-          Phase:{phase} Mode:{appState?.session.mode ?? "dry-run"} Region:
+          Account:{appState?.session.account ?? "-"}
+          {loginExpiry && loginExpiry.status !== "valid" ? (
+            <Text color={loginExpiry.status === "expired" ? "redBright" : "yellowBright"}>
+              {loginExpiry.status === "expired"
+                ? " Auth:EXPIRED"
+                : ` Auth:exp ${formatExpiryRemaining(loginExpiry.remainingMs)}`}
+            </Text>
+          ) : null}{" "}
+          Phase:{phase} Mode:
+          {appState?.session.mode ?? "dry-run"} Fulfil:
+          {appState?.session.fulfillment ?? "pickup"} Region:
           {appState?.session.region ?? "-"} Shell:{props.yolo ? "YOLO" : "SAFE"} Watch:
           {watchEnabled ? "ON" : "OFF"} Mouse:text-select Loc:
           {formatCoord(appState?.session.latitude)},{formatCoord(appState?.session.longitude)}
@@ -1220,6 +1276,9 @@ function TuiRoot(props: TuiRootProps): React.JSX.Element {
             appState?.selectedStore ? formatStoreDisplayName(appState.selectedStore) : "-",
             30
           )}
+          {appState?.session.fulfillment === "delivery" && appState.selectedStore?.deliveryTime
+            ? ` ETA:${appState.selectedStore.deliveryTime}`
+            : ""}
         </Text>
       </Box>
       <Text color="gray">
@@ -1694,7 +1753,7 @@ function buildCartPaneLines(
   focused: boolean,
   width: number,
   maxLines: number,
-  quoteTotal?: string
+  quote?: QuoteState
 ): string[] {
   const itemWidth = Math.max(4, "Item".length, String(Math.max(1, cart.length)).length);
   const qtyWidth = Math.max(3, "Qty".length);
@@ -1769,11 +1828,30 @@ function buildCartPaneLines(
 
   const footerBlock = [
     `Subtotal: ${subtotal > 0 ? subtotal.toFixed(2) : "-"}`,
-    `Quote total: ${quoteTotal ?? "(run /quote)"}`
+    truncate(formatQuoteFooter(quote), Math.max(8, width - 2))
   ];
   return [...bodyLines, LINE_FOOTER_SPLIT, ...footerBlock];
 }
 
+function formatQuoteFooter(quote: QuoteState | undefined): string {
+  if (!quote) {
+    return "Quote total: (run /quote)";
+  }
+  const breakdown = quote.breakdown;
+  const total = quote.total ?? formatAmount(breakdown?.payable);
+  if (!breakdown || (breakdown.discountTotal === 0 && breakdown.feeTotal === 0)) {
+    return `Quote total: ${total}`;
+  }
+  const parts = [`items ${breakdown.subtotal.toFixed(2)}`];
+  if (breakdown.discountTotal > 0) {
+    parts.push(`-${breakdown.discountTotal.toFixed(2)} disc`);
+  }
+  if (breakdown.feeTotal > 0) {
+    parts.push(`+${breakdown.feeTotal.toFixed(2)} fees`);
+  }
+  return `Quote total: ${total} (${parts.join(" ")})`;
+}
+
 function buildCartDetailLinesAll(
   cart: CartLine[],
   cartIndex: number,
@@ -1849,6 +1927,24 @@ function isShellOrderingHint(command: string): boolean {
   if (root === "order") {
     return sub === "cancel";
   }
+  if (root === "fav") {
+    return sub === "add";
+  }
+  if (root === "group") {
+    return sub === "close";
+  }
+  if (root === "voucher") {
+    return sub === "apply" || sub === "clear";
+  }
+  if (root === "schedule") {
+    return sub === "place";
+  }
+  if (root === "fulfillment") {
+    return sub !== undefined;
+  }
+  if (root === "address") {
+    return sub === "use";
+  }
   if (root === "pay") {
     return sub === "start" || sub === "open";
   }
@@ -1876,351 +1972,6 @@ function flattenMenuRows(categories: MenuCategory[]): MenuRow[] {
   return rows;
 }
 
-type PickerCommitResult =
-  | { mode: "none" }
-  | { mode: "advance"; picker: MenuVariantPickerState }
-  | { mode: "add"; option: ItemSkuOption };
-
-function createMenuVariantPickerState(
-  row: MenuRow,
-  options: ItemSkuOption[]
-): MenuVariantPickerState {
-  const parsedSegmentsByOption = options.map((option) => {
-    const summary = option.specText ?? option.name ?? option.skuId;
-    return {
-      option,
-      summary,
-      segments: parseVariantSummarySegments(summary)
-    };
-  });
-
-  const dimensions: MenuVariantDimension[] = [];
-  const dimensionIndex = new Map<string, number>();
-
-  for (const parsed of parsedSegmentsByOption) {
-    for (const segment of parsed.segments) {
-      if (dimensionIndex.has(segment.key)) {
-        continue;
-      }
-      const idx = dimensions.length;
-      dimensionIndex.set(segment.key, idx);
-      dimensions.push({ key: segment.key, label: segment.label });
-    }
-  }
-
-  if (dimensions.length === 0) {
-    dimensions.push({ key: "variant", label: "Variant" });
-    dimensionIndex.set("variant", 0);
-  }
-
-  const orderedDimensions = orderMenuVariantDimensions(dimensions);
-  const parsedOptions: MenuVariantParsedOption[] = parsedSegmentsByOption.map((parsed) => {
-    const valueByKey = new Map<string, string>();
-    for (const segment of parsed.segments) {
-      if (!valueByKey.has(segment.key)) {
-        valueByKey.set(segment.key, segment.value);
-      }
-    }
-    const valuesByDimension = orderedDimensions.map(
-      (dimension) => valueByKey.get(dimension.key) ?? "-"
-    );
-    return {
-      option: parsed.option,
-      summary: parsed.summary,
-      valuesByDimension
-    };
-  });
-
-  const matchedIndex = options.findIndex((option) => option.skuId === row.item.skuId);
-  const defaultIndex = matchedIndex >= 0 ? matchedIndex : 0;
-  const defaultParsed = parsedOptions[defaultIndex] ?? parsedOptions[0];
-  const selectedValues = orderedDimensions.map(
-    (_, idx) => defaultParsed?.valuesByDimension[idx] ?? undefined
-  );
-
-  return syncMenuVariantPicker({
-    row,
-    options,
-    parsedOptions,
-    dimensions: orderedDimensions,
-    stageIndex: 0,
-    choiceIndex: 0,
-    selectedValues,
-    qty: 1
-  });
-}
-
-function parseVariantSummarySegments(summary: string): Array<{
-  key: string;
-  label: string;
-  value: string;
-}> {
-  const segments: Array<{ key: string; label: string; value: string }> = [];
-  const parts = summary
-    .split("|")
-    .map((part) => part.trim())
-    .filter((part) => part.length > 0);
-
-  let unnamedIndex = 0;
-  for (const part of parts) {
-    const separator = part.indexOf(":");
-    if (separator > 0) {
-      const label = part.slice(0, separator).trim();
-      const value = part.slice(separator + 1).trim();
-      const key = normalizeDimensionKey(label || `option_${segments.length + 1}`);
-      segments.push({
-        key,
-        label: label || `Option ${segments.length + 1}`,
-        value: value || "-"
-      });
-      continue;
-    }
-    unnamedIndex += 1;
-    const label = unnamedIndex === 1 ? "Variant" : `Variant ${unnamedIndex}`;
-    segments.push({
-      key: normalizeDimensionKey(label),
-      label,
-      value: part
-    });
-  }
-
-  if (segments.length === 0) {
-    segments.push({
-      key: "variant",
-      label: "Variant",
-      value: summary || "-"
-    });
-  }
-  return segments;
-}
-
-function normalizeDimensionKey(raw: string): string {
-  const normalized = raw.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
-  return normalized || "option";
-}
-
-function orderMenuVariantDimensions(dimensions: MenuVariantDimension[]): MenuVariantDimension[] {
-  return dimensions
-    .map((dimension, index) => ({ dimension, index }))
-    .sort((left, right) => {
-      const leftPriority = menuVariantDimensionPriority(left.dimension);
-      const rightPriority = menuVariantDimensionPriority(right.dimension);
-      if (leftPriority !== rightPriority) {
-        return leftPriority - rightPriority;
-      }
-      return left.index - right.index;
-    })
-    .map((entry) => entry.dimension);
-}
-
-function menuVariantDimensionPriority(dimension: MenuVariantDimension): number {
-  const normalized = `${dimension.key} ${dimension.label}`.toLowerCase();
-  if (
-    dimension.key === "variant" ||
-    normalized.includes("size") ||
-    normalized.includes("milk") ||
-    normalized.includes("cup")
-  ) {
-    return 0;
-  }
-  if (normalized.includes("ice")) {
-    return 1;
-  }
-  if (normalized.includes("sweet") || normalized.includes("sugar")) {
-    return 2;
-  }
-  return 10;
-}
-
-function getMenuVariantStageChoices(picker: MenuVariantPickerState): MenuVariantStageChoice[] {
-  if (picker.dimensions.length === 0) {
-    return [];
-  }
-  const stageIndex = clampIndex(picker.stageIndex, picker.dimensions.length);
-  const filtered = picker.parsedOptions.filter((parsed) =>
-    matchesVariantSelections(parsed, picker.selectedValues, stageIndex)
-  );
-  const grouped = new Map<
-    string,
-    {
-      prices: number[];
-      combos: number;
-      previewOption: ItemSkuOption;
-    }
-  >();
-
-  for (const parsed of filtered) {
-    const value = parsed.valuesByDimension[stageIndex] ?? "-";
-    const existing = grouped.get(value);
-    if (existing) {
-      existing.combos += 1;
-      if (parsed.option.price !== undefined) {
-        existing.prices.push(parsed.option.price);
-      }
-      continue;
-    }
-    grouped.set(value, {
-      prices: parsed.option.price !== undefined ? [parsed.option.price] : [],
-      combos: 1,
-      previewOption: parsed.option
-    });
-  }
-
-  const choices: MenuVariantStageChoice[] = [];
-  for (const [value, info] of grouped.entries()) {
-    choices.push({
-      value,
-      combos: info.combos,
-      previewOption: info.previewOption,
-      priceText: renderPriceRange(info.prices)
-    });
-  }
-
-  return choices;
-}
-
-function matchesVariantSelections(
-  parsed: MenuVariantParsedOption,
-  selectedValues: Array<string | undefined>,
-  untilStageExclusive: number
-): boolean {
-  for (let i = 0; i < untilStageExclusive; i += 1) {
-    const selected = selectedValues[i];
-    if (!selected) {
-      continue;
-    }
-    if ((parsed.valuesByDimension[i] ?? "-") !== selected) {
-      return false;
-    }
-  }
-  return true;
-}
-
-function renderPriceRange(prices: number[]): string {
-  if (prices.length === 0) {
-    return "-";
-  }
-  const finite = prices.filter((price) => Number.isFinite(price));
-  if (finite.length === 0) {
-    return "-";
-  }
-  const min = Math.min(...finite);
-  const max = Math.max(...finite);
-  if (min === max) {
-    return min.toFixed(2);
-  }
-  return `${min.toFixed(2)}-${max.toFixed(2)}`;
-}
-
-function syncMenuVariantPicker(picker: MenuVariantPickerState): MenuVariantPickerState {
-  if (picker.dimensions.length === 0) {
-    return picker;
-  }
-
-  const stageIndex = clampIndex(picker.stageIndex, picker.dimensions.length);
-  const nextSelected = [...picker.selectedValues];
-  const choices = getMenuVariantStageChoices({ ...picker, stageIndex, selectedValues: nextSelected });
-
-  if (choices.length === 0) {
-    return {
-      ...picker,
-      stageIndex,
-      choiceIndex: 0,
-      selectedValues: nextSelected
-    };
-  }
-
-  const selectedValue = nextSelected[stageIndex];
-  const selectedChoiceIndex =
-    selectedValue !== undefined ? choices.findIndex((choice) => choice.value === selectedValue) : -1;
-  const choiceIndex =
-    selectedChoiceIndex >= 0
-      ? selectedChoiceIndex
-      : clampIndex(picker.choiceIndex, choices.length);
-
-  if (nextSelected[stageIndex] === undefined && choices[choiceIndex]) {
-    nextSelected[stageIndex] = choices[choiceIndex].value;
-  }
-
-  return {
-    ...picker,
-    stageIndex,
-    choiceIndex,
-    selectedValues: nextSelected
-  };
-}
-
-function commitMenuVariantChoice(
-  picker: MenuVariantPickerState,
-  nextChoiceIndex?: number
-): PickerCommitResult {
-  const stageChoices = getMenuVariantStageChoices(picker);
-  const choiceIndex = clampIndex(nextChoiceIndex ?? picker.choiceIndex, stageChoices.length);
-  const chosen = stageChoices[choiceIndex];
-  if (!chosen) {
-    return { mode: "none" };
-  }
-
-  const selectedValues = [...picker.selectedValues];
-  selectedValues[picker.stageIndex] = chosen.value;
-  for (let i = picker.stageIndex + 1; i < selectedValues.length; i += 1) {
-    selectedValues[i] = undefined;
-  }
-
-  if (picker.stageIndex + 1 < picker.dimensions.length) {
-    return {
-      mode: "advance",
-      picker: syncMenuVariantPicker({
-        ...picker,
-        selectedValues,
-        stageIndex: picker.stageIndex + 1,
-        choiceIndex: 0
-      })
-    };
-  }
-
-  const completedPicker = syncMenuVariantPicker({
-    ...picker,
-    selectedValues,
-    choiceIndex
-  });
-  const option = resolveMenuVariantOption(completedPicker);
-  if (!option) {
-    return {
-      mode: "advance",
-      picker: completedPicker
-    };
-  }
-  return {
-    mode: "add",
-    option
-  };
-}
-
-function resolveMenuVariantOption(picker: MenuVariantPickerState): ItemSkuOption | undefined {
-  if (picker.parsedOptions.length === 0 || picker.dimensions.length === 0) {
-    return undefined;
-  }
-  const selectedValues = picker.selectedValues;
-  const fullyMatched = picker.parsedOptions.filter((parsed) =>
-    parsed.valuesByDimension.every((value, idx) => {
-      const selected = selectedValues[idx];
-      return selected !== undefined && value === selected;
-    })
-  );
-  if (fullyMatched.length > 0) {
-    return fullyMatched[0]?.option;
-  }
-
-  const partialMatched = picker.parsedOptions.find((parsed) =>
-    parsed.valuesByDimension.every((value, idx) => {
-      const selected = selectedValues[idx];
-      return selected === undefined || value === selected;
-    })
-  );
-  return partialMatched?.option;
-}
-
 function buildMenuVariantFooterLines(picker: MenuVariantPickerState, width: number): string[] {
   const currentDimension = picker.dimensions[picker.stageIndex];
   const stepLabel = `Step ${picker.stageIndex + 1}/${picker.dimensions.length}: ${currentDimension?.label ?? "Option"}`;
@@ -2643,6 +2394,9 @@ function consoleLineColor(line: string): string {
   if (/\bcmd > \//.test(message)) {
     return "cyanBright";
   }
+  if (/^ALERT\b/.test(message)) {
+    return "redBright";
+  }
   if (/^API errcode=(?!0\b)/i.test(message)) {
     return "redBright";
   }
@@ -1,10 +1,14 @@
 export type SessionMode = "dry-run" | "live";
 export type LocationSource = "default" | "ip" | "browser" | "manual";
 export type LocationPolicy = "smart" | "ip-only" | "manual-only";
+export type FulfillmentMode = "pickup" | "delivery";
+export type TravelMode = "walk" | "cycle" | "drive";
+export type StoreAutoSelect = "distance" | "eta";
 
 export type AppPhase =
   | "UNAUTH"
   | "AUTH_NO_STORE"
+  | "DELIVERY_NO_ADDRESS"
   | "READY"
   | "CART_DIRTY"
   | "QUOTED"
@@ -33,11 +37,24 @@ export interface StoreState {
   runningStatusDesc?: string | undefined;
 }
 
+export interface DeliveryAddress {
+  label: string;
+  address: string;
+  unit?: string | undefined;
+  postalCode?: string | undefined;
+  recipient?: string | undefined;
+  phone?: string | undefined;
+  latitude?: number | undefined;
+  longitude?: number | undefined;
+  savedAt: string;
+}
+
 export interface MenuItem {
   spuId: string;
   skuId?: string | undefined;
   name: string;
   price?: number | undefined;
+  soldOut?: boolean | undefined;
   raw?: unknown;
 }
 
@@ -66,11 +83,46 @@ export interface CartLine {
   price?: number | undefined;
   specList?: Array<{ specId: string; specOptionId: string }> | undefined;
   attributeList?: Array<{ attributeOptionId: string }> | undefined;
+  owner?: string | undefined;
+}
+
+export interface QuoteLineBreakdown {
+  skuId: string;
+  spuId?: string | undefined;
+  name?: string | undefined;
+  qty: number;
+  unitPrice?: number | undefined;
+  basePrice?: number | undefined;
+  optionsSurcharge: number;
+  lineTotal: number;
+}
+
+export interface QuoteAdjustment {
+  label: string;
+  amount: number;
+}
+
+export interface QuoteBreakdown {
+  lines: QuoteLineBreakdown[];
+  subtotal: number;
+  discounts: QuoteAdjustment[];
+  discountTotal: number;
+  fees: QuoteAdjustment[];
+  feeTotal: number;
+  payable?: number | undefined;
+}
+
+export interface AppliedVoucher {
+  id: string;
+  code?: string | undefined;
+  name?: string | undefined;
+  discount?: number | undefined;
 }
 
 export interface QuoteState {
   at: string;
   total?: string | undefined;
+  breakdown?: QuoteBreakdown | undefined;
   priceQuoteRespVO?: unknown;
   raw: unknown;
 }
@@ -105,6 +157,17 @@ export interface SessionConfig {
   locationAccuracyMeters?: number | undefined;
   storePinned: boolean;
   guestToken?: string | undefined;
+  activeGroupFile?: string | undefined;
+  fulfillment?: FulfillmentMode | undefined;
+  deliveryAddress?: DeliveryAddress | undefined;
+  alertHook?: string | undefined;
+  travelMode?: TravelMode | undefined;
+  travelSpeedKmh?: number | undefined;
+  autoSelect?: StoreAutoSelect | undefined;
+  menuNotify?: boolean | undefined;
+  menuTtlMin?: number | undefined;
+  // Alias of the saved account this session belongs to (see `account use`).
+  account?: string | undefined;
 }
 
 export interface AppState {
@@ -118,12 +181,15 @@ export interface AppState {
   cart: CartLine[];
   cartVersion: number;
   quote?: QuoteState | undefined;
+  appliedVouchers?: AppliedVoucher[] | undefined;
   pendingCreatePayload?: Record<string, unknown> | undefined;
   order?: OrderState | undefined;
   payment?: PaymentState | undefined;
 }
 
 export interface RequestEvent {
+  // Per-client sequence number; the request's responses (including retries) carry the same id.
+  requestId: number;
   ts: string;
   method: string;
   url: string;
@@ -131,6 +197,7 @@ export interface RequestEvent {
 }
 
 export interface ResponseEvent {
+  requestId: number;
   ts: string;
   method: string;
   url: string;
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import {
+  accountsFilePath,
+  findAccount,
+  isValidAccountAlias,
+  loadAccounts,
+  removeAccount,
+  upsertAccount
+} from "../src/lib/account-store.js";
+
+async function withAccountsHome(run: () => Promise<void>): Promise<void> {
+  const tempHome = await mkdtemp(join(tmpdir(), "chagee-accounts-"));
+  const previous = process.env.CHAGEE_CLI_HOME;
+  process.env.CHAGEE_CLI_HOME = tempHome;
+  try {
+    await run();
+  } finally {
+    if (previous === undefined) {
+      delete process.env.CHAGEE_CLI_HOME;
+    } else {
+      process.env.CHAGEE_CLI_HOME = previous;
+    }
+  }
+}
+
+test("account aliases are short words without spaces", () => {
+  assert.equal(isValidAccountAlias("team"), true);
+  assert.equal(isValidAccountAlias("team-expense_2"), true);
+  assert.equal(isValidAccountAlias("-team"), false);
+  assert.equal(isValidAccountAlias("team expense"), false);
+  assert.equal(isValidAccountAlias(""), false);
+});
+
+test("accounts round-trip, update in place and match aliases case-insensitively", async () => {
+  await withAccountsHome(async () => {
+    await upsertAccount({
+      alias: "personal",
+      region: "SG",
+      userId: "u-1",
+      phoneMasked: "+65****4567",
+      defaultStore: { storeNo: "SGM001", storeName: "Marina" },
+      updatedAt: "2026-03-02T10:00:00.000Z"
+    });
+    await upsertAccount({ alias: "team", region: "SG", updatedAt: "2026-03-02T10:01:00.000Z" });
+    await upsertAccount({
+      alias: "Personal",
+      region: "SG",
+      userId: "u-1",
+      guestToken: "guest-abc",
+      updatedAt: "2026-03-02T10:02:00.000Z"
+    });
+
+    const accounts = await loadAccounts();
+    assert.deepEqual(
+      accounts.map((account) => account.alias),
+      ["Personal", "team"]
+    );
+    const personal = findAccount(accounts, "PERSONAL");
+    assert.ok(personal);
+    assert.equal(personal.guestToken, "guest-abc");
+    assert.equal(personal.defaultStore, undefined);
+
+    const raw = await readFile(accountsFilePath(), "utf8");
+    assert.equal(raw.includes("token\""), false);
+  });
+});
+
+test("removing an account returns it and invalid entries are dropped on load", async () => {
+  await withAccountsHome(async () => {
+    await writeFile(
+      accountsFilePath(),
+      JSON.stringify({
+        schemaVersion: 1,
+        accounts: [
+          { alias: "team", region: "SG", userId: "u-2", defaultStore: { storeNo: "SGM002" } },
+          { alias: "bad alias", region: "SG" },
+          { alias: "noregion" },
+          { alias: "TEAM", region: "MY" }
+        ]
+      })
+    );
+    const loaded = await loadAccounts();
+    assert.equal(loaded.length, 1);
+    assert.deepEqual(loaded[0]?.defaultStore, { storeNo: "SGM002", storeName: "SGM002" });
+
+    const result = await removeAccount("Team");
+    assert.equal(result.removed?.userId, "u-2");
+    assert.deepEqual(result.accounts, []);
+    assert.equal((await removeAccount("team")).removed, undefined);
+  });
+});
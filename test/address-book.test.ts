@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import {
+  addressBookFilePath,
+  findAddress,
+  formatDeliveryAddress,
+  loadAddresses,
+  removeAddress,
+  upsertAddress
+} from "../src/lib/address-book.js";
+import {
+  buildDeliveryAddressPayload,
+  parseFulfillmentMode,
+  resolveFulfillmentParams
+} from "../src/lib/fulfillment.js";
+import { getDefaultRegionProfile } from "../src/config/regions.js";
+
+async function withAddressHome(run: () => Promise<void>): Promise<void> {
+  const tempHome = await mkdtemp(join(tmpdir(), "chagee-addresses-"));
+  const previous = process.env.CHAGEE_CLI_HOME;
+  process.env.CHAGEE_CLI_HOME = tempHome;
+  try {
+    await run();
+  } finally {
+    if (previous === undefined) {
+      delete process.env.CHAGEE_CLI_HOME;
+    } else {
+      process.env.CHAGEE_CLI_HOME = previous;
+    }
+  }
+}
+
+test("address book saves, replaces by label and resolves by index or label", async () => {
+  await withAddressHome(async () => {
+    assert.equal(addressBookFilePath().endsWith("addresses.json"), true);
+    assert.deepEqual(await loadAddresses(), []);
+
+    await upsertAddress({ label: "work", address: "1 Raffles Pl", savedAt: "2026-01-01" });
+    await upsertAddress({ label: "Home", address: "1 Orchard Rd", unit: "#05-01", savedAt: "" });
+    await upsertAddress({
+      label: "home",
+      address: "2 Orchard Rd",
+      unit: "#10-02",
+      postalCode: "238823",
+      latitude: 1.3,
+      longitude: 103.83,
+      savedAt: "2026-01-02"
+    });
+
+    const loaded = await loadAddresses();
+    assert.deepEqual(
+      loaded.map((entry) => entry.label),
+      ["home", "work"]
+    );
+    assert.equal(findAddress(loaded, "HOME")?.address, "2 Orchard Rd");
+    assert.equal(findAddress(loaded, "2")?.label, "work");
+    assert.equal(findAddress(loaded, "gym"), undefined);
+    const home = loaded[0];
+    assert.ok(home);
+    assert.equal(formatDeliveryAddress(home), "2 Orchard Rd, #10-02, 238823");
+
+    assert.equal((await removeAddress("WORK")).removed, true);
+    assert.equal((await removeAddress("work")).removed, false);
+    assert.equal((await loadAddresses()).length, 1);
+  });
+});
+
+test("fulfillment params keep pickup values and switch codes for delivery", () => {
+  const region = getDefaultRegionProfile();
+  assert.equal(parseFulfillmentMode("Delivery"), "delivery");
+  assert.equal(parseFulfillmentMode("takeaway"), "pickup");
+  assert.equal(parseFulfillmentMode("drone"), undefined);
+
+  const pickup = resolveFulfillmentParams(region, undefined);
+  assert.deepEqual(
+    [pickup.mode, pickup.deliveryType, pickup.businessType, pickup.isTakeaway, pickup.orderType],
+    ["pickup", region.deliveryType, region.businessType, region.isTakeaway, 0]
+  );
+  const delivery = resolveFulfillmentParams(region, "delivery");
+  assert.deepEqual(
+    [delivery.deliveryType, delivery.businessType, delivery.isTakeaway, delivery.orderType],
+    [region.homeDeliveryType, region.homeDeliveryBusinessType, true, 1]
+  );
+
+  assert.equal(buildDeliveryAddressPayload(undefined), null);
+  const payload = buildDeliveryAddressPayload(
+    { label: "home", address: "1 Orchard Rd", savedAt: "" },
+    "+6591234567"
+  );
+  assert.equal(payload?.contactPhone, "+6591234567");
+  assert.equal(payload?.latitude, null);
+});
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import {
+  expandAliases,
+  isValidAliasName,
+  loadAliases,
+  removeAlias,
+  upsertAlias
+} from "../src/lib/alias-store.js";
+
+async function withAliasHome(run: () => Promise<void>): Promise<void> {
+  const tempHome = await mkdtemp(join(tmpdir(), "chagee-aliases-"));
+  const previous = process.env.CHAGEE_CLI_HOME;
+  process.env.CHAGEE_CLI_HOME = tempHome;
+  try {
+    await run();
+  } finally {
+    if (previous === undefined) {
+      delete process.env.CHAGEE_CLI_HOME;
+    } else {
+      process.env.CHAGEE_CLI_HOME = previous;
+    }
+  }
+}
+
+test("aliases expand whole words case-insensitively", () => {
+  const aliases = [
+    { name: "jgmt", text: "Jasmine Green Milk Tea" },
+    { name: "oo", text: "Osmanthus Oolong" }
+  ];
+  const expanded = expandAliases("JGMT  large", aliases);
+  assert.equal(expanded.query, "Jasmine Green Milk Tea large");
+  assert.deepEqual(
+    expanded.used.map((alias) => alias.name),
+    ["jgmt"]
+  );
+  assert.equal(expandAliases("jgmtx", aliases).query, "jgmtx");
+  assert.equal(isValidAliasName("jgmt"), true);
+  assert.equal(isValidAliasName("two words"), false);
+  assert.equal(isValidAliasName("a=b"), false);
+});
+
+test("aliases persist, replace by name and can be removed", async () => {
+  await withAliasHome(async () => {
+    await upsertAlias({ name: "jgmt", text: "Jasmine Green Milk Tea" });
+    await upsertAlias({ name: "oo", text: "Oolong" });
+    await upsertAlias({ name: "OO", text: "Osmanthus Oolong" });
+
+    const loaded = await loadAliases();
+    assert.deepEqual(loaded, [
+      { name: "jgmt", text: "Jasmine Green Milk Tea" },
+      { name: "OO", text: "Osmanthus Oolong" }
+    ]);
+
+    const removed = await removeAlias("jgmt");
+    assert.equal(removed.removed, true);
+    assert.equal((await removeAlias("jgmt")).removed, false);
+    assert.deepEqual(
+      (await loadAliases()).map((alias) => alias.name),
+      ["OO"]
+    );
+  });
+});
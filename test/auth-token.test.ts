@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { authExpiry, formatExpiryRemaining, jwtExpiresAt } from "../src/lib/auth-token.js";
+
+function jwt(payload: Record<string, unknown>): string {
+  const encode = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${encode({ alg: "HS256", typ: "JWT" })}.${encode(payload)}.signature`;
+}
+
+test("jwt expiry comes from the exp claim, with or without a Bearer prefix", () => {
+  const exp = Date.parse("2026-03-02T12:00:00.000Z") / 1000;
+  assert.equal(jwtExpiresAt(jwt({ sub: "u-1", exp })), "2026-03-02T12:00:00.000Z");
+  assert.equal(jwtExpiresAt(`Bearer ${jwt({ exp: String(exp) })}`), "2026-03-02T12:00:00.000Z");
+  assert.equal(jwtExpiresAt(jwt({ exp: exp * 1000 })), "2026-03-02T12:00:00.000Z");
+});
+
+test("opaque tokens and jwts without exp have no expiry", () => {
+  assert.equal(jwtExpiresAt("mock-token-abc"), undefined);
+  assert.equal(jwtExpiresAt(jwt({ sub: "u-1" })), undefined);
+  assert.equal(jwtExpiresAt("a.not-base64-json.c"), undefined);
+});
+
+test("expiry is valid, expiring within the warning window, or expired", () => {
+  const now = Date.parse("2026-03-02T12:00:00.000Z");
+  assert.equal(authExpiry(undefined, now), undefined);
+  assert.equal(authExpiry("2026-03-02T14:00:00.000Z", now)?.status, "valid");
+  assert.equal(authExpiry("2026-03-02T12:30:00.000Z", now)?.status, "expiring");
+  assert.deepEqual(authExpiry("2026-03-02T11:59:00.000Z", now), {
+    status: "expired",
+    remainingMs: -60_000
+  });
+});
+
+test("remaining time is short and readable", () => {
+  assert.equal(formatExpiryRemaining(45_000), "45s");
+  assert.equal(formatExpiryRemaining(-12 * 60_000), "12m");
+  assert.equal(formatExpiryRemaining((3 * 60 + 20) * 60_000), "3h20m");
+  assert.equal(formatExpiryRemaining(2 * 86_400_000), "2d");
+});
@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, readdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import {
+  CassettePlayer,
+  CassetteRecorder,
+  cassetteMatchKey,
+  loadCassetteEntries
+} from "../src/api/cassette.js";
+import { ChageeClient } from "../src/api/client.js";
+import { getDefaultRegionProfile } from "../src/config/regions.js";
+
+const BASE = "https://api.example.test";
+
+function responseEvent(requestId: number, url: string, status: number, body: unknown) {
+  return { requestId, ts: "2026-01-01T00:00:01.000Z", method: "POST", url, status, elapsedMs: 5, body };
+}
+
+test("cassette recorder writes one redacted file per exchange and keeps the final retry", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "chagee-cassette-"));
+  const recorder = await CassetteRecorder.open(dir);
+  const loginUrl = `${BASE}/api/user-client/customer/loginOrRegister`;
+  const priceUrl = `${BASE}/api/navigation/order/price`;
+
+  recorder.onRequest({
+    requestId: 1,
+    ts: "t0",
+    method: "POST",
+    url: loginUrl,
+    payload: { mobile: "+6591234567" }
+  });
+  recorder.onResponse(responseEvent(1, loginUrl, 200, { errcode: "0", data: { token: "secret" } }));
+  recorder.onRequest({ requestId: 2, ts: "t1", method: "POST", url: priceUrl, payload: { storeNo: "S1" } });
+  recorder.onResponse(responseEvent(2, priceUrl, 503, { errcode: "503" }));
+  recorder.onResponse(responseEvent(2, priceUrl, 200, { errcode: "0", data: { total: "5.90" } }));
+  await recorder.flush();
+
+  const files = (await readdir(dir)).sort();
+  assert.deepEqual(files, [
+    "0001-POST-api_user_client_customer_loginOrRegister.json",
+    "0002-POST-api_navigation_order_price.json"
+  ]);
+  const loginRaw = await readFile(join(dir, files[0] ?? ""), "utf8");
+  assert.equal(loginRaw.includes("secret"), false);
+  assert.equal(loginRaw.includes("+6591234567"), false);
+
+  const entries = await loadCassetteEntries(dir);
+  assert.equal(entries[1]?.response.status, 200);
+
+  const reopened = await CassetteRecorder.open(dir);
+  reopened.onRequest({ requestId: 1, ts: "t2", method: "GET", url: `${BASE}/api/user-client/customer/info` });
+  reopened.onResponse({ ...responseEvent(1, `${BASE}/api/user-client/customer/info`, 200, {}), method: "GET" });
+  await reopened.flush();
+  assert.equal((await readdir(dir)).some((name) => name.startsWith("0003-GET-")), true);
+});
+
+test("cassette recorder pairs overlapping same-URL responses by request id", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "chagee-cassette-"));
+  const recorder = await CassetteRecorder.open(dir);
+  const menuUrl = `${BASE}/api/navigation/goods/menu`;
+
+  recorder.onRequest({ requestId: 1, ts: "t0", method: "POST", url: menuUrl, payload: { storeNo: "S1" } });
+  recorder.onRequest({ requestId: 2, ts: "t0", method: "POST", url: menuUrl, payload: { storeNo: "S2" } });
+  recorder.onResponse(responseEvent(2, menuUrl, 200, { errcode: "0", data: { store: "S2" } }));
+  recorder.onResponse(responseEvent(1, menuUrl, 200, { errcode: "0", data: { store: "S1" } }));
+  await recorder.flush();
+
+  const entries = await loadCassetteEntries(dir);
+  assert.deepEqual(
+    entries.map((entry) => [
+      (entry.request.payload as { storeNo: string }).storeNo,
+      (entry.response.body as { data: { store: string } }).data.store
+    ]),
+    [
+      ["S2", "S2"],
+      ["S1", "S1"]
+    ]
+  );
+});
+
+test("cassette match key ignores host, key order and volatile fields", () => {
+  const a = cassetteMatchKey("post", "http://127.0.0.1:4010/api/navigation/order/create", {
+    storeNo: "S1",
+    confirmOrderKey: "cli-1",
+    orderItems: [{ skuId: "1", num: 1 }]
+  });
+  const b = cassetteMatchKey("POST", `${BASE}/api/navigation/order/create`, {
+    orderItems: [{ num: 1, skuId: "1" }],
+    confirmOrderKey: "cli-2",
+    storeNo: "S1"
+  });
+  assert.equal(a, b);
+  assert.notEqual(a, cassetteMatchKey("POST", `${BASE}/api/navigation/order/create`, { storeNo: "S2" }));
+});
+
+test("cassette player replays in order, repeats the last response, and reports misses", () => {
+  const url = `${BASE}/api/navigation/payment/payResultList`;
+  const request = { requestId: 1, ts: "t", method: "POST", url, payload: { orderNo: "O1" } };
+  const player = new CassettePlayer(
+    [
+      { request, response: responseEvent(1, url, 200, { errcode: "0", data: [{ status: 1 }] }) },
+      { request, response: responseEvent(1, url, 200, { errcode: "0", data: [{ status: 2 }] }) }
+    ],
+    false
+  );
+
+  assert.deepEqual(player.resolve(request)?.body, { errcode: "0", data: [{ status: 1 }] });
+  assert.deepEqual(player.resolve(request)?.body, { errcode: "0", data: [{ status: 2 }] });
+  assert.deepEqual(player.resolve(request)?.body, { errcode: "0", data: [{ status: 2 }] });
+
+  const miss = { ...request, payload: { orderNo: "O2" } };
+  assert.equal(player.resolve(miss), undefined);
+  assert.deepEqual(player.unmatched, ["POST /api/navigation/payment/payResultList"]);
+
+  const strict = new CassettePlayer([], true);
+  assert.equal(
+    (strict.resolve(miss)?.body as { errcode?: string } | undefined)?.errcode,
+    "REPLAY_UNMATCHED"
+  );
+});
+
+test("client short-circuits the network when a replay hook answers", async () => {
+  const url = `${BASE}/api/navigation/store/getStoreWaitInfo`;
+  const region = { ...getDefaultRegionProfile(), apiBase: BASE };
+  const player = new CassettePlayer(
+    [
+      {
+        request: { requestId: 1, ts: "t", method: "POST", url, payload: { storeNo: "S1", isTakeaway: false } },
+        response: responseEvent(1, url, 200, { errcode: "0", data: { waitingCups: 3 } })
+      }
+    ],
+    true
+  );
+  const seen: number[] = [];
+  const client = new ChageeClient(() => undefined, () => region, {
+    onResponse: (event) => seen.push(event.status),
+    resolveReplay: (event) => player.resolve(event)
+  });
+
+  const hit = await client.getStoreWaitInfo({ storeNo: "S1" });
+  assert.deepEqual(hit.data, { waitingCups: 3 });
+  const miss = await client.getStoreWaitInfo({ storeNo: "S2" });
+  assert.equal(miss.errcode, "REPLAY_UNMATCHED");
+  assert.deepEqual(seen, [200, 0]);
+});
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { mkdtemp, readdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+test("--mock runs keep session, tokens and caches out of the real home", async () => {
+  const home = await mkdtemp(join(tmpdir(), "chagee-cli-home-"));
+  const env: NodeJS.ProcessEnv = { ...process.env, HOME: home };
+  delete env.CHAGEE_CLI_HOME;
+  delete env.CHAGEE_TOKEN_BACKENDS;
+  const result = spawnSync(
+    process.execPath,
+    [
+      "--import",
+      "tsx",
+      "src/cli.ts",
+      "--mock",
+      "--location-policy",
+      "manual-only",
+      "-c",
+      "login token mock",
+      "-c",
+      "stores",
+      "-c",
+      "store use SGM001"
+    ],
+    { env, encoding: "utf8", timeout: 60_000 }
+  );
+  assert.equal(result.status, 0, result.stderr);
+  assert.match(result.stdout, /Logged in via token/);
+  assert.deepEqual(await readdir(home), []);
+});
+
+test("order --spec stops when the variant tokens match more than one variant", async () => {
+  const home = await mkdtemp(join(tmpdir(), "chagee-cli-home-"));
+  const specFile = join(home, "spec.json");
+  await writeFile(
+    specFile,
+    JSON.stringify({ store: "SGM001", items: [{ spuId: "900001", variant: ["Large"] }] })
+  );
+  const result = spawnSync(
+    process.execPath,
+    [
+      "--import",
+      "tsx",
+      "src/cli.ts",
+      "--mock",
+      "--location-policy",
+      "manual-only",
+      "-c",
+      "login token mock",
+      "order",
+      "--spec",
+      specFile
+    ],
+    { env: { ...process.env, HOME: home }, encoding: "utf8", timeout: 60_000 }
+  );
+  assert.equal(result.status, 5, result.stderr);
+  assert.match(result.stdout, /variants of "Jasmine Green Milk Tea" match \[Large\]/);
+  assert.doesNotMatch(result.stdout, /Added 1 x/);
+});
+
+test("switching accounts drops vouchers applied under the previous login", async () => {
+  const home = await mkdtemp(join(tmpdir(), "chagee-cli-home-"));
+  const commands = [
+    "login token mock",
+    "store use SGM001",
+    "voucher apply 1",
+    "account add a",
+    "account add b",
+    "account use a",
+    "voucher"
+  ];
+  const result = spawnSync(
+    process.execPath,
+    [
+      "--import",
+      "tsx",
+      "src/cli.ts",
+      "--mock",
+      "--yolo",
+      "--location-policy",
+      "manual-only",
+      ...commands.flatMap((command) => ["-c", command])
+    ],
+    { env: { ...process.env, HOME: home }, encoding: "utf8", timeout: 60_000 }
+  );
+  assert.equal(result.status, 0, result.stderr);
+  assert.match(result.stdout, /Switched to account a/);
+  const afterSwitch = result.stdout.slice(result.stdout.indexOf("Switched to account a"));
+  assert.match(afterSwitch, /TEA1OFF .* usable/);
+  assert.doesNotMatch(afterSwitch, /applied/);
+});
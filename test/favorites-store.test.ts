@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import {
+  favoritesFilePath,
+  loadFavorites,
+  removeFavorite,
+  resolveFavoriteOption,
+  upsertFavorite
+} from "../src/lib/favorites-store.js";
+import type { FavoritePreset } from "../src/lib/favorites-store.js";
+import type { ItemSkuOption } from "../src/types.js";
+
+async function withFavoritesHome(run: () => Promise<void>): Promise<void> {
+  const tempHome = await mkdtemp(join(tmpdir(), "chagee-favorites-"));
+  const previous = process.env.CHAGEE_CLI_HOME;
+  process.env.CHAGEE_CLI_HOME = tempHome;
+  try {
+    await run();
+  } finally {
+    if (previous === undefined) {
+      delete process.env.CHAGEE_CLI_HOME;
+    } else {
+      process.env.CHAGEE_CLI_HOME = previous;
+    }
+  }
+}
+
+test("favorites save, replace case-insensitively and remove", async () => {
+  await withFavoritesHome(async () => {
+    assert.equal(favoritesFilePath().endsWith("favorites.json"), true);
+    assert.deepEqual(await loadFavorites(), []);
+
+    await upsertFavorite({ name: "Usual", savedAt: "2026-01-01", skuId: "SKU-1", spuId: "SPU-1" });
+    await upsertFavorite({ name: "boss", savedAt: "2026-01-01", skuId: "SKU-2" });
+    await upsertFavorite({ name: "usual", savedAt: "2026-01-02", skuId: "SKU-3", spuId: "SPU-1" });
+
+    const loaded = await loadFavorites();
+    assert.deepEqual(
+      loaded.map((preset) => [preset.name, preset.skuId]),
+      [
+        ["boss", "SKU-2"],
+        ["usual", "SKU-3"]
+      ]
+    );
+
+    assert.equal((await removeFavorite("BOSS")).removed, true);
+    assert.equal((await removeFavorite("missing")).removed, false);
+    assert.equal((await loadFavorites()).length, 1);
+  });
+});
+
+test("favorite resolution keeps attributes and falls back when the sku changed", () => {
+  const options: ItemSkuOption[] = [
+    {
+      skuId: "S-L",
+      name: "Tea",
+      specText: "Large | Ice: Normal Ice",
+      specList: [{ specId: "size", specOptionId: "large" }],
+      attributeList: [{ attributeOptionId: "ice-normal" }]
+    },
+    {
+      skuId: "S-L",
+      name: "Tea",
+      specText: "Large | Ice: Less Ice",
+      specList: [{ specId: "size", specOptionId: "large" }],
+      attributeList: [{ attributeOptionId: "ice-less" }]
+    }
+  ];
+  const preset: FavoritePreset = {
+    name: "tea",
+    savedAt: "2026-01-01",
+    skuId: "S-L",
+    spuId: "SPU",
+    variantText: "Large | Ice: Less Ice",
+    specList: [{ specId: "size", specOptionId: "large" }],
+    attributeList: [{ attributeOptionId: "ice-less" }]
+  };
+
+  const exact = resolveFavoriteOption(preset, options);
+  assert.equal(exact?.via, "sku");
+  assert.equal(exact?.option.specText, "Large | Ice: Less Ice");
+
+  const renamed = resolveFavoriteOption({ ...preset, skuId: "OLD" }, options);
+  assert.equal(renamed?.via, "selection");
+  assert.equal(renamed?.option.skuId, "S-L");
+
+  const textOnly = resolveFavoriteOption(
+    { ...preset, skuId: "OLD", specList: undefined, attributeList: undefined },
+    options
+  );
+  assert.equal(textOnly?.via, "variant");
+  assert.equal(textOnly?.option.specText, "Large | Ice: Less Ice");
+
+  assert.equal(
+    resolveFavoriteOption({ ...preset, skuId: "OLD", variantText: "Huge", attributeList: [] }, options),
+    undefined
+  );
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import {
+  appendGroupOrderLine,
+  closeGroupOrder,
+  createGroupOrder,
+  loadGroupOrder,
+  removeGroupOrderLine,
+  resolveGroupOrderFile
+} from "../src/lib/group-order-store.js";
+
+test("group order names map under CHAGEE_CLI_HOME and paths are used as-is", async () => {
+  const tempHome = await mkdtemp(join(tmpdir(), "chagee-group-"));
+  const previous = process.env.CHAGEE_CLI_HOME;
+  process.env.CHAGEE_CLI_HOME = tempHome;
+  try {
+    assert.equal(resolveGroupOrderFile("Friday Tea"), join(tempHome, "groups", "friday-tea.json"));
+    assert.equal(resolveGroupOrderFile("/shared/tea.json"), "/shared/tea.json");
+  } finally {
+    if (previous === undefined) {
+      delete process.env.CHAGEE_CLI_HOME;
+    } else {
+      process.env.CHAGEE_CLI_HOME = previous;
+    }
+  }
+});
+
+test("group order collects concurrent lines and rejects writes after close", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "chagee-group-"));
+  const file = join(dir, "tea.json");
+  await createGroupOrder(file, { name: "tea", createdAt: "2026-01-01T00:00:00.000Z", storeNo: "S1" });
+  await assert.rejects(
+    createGroupOrder(file, { name: "tea", createdAt: "2026-01-01T00:00:00.000Z" }),
+    /already open/
+  );
+
+  await Promise.all(
+    ["alice", "bob", "carol", "dan"].map((owner) =>
+      appendGroupOrderLine(file, { owner, skuId: `SKU-${owner}`, qty: 1, price: 5.9 })
+    )
+  );
+  const removed = await removeGroupOrderLine(file, "1");
+  assert.equal(removed.group.lines.length, 3);
+
+  const closed = await closeGroupOrder(file);
+  assert.equal(closed.status, "closed");
+  assert.equal(
+    new Set(closed.lines.map((line) => line.owner)).size,
+    3
+  );
+  await assert.rejects(
+    appendGroupOrderLine(file, { owner: "late", skuId: "SKU-late", qty: 1 }),
+    /already closed/
+  );
+  assert.equal((await loadGroupOrder(file))?.lines.length, 3);
+});
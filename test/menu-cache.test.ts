@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import {
+  clearMenuCache,
+  isMenuStale,
+  listCachedMenus,
+  loadCachedMenu,
+  menuCacheDir,
+  menuContentHash,
+  saveCachedMenu
+} from "../src/lib/menu-cache.js";
+import type { MenuCategory } from "../src/types.js";
+
+async function withCacheHome(run: () => Promise<void>): Promise<void> {
+  const tempHome = await mkdtemp(join(tmpdir(), "chagee-menu-cache-"));
+  const previous = process.env.CHAGEE_CLI_HOME;
+  process.env.CHAGEE_CLI_HOME = tempHome;
+  try {
+    await run();
+  } finally {
+    if (previous === undefined) {
+      delete process.env.CHAGEE_CLI_HOME;
+    } else {
+      process.env.CHAGEE_CLI_HOME = previous;
+    }
+  }
+}
+
+const menu: MenuCategory[] = [
+  {
+    id: "cat-milk-tea",
+    name: "Milk Tea",
+    items: [
+      { spuId: "900001", skuId: "910001", name: "Jasmine Green Milk Tea", price: 5.9, raw: { big: true } },
+      { spuId: "900002", name: "Oolong Milk Tea", price: 6.2 }
+    ]
+  }
+];
+
+test("menu content hash ignores raw payloads and changes with price", () => {
+  const withoutRaw: MenuCategory[] = [
+    {
+      id: "cat-milk-tea",
+      name: "Milk Tea",
+      items: [
+        { spuId: "900001", skuId: "910001", name: "Jasmine Green Milk Tea", price: 5.9 },
+        { spuId: "900002", name: "Oolong Milk Tea", price: 6.2 }
+      ]
+    }
+  ];
+  assert.equal(menuContentHash(menu), menuContentHash(withoutRaw));
+
+  const repriced = structuredClone(withoutRaw);
+  const first = repriced[0]?.items[0];
+  assert.ok(first);
+  first.price = 6.1;
+  assert.notEqual(menuContentHash(repriced), menuContentHash(withoutRaw));
+});
+
+test("menus are stale once the ttl has passed", () => {
+  const now = Date.parse("2026-03-02T10:00:00.000Z");
+  assert.equal(isMenuStale("2026-03-02T09:50:00.000Z", 15 * 60_000, now), false);
+  assert.equal(isMenuStale("2026-03-02T09:45:00.000Z", 15 * 60_000, now), true);
+  assert.equal(isMenuStale(now, 0, now), true);
+  assert.equal(isMenuStale("not a date", 15 * 60_000, now), true);
+});
+
+test("cached menus round-trip per store and variant without raw payloads", async () => {
+  await withCacheHome(async () => {
+    await saveCachedMenu({
+      storeNo: "SGM001",
+      variant: "SG:pickup",
+      fetchedAt: "2026-03-02T10:00:00.000Z",
+      hash: menuContentHash(menu),
+      categories: menu
+    });
+
+    const loaded = await loadCachedMenu("SGM001", "SG:pickup");
+    assert.ok(loaded);
+    assert.equal(loaded.fetchedAt, "2026-03-02T10:00:00.000Z");
+    assert.equal(loaded.categories[0]?.items.length, 2);
+    assert.equal(loaded.categories[0]?.items[0]?.raw, undefined);
+    assert.equal(menuContentHash(loaded.categories), loaded.hash);
+
+    assert.equal(await loadCachedMenu("SGM001", "SG:delivery"), undefined);
+    assert.equal(await loadCachedMenu("SGM002", "SG:pickup"), undefined);
+
+    const raw = await readFile(join(menuCacheDir(), "SGM001.json"), "utf8");
+    assert.equal((JSON.parse(raw) as { schemaVersion: number }).schemaVersion, 1);
+  });
+});
+
+test("cache stats list every store and clear removes one or all", async () => {
+  await withCacheHome(async () => {
+    for (const storeNo of ["SGM002", "SGM001"]) {
+      await saveCachedMenu({
+        storeNo,
+        variant: "SG:pickup",
+        fetchedAt: "2026-03-02T10:00:00.000Z",
+        hash: menuContentHash(menu),
+        categories: menu
+      });
+    }
+
+    const stats = await listCachedMenus();
+    assert.deepEqual(
+      stats.map((entry) => [entry.storeNo, entry.items]),
+      [
+        ["SGM001", 2],
+        ["SGM002", 2]
+      ]
+    );
+    assert.ok(stats.every((entry) => entry.bytes > 0));
+
+    assert.equal(await clearMenuCache("SGM001"), 1);
+    assert.equal(await clearMenuCache("SGM001"), 0);
+    assert.deepEqual(
+      (await listCachedMenus()).map((entry) => entry.storeNo),
+      ["SGM002"]
+    );
+    assert.equal(await clearMenuCache(), 1);
+    assert.deepEqual(await listCachedMenus(), []);
+  });
+});
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  findMenuMatches,
+  formatPriceRange,
+  looksLikeSpuId,
+  pickCheapestEntry,
+  resolveMenuCompareStatus
+} from "../src/lib/menu-compare.js";
+import type { MenuCompareEntry } from "../src/lib/menu-compare.js";
+import type { MenuCategory } from "../src/types.js";
+
+const orchard: MenuCategory[] = [
+  {
+    id: "cat-milk-tea",
+    name: "Milk Tea",
+    items: [
+      { spuId: "900001", name: "Jasmine Green Milk Tea", price: 5.9 },
+      { spuId: "900002", name: "Oolong Milk Tea", price: 6.2 }
+    ]
+  },
+  {
+    id: "cat-fresh-brew",
+    name: "Fresh Brew",
+    items: [{ spuId: "900102", name: "Seasonal Osmanthus Oolong", price: 6.9 }]
+  }
+];
+const raffles: MenuCategory[] = [
+  {
+    id: "cat-milk-tea",
+    name: "Milk Tea",
+    items: [{ spuId: "900001", name: "Jasmine Green Milk Tea", price: 6.1 }]
+  }
+];
+
+test("menu compare matches by spuId, exact name, then substring across store menus", () => {
+  assert.deepEqual(
+    findMenuMatches([raffles, orchard], "900102").map((item) => item.spuId),
+    ["900102"]
+  );
+  assert.deepEqual(
+    findMenuMatches([raffles, orchard], "oolong milk tea").map((item) => item.spuId),
+    ["900002"]
+  );
+  assert.deepEqual(
+    findMenuMatches([raffles, orchard], "oolong").map((item) => item.spuId),
+    ["900002", "900102"]
+  );
+  assert.deepEqual(findMenuMatches([raffles], "osmanthus"), []);
+  assert.equal(looksLikeSpuId(" 900102 "), true);
+  assert.equal(looksLikeSpuId("jasmin tea"), false);
+});
+
+test("menu compare resolves sold-out, not-stocked and price ranges per store", () => {
+  const listed = orchard[0]?.items[0];
+  const options = [
+    { skuId: "910001", name: "Regular", price: 5.9 },
+    { skuId: "910002", name: "Large", price: 6.7 }
+  ];
+  const available = resolveMenuCompareStatus(listed, { kind: "ok", soldOut: false, options });
+  assert.equal(available.status, "available");
+  assert.equal(formatPriceRange(available), "5.90-6.70");
+
+  assert.equal(
+    resolveMenuCompareStatus(undefined, { kind: "ok", soldOut: true, options: [] }).status,
+    "sold-out"
+  );
+  assert.equal(resolveMenuCompareStatus(undefined, { kind: "missing" }).status, "not-stocked");
+  const menuOnly = resolveMenuCompareStatus(listed, { kind: "error", message: "timeout" });
+  assert.equal(menuOnly.status, "available");
+  assert.equal(formatPriceRange(menuOnly), "5.90");
+  assert.equal(menuOnly.detail, "timeout");
+
+  const entries: MenuCompareEntry[] = [
+    {
+      storeNo: "A",
+      storeName: "A",
+      closed: false,
+      status: "available",
+      minPrice: 6.1,
+      maxPrice: 6.9,
+      options: 2
+    },
+    {
+      storeNo: "B",
+      storeName: "B",
+      closed: true,
+      status: "available",
+      minPrice: 5.0,
+      maxPrice: 5.0,
+      options: 1
+    },
+    {
+      storeNo: "C",
+      storeName: "C",
+      closed: false,
+      status: "available",
+      minPrice: 5.9,
+      maxPrice: 6.7,
+      options: 2
+    },
+    {
+      storeNo: "D",
+      storeName: "D",
+      closed: false,
+      status: "sold-out",
+      options: 0
+    }
+  ];
+  assert.equal(pickCheapestEntry(entries)?.storeNo, "C");
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { editDistance, normalizeSearchText, searchMenu } from "../src/lib/menu-search.js";
+import type { MenuCategory } from "../src/types.js";
+
+const menu: MenuCategory[] = [
+  {
+    id: "cat-milk-tea",
+    name: "Milk Tea",
+    items: [
+      { spuId: "900001", name: "Jasmine Green Milk Tea", price: 5.9 },
+      { spuId: "900002", name: "Oolong Milk Tea", price: 6.2 }
+    ]
+  },
+  {
+    id: "cat-fresh-brew",
+    name: "Fresh Brew",
+    items: [
+      { spuId: "900101", name: "Jasmine Tea", price: 3.9 },
+      { spuId: "900102", name: "Seasonal Osmanthus Oolong", price: 6.9 }
+    ]
+  },
+  {
+    id: "cat-cn",
+    name: "原叶鲜奶茶",
+    items: [{ spuId: "900201", name: "茉莉绿茶", price: 5.5 }]
+  }
+];
+
+const names = (query: string, variants?: Map<string, string[]>): string[] =>
+  searchMenu(menu, query, { variants }).map((hit) => hit.item.name);
+
+test("normalization folds case, width, accents and known Han characters", () => {
+  assert.equal(normalizeSearchText("ＪＡＳＭＩＮＥ  Tea!"), "jasmine tea");
+  assert.equal(normalizeSearchText("Crème brûlée"), "creme brulee");
+  assert.equal(normalizeSearchText("lǜ chá"), "lv cha");
+  assert.equal(normalizeSearchText("茉莉綠茶"), "mo li lv cha");
+  assert.equal(normalizeSearchText("鸳鸯"), "鸳 鸯");
+});
+
+test("words match in any order and exact names rank first", () => {
+  assert.deepEqual(names("tea milk"), ["Oolong Milk Tea", "Jasmine Green Milk Tea"]);
+  assert.deepEqual(names("jasmine tea").slice(0, 2), ["Jasmine Tea", "Jasmine Green Milk Tea"]);
+  assert.deepEqual(names("jas"), ["Jasmine Tea", "Jasmine Green Milk Tea"]);
+  assert.deepEqual(names("milktea"), ["Oolong Milk Tea", "Jasmine Green Milk Tea"]);
+  assert.deepEqual(names("jgmt"), ["Jasmine Green Milk Tea"]);
+  assert.deepEqual(names("zzz"), []);
+});
+
+test("typos within the edit budget still match and are flagged", () => {
+  const hits = searchMenu(menu, "jamsine grean");
+  assert.equal(hits[0]?.item.name, "Jasmine Green Milk Tea");
+  assert.equal(hits[0]?.typo, true);
+  assert.deepEqual(names("osmantus"), ["Seasonal Osmanthus Oolong"]);
+  assert.deepEqual(names("tae"), []);
+
+  assert.equal(editDistance("jamsine", "jasmine"), 1);
+  assert.equal(editDistance("osmantus", "osmanthus"), 1);
+  assert.equal(editDistance("kitten", "sitting"), 3);
+});
+
+test("category names and variant text are searched with lower weight", () => {
+  const fresh = searchMenu(menu, "fresh");
+  assert.deepEqual(
+    fresh.map((hit) => [hit.item.spuId, hit.field]),
+    [
+      ["900101", "category"],
+      ["900102", "category"]
+    ]
+  );
+
+  const variants = new Map([["900002", ["Large | Less Sugar"]]]);
+  const hits = searchMenu(menu, "oolong large", { variants });
+  assert.equal(hits.length, 1);
+  assert.equal(hits[0]?.item.spuId, "900002");
+  assert.equal(hits[0]?.field, "variant");
+});
+
+test("chinese names match by characters, pinyin and initials", () => {
+  for (const query of ["绿茶", "綠茶", "molilvcha", "mo li lv cha", "mllc", "鲜奶"]) {
+    assert.deepEqual(names(query), ["茉莉绿茶"], query);
+  }
+});
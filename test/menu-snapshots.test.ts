@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import {
+  buildMenuSnapshot,
+  diffMenuSnapshots,
+  loadStoreMenuHistory,
+  menuSnapshotFilePath,
+  recordMenuSnapshot
+} from "../src/lib/menu-snapshots.js";
+import type { MenuCategory } from "../src/types.js";
+
+async function withSnapshotHome(run: () => Promise<void>): Promise<void> {
+  const tempHome = await mkdtemp(join(tmpdir(), "chagee-menu-snapshots-"));
+  const previous = process.env.CHAGEE_CLI_HOME;
+  process.env.CHAGEE_CLI_HOME = tempHome;
+  try {
+    await run();
+  } finally {
+    if (previous === undefined) {
+      delete process.env.CHAGEE_CLI_HOME;
+    } else {
+      process.env.CHAGEE_CLI_HOME = previous;
+    }
+  }
+}
+
+const before: MenuCategory[] = [
+  {
+    id: "cat-milk-tea",
+    name: "Milk Tea",
+    items: [
+      { spuId: "900001", name: "Jasmine Green Milk Tea", price: 5.9 },
+      { spuId: "900002", name: "Oolong Milk Tea", price: 6.2 },
+      { spuId: "900003", name: "Retired Tea", price: 4.5 }
+    ]
+  },
+  {
+    id: "cat-fresh-brew",
+    name: "Fresh Brew",
+    items: [{ spuId: "900102", name: "Seasonal Osmanthus Oolong", price: 6.9, soldOut: true }]
+  }
+];
+const after: MenuCategory[] = [
+  {
+    id: "cat-milk-tea",
+    name: "Milk Tea",
+    items: [
+      { spuId: "900001", name: "Jasmine Green Milk Tea", price: 6.1 },
+      { spuId: "900002", name: "Oolong Milk Tea", price: 6.2, soldOut: true }
+    ]
+  },
+  {
+    id: "cat-fresh-brew",
+    name: "Fresh Brew",
+    items: [
+      { spuId: "900102", name: "Seasonal Osmanthus Oolong", price: 6.9 },
+      { spuId: "900201", name: "Winter Lychee Oolong", price: 7.2 }
+    ]
+  }
+];
+
+test("menu diffs report new, removed, price and stock changes", () => {
+  const diff = diffMenuSnapshots(
+    buildMenuSnapshot("SGM001", "SG:pickup", before, new Date("2026-10-18T10:00:00Z")),
+    buildMenuSnapshot("SGM001", "SG:pickup", after, new Date("2026-10-19T10:00:00Z"))
+  );
+  assert.deepEqual(
+    diff.changes.map((change) => [change.kind, change.spuId]),
+    [
+      ["price", "900001"],
+      ["sold-out", "900002"],
+      ["back-in-stock", "900102"],
+      ["added", "900201"],
+      ["removed", "900003"]
+    ]
+  );
+  const price = diff.changes[0];
+  assert.equal(price?.priceBefore, 5.9);
+  assert.equal(price?.priceAfter, 6.1);
+  assert.equal(diff.from, "2026-10-18T10:00:00.000Z");
+});
+
+test("menu snapshots persist per store and keep the last non-empty diff", async () => {
+  await withSnapshotHome(async () => {
+    assert.equal(menuSnapshotFilePath().endsWith("menu-snapshots.json"), true);
+    assert.equal(await loadStoreMenuHistory("SGM001", "SG:pickup"), undefined);
+
+    const first = await recordMenuSnapshot(
+      buildMenuSnapshot("SGM001", "SG:pickup", before, new Date("2026-10-18T10:00:00Z"))
+    );
+    assert.equal(first, undefined);
+
+    const changed = await recordMenuSnapshot(
+      buildMenuSnapshot("SGM001", "SG:pickup", after, new Date("2026-10-19T10:00:00Z"))
+    );
+    assert.equal(changed?.changes.length, 5);
+
+    const unchanged = await recordMenuSnapshot(
+      buildMenuSnapshot("SGM001", "SG:pickup", after, new Date("2026-10-19T11:00:00Z"))
+    );
+    assert.equal(unchanged, undefined);
+
+    const history = await loadStoreMenuHistory("SGM001", "SG:pickup");
+    assert.equal(history?.current.at, "2026-10-19T11:00:00.000Z");
+    assert.equal(history?.lastDiff?.to, "2026-10-19T10:00:00.000Z");
+    assert.equal(history?.lastDiff?.changes.length, 5);
+  });
+});
+
+test("pickup and delivery menus of a store are snapshotted separately", async () => {
+  await withSnapshotHome(async () => {
+    await recordMenuSnapshot(
+      buildMenuSnapshot("SGM001", "SG:pickup", before, new Date("2026-10-18T10:00:00Z"))
+    );
+    const delivery = await recordMenuSnapshot(
+      buildMenuSnapshot("SGM001", "SG:delivery", after, new Date("2026-10-18T10:05:00Z"))
+    );
+    assert.equal(delivery, undefined);
+    const pickupAgain = await recordMenuSnapshot(
+      buildMenuSnapshot("SGM001", "SG:pickup", before, new Date("2026-10-18T10:10:00Z"))
+    );
+    assert.equal(pickupAgain, undefined);
+    assert.equal((await loadStoreMenuHistory("SGM001", "SG:delivery"))?.current.items.length, 4);
+  });
+});
@@ -0,0 +1,202 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { ChageeClient, envelopeData, isApiOk, isAuthFailure } from "../src/api/client.js";
+import { MOCK_APP_ID, MOCK_USER_ID } from "../src/api/mock-fixtures.js";
+import { MOCK_OTP_CODE, startMockServer } from "../src/api/mock-server.js";
+import type { MockServerHandle, MockServerOptions } from "../src/api/mock-server.js";
+import { getDefaultRegionProfile } from "../src/config/regions.js";
+
+async function withMockClient(
+  token: string | undefined,
+  run: (client: ChageeClient, server: MockServerHandle) => Promise<void>,
+  options: MockServerOptions = {}
+): Promise<void> {
+  const server = await startMockServer(options);
+  const region = { ...getDefaultRegionProfile(), apiBase: server.url, appId: MOCK_APP_ID };
+  const client = new ChageeClient(() => token, () => region);
+  try {
+    await run(client, server);
+  } finally {
+    await server.close();
+  }
+}
+
+test("mock backend serves stores by distance and per-store menus", async () => {
+  await withMockClient(undefined, async (client) => {
+    const stores = await client.listStores({ latitude: 1.3048, longitude: 103.8318 });
+    assert.equal(isApiOk(stores), true);
+    const pageList = envelopeData<{ pageList: Array<{ storeNo: string; distance: number }> }>(
+      stores
+    )?.pageList;
+    assert.equal(pageList?.[0]?.storeNo, "SGM001");
+    assert.equal(pageList?.[0]?.distance, 0);
+
+    const menu = await client.getStoreMenu({ storeNo: "SGM002" });
+    const categories = envelopeData<{
+      menuList: Array<{ goodsList: Array<{ spuId: string; soldOut: boolean; salePrice: number }> }>;
+    }>(menu)?.menuList;
+    const goods = categories?.flatMap((category) => category.goodsList) ?? [];
+    assert.equal(goods.find((item) => item.spuId === "900102")?.soldOut, true);
+    assert.equal(goods.find((item) => item.spuId === "900001")?.salePrice, 6.1);
+
+    const missing = await client.getStoreMenu({ storeNo: "NOPE" });
+    assert.equal(isApiOk(missing), false);
+  });
+});
+
+test("mock backend requires a token for account endpoints and accepts the OTP fixture", async () => {
+  await withMockClient(undefined, async (client) => {
+    const info = await client.getCustomerInfo();
+    assert.equal(info.errcode, "401");
+
+    const badLogin = await client.loginOrRegister({ phone: "+6591234567", code: "000000" });
+    assert.equal(isApiOk(badLogin), false);
+
+    const login = await client.loginOrRegister({ phone: "+6591234567", code: MOCK_OTP_CODE });
+    assert.equal(isApiOk(login), true);
+    assert.equal(envelopeData<{ userId: string }>(login)?.userId, MOCK_USER_ID);
+  });
+});
+
+test("mock backend quotes, creates, pays and reports payment status", async () => {
+  await withMockClient("mock-token", async (client) => {
+    const orderItems = [{ spuId: "900001", skuId: "910002", num: 2 }];
+    const quote = await client.orderPrice({ storeNo: "SGM001", skuList: orderItems });
+    const priceQuote = envelopeData<{ priceQuoteRespVO: { payAmount: string } }>(quote)
+      ?.priceQuoteRespVO;
+    assert.equal(priceQuote?.payAmount, "13.40");
+
+    const stale = await client.orderCreate({ storeNo: "SGM001", orderItems, payAmount: "1.00" });
+    assert.equal(stale.errcode, "O0002");
+
+    const created = await client.orderCreate({ storeNo: "SGM001", orderItems, payAmount: "13.40" });
+    assert.equal(isApiOk(created), true);
+    const orderNo = envelopeData<{ orderNo: string }>(created)?.orderNo ?? "";
+    assert.match(orderNo, /^MOCK\d+$/);
+
+    const pay = await client.continuePay({ orderNo });
+    assert.equal(isApiOk(pay), true);
+
+    const result = await client.payResultList({ userId: MOCK_USER_ID, storeNo: "SGM001", orderNo });
+    assert.equal(envelopeData<Array<{ status: number }>>(result)?.[0]?.status, 2);
+
+    const cancel = await client.orderCancel(MOCK_USER_ID, orderNo);
+    assert.equal(isApiOk(cancel), false);
+  });
+});
+
+test("mock backend without autoPay settles when the pay URL is opened", async () => {
+  await withMockClient(
+    "mock-token",
+    async (client) => {
+      const orderItems = [{ spuId: "900101", skuId: "910101", num: 1 }];
+      const created = await client.orderCreate({ storeNo: "SGM001", orderItems, payAmount: "3.90" });
+      const orderNo = envelopeData<{ orderNo: string }>(created)?.orderNo ?? "";
+      const pay = await client.continuePay({ orderNo });
+      const payUrl = envelopeData<{ payUrl: string }>(pay)?.payUrl ?? "";
+
+      const pending = await client.payResultList({ userId: MOCK_USER_ID, storeNo: "SGM001", orderNo });
+      assert.equal(envelopeData<Array<{ status: number }>>(pending)?.[0]?.status, 1);
+
+      const page = await fetch(payUrl);
+      assert.equal(page.status, 200);
+      await page.text();
+
+      const paid = await client.payResultList({ userId: MOCK_USER_ID, storeNo: "SGM001", orderNo });
+      assert.equal(envelopeData<Array<{ status: number }>>(paid)?.[0]?.status, 2);
+    },
+    { autoPay: false }
+  );
+});
+
+test("mock backend applies wallet vouchers to quote and create", async () => {
+  await withMockClient("mock-token", async (client) => {
+    const wallet = await client.listCoupons({ userId: MOCK_USER_ID, storeNo: "SGM001" });
+    const codes = envelopeData<{ couponList: Array<{ couponCode: string }> }>(wallet)?.couponList;
+    assert.deepEqual(
+      codes?.map((entry) => entry.couponCode),
+      ["TEA1OFF", "BIG3OFF"]
+    );
+
+    const orderItems = [{ spuId: "900001", skuId: "910002", num: 2 }];
+    const promotionList = [{ couponId: "CPN0001", couponCode: "TEA1OFF" }];
+    const quote = await client.orderPrice({ storeNo: "SGM001", skuList: orderItems, promotionList });
+    const priceQuote = envelopeData<{
+      priceQuoteRespVO: { payAmount: string; discountAmount: string };
+    }>(quote)?.priceQuoteRespVO;
+    assert.equal(priceQuote?.payAmount, "12.40");
+    assert.equal(priceQuote?.discountAmount, "1.00");
+
+    const threshold = await client.orderPrice({
+      storeNo: "SGM001",
+      skuList: orderItems,
+      promotionList: [{ couponCode: "BIG3OFF" }]
+    });
+    assert.equal(threshold.errcode, "P0001");
+
+    const unbacked = await client.orderCreate({ storeNo: "SGM001", orderItems, payAmount: "12.40" });
+    assert.equal(unbacked.errcode, "O0002");
+    const created = await client.orderCreate({
+      storeNo: "SGM001",
+      orderItems,
+      payAmount: "12.40",
+      discountInfos: promotionList
+    });
+    assert.equal(isApiOk(created), true);
+  });
+});
+
+test("mock backend filters delivery stores and charges delivery to an address", async () => {
+  await withMockClient("mock-token", async (client) => {
+    const stores = await client.listStores({ latitude: 1.3048, longitude: 103.8318, deliveryType: 2 });
+    const storeNos = envelopeData<{ pageList: Array<{ storeNo: string }> }>(stores)?.pageList.map(
+      (store) => store.storeNo
+    );
+    assert.deepEqual(storeNos, ["SGM001", "SGM002"]);
+
+    const skuList = [{ spuId: "900001", skuId: "910002", num: 2 }];
+    const noAddress = await client.orderPrice({ storeNo: "SGM001", skuList, deliveryType: 2 });
+    assert.equal(noAddress.errcode, "D0001");
+
+    const userAddress = { address: "1 Orchard Rd" };
+    const quote = await client.orderPrice({ storeNo: "SGM001", skuList, deliveryType: 2, userAddress });
+    const priceQuote = envelopeData<{
+      priceQuoteRespVO: { payAmount: string; deliveryFee: string };
+    }>(quote)?.priceQuoteRespVO;
+    assert.equal(priceQuote?.payAmount, "16.40");
+    assert.equal(priceQuote?.deliveryFee, "3.00");
+  });
+});
+
+test("client hands rejected tokens to onAuthFailure and retries once with the new token", async () => {
+  const server = await startMockServer();
+  const region = { ...getDefaultRegionProfile(), apiBase: server.url, appId: MOCK_APP_ID };
+  const expired = `${Buffer.from("{}").toString("base64url")}.${Buffer.from(
+    JSON.stringify({ exp: 1 })
+  ).toString("base64url")}.sig`;
+  let token = expired;
+  const failures: string[] = [];
+  const client = new ChageeClient(
+    () => token,
+    () => region,
+    {
+      onAuthFailure: async (event) => {
+        failures.push(`${event.path} ${String(event.envelope.errcode)}`);
+        token = "mock-token-fresh";
+        return token;
+      }
+    }
+  );
+  try {
+    const info = await client.getCustomerInfo();
+    assert.equal(isApiOk(info), true);
+    assert.deepEqual(failures, ["/api/user-client/customer/info 401"]);
+    assert.equal(isAuthFailure({ errcode: "A0230", errmsg: "Token expired, please log in" }), true);
+    assert.equal(isAuthFailure({ errcode: "O0002", errmsg: "Price changed" }), false);
+    assert.equal(isAuthFailure({ errcode: "A0231", errmsg: "登录已过期，请重新登录" }), true);
+    assert.equal(isAuthFailure({ errcode: "C0101", errmsg: "登录后领取优惠券" }), false);
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { matchPhraseVariant, parseAddPhrase, resolvePhraseItem } from "../src/lib/natural-add.js";
+import type { ItemSkuOption, MenuCategory } from "../src/types.js";
+
+const menu: MenuCategory[] = [
+  {
+    id: "cat-milk-tea",
+    name: "Milk Tea",
+    items: [
+      { spuId: "900001", name: "Jasmine Green Milk Tea", price: 5.9 },
+      { spuId: "900002", name: "Oolong Milk Tea", price: 6.2 }
+    ]
+  },
+  {
+    id: "cat-fresh-brew",
+    name: "Fresh Brew",
+    items: [{ spuId: "900101", name: "Jasmine Tea", price: 3.9 }]
+  }
+];
+
+function option(skuId: string, size: string, ice: string, sugar: string): ItemSkuOption {
+  return {
+    skuId,
+    name: "Jasmine Green Milk Tea",
+    price: skuId === "910002" ? 6.7 : 5.9,
+    specText: `${size} | Ice: ${ice} | Sweetness: ${sugar}`
+  };
+}
+
+// Defaults first, as extractItemSkuOptions lists them.
+const options: ItemSkuOption[] = [];
+for (const [skuId, size] of [
+  ["910001", "Regular"],
+  ["910002", "Large"]
+] as const) {
+  for (const ice of ["Normal Ice", "Less Ice", "No Ice"]) {
+    for (const sugar of ["Standard Sugar", "Less Sugar", "No Sugar"]) {
+      options.push(option(skuId, size, ice, sugar));
+    }
+  }
+}
+
+test("quantities come from x2, 2x or a leading number", () => {
+  assert.deepEqual(parseAddPhrase("jasmine milk tea x2"), { text: "jasmine milk tea", qty: 2 });
+  assert.deepEqual(parseAddPhrase("3x oolong"), { text: "oolong", qty: 3 });
+  assert.deepEqual(parseAddPhrase("2 oolong milk tea"), { text: "oolong milk tea", qty: 2 });
+  assert.deepEqual(parseAddPhrase("oolong"), { text: "oolong", qty: undefined });
+  assert.deepEqual(parseAddPhrase("7"), { text: "7", qty: undefined });
+});
+
+test("the item is the longest run of words naming one menu item", () => {
+  const found = resolvePhraseItem(menu, "large jasmine milk tea less sugar");
+  assert.equal(found.item?.spuId, "900001");
+  assert.deepEqual(found.variantWords, ["large", "less", "sugar"]);
+
+  assert.equal(resolvePhraseItem(menu, "jasmin tea").item?.spuId, "900101");
+
+  const ambiguous = resolvePhraseItem(menu, "milk tea");
+  assert.equal(ambiguous.item, undefined);
+  assert.deepEqual(
+    ambiguous.candidates.map((item) => item.spuId).sort(),
+    ["900001", "900002"]
+  );
+
+  assert.deepEqual(resolvePhraseItem(menu, "espresso").candidates, []);
+});
+
+test("option phrases pick the variant and unmentioned dimensions keep defaults", () => {
+  const match = matchPhraseVariant(options, ["large", "less", "sugar", "no", "ice"]);
+  assert.equal(match.kind, "ok");
+  assert.ok(match.kind === "ok");
+  assert.equal(match.option.skuId, "910002");
+  assert.equal(match.option.specText, "Large | Ice: No Ice | Sweetness: Less Sugar");
+
+  const defaults = matchPhraseVariant(options, ["no", "suger"]);
+  assert.ok(defaults.kind === "ok");
+  assert.equal(defaults.option.specText, "Regular | Ice: Normal Ice | Sweetness: No Sugar");
+
+  const plain = matchPhraseVariant(options, []);
+  assert.ok(plain.kind === "ok");
+  assert.equal(plain.option, options[0]);
+});
+
+test("unclear option phrases are reported instead of guessed", () => {
+  const partial = matchPhraseVariant(options, ["less"]);
+  assert.deepEqual(partial, { kind: "ambiguous", word: "less", labels: ["Less Sugar", "Less Ice"] });
+
+  const unknown = matchPhraseVariant(options, ["hot", "with", "large"]);
+  assert.ok(unknown.kind === "unknown");
+  assert.deepEqual(unknown.words, ["hot"]);
+  assert.ok(unknown.labels.includes("No Ice"));
+
+  assert.deepEqual(matchPhraseVariant(options, ["no", "ice", "less", "ice"]), {
+    kind: "none",
+    labels: ["Less Ice", "No Ice"]
+  });
+});
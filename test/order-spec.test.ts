@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  findSpecMenuItem,
+  matchSpecVariant,
+  parseOrderSpec,
+  pickSpecStore
+} from "../src/lib/order-spec.js";
+import type { ItemSkuOption, MenuCategory, StoreState } from "../src/types.js";
+
+test("parseOrderSpec applies defaults and accepts shorthand items", () => {
+  const parsed = parseOrderSpec({
+    store: "Shortest-Wait",
+    items: ["Jasmine Tea", { spuId: 900001, variant: "Large, Less Ice", qty: "2" }]
+  });
+  assert.deepEqual(parsed.errors, []);
+  assert.equal(parsed.spec?.mode, "dry-run");
+  assert.deepEqual(parsed.spec?.store, { kind: "shortest-wait" });
+  assert.deepEqual(parsed.spec?.pay, { await: true, timeoutSec: undefined, open: false });
+  assert.deepEqual(parsed.spec?.items[1], {
+    spuId: "900001",
+    name: undefined,
+    skuId: undefined,
+    variant: ["Large", "Less Ice"],
+    qty: 2
+  });
+
+  const byStoreNo = parseOrderSpec({ store: { storeNo: "SGM002" }, items: ["x"], mode: "live" });
+  assert.deepEqual(byStoreNo.spec?.store, { kind: "storeNo", storeNo: "SGM002" });
+});
+
+test("parseOrderSpec collects every validation error", () => {
+  const parsed = parseOrderSpec({ mode: "yolo", items: [{ qty: 1 }, { name: "x", qty: 50 }] });
+  assert.equal(parsed.spec, undefined);
+  assert.equal(parsed.errors.length, 4);
+  assert.deepEqual(parseOrderSpec([]).errors, ["spec must be a JSON object"]);
+});
+
+test("pickSpecStore skips closed stores for nearest and shortest-wait", () => {
+  const stores: StoreState[] = [
+    { storeNo: "A", storeName: "A", distanceMeters: 10, waitingTime: 1, runningStatusDesc: "Closed" },
+    { storeNo: "B", storeName: "B", distanceMeters: 200, waitingTime: 20 },
+    { storeNo: "C", storeName: "C", distanceMeters: 900, waitingTime: 5 }
+  ];
+  assert.equal(pickSpecStore(stores, { kind: "nearest" })?.storeNo, "B");
+  assert.equal(pickSpecStore(stores, { kind: "shortest-wait" })?.storeNo, "C");
+  assert.equal(pickSpecStore(stores, { kind: "storeNo", storeNo: "A" })?.storeNo, "A");
+  assert.equal(pickSpecStore(stores, { kind: "storeNo", storeNo: "Z" }), undefined);
+});
+
+test("findSpecMenuItem prefers spuId, then exact name, then a unique substring", () => {
+  const categories: MenuCategory[] = [
+    {
+      id: "milk",
+      name: "Milk Tea",
+      items: [
+        { spuId: "1", name: "Jasmine Green Milk Tea" },
+        { spuId: "2", name: "Oolong Milk Tea" }
+      ]
+    },
+    { id: "brew", name: "Fresh Brew", items: [{ spuId: "3", name: "Jasmine Tea" }] }
+  ];
+  assert.equal(findSpecMenuItem(categories, { spuId: "2" }).item?.name, "Oolong Milk Tea");
+  assert.equal(findSpecMenuItem(categories, { name: "jasmine tea" }).item?.spuId, "3");
+  assert.equal(findSpecMenuItem(categories, { name: "oolong" }).item?.spuId, "2");
+
+  const ambiguous = findSpecMenuItem(categories, { name: "milk tea" });
+  assert.equal(ambiguous.item, undefined);
+  assert.deepEqual(
+    ambiguous.candidates.map((item) => item.spuId),
+    ["1", "2"]
+  );
+});
+
+test("matchSpecVariant requires every token to match a variant segment", () => {
+  const options: ItemSkuOption[] = [
+    { skuId: "r", name: "x", specText: "Regular | Ice: Normal Ice | Sweetness: Standard Sugar" },
+    { skuId: "l1", name: "x", specText: "Large | Ice: Normal Ice | Sweetness: Standard Sugar" },
+    { skuId: "l2", name: "x", specText: "Large | Ice: Less Ice | Sweetness: Standard Sugar" }
+  ];
+  assert.deepEqual(
+    matchSpecVariant(options, { variant: ["large", "Less Ice"] }).map((option) => option.skuId),
+    ["l2"]
+  );
+  assert.deepEqual(
+    matchSpecVariant(options, { variant: ["Ice: Normal Ice"] }).map((option) => option.skuId),
+    ["r", "l1"]
+  );
+  assert.equal(matchSpecVariant(options, { variant: [] }).length, 3);
+  assert.equal(matchSpecVariant(options, { variant: ["Large"], skuId: "r" }).length, 0);
+  assert.equal(matchSpecVariant(options, { variant: ["No Ice"] }).length, 0);
+});
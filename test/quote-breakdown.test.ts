@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { parseQuoteBreakdown, quoteUnexplainedAmount } from "../src/lib/quote-breakdown.js";
+
+test("quote breakdown parses lines, discount lists and fee lists", () => {
+  const breakdown = parseQuoteBreakdown({
+    payAmount: "15.10",
+    discountAmount: "2.50",
+    taxAmount: "1.25",
+    goodsList: [
+      { skuId: 910002, name: "Jasmine", num: 2, unitPrice: "6.90", basePrice: "6.40", totalPrice: "13.80" },
+      { skuId: "910101", num: 1, salePrice: 3.9 }
+    ],
+    promotionList: [
+      { promotionName: "Member 10%", discountAmount: "1.50" },
+      { promotionName: "Coupon", discountAmount: "-1.00" }
+    ],
+    feeInfoList: [{ feeName: "Packaging", feeAmount: "0.40" }]
+  });
+
+  assert.deepEqual(
+    breakdown.lines.map((line) => [line.skuId, line.qty, line.optionsSurcharge, line.lineTotal]),
+    [
+      ["910002", 2, 0.5, 13.8],
+      ["910101", 1, 0, 3.9]
+    ]
+  );
+  assert.equal(breakdown.subtotal, 17.7);
+  assert.deepEqual(breakdown.discounts, [
+    { label: "Member 10%", amount: 1.5 },
+    { label: "Coupon", amount: 1 }
+  ]);
+  assert.equal(breakdown.discountTotal, 2.5);
+  assert.deepEqual(breakdown.fees, [{ label: "Packaging", amount: 0.4 }]);
+  assert.equal(breakdown.payable, 15.1);
+  assert.equal(quoteUnexplainedAmount(breakdown), -0.5);
+});
+
+test("a zero discount total does not hide a populated discount list", () => {
+  const breakdown = parseQuoteBreakdown({
+    payAmount: "5.40",
+    discountAmount: "0.00",
+    goodsList: [{ skuId: "910002", num: 1, totalPrice: "6.90" }],
+    discountList: [{ name: "Member 1.50 off", discountAmount: "1.50" }]
+  });
+  assert.deepEqual(breakdown.discounts, [{ label: "Member 1.50 off", amount: 1.5 }]);
+  assert.equal(breakdown.discountTotal, 1.5);
+  assert.equal(quoteUnexplainedAmount(breakdown), 0);
+});
+
+test("quote breakdown falls back to top-level fee keys and the probed total", () => {
+  const breakdown = parseQuoteBreakdown({ packingFee: "0.60", discountAmount: "0.00" }, "7.20");
+  assert.deepEqual(breakdown.lines, []);
+  assert.deepEqual(breakdown.discounts, []);
+  assert.deepEqual(breakdown.fees, [{ label: "Packaging fee", amount: 0.6 }]);
+  assert.equal(breakdown.payable, 7.2);
+
+  const empty = parseQuoteBreakdown(undefined);
+  assert.equal(empty.payable, undefined);
+  assert.equal(quoteUnexplainedAmount(empty), undefined);
+});
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  checkWaitThreshold,
+  formatScheduleClock,
+  formatTimeUntil,
+  parseScheduleAt
+} from "../src/lib/schedule.js";
+
+test("schedule times parse as the next local HH:MM, relative offsets or ISO", () => {
+  const now = new Date(2026, 9, 19, 14, 30, 0);
+
+  const later = parseScheduleAt("14:45", now);
+  assert.equal(later?.getDate(), 19);
+  assert.equal(later?.getHours(), 14);
+  assert.equal(later?.getMinutes(), 45);
+  assert.equal(formatScheduleClock(later ?? now, now), "14:45");
+
+  const passed = parseScheduleAt("9:05", now);
+  assert.equal(passed?.getDate(), 20);
+  assert.equal(formatScheduleClock(passed ?? now, now), "09:05 (tomorrow)");
+
+  assert.equal(parseScheduleAt("+15m", now)?.getTime(), now.getTime() + 15 * 60_000);
+  assert.equal(parseScheduleAt("+2h", now)?.getTime(), now.getTime() + 2 * 3_600_000);
+  assert.equal(parseScheduleAt("2026-10-19T15:00:00Z", now)?.toISOString(), "2026-10-19T15:00:00.000Z");
+  assert.equal(parseScheduleAt("24:00", now), undefined);
+  assert.equal(parseScheduleAt("soon", now), undefined);
+
+  assert.equal(formatTimeUntil(new Date(now.getTime() + 3_900_000), now), "1h 05m");
+  assert.equal(formatTimeUntil(new Date(now.getTime() + 42_000), now), "42s");
+});
+
+test("wait threshold passes only when the wait is known and short enough", () => {
+  assert.deepEqual(checkWaitThreshold(undefined, undefined), { ok: true });
+  assert.deepEqual(checkWaitThreshold(8, 10), { ok: true });
+  assert.equal(checkWaitThreshold(12, 10).ok, false);
+  assert.match(checkWaitThreshold(12, 10).reason ?? "", /over maxWait=10min/);
+  assert.equal(checkWaitThreshold(undefined, 10).ok, false);
+});
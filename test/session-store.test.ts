@@ -0,0 +1,236 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import {
+  SessionStore,
+  mergeSessionChanges,
+  sessionFilePath,
+  sessionLockFilePath
+} from "../src/lib/session-store.js";
+import { createInitialState } from "../src/lib/state.js";
+import type { CartLine } from "../src/types.js";
+
+async function withSessionHome(run: () => Promise<void>): Promise<void> {
+  const tempHome = await mkdtemp(join(tmpdir(), "chagee-session-"));
+  const previous = process.env.CHAGEE_CLI_HOME;
+  process.env.CHAGEE_CLI_HOME = join(tempHome, ".chagee-cli");
+  try {
+    await mkdir(join(tempHome, ".chagee-cli"), { recursive: true });
+    await run();
+  } finally {
+    if (previous === undefined) {
+      delete process.env.CHAGEE_CLI_HOME;
+    } else {
+      process.env.CHAGEE_CLI_HOME = previous;
+    }
+  }
+}
+
+function line(lineId: string, qty = 1): CartLine {
+  return { lineId, skuId: `sku-${lineId}`, qty };
+}
+
+test("merge keeps lines added on both sides and applies the other side's edits and removals", () => {
+  const base = { cart: [line("a"), line("b"), line("c")], quote: { at: "t0", raw: {} } };
+  const ours = { cart: [line("a"), line("b"), line("c"), line("mine")], quote: undefined };
+  const theirs = {
+    cart: [line("a", 3), line("c"), line("theirs")],
+    quote: { at: "t1", raw: {} },
+    order: { orderNo: "ORD1", createdAt: "t1" }
+  };
+
+  const merged = mergeSessionChanges(base, ours, theirs);
+  assert.deepEqual(
+    merged.cart?.map((cartLine) => [cartLine.lineId, cartLine.qty]),
+    [
+      ["a", 3],
+      ["c", 1],
+      ["mine", 1],
+      ["theirs", 1]
+    ]
+  );
+  assert.equal(merged.quote, undefined);
+  assert.equal(merged.order?.orderNo, "ORD1");
+
+  const ourOrder = { ...base, order: { orderNo: "ORD2", createdAt: "t2" } };
+  const oursChanged = mergeSessionChanges(base, ourOrder, theirs);
+  assert.equal(oursChanged.order?.orderNo, "ORD2");
+  assert.equal(oursChanged.quote?.at, "t1");
+});
+
+test("saving over a newer revision merges the other writer's cart and bumps the revision", async () => {
+  await withSessionHome(async () => {
+    const store = new SessionStore();
+    await store.load();
+    const state = createInitialState();
+    state.cart = [line("a")];
+    const first = await store.save(state);
+    assert.equal(first.revision, 1);
+    assert.equal(first.merged, undefined);
+
+    // Another process adds a line and saves revision 2.
+    const raw = JSON.parse(await readFile(sessionFilePath(), "utf8")) as Record<string, unknown>;
+    await writeFile(
+      sessionFilePath(),
+      JSON.stringify({
+        ...raw,
+        revision: 2,
+        writer: { pid: 1, host: "other" },
+        cart: [line("a"), line("b")]
+      })
+    );
+
+    state.cart = [line("a", 2)];
+    const second = await store.save(state);
+    assert.equal(second.revision, 3);
+    assert.deepEqual(
+      second.merged?.cart?.map((cartLine) => [cartLine.lineId, cartLine.qty]),
+      [
+        ["a", 2],
+        ["b", 1]
+      ]
+    );
+    assert.match(second.warnings[0] ?? "", /changed by another process \(pid 1\)/);
+
+    const loaded = await new SessionStore().load();
+    assert.equal(loaded.state?.cart?.length, 2);
+    const files = await readdir(process.env.CHAGEE_CLI_HOME ?? "");
+    assert.equal(files.some((name) => name.endsWith(".write.lock")), false);
+  });
+});
+
+test("a one-shot run clearing its cart on exit does not remove another process's lines", async () => {
+  await withSessionHome(async () => {
+    const store = new SessionStore();
+    await store.load();
+    const state = createInitialState();
+    state.cart = [line("a")];
+    await store.save(state);
+
+    const oneShot = spawnSync(
+      process.execPath,
+      ["--import", "tsx", "src/cli.ts", "--location-policy", "manual-only", "-c", "status"],
+      {
+        env: { ...process.env, CHAGEE_TOKEN_BACKENDS: "plaintext" },
+        encoding: "utf8",
+        timeout: 60_000
+      }
+    );
+    assert.equal(oneShot.status, 0, oneShot.stderr);
+    const onDisk = JSON.parse(await readFile(sessionFilePath(), "utf8")) as { cart: CartLine[] };
+    assert.deepEqual(onDisk.cart, []);
+
+    state.cart = [line("a"), line("b")];
+    await store.save(state);
+    const loaded = await new SessionStore().load();
+    assert.deepEqual(
+      loaded.state?.cart?.map((cartLine) => cartLine.lineId),
+      ["a", "b"]
+    );
+  });
+});
+
+test("an exit cleanup carried forward by later writes still does not remove another process's lines", async () => {
+  await withSessionHome(async () => {
+    const first = new SessionStore();
+    await first.load();
+    const state = createInitialState();
+    state.cart = [line("a")];
+    await first.save(state);
+
+    // A second process exits and empties the cart, then a third one adds a line on top.
+    const exiting = new SessionStore();
+    await exiting.load();
+    await exiting.save(createInitialState(), { exitCleanup: true });
+    const third = new SessionStore();
+    const thirdState = { ...createInitialState(), ...(await third.load()).state };
+    thirdState.cart = [line("c")];
+    await third.save(thirdState);
+
+    state.cart = [line("a"), line("b")];
+    const result = await first.save(state);
+    assert.deepEqual(
+      result.merged?.cart?.map((cartLine) => cartLine.lineId),
+      ["a", "b", "c"]
+    );
+  });
+});
+
+test("cart and order changes are only merged between snapshots of the same store", async () => {
+  await withSessionHome(async () => {
+    const store = new SessionStore();
+    await store.load();
+    const state = createInitialState();
+    state.selectedStore = { storeNo: "S1", storeName: "One" };
+    state.cart = [line("a")];
+    await store.save(state);
+
+    const other = new SessionStore();
+    const otherState = { ...createInitialState(), ...(await other.load()).state };
+    otherState.selectedStore = { storeNo: "S2", storeName: "Two" };
+    otherState.cart = [line("x")];
+    await other.save(otherState);
+
+    state.cart = [line("a"), line("b")];
+    const result = await store.save(state);
+    assert.equal(result.merged, undefined);
+    assert.match(result.warnings[0] ?? "", /for store S2; kept this process's cart\/order for store S1/);
+    const loaded = await new SessionStore().load();
+    assert.deepEqual(
+      loaded.state?.cart?.map((cartLine) => cartLine.lineId),
+      ["a", "b"]
+    );
+  });
+});
+
+test("a save waits for a live writer's lock instead of taking it over", async () => {
+  await withSessionHome(async () => {
+    const store = new SessionStore();
+    await store.load();
+    const writeLock = `${sessionFilePath()}.write.lock`;
+    await writeFile(writeLock, JSON.stringify({ pid: process.ppid, host: hostname(), startedAt: "t0" }));
+    const startedAt = Date.now();
+    const released = new Promise((resolve) => setTimeout(resolve, 300)).then(() => rm(writeLock));
+    const saved = await store.save(createInitialState());
+    await released;
+    assert.ok(Date.now() - startedAt >= 300);
+    assert.deepEqual(saved.warnings, []);
+  });
+});
+
+test("the session lock reports a live holder and replaces a stale one", async () => {
+  await withSessionHome(async () => {
+    const host = hostname();
+    const live = { pid: process.ppid, host, startedAt: "t0" };
+    await writeFile(sessionLockFilePath(), JSON.stringify(live));
+    const store = new SessionStore();
+    const held = await store.acquireLock();
+    assert.equal(held.acquired, false);
+    assert.equal(held.holder?.pid, process.ppid);
+
+    const exited = spawnSync(process.execPath, ["-e", ""]).pid;
+    await writeFile(sessionLockFilePath(), JSON.stringify({ pid: exited, host, startedAt: "t0" }));
+    try {
+      assert.deepEqual(await store.acquireLock(), { acquired: true });
+      const owner = JSON.parse(await readFile(sessionLockFilePath(), "utf8")) as { pid: number };
+      assert.equal(owner.pid, process.pid);
+    } finally {
+      store.releaseLock();
+    }
+  });
+});
+
+test("a corrupt session file is backed up with a warning", async () => {
+  await withSessionHome(async () => {
+    await writeFile(sessionFilePath(), "{\"session\": ");
+    const loaded = await new SessionStore().load();
+    assert.equal(loaded.state, undefined);
+    assert.match(loaded.warnings[0] ?? "", /not valid JSON/);
+    const files = await readdir(process.env.CHAGEE_CLI_HOME ?? "");
+    assert.equal(files.filter((name) => name.startsWith("session.json.corrupt-")).length, 1);
+  });
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { parseQuoteBreakdown } from "../src/lib/quote-breakdown.js";
+import { UNASSIGNED_OWNER, computeBillSplit, formatPayNowSummary } from "../src/lib/split.js";
+import type { QuoteBreakdown } from "../src/types.js";
+
+function payableOnly(payable: number): QuoteBreakdown {
+  return {
+    lines: [],
+    subtotal: 0,
+    discounts: [],
+    discountTotal: 0,
+    fees: [],
+    feeTotal: 0,
+    payable
+  };
+}
+
+test("bill split is proportional to line prices and sums to the payable", () => {
+  const split = computeBillSplit(
+    [
+      { owner: "alice", qty: 2, price: 6.7 },
+      { owner: "bob", qty: 1, price: 3.9 },
+      { owner: "alice", qty: 1, price: 3.9 },
+      { qty: 1, price: 5.9 }
+    ],
+    payableOnly(20)
+  );
+  assert.deepEqual(
+    split.owners.map((row) => [row.owner, row.items, row.base]),
+    [
+      ["alice", 3, 17.3],
+      ["bob", 1, 3.9],
+      [UNASSIGNED_OWNER, 1, 5.9]
+    ]
+  );
+  const cents = split.owners.reduce((sum, row) => sum + Math.round(row.share * 100), 0);
+  assert.equal(cents, 2000);
+  assert.equal(split.rounding, -7.1);
+  assert.equal(split.owners[0]?.share, 12.77);
+});
+
+test("bill split falls back to item counts when prices are unknown", () => {
+  const split = computeBillSplit(
+    [
+      { owner: "a", qty: 1 },
+      { owner: "b", qty: 1 },
+      { owner: "c", qty: 1 }
+    ],
+    payableOnly(10)
+  );
+  assert.deepEqual(
+    split.owners.map((row) => row.share),
+    [3.34, 3.33, 3.33]
+  );
+});
+
+test("bill split uses quoted line prices and allocates discount and fees by line", () => {
+  const quote = parseQuoteBreakdown({
+    payAmount: "16.30",
+    discountAmount: "2.00",
+    packingFee: "0.60",
+    goodsList: [
+      { skuId: "L", num: 2, unitPrice: "6.90", totalPrice: "13.80" },
+      { skuId: "T", num: 1, unitPrice: "3.90", totalPrice: "3.90" }
+    ]
+  });
+  assert.equal(quote.discountTotal, 2);
+  assert.equal(quote.feeTotal, 0.6);
+
+  const split = computeBillSplit(
+    [
+      { owner: "alice", skuId: "L", qty: 1, price: 6.7 },
+      { owner: "bob", skuId: "L", qty: 1, price: 6.7 },
+      { owner: "bob", skuId: "T", qty: 1, price: 3.9 }
+    ],
+    quote
+  );
+  assert.deepEqual(
+    split.lines.map((line) => line.base),
+    [6.9, 6.9, 3.9]
+  );
+  assert.equal(split.rounding, 0);
+  assert.deepEqual(
+    split.owners.map((row) => [row.owner, row.discount, row.fees, row.share]),
+    [
+      ["alice", 0.78, 0.24, 6.36],
+      ["bob", 1.22, 0.36, 9.94]
+    ]
+  );
+
+  const summary = formatPayNowSummary(split, { currencySymbol: "$", title: "Orchard", payTo: "Sam" });
+  assert.match(summary, /^Orchard: \$16\.30 total/);
+  assert.match(summary, /- bob: \$9\.94 \(2 items\)/);
+  assert.match(summary, /PayNow Sam/);
+});
@@ -37,6 +37,7 @@ test("resetForStoreSwitch clears order/payment/cart state", () => {
     raw: {}
   };
   state.pendingCreatePayload = { foo: "bar" };
+  state.appliedVouchers = [{ id: "v1", code: "SAVE1" }];
   state.order = {
     orderNo: "ORD123",
     createdAt: new Date().toISOString()
@@ -48,6 +49,24 @@ test("resetForStoreSwitch clears order/payment/cart state", () => {
   assert.equal(state.cart.length, 0);
   assert.equal(state.quote, undefined);
   assert.equal(state.pendingCreatePayload, undefined);
+  assert.equal(state.appliedVouchers, undefined);
   assert.equal(state.order, undefined);
   assert.equal(state.payment, undefined);
 });
+
+test("delivery without an address has its own phase until an order exists", () => {
+  const state = createInitialState();
+  state.auth = { token: "t", userId: "u" };
+  state.selectedStore = { storeNo: "S1", storeName: "Store" };
+  assert.equal(derivePhase(state), "READY");
+
+  state.session.fulfillment = "delivery";
+  assert.equal(derivePhase(state), "DELIVERY_NO_ADDRESS");
+
+  state.session.deliveryAddress = { label: "home", address: "1 Main St", savedAt: "" };
+  assert.equal(derivePhase(state), "READY");
+
+  state.session.deliveryAddress = undefined;
+  state.order = { orderNo: "ORD1", createdAt: new Date().toISOString() };
+  assert.equal(derivePhase(state), "ORDER_CREATED");
+});
@@ -0,0 +1,247 @@
+import assert from "node:assert/strict";
+import { createCipheriv, randomBytes, scryptSync } from "node:crypto";
+import { mkdir, mkdtemp, readFile, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import { loadAccounts, upsertAccount } from "../src/lib/account-store.js";
+import {
+  clearAuthToken,
+  forgetTokenCommandOutput,
+  loadAuthToken,
+  loadExternalAuthToken,
+  migratePlaintextTokens,
+  saveAuthToken,
+  saveTokenStoreConfig,
+  tokenBackendStatus,
+  unlockVault
+} from "../src/lib/token-store.js";
+
+const TOKEN_ENV_VARS = [
+  "HOME",
+  "CHAGEE_CLI_HOME",
+  "CHAGEE_VAULT_PASSPHRASE",
+  "CHAGEE_TOKEN",
+  "CHAGEE_TOKEN_CMD",
+  "CHAGEE_TOKEN_BACKENDS"
+] as const;
+
+// Runs with a temp HOME and only the given token-related env vars set. The backend order
+// defaults to vault,plaintext so a system keychain on the test machine does not interfere.
+async function withTokenHome(
+  env: Partial<Record<(typeof TOKEN_ENV_VARS)[number], string>>,
+  run: (home: string) => Promise<void>
+): Promise<void> {
+  const tempHome = await mkdtemp(join(tmpdir(), "chagee-tokens-"));
+  const previous = new Map(TOKEN_ENV_VARS.map((name) => [name, process.env[name]]));
+  for (const name of TOKEN_ENV_VARS) {
+    delete process.env[name];
+  }
+  Object.assign(process.env, { CHAGEE_TOKEN_BACKENDS: "vault,plaintext", ...env, HOME: tempHome });
+  try {
+    await run(tempHome);
+  } finally {
+    for (const [name, value] of previous) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  }
+}
+
+test("vault encrypts tokens at rest and needs the same passphrase to read them", async () => {
+  await withTokenHome({ CHAGEE_VAULT_PASSPHRASE: "correct horse" }, async (home) => {
+    await saveAuthToken("u-1", "secret-token-1");
+    const raw = await readFile(join(home, ".chagee-cli", "tokens.vault.json"), "utf8");
+    assert.equal(raw.includes("secret-token-1"), false);
+    assert.equal((await stat(join(home, ".chagee-cli", "tokens.vault.json"))).mode & 0o077, 0);
+    await assert.rejects(stat(join(home, ".chagee-cli", "tokens.json")));
+    assert.equal(await loadAuthToken("u-1"), "secret-token-1");
+
+    process.env.CHAGEE_VAULT_PASSPHRASE = "wrong";
+    assert.equal(await loadAuthToken("u-1"), undefined);
+    assert.match((await tokenBackendStatus()).note ?? "", /wrong passphrase/);
+    assert.equal(await saveAuthToken("u-2", "secret-token-2"), false);
+    await assert.rejects(stat(join(home, ".chagee-cli", "tokens.json")));
+
+    process.env.CHAGEE_VAULT_PASSPHRASE = "correct horse";
+    await clearAuthToken("u-1");
+    assert.equal(await loadAuthToken("u-1"), undefined);
+  });
+});
+
+test("vault files are read with the scrypt parameters stored in them", async () => {
+  await withTokenHome({ CHAGEE_VAULT_PASSPHRASE: "correct horse" }, async (home) => {
+    const kdf = { name: "scrypt", salt: randomBytes(16).toString("base64"), N: 1 << 14, r: 4, p: 2 };
+    const key = scryptSync("correct horse", Buffer.from(kdf.salt, "base64"), 32, {
+      N: kdf.N,
+      r: kdf.r,
+      p: kdf.p
+    });
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify({ "u-1": "old-cost" })), cipher.final()]);
+    const file = join(home, ".chagee-cli", "tokens.vault.json");
+    await mkdir(join(home, ".chagee-cli"), { recursive: true });
+    await writeFile(
+      file,
+      JSON.stringify({
+        schemaVersion: 1,
+        kdf,
+        cipher: "aes-256-gcm",
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+        data: data.toString("base64")
+      })
+    );
+
+    assert.equal(await loadAuthToken("u-1"), "old-cost");
+    assert.equal(await saveAuthToken("u-2", "new-token"), true);
+    assert.deepEqual(JSON.parse(await readFile(file, "utf8")).kdf, kdf);
+    assert.equal(await loadAuthToken("u-2"), "new-token");
+  });
+});
+
+test("unlockVault asks for the passphrase when the env var is unset", async () => {
+  await withTokenHome({ CHAGEE_VAULT_PASSPHRASE: "correct horse" }, async () => {
+    const prompts: string[] = [];
+    const answers = ["wrong", "correct horse"];
+    const ask = async (prompt: string): Promise<string> => {
+      prompts.push(prompt);
+      return answers.shift() ?? "";
+    };
+    // Nothing to unlock before a vault exists.
+    delete process.env.CHAGEE_VAULT_PASSPHRASE;
+    assert.equal(await unlockVault(ask), false);
+    assert.deepEqual(prompts, []);
+
+    process.env.CHAGEE_VAULT_PASSPHRASE = "correct horse";
+    await saveAuthToken("u-1", "secret-token-1");
+    delete process.env.CHAGEE_VAULT_PASSPHRASE;
+    assert.equal(await loadAuthToken("u-1"), undefined);
+
+    assert.equal(await unlockVault(ask), true);
+    assert.deepEqual(prompts, ["Vault passphrase: ", "Wrong passphrase, try again: "]);
+    assert.equal(await loadAuthToken("u-1"), "secret-token-1");
+  });
+});
+
+test("migrate moves plaintext tokens into the vault and removes tokens.json", async () => {
+  await withTokenHome({ CHAGEE_VAULT_PASSPHRASE: "correct horse" }, async (home) => {
+    await mkdir(join(home, ".chagee-cli"), { recursive: true });
+    await writeFile(
+      join(home, ".chagee-cli", "tokens.json"),
+      JSON.stringify({ "u-1": "legacy-1", "u-2": "legacy-2" })
+    );
+    assert.equal(await loadAuthToken("u-2"), "legacy-2");
+
+    const result = await migratePlaintextTokens();
+    assert.equal(result.backend, "vault");
+    assert.deepEqual(result.moved, ["u-1", "u-2"]);
+    assert.deepEqual(result.remaining, []);
+    await assert.rejects(stat(join(home, ".chagee-cli", "tokens.json")));
+    assert.equal(await loadAuthToken("u-1"), "legacy-1");
+  });
+});
+
+test("without a secure backend tokens stay in plaintext and migrate reports them", async () => {
+  await withTokenHome({}, async () => {
+    const status = await tokenBackendStatus();
+    assert.equal(status.name, "plaintext");
+    assert.match(status.note ?? "", /CHAGEE_VAULT_PASSPHRASE/);
+    await saveAuthToken("u-1", "plain-1");
+    assert.equal(await loadAuthToken("u-1"), "plain-1");
+    assert.deepEqual(await migratePlaintextTokens(), {
+      backend: "plaintext",
+      moved: [],
+      remaining: ["u-1"]
+    });
+  });
+});
+
+test("CHAGEE_TOKEN is only the external token and never copied into a writable backend", async () => {
+  await withTokenHome(
+    { CHAGEE_TOKEN: "env-token", CHAGEE_TOKEN_BACKENDS: "env,plaintext" },
+    async (home) => {
+      assert.equal(await loadAuthToken("u-1"), undefined);
+      assert.deepEqual(await loadExternalAuthToken(), { token: "env-token", backend: "env" });
+      assert.equal(await saveAuthToken("u-1", "env-token"), true);
+      await assert.rejects(stat(join(home, ".chagee-cli", "tokens.json")));
+
+      await saveAuthToken("u-1", "other-token");
+      const raw = await readFile(join(home, ".chagee-cli", "tokens.json"), "utf8");
+      assert.deepEqual(JSON.parse(raw), { "u-1": "other-token" });
+      assert.equal(await loadAuthToken("u-1"), "other-token");
+    }
+  );
+});
+
+test("saved accounts keep their own tokens while CHAGEE_TOKEN is set", async () => {
+  await withTokenHome(
+    { CHAGEE_TOKEN: "env-token", CHAGEE_TOKEN_BACKENDS: "env,plaintext" },
+    async () => {
+      await saveAuthToken("u-work", "work-token");
+      await saveAuthToken("u-home", "home-token");
+      await upsertAccount({ alias: "work", region: "SG", userId: "u-work", updatedAt: "t0" });
+      await upsertAccount({ alias: "home", region: "SG", userId: "u-home", updatedAt: "t0" });
+      const tokens = await Promise.all(
+        (await loadAccounts()).map(async (account) => [
+          account.alias,
+          await loadAuthToken(account.userId ?? "")
+        ])
+      );
+      assert.deepEqual(tokens.sort(), [
+        ["home", "home-token"],
+        ["work", "work-token"]
+      ]);
+      // An account whose token is gone signs out instead of borrowing the env token.
+      assert.equal(await loadAuthToken("u-gone"), undefined);
+    }
+  );
+});
+
+test("token-cmd output supplies the token and the configured order disables other backends", async () => {
+  // An empty CHAGEE_TOKEN_BACKENDS leaves the order to token-store.json.
+  await withTokenHome({ CHAGEE_TOKEN_BACKENDS: "" }, async (home) => {
+    await mkdir(join(home, ".chagee-cli"), { recursive: true });
+    await writeFile(join(home, ".chagee-cli", "tokens.json"), JSON.stringify({ "u-1": "legacy" }));
+    await saveTokenStoreConfig({
+      order: ["cmd", "env"],
+      tokenCmd: 'printf "cmd-token-$CHAGEE_USER_ID\\nignored\\n"'
+    });
+
+    assert.equal(await loadAuthToken("u-1"), "cmd-token-u-1");
+    assert.deepEqual(await loadExternalAuthToken(), { token: "cmd-token-", backend: "cmd" });
+
+    const status = await tokenBackendStatus();
+    assert.deepEqual(
+      status.backends.map((backend) => [backend.name, backend.available]),
+      [
+        ["cmd", true],
+        ["env", false]
+      ]
+    );
+    assert.equal(status.location, "(none)");
+    await clearAuthToken("u-1");
+    const raw = await readFile(join(home, ".chagee-cli", "tokens.json"), "utf8");
+    assert.deepEqual(JSON.parse(raw), { "u-1": "legacy" });
+  });
+});
+
+test("token-cmd output is reused until it is forgotten", async () => {
+  await withTokenHome({ CHAGEE_TOKEN_BACKENDS: "cmd" }, async (home) => {
+    const tokenFile = join(home, "token.txt");
+    await writeFile(tokenFile, "first-token\n");
+    process.env.CHAGEE_TOKEN_CMD = `cat "${tokenFile}"`;
+
+    assert.equal(await loadAuthToken("u-1"), "first-token");
+    await writeFile(tokenFile, "rotated-token\n");
+    assert.equal(await loadAuthToken("u-1"), "first-token");
+
+    forgetTokenCommandOutput();
+    assert.equal(await loadAuthToken("u-1"), "rotated-token");
+  });
+});
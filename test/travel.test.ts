@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  estimateTravelMinutes,
+  parseTravelMode,
+  pickFastestStore,
+  pickupEtaMinutes,
+  resolveTravelSpeedKmh,
+  sortStoresByEta
+} from "../src/lib/travel.js";
+import type { StoreState } from "../src/types.js";
+
+test("travel modes resolve default speeds unless a custom speed is set", () => {
+  assert.equal(parseTravelMode("Walking"), "walk");
+  assert.equal(parseTravelMode("bike"), "cycle");
+  assert.equal(parseTravelMode("car"), "drive");
+  assert.equal(parseTravelMode("fly"), undefined);
+
+  assert.equal(resolveTravelSpeedKmh(undefined), 4.5);
+  assert.equal(resolveTravelSpeedKmh("drive"), 25);
+  assert.equal(resolveTravelSpeedKmh("drive", 40), 40);
+  assert.equal(resolveTravelSpeedKmh("cycle", 0), 14);
+
+  assert.equal(estimateTravelMinutes(1500, 4.5), 20);
+  assert.equal(estimateTravelMinutes(undefined), undefined);
+});
+
+test("eta ranking prefers a farther store when the nearest one has a long queue", () => {
+  const stores: StoreState[] = [
+    { storeNo: "NEAR", storeName: "Near", distanceMeters: 300, waitingTime: 25 },
+    { storeNo: "MID", storeName: "Mid", distanceMeters: 900, waitingTime: 5 },
+    {
+      storeNo: "SHUT",
+      storeName: "Shut",
+      distanceMeters: 100,
+      waitingTime: 0,
+      runningStatusDesc: "Closed"
+    },
+    { storeNo: "NOWAIT", storeName: "No wait info", distanceMeters: 200 }
+  ];
+
+  assert.equal(pickupEtaMinutes(stores[1] as StoreState, 4.5), 12);
+  assert.equal(pickupEtaMinutes(stores[3] as StoreState, 4.5), undefined);
+  assert.deepEqual(
+    sortStoresByEta(stores, 4.5).map((store) => store.storeNo),
+    ["MID", "NEAR", "NOWAIT", "SHUT"]
+  );
+  assert.equal(pickFastestStore(stores, 4.5)?.storeNo, "MID");
+  assert.equal(pickFastestStore([stores[2] as StoreState, stores[3] as StoreState], 4.5), undefined);
+});
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  commitMenuVariantChoice,
+  createMenuVariantPickerState,
+  getMenuVariantStageChoices,
+  syncMenuVariantPicker
+} from "../src/lib/variant-picker.js";
+import type { ItemSkuOption, MenuItem } from "../src/types.js";
+
+const item: MenuItem = { spuId: "900001", name: "Jasmine Green Milk Tea", price: 5.9 };
+
+function option(skuId: string, specText: string, price: number): ItemSkuOption {
+  return { skuId, specText, price, specList: [], attributeList: [] };
+}
+
+const options: ItemSkuOption[] = [
+  option("910001", "Regular | Ice: Normal Ice", 5.9),
+  option("910002", "Large | Ice: Normal Ice", 6.7),
+  option("910003", "Large | Ice: No Ice", 6.7)
+];
+
+test("picker stages follow the variant dimensions and narrow by earlier choices", () => {
+  const picker = createMenuVariantPickerState({ item }, options);
+  assert.deepEqual(
+    picker.dimensions.map((dimension) => dimension.label),
+    ["Variant", "Ice"]
+  );
+  assert.deepEqual(
+    getMenuVariantStageChoices(picker).map((choice) => [choice.value, choice.priceText]),
+    [
+      ["Regular", "5.90"],
+      ["Large", "6.70"]
+    ]
+  );
+
+  const regular = commitMenuVariantChoice(picker, 0);
+  assert.equal(regular.mode, "advance");
+  if (regular.mode !== "advance") {
+    return;
+  }
+  assert.deepEqual(
+    getMenuVariantStageChoices(regular.picker).map((choice) => choice.value),
+    ["Normal Ice"]
+  );
+});
+
+test("committing the last stage yields the matching sku and back keeps earlier choices", () => {
+  const picker = createMenuVariantPickerState({ item }, options);
+  const large = commitMenuVariantChoice(picker, 1);
+  assert.equal(large.mode, "advance");
+  if (large.mode !== "advance") {
+    return;
+  }
+
+  const back = syncMenuVariantPicker({ ...large.picker, stageIndex: 0 });
+  assert.equal(back.stageIndex, 0);
+  assert.equal(getMenuVariantStageChoices(back)[back.choiceIndex]?.value, "Large");
+
+  const choices = getMenuVariantStageChoices(large.picker);
+  const noIce = choices.findIndex((choice) => choice.value === "No Ice");
+  assert.ok(noIce >= 0);
+  const done = commitMenuVariantChoice(large.picker, noIce);
+  assert.equal(done.mode, "add");
+  assert.equal(done.mode === "add" ? done.option.skuId : undefined, "910003");
+});
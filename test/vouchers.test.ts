@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildVoucherPromotionList,
+  findVoucher,
+  parseVoucherList,
+  toAppliedVoucher
+} from "../src/lib/vouchers.js";
+
+test("voucher list keeps usable and unusable coupons with their amounts", () => {
+  const vouchers = parseVoucherList({
+    couponList: [
+      { couponId: 11, couponCode: "TEA1OFF", couponName: "$1 off", discountAmount: "1.00" },
+      { couponId: "12", couponName: "Member 10%", reduceAmount: 2.5, minAmount: "15" }
+    ],
+    unusableCouponList: [
+      { couponId: "13", couponCode: "OLD", unusableReason: "Not valid at this store" },
+      { couponId: 11, couponCode: "TEA1OFF" }
+    ]
+  });
+  assert.deepEqual(
+    vouchers.map((voucher) => [voucher.id, voucher.code, voucher.discount, voucher.usable]),
+    [
+      ["11", "TEA1OFF", 1, true],
+      ["12", undefined, 2.5, true],
+      ["13", "OLD", undefined, false]
+    ]
+  );
+  assert.equal(vouchers[1]?.minSpend, 15);
+  assert.equal(vouchers[2]?.reason, "Not valid at this store");
+  assert.deepEqual(parseVoucherList(null), []);
+});
+
+test("vouchers resolve by index, id or code and flow into the promotion list", () => {
+  const vouchers = parseVoucherList([
+    { couponId: "CPN1", couponCode: "TEA1OFF", couponName: "$1 off" },
+    { couponId: "CPN2", couponCode: "BIG3OFF", couponName: "$3 off" }
+  ]);
+  assert.equal(findVoucher(vouchers, "2")?.id, "CPN2");
+  assert.equal(findVoucher(vouchers, "tea1off")?.id, "CPN1");
+  assert.equal(findVoucher(vouchers, "cpn2")?.code, "BIG3OFF");
+  assert.equal(findVoucher(vouchers, "NOPE"), undefined);
+
+  const applied = vouchers.map(toAppliedVoucher);
+  assert.deepEqual(buildVoucherPromotionList(applied)[0], {
+    promotionType: "COUPON",
+    couponId: "CPN1",
+    couponCode: "TEA1OFF",
+    selected: true
+  });
+  assert.deepEqual(buildVoucherPromotionList(undefined), []);
+});
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildStoreForecasts,
+  forecastWait,
+  parseForecastSort,
+  sortStoreForecasts
+} from "../src/lib/wait-forecast.js";
+import type { WaitSample } from "../src/lib/wait-history.js";
+
+function sample(storeNo: string, date: Date, waitingTime: number): WaitSample {
+  return { storeNo, at: date.toISOString(), waitingTime };
+}
+
+test("wait forecasts prefer the same weekday/hour, then the hour on any day, then the live wait", () => {
+  // 2026-10-19 is a Monday.
+  const target = new Date(2026, 9, 26, 15, 10);
+  const samples = [
+    sample("SGM001", new Date(2026, 9, 19, 15, 0), 12),
+    sample("SGM001", new Date(2026, 9, 19, 15, 30), 14),
+    sample("SGM001", new Date(2026, 9, 20, 15, 0), 2),
+    sample("SGM001", new Date(2026, 9, 21, 15, 0), 4)
+  ];
+
+  assert.deepEqual(forecastWait(samples, target, 30), {
+    expectedWait: 13,
+    basis: "weekday-hour",
+    samples: 2
+  });
+  assert.deepEqual(forecastWait(samples, new Date(2026, 9, 22, 15, 0), 30), {
+    expectedWait: 8,
+    basis: "hour",
+    samples: 4
+  });
+  assert.deepEqual(forecastWait(samples, new Date(2026, 9, 26, 9, 0), 30), {
+    expectedWait: 30,
+    basis: "live",
+    samples: 0
+  });
+  assert.equal(forecastWait([], target).basis, "none");
+});
+
+test("store forecasts rank by drink-in-hand time with closed stores last", () => {
+  const target = new Date(2026, 9, 26, 15, 0);
+
+  const samplesByStore = new Map([
+    [
+      "FAR",
+      [
+        sample("FAR", new Date(2026, 9, 19, 15, 0), 1),
+        sample("FAR", new Date(2026, 9, 19, 15, 20), 1)
+      ]
+    ]
+  ]);
+  const forecasts = buildStoreForecasts(
+    [
+      { storeNo: "NEAR", storeName: "Near", distanceMeters: 300, waitingTime: 25 },
+      { storeNo: "FAR", storeName: "Far", distanceMeters: 1500, waitingTime: 40 },
+      {
+        storeNo: "SHUT",
+        storeName: "Shut",
+        distanceMeters: 100,
+        waitingTime: 0,
+        runningStatusDesc: "Closed"
+      },
+      { storeNo: "NONE", storeName: "Unknown", distanceMeters: 200 }
+    ],
+    samplesByStore,
+    target,
+    4.5
+  );
+  const far = forecasts.find((entry) => entry.store.storeNo === "FAR");
+  assert.equal(far?.readyAt?.getTime(), target.getTime() + 20 * 60_000);
+
+  assert.deepEqual(
+    sortStoreForecasts(forecasts, "ready").map((entry) => entry.store.storeNo),
+    ["FAR", "NEAR", "NONE", "SHUT"]
+  );
+  assert.deepEqual(
+    sortStoreForecasts(forecasts, "distance").map((entry) => entry.store.storeNo),
+    ["NONE", "NEAR", "FAR", "SHUT"]
+  );
+  assert.equal(parseForecastSort(undefined), "ready");
+  assert.equal(parseForecastSort("cups"), undefined);
+});
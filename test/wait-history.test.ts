@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { appendFile, mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import {
+  appendWaitSamples,
+  buildBusynessProfile,
+  formatBucketSlot,
+  loadWaitSamples,
+  suggestBestTimes,
+  toWaitSamples,
+  waitHistoryFilePath
+} from "../src/lib/wait-history.js";
+import type { WaitSample } from "../src/lib/wait-history.js";
+
+async function withWaitHistoryHome(run: () => Promise<void>): Promise<void> {
+  const tempHome = await mkdtemp(join(tmpdir(), "chagee-wait-history-"));
+  const previous = process.env.CHAGEE_CLI_HOME;
+  process.env.CHAGEE_CLI_HOME = tempHome;
+  try {
+    await run();
+  } finally {
+    if (previous === undefined) {
+      delete process.env.CHAGEE_CLI_HOME;
+    } else {
+      process.env.CHAGEE_CLI_HOME = previous;
+    }
+  }
+}
+
+function sampleAt(date: Date, waitingTime: number, storeNo = "SGM001"): WaitSample {
+  return { storeNo, at: date.toISOString(), waitingTime, waitingCups: Math.floor(waitingTime / 2) };
+}
+
+test("wait samples append as JSON lines and skip torn lines on load", async () => {
+  await withWaitHistoryHome(async () => {
+    const at = new Date(2026, 9, 19, 12, 0, 0);
+    const samples = toWaitSamples(
+      [
+        { storeNo: "SGM001", storeName: "Orchard", waitingCups: 4, waitingTime: 6 },
+        { storeNo: "SGM002", storeName: "Raffles", waitingTime: 22 },
+        { storeNo: "SGM003", storeName: "Jurong" },
+        {
+          storeNo: "SGM004",
+          storeName: "Bugis",
+          runningStatusDesc: "Closed",
+          waitingCups: 0,
+          waitingTime: 0
+        }
+      ],
+      at
+    );
+    assert.deepEqual(
+      samples.map((sample) => sample.storeNo),
+      ["SGM001", "SGM002"]
+    );
+    await appendWaitSamples(samples);
+    await appendFile(waitHistoryFilePath(), '{"storeNo":"SGM0\n', "utf8");
+    await appendWaitSamples([sampleAt(new Date(2026, 9, 19, 13, 0, 0), 3)]);
+
+    const all = await loadWaitSamples();
+    assert.equal(all.length, 3);
+    const orchard = await loadWaitSamples("SGM001", new Date(2026, 9, 19, 12, 30, 0));
+    assert.deepEqual(
+      orchard.map((sample) => sample.waitingTime),
+      [3]
+    );
+  });
+});
+
+test("busyness profile uses medians per weekday/hour and suggests the quietest slot", () => {
+  const samples: WaitSample[] = [];
+  // Mondays 12:00 are busy, 15:00 quiet; Tuesday 10:00 has too few samples to count.
+  for (const day of [5, 12, 19]) {
+    samples.push(sampleAt(new Date(2026, 9, day, 12, 5), 15));
+    samples.push(sampleAt(new Date(2026, 9, day, 12, 35), day === 19 ? 40 : 14));
+    samples.push(sampleAt(new Date(2026, 9, day, 15, 10), 2));
+  }
+  samples.push(sampleAt(new Date(2026, 9, 13, 10, 0), 0));
+
+  const profile = buildBusynessProfile(samples);
+  assert.equal(profile.samples, 10);
+  const noon = profile.buckets.find((bucket) => bucket.weekday === 1 && bucket.hour === 12);
+  assert.equal(noon?.samples, 6);
+  assert.equal(noon?.medianWait, 15);
+
+  const now = new Date(2026, 9, 26, 9, 30);
+  const suggestion = suggestBestTimes(profile, now);
+  assert.ok(suggestion.best);
+  assert.equal(formatBucketSlot(suggestion.best), "Mon 15:00");
+  assert.equal(suggestion.next?.at.getHours(), 15);
+  assert.equal(suggestion.next?.at.getDate(), 26);
+
+  assert.equal(suggestBestTimes(buildBusynessProfile([]), now).best, undefined);
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  describeWatchAlertRule,
+  evaluateWatchAlertRule,
+  parseWatchAlertRule
+} from "../src/lib/watch-alerts.js";
+
+test("watch alert rules parse store, thresholds, open and once", () => {
+  const parsed = parseWatchAlertRule(["store=SGM001", "wait<=5", "cups<3", "open", "once"], "a1");
+  assert.ok(parsed.rule);
+  assert.equal(parsed.rule.storeNo, "SGM001");
+  assert.equal(parsed.rule.once, true);
+  assert.deepEqual(parsed.rule.conditions, [
+    { metric: "wait", op: "<=", value: 5 },
+    { metric: "cups", op: "<", value: 3 },
+    { metric: "open" }
+  ]);
+  assert.equal(describeWatchAlertRule(parsed.rule), "SGM001 wait<=5 cups<3 open");
+
+  assert.match(parseWatchAlertRule(["wait<=5"], "a2").error ?? "", /store=/);
+  assert.match(parseWatchAlertRule(["store=SGM001"], "a3").error ?? "", /at least one/);
+  assert.match(parseWatchAlertRule(["store=SGM001", "wait~5"], "a4").error ?? "", /wait~5/);
+});
+
+test("watch alert rules are met only when every condition holds", () => {
+  const parsed = parseWatchAlertRule(["store=SGM001", "wait<=5", "open"], "a1");
+  assert.ok(parsed.rule);
+  const rule = parsed.rule;
+
+  const busy = evaluateWatchAlertRule(rule, {
+    storeNo: "SGM001",
+    storeName: "Orchard",
+    waitingTime: 12,
+    waitingCups: 8
+  });
+  assert.equal(busy.met, false);
+  assert.equal(busy.seen, true);
+  assert.equal(busy.summary, "Orchard (SGM001): wait 12min, cups 8, open");
+
+  assert.equal(
+    evaluateWatchAlertRule(rule, { storeNo: "SGM001", storeName: "Orchard", waitingTime: 4 }).met,
+    true
+  );
+  assert.equal(
+    evaluateWatchAlertRule(rule, {
+      storeNo: "SGM001",
+      storeName: "Orchard",
+      waitingTime: 0,
+      runningStatusDesc: "Closed"
+    }).met,
+    false
+  );
+  assert.equal(evaluateWatchAlertRule(rule, { storeNo: "SGM001", storeName: "Orchard" }).met, false);
+
+  const missing = evaluateWatchAlertRule(rule, undefined);
+  assert.equal(missing.seen, false);
+  assert.equal(missing.met, false);
+});